@@ -1,35 +1,38 @@
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import * as semver from "semver";
-import type { OctokitClient } from "./github.js";
+import type { GitHost } from "./gitHost.js";
 import type { ExtensionUpdate, AutoMergeConfig, UpdateType, MergeMethod } from "./types.js";
 
 /**
- * Determines the type of version update based on semver
+ * Determines the type of version update based on semver.
+ * The type is the highest of major, minor and patch that differs; a prerelease counts as the release it leads to.
+ * A step between prereleases of the same release, such as 2.0.0-beta.1 → 2.0.0-beta.2, is a patch update,
+ * where semver.diff would report "prerelease". A move from a prerelease to a stable release is classed against
+ * the last stable release, so 2.0.0-beta.2 → 2.0.0 is a major update, as 1.x → 2.0.0 would be.
  */
 export function getUpdateType(currentVersion: string, latestVersion: string): UpdateType {
-	try {
-		const diff = semver.diff(currentVersion, latestVersion);
-
-		if (!diff) {
-			return "unknown";
-		}
+	const current = semver.parse(currentVersion);
+	const latest = semver.parse(latestVersion);
 
-		if (diff === "major" || diff === "premajor") {
-			return "major";
-		}
+	if (!current || !latest || semver.eq(current, latest)) {
+		return "unknown";
+	}
 
-		if (diff === "minor" || diff === "preminor") {
-			return "minor";
-		}
+	if (current.major !== latest.major) {
+		return "major";
+	}
 
-		if (diff === "patch" || diff === "prepatch") {
-			return "patch";
-		}
+	// The last stable release before X.Y.Z-pre differs from X.Y.Z at the lowest part that is not zero
+	const sinceStable = current.prerelease.length > 0 && latest.prerelease.length === 0;
+	if (sinceStable && current.minor === 0 && current.patch === 0) {
+		return "major";
+	}
 
-		return "unknown";
-	} catch {
-		return "unknown";
+	if (current.minor !== latest.minor || (sinceStable && current.patch === 0)) {
+		return "minor";
 	}
+
+	return "patch";
 }
 
 /**
@@ -56,67 +59,30 @@ export function shouldAutoMerge(update: ExtensionUpdate, config: AutoMergeConfig
 
 /**
  * Enables auto-merge on a pull request
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
 export async function enableAutoMerge(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	prNumber: number,
 	mergeMethod: MergeMethod,
+	logger: Logger = actionsLogger,
 ): Promise<void> {
+	const pr = `${host.pullRequestPrefix}${prNumber}`;
 	try {
-		core.info(`Enabling auto-merge for PR #${prNumber} with ${mergeMethod} method`);
-
-		// Use GraphQL API to enable auto-merge
-		// The REST API doesn't support auto-merge directly
-		const mutation = `
-			mutation EnableAutoMerge($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) {
-				enablePullRequestAutoMerge(input: {
-					pullRequestId: $pullRequestId
-					mergeMethod: $mergeMethod
-				}) {
-					pullRequest {
-						id
-						number
-						autoMergeRequest {
-							enabledAt
-							enabledBy {
-								login
-							}
-						}
-					}
-				}
-			}
-		`;
-
-		// First, get the PR node ID
-		const prData = await octokit.rest.pulls.get({
-			owner,
-			repo,
-			pull_number: prNumber,
-		});
+		logger.info(`Enabling auto-merge for PR ${pr} with ${mergeMethod} method`);
 
-		const pullRequestId = prData.data.node_id;
+		await host.enableAutoMerge(prNumber, mergeMethod);
 
-		// Convert merge method to GraphQL enum format
-		const mergeMethodEnum = mergeMethod.toUpperCase();
-
-		// Enable auto-merge using GraphQL
-		await octokit.graphql(mutation, {
-			pullRequestId,
-			mergeMethod: mergeMethodEnum,
-		});
-
-		core.info(`Successfully enabled auto-merge for PR #${prNumber}`);
+		logger.info(`Successfully enabled auto-merge for PR ${pr}`);
 	} catch (error) {
 		// Log the error but don't fail the action
-		core.warning(
-			`Failed to enable auto-merge for PR #${prNumber}: ${error instanceof Error ? error.message : String(error)}`,
+		logger.warning(
+			`Failed to enable auto-merge for PR ${pr}: ${error instanceof Error ? error.message : String(error)}`,
 		);
 
 		// Check if it's a permissions issue
 		if (error instanceof Error && error.message.includes("permissions")) {
-			core.warning(
+			logger.warning(
 				"Auto-merge requires the workflow to have write permissions for pull-requests. " +
 					"Please ensure your workflow has 'pull-requests: write' permission.",
 			);
@@ -126,44 +92,18 @@ export async function enableAutoMerge(
 
 /**
  * Checks if auto-merge is already enabled on a PR
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
 export async function isAutoMergeEnabled(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	prNumber: number,
+	logger: Logger = actionsLogger,
 ): Promise<boolean> {
 	try {
-		const query = `
-			query CheckAutoMerge($owner: String!, $repo: String!, $prNumber: Int!) {
-				repository(owner: $owner, name: $repo) {
-					pullRequest(number: $prNumber) {
-						autoMergeRequest {
-							enabledAt
-						}
-					}
-				}
-			}
-		`;
-
-		const result = await octokit.graphql<{
-			repository: {
-				pullRequest: {
-					autoMergeRequest: {
-						enabledAt: string;
-					} | null;
-				};
-			};
-		}>(query, {
-			owner,
-			repo,
-			prNumber,
-		});
-
-		return result.repository.pullRequest.autoMergeRequest !== null;
+		return await host.isAutoMergeEnabled(prNumber);
 	} catch (error) {
-		core.warning(
-			`Failed to check auto-merge status for PR #${prNumber}: ${error instanceof Error ? error.message : String(error)}`,
+		logger.warning(
+			`Failed to check auto-merge status for PR ${host.pullRequestPrefix}${prNumber}: ${error instanceof Error ? error.message : String(error)}`,
 		);
 		return false;
 	}
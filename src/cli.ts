@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { main } from "./commands.js";
+
+main().then((exitCode) => {
+	process.exitCode = exitCode;
+});
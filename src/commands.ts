@@ -0,0 +1,555 @@
+import * as github from "@actions/github";
+import { GitHub } from "@actions/github/lib/utils";
+import { parseArgs } from "util";
+import { parseInputs, type InputSource } from "./config.js";
+import { validateGitHost, validateProjectPath, validateRepository, validateScanDirectories } from "./validation.js";
+import { findUpdates, openUpdatePRs } from "./run.js";
+import { applyUpdates } from "./git.js";
+import { getUpdateType } from "./automerge.js";
+import { closeObsoletePRs, createGitHubHost, createIssueForUpdates, type OctokitClient } from "./github.js";
+import { createGitLabHost } from "./gitlab.js";
+import { createGiteaHost } from "./gitea.js";
+import type { GitHost } from "./gitHost.js";
+import type { PRProcessingResult } from "./prProcessor.js";
+import type { BlockedUpdate, DeferredUpdate, ExtensionUpdate, GitHostType, SkippedUpdate } from "./types.js";
+import { ValidationError } from "./errors.js";
+import { createConsoleLogger, type Logger } from "./logger.js";
+
+/** Subcommands of the command-line interface */
+export const CLI_COMMANDS = ["check", "update", "pr"] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+/** Flags taking a value, named after the action inputs they set */
+const STRING_FLAGS = [
+	"github-token",
+	"workspace-path",
+	"config-file",
+	"registry-url",
+	"base-branch",
+	"branch-prefix",
+	"pr-title-prefix",
+	"commit-message-prefix",
+	"pr-labels",
+	"open-pull-requests-limit",
+	"auto-merge-strategy",
+	"auto-merge-method",
+	"include-extensions",
+	"exclude-extensions",
+	"update-strategy",
+	"cooldown",
+	"rebase-strategy",
+	"commit-mode",
+	"installer",
+	"install-timeout",
+	"install-concurrency",
+	"pr-reviewers",
+	"pr-team-reviewers",
+	"pr-assignees",
+] as const;
+
+/** Flags switching an action input on, each with a `--no-` form switching it off */
+const BOOLEAN_FLAGS = [
+	"create-pr",
+	"auto-merge",
+	"group-updates",
+	"allow-prereleases",
+	"dry-run",
+	"create-issue",
+] as const;
+
+export const CLI_USAGE = `Usage: quarto-extensions-updater <command> [flags]
+
+Commands:
+  check            List the available updates
+  update           List the available updates; with --apply, install them in the working tree
+  pr               Open or update the pull requests for the available updates, as the action does
+
+Flags:
+  --apply          Install the updates, unless --dry-run is set (update only)
+  --json           Print the report as JSON
+  --verbose        Log debug messages
+  --repository     Repository to open pull requests on, as owner/repo (pr only; default: $GITHUB_REPOSITORY)
+  --host           Service hosting the repository: github, gitlab, or gitea (pr only; default: github)
+  --host-url       GitLab or Gitea API URL (default: $CI_API_V4_URL, then https://gitlab.com/api/v4;
+                   on Gitea: $GITEA_API_URL)
+  --host-token     GitLab or Gitea access token (default: $GITLAB_TOKEN or $GITEA_TOKEN)
+  -h, --help       Show this help
+
+Every action input is also a flag of the same name, such as --update-strategy minor or --dry-run,
+with --no-<name> to switch a true/false input off; --scan-directories can be repeated.
+The token is read from --github-token, $GITHUB_TOKEN, or $GH_TOKEN; it is required by pr on GitHub only.
+Without it, the releases and notes of the extensions are read from GitHub anonymously, at a lower rate limit.
+On GitLab, --repository is the project path, default: $CI_PROJECT_PATH.
+`;
+
+/**
+ * Parsed command line
+ */
+export interface CliArgs {
+	command: CliCommand;
+	/** Install the updates in the working tree (update only) */
+	apply: boolean;
+	/** Print the report as JSON rather than text */
+	json: boolean;
+	/** Log debug messages */
+	verbose: boolean;
+	/** Repository to open pull requests on, as owner/repo or, on GitLab, the project path */
+	repository: string | undefined;
+	/** Service hosting the repository */
+	host: GitHostType;
+	/** GitLab or Gitea API URL */
+	hostUrl: string | undefined;
+	/** GitLab or Gitea access token */
+	hostToken: string | undefined;
+	/** The settings given as flags, read like the action inputs */
+	inputs: InputSource;
+}
+
+/**
+ * Outcome of a command, printed as text or JSON
+ */
+export interface CliReport {
+	command: CliCommand;
+	updates: ExtensionUpdate[];
+	blockedUpdates: BlockedUpdate[];
+	deferredUpdates: DeferredUpdate[];
+	/** Updates installed in the working tree or proposed in a pull request */
+	appliedUpdates?: ExtensionUpdate[];
+	skippedUpdates?: SkippedUpdate[];
+	/** Updates left for a later run because open-pull-requests-limit was reached */
+	limitedUpdates?: BlockedUpdate[];
+	modifiedFiles?: string[];
+	deletedFiles?: string[];
+	pullRequests?: PRProcessingResult[];
+	/** Numbers of the update PRs closed as no longer needed */
+	closedPRs?: number[];
+	issue?: { number: number; url: string };
+	dryRun?: boolean;
+}
+
+type FlagValues = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+/**
+ * Reads the settings given as flags through the same interface as the action inputs,
+ * so that they are merged over the configuration file and validated in the same way
+ * @param values The parsed flag values
+ * @param env The environment, for the token fallback
+ * @param tokenRequired Whether a missing token fails as the action input does (default: true)
+ * @returns The flags as an input source
+ */
+export function createFlagInputs(values: FlagValues, env: NodeJS.ProcessEnv, tokenRequired = true): InputSource {
+	const read = (name: string): string => {
+		const value = values[name];
+		if (Array.isArray(value)) {
+			return value.join("\n");
+		}
+		if (value !== undefined) {
+			return String(value);
+		}
+		if (values[`no-${name}`] === true) {
+			return "false";
+		}
+		if (name === "github-token") {
+			return env.GITHUB_TOKEN || env.GH_TOKEN || "";
+		}
+		return "";
+	};
+
+	return {
+		getInput(name, options) {
+			const value = read(name);
+			if (options?.required && value === "" && (name !== "github-token" || tokenRequired)) {
+				throw new ValidationError(`Missing required flag: --${name}`, name, value);
+			}
+			return value;
+		},
+		getBooleanInput(name) {
+			const value = read(name);
+			if (value === "true" || value === "false") {
+				return value === "true";
+			}
+			throw new TypeError(`Flag --${name} must be true or false`);
+		},
+	};
+}
+
+/**
+ * Environment variables the repository, API URL, and token default to, for each host; Gitea and Forgejo Actions
+ * set GITHUB_REPOSITORY as GitHub Actions does
+ */
+const HOST_ENVIRONMENT: Record<GitHostType, { repository: string; url?: string; token?: string }> = {
+	github: { repository: "GITHUB_REPOSITORY" },
+	gitlab: { repository: "CI_PROJECT_PATH", url: "CI_API_V4_URL", token: "GITLAB_TOKEN" },
+	gitea: { repository: "GITHUB_REPOSITORY", url: "GITEA_API_URL", token: "GITEA_TOKEN" },
+};
+
+/**
+ * Parses the command line
+ * @param argv The arguments after the program name
+ * @param env The environment, for the token and repository fallbacks
+ * @returns The command, its options, and the settings given as flags
+ * @throws ValidationError if the command is unknown or flags conflict
+ * @throws TypeError if a flag is unknown or misses its value
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliArgs {
+	const options: NonNullable<Parameters<typeof parseArgs>[0]>["options"] = {
+		apply: { type: "boolean" },
+		json: { type: "boolean" },
+		verbose: { type: "boolean" },
+		repository: { type: "string" },
+		host: { type: "string" },
+		"host-url": { type: "string" },
+		"host-token": { type: "string" },
+		"scan-directories": { type: "string", multiple: true },
+	};
+	for (const name of STRING_FLAGS) {
+		options[name] = { type: "string" };
+	}
+	for (const name of BOOLEAN_FLAGS) {
+		options[name] = { type: "boolean" };
+		options[`no-${name}`] = { type: "boolean" };
+	}
+
+	const { values, positionals } = parseArgs({ args: argv, options, allowPositionals: true });
+
+	const [command, ...extra] = positionals;
+	if (!CLI_COMMANDS.includes(command as CliCommand)) {
+		throw new ValidationError(
+			`Unknown command: '${command ?? ""}'. Must be one of: ${CLI_COMMANDS.join(", ")}`,
+			"command",
+			command,
+		);
+	}
+	if (extra.length > 0) {
+		throw new ValidationError(`Unexpected argument: '${extra[0]}'`, "command", extra[0]);
+	}
+
+	for (const name of BOOLEAN_FLAGS) {
+		if (values[name] !== undefined && values[`no-${name}`] !== undefined) {
+			throw new ValidationError(`Flags --${name} and --no-${name} cannot be used together`, name, true);
+		}
+	}
+
+	const apply = values.apply === true;
+	if (apply && command !== "update") {
+		throw new ValidationError("Flag --apply only applies to the update command", "apply", true);
+	}
+
+	const host = typeof values.host === "string" ? values.host : "github";
+	validateGitHost(host);
+
+	const flag = (name: string): string | undefined => (typeof values[name] === "string" ? values[name] : undefined);
+	const hostEnv = HOST_ENVIRONMENT[host];
+	const repository = flag("repository") ?? (env[hostEnv.repository] || undefined);
+
+	return {
+		command: command as CliCommand,
+		apply,
+		json: values.json === true,
+		verbose: values.verbose === true,
+		repository,
+		host,
+		hostUrl: flag("host-url") ?? ((hostEnv.url && env[hostEnv.url]) || undefined),
+		hostToken: flag("host-token") ?? ((hostEnv.token && env[hostEnv.token]) || undefined),
+		inputs: createFlagInputs(values, env, command === "pr" && host === "github"),
+	};
+}
+
+/**
+ * Creates the GitHub API client
+ * @param token GitHub token, or an empty string to read public repositories anonymously
+ * @returns The API client
+ */
+function createOctokit(token: string): OctokitClient {
+	return token ? github.getOctokit(token) : new GitHub();
+}
+
+/**
+ * Creates the host of the repository given on the command line
+ * @param args The parsed command line, with a repository
+ * @param octokit GitHub API client, reused for a GitHub repository
+ * @param logger Where the host's warnings are logged
+ * @returns The host to open pull requests on
+ * @throws ValidationError if the repository is invalid, or the GitLab or Gitea token or the Gitea API URL is missing
+ */
+function createHost(args: CliArgs, octokit: OctokitClient, logger: Logger): GitHost {
+	const repository = args.repository ?? "";
+	if (args.host === "github") {
+		validateRepository(repository, "repository");
+		const [owner, repo] = repository.split("/");
+		return createGitHubHost(octokit, owner, repo);
+	}
+
+	if (args.host === "gitea") {
+		validateRepository(repository, "repository");
+		if (!args.hostUrl) {
+			throw new ValidationError("Missing Gitea API URL: pass --host-url or set GITEA_API_URL", "host-url", "");
+		}
+		if (!args.hostToken) {
+			throw new ValidationError("Missing Gitea token: pass --host-token or set GITEA_TOKEN", "host-token", "");
+		}
+		return createGiteaHost({ repository, token: args.hostToken, apiUrl: args.hostUrl, logger });
+	}
+
+	validateProjectPath(repository, "repository");
+	if (!args.hostToken) {
+		throw new ValidationError("Missing GitLab token: pass --host-token or set GITLAB_TOKEN", "host-token", "");
+	}
+	return createGitLabHost({ project: repository, token: args.hostToken, apiUrl: args.hostUrl, logger });
+}
+
+/**
+ * Runs a command: finds the updates, then installs them or opens pull requests as the command asks
+ * @param args The parsed command line
+ * @param logger Where progress and warnings are logged
+ * @returns The report of what was found and done
+ */
+export async function runCommand(args: CliArgs, logger: Logger): Promise<CliReport> {
+	const config = parseInputs(args.inputs, logger);
+	validateScanDirectories(config.scanDirectories, config.workspacePath);
+
+	if (args.command === "pr" && !args.repository) {
+		throw new ValidationError(
+			args.host === "gitlab"
+				? "Missing repository: pass --repository group/project or set CI_PROJECT_PATH"
+				: "Missing repository: pass --repository owner/repo or set GITHUB_REPOSITORY",
+			"repository",
+			args.repository,
+		);
+	}
+
+	const octokit = createOctokit(config.githubToken);
+	const host = args.command === "pr" ? createHost(args, octokit, logger) : undefined;
+	const { updates, blockedUpdates, deferredUpdates, installed } = await findUpdates(octokit, config, logger);
+	const report: CliReport = { command: args.command, updates, blockedUpdates, deferredUpdates };
+
+	if (args.command === "update" && args.apply && updates.length > 0) {
+		if (config.dryRun) {
+			report.dryRun = true;
+			return report;
+		}
+		const { modifiedFiles, deletedFiles, skippedUpdates } = await applyUpdates(
+			updates,
+			{
+				installer: config.installer,
+				timeoutMs: config.installTimeout * 1000,
+				concurrency: config.installConcurrency,
+			},
+			logger,
+		);
+		const skippedNames = new Set(skippedUpdates.map((s) => s.update.nameWithOwner));
+		report.appliedUpdates = updates.filter((u) => !skippedNames.has(u.nameWithOwner));
+		report.skippedUpdates = skippedUpdates;
+		report.modifiedFiles = modifiedFiles;
+		report.deletedFiles = deletedFiles;
+	}
+
+	if (!host) {
+		return report;
+	}
+
+	if (!config.dryRun && config.createPR) {
+		report.closedPRs = await closeObsoletePRs(host, config.branchPrefix, config.baseBranch, installed, logger);
+	}
+
+	if (updates.length === 0) {
+		return report;
+	}
+
+	if (config.dryRun) {
+		report.dryRun = true;
+		if (config.createIssue) {
+			report.issue = await createIssueForUpdates(
+				host,
+				updates,
+				config.groupUpdates,
+				config.updateStrategy,
+				config.filterConfig,
+				config.autoMergeConfig,
+				blockedUpdates,
+				deferredUpdates,
+				logger,
+			);
+		}
+		return report;
+	}
+
+	if (!config.createPR) {
+		return report;
+	}
+
+	const { createdPRs, skippedUpdates, limitedUpdates } = await openUpdatePRs(host, octokit, config, updates, logger);
+	const skippedNames = new Set([...skippedUpdates, ...limitedUpdates].map((s) => s.update.nameWithOwner));
+	report.appliedUpdates = updates.filter((u) => !skippedNames.has(u.nameWithOwner));
+	report.pullRequests = createdPRs;
+	report.skippedUpdates = skippedUpdates;
+	report.limitedUpdates = limitedUpdates;
+
+	return report;
+}
+
+/**
+ * Summarises an update for the JSON report
+ */
+function summariseUpdate(update: ExtensionUpdate): Record<string, string> {
+	return {
+		name: update.nameWithOwner,
+		currentVersion: update.currentVersion,
+		latestVersion: update.latestVersion,
+		updateType: getUpdateType(update.currentVersion, update.latestVersion),
+	};
+}
+
+/**
+ * Formats a report as JSON; sections a command does not produce are left out
+ * @param report The command report
+ * @returns The JSON document, with a trailing newline
+ */
+export function formatJsonReport(report: CliReport): string {
+	const document = {
+		command: report.command,
+		dryRun: report.dryRun,
+		updates: report.updates.map(summariseUpdate),
+		blockedUpdates: report.blockedUpdates.map((b) => ({
+			...summariseUpdate(b.update),
+			reason: b.reason,
+			rule: b.rule,
+		})),
+		deferredUpdates: report.deferredUpdates.map((d) => ({
+			...summariseUpdate(d.update),
+			releaseDate: d.releaseDate,
+			eligibleDate: d.eligibleDate,
+		})),
+		appliedUpdates: report.appliedUpdates?.map(summariseUpdate),
+		skippedUpdates: report.skippedUpdates?.map((s) => ({ ...summariseUpdate(s.update), reason: s.reason })),
+		limitedUpdates: report.limitedUpdates?.map((l) => ({ ...summariseUpdate(l.update), reason: l.reason })),
+		modifiedFiles: report.modifiedFiles,
+		deletedFiles: report.deletedFiles,
+		pullRequests: report.pullRequests?.map(({ number, url, extensions }) => ({ number, url, extensions })),
+		closedPRs: report.closedPRs,
+		issue: report.issue,
+	};
+
+	return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Formats one update as a line of the text report
+ */
+function formatUpdateLine(update: ExtensionUpdate, detail?: string): string {
+	const line = `  ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`;
+	return detail ? `${line} (${detail})` : line;
+}
+
+/**
+ * Formats a report as text for a terminal
+ * @param report The command report
+ * @returns The text, with a trailing newline
+ */
+export function formatTextReport(report: CliReport): string {
+	const lines: string[] = [];
+
+	if (report.updates.length === 0) {
+		lines.push("All extensions are up to date.");
+	} else {
+		lines.push(`Available updates (${report.updates.length}):`);
+		for (const update of report.updates) {
+			lines.push(formatUpdateLine(update, getUpdateType(update.currentVersion, update.latestVersion)));
+		}
+	}
+
+	if (report.blockedUpdates.length > 0) {
+		lines.push("", `Held back (${report.blockedUpdates.length}):`);
+		for (const blocked of report.blockedUpdates) {
+			lines.push(formatUpdateLine(blocked.update, blocked.reason));
+		}
+	}
+
+	if (report.deferredUpdates.length > 0) {
+		lines.push("", `Deferred by the cooldown (${report.deferredUpdates.length}):`);
+		for (const deferred of report.deferredUpdates) {
+			lines.push(formatUpdateLine(deferred.update, `eligible on ${deferred.eligibleDate.slice(0, 10)}`));
+		}
+	}
+
+	if (report.command === "update" && !report.appliedUpdates && !report.dryRun && report.updates.length > 0) {
+		lines.push("", "Run with --apply to install these updates.");
+	}
+
+	if (report.command === "update" && report.appliedUpdates) {
+		lines.push(
+			"",
+			`Applied ${report.appliedUpdates.length} update(s): ` +
+				`${report.modifiedFiles?.length ?? 0} file(s) added or changed, ${report.deletedFiles?.length ?? 0} removed.`,
+		);
+	}
+
+	if (report.pullRequests) {
+		lines.push("", `Pull requests created or updated (${report.pullRequests.length}):`);
+		for (const pr of report.pullRequests) {
+			lines.push(`  #${pr.number} ${pr.url} (${pr.extensions.join(", ")})`);
+		}
+	}
+
+	if (report.limitedUpdates && report.limitedUpdates.length > 0) {
+		lines.push("", `Deferred by open-pull-requests-limit (${report.limitedUpdates.length}):`);
+		for (const limited of report.limitedUpdates) {
+			lines.push(formatUpdateLine(limited.update));
+		}
+	}
+
+	if (report.skippedUpdates && report.skippedUpdates.length > 0) {
+		lines.push("", `Skipped (${report.skippedUpdates.length}):`);
+		for (const skipped of report.skippedUpdates) {
+			lines.push(formatUpdateLine(skipped.update, skipped.reason));
+		}
+	}
+
+	if (report.closedPRs && report.closedPRs.length > 0) {
+		lines.push(
+			"",
+			`Closed ${report.closedPRs.length} PR(s) no longer needed: ${report.closedPRs.map((n) => `#${n}`).join(", ")}`,
+		);
+	}
+
+	if (report.dryRun) {
+		lines.push(
+			"",
+			report.command === "update" ? "Dry run: no updates were installed." : "Dry run: no pull requests were created.",
+		);
+	}
+
+	if (report.issue) {
+		lines.push("", `Issue created: ${report.issue.url}`);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Runs the command-line interface.
+ * The report goes to stdout and the progress log to stderr, so that the report, JSON in particular, can be piped.
+ * @param argv The arguments after the program name
+ * @param env The environment
+ * @returns The exit code: 0 on success, 1 on failure
+ */
+export async function main(
+	argv: string[] = process.argv.slice(2),
+	env: NodeJS.ProcessEnv = process.env,
+): Promise<number> {
+	if (argv.length === 0 || argv.includes("--help") || argv.includes("-h")) {
+		process.stdout.write(CLI_USAGE);
+		return 0;
+	}
+
+	try {
+		const args = parseCliArgs(argv, env);
+		const report = await runCommand(args, createConsoleLogger({ verbose: args.verbose }));
+		process.stdout.write(args.json ? formatJsonReport(report) : formatTextReport(report));
+		return 0;
+	} catch (error) {
+		process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+		return 1;
+	}
+}
@@ -0,0 +1,151 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import type { OctokitClient } from "./github.js";
+import type { CommitTrackedExtension, ExtensionUpdate, TrackedCommit } from "./types.js";
+import { isCommitSha } from "./extensions.js";
+import { COMMIT_LIST_LIMIT, GITHUB_BASE_URL, SHORT_SHA_LENGTH } from "./constants.js";
+
+/**
+ * Abbreviates a commit SHA for display
+ * @param sha The full or abbreviated SHA
+ * @returns The first SHORT_SHA_LENGTH characters
+ */
+export function shortenSha(sha: string): string {
+	return sha.slice(0, SHORT_SHA_LENGTH);
+}
+
+/**
+ * Resolves the branch a commit-tracked extension follows: the rule's branch, the source branch,
+ * or the repository's default branch for an extension pinned to a SHA
+ */
+async function resolveTrackedBranch(
+	octokit: OctokitClient,
+	owner: string,
+	repo: string,
+	extension: CommitTrackedExtension,
+): Promise<string> {
+	if (extension.branch) {
+		return extension.branch;
+	}
+
+	if (!isCommitSha(extension.ref)) {
+		return extension.ref;
+	}
+
+	const { data: repository } = await octokit.rest.repos.get({ owner, repo });
+	return repository.default_branch;
+}
+
+/**
+ * Checks a commit-tracked extension for commits newer than the one it is pinned to
+ * @returns The update to the latest commit on the tracked branch, or null if there is none
+ */
+async function checkCommitTrackedExtension(
+	octokit: OctokitClient,
+	extension: CommitTrackedExtension,
+	logger: Logger,
+): Promise<ExtensionUpdate | null> {
+	const [owner, repo] = extension.repositoryName.split("/");
+	const branch = await resolveTrackedBranch(octokit, owner, repo, extension);
+
+	const { data: head } = await octokit.rest.repos.getBranch({ owner, repo, branch });
+	const latestSha = head.commit.sha;
+
+	const update: ExtensionUpdate = {
+		name: extension.name,
+		owner: extension.owner,
+		nameWithOwner: extension.nameWithOwner,
+		repositoryName: extension.repositoryName,
+		currentVersion: extension.ref,
+		latestVersion: shortenSha(latestSha),
+		manifestPath: extension.manifestPath,
+		url: extension.url,
+		releaseUrl: `${GITHUB_BASE_URL}/${extension.repositoryName}/commit/${latestSha}`,
+		description: extension.description,
+		rule: extension.rule,
+	};
+
+	// Installed from the branch itself: the installed commit is unknown, so pin the current head
+	if (!isCommitSha(extension.ref)) {
+		logger.info(`${extension.nameWithOwner} follows ${branch}, pinning it to ${shortenSha(latestSha)}`);
+		return { ...update, commit: { branch, latestSha, commits: [], totalCommits: 0 } };
+	}
+
+	if (latestSha.startsWith(extension.ref.toLowerCase())) {
+		logger.info(`${extension.nameWithOwner} is up to date with ${branch} (${shortenSha(latestSha)})`);
+		return null;
+	}
+
+	const { data: comparison } = await octokit.rest.repos.compareCommits({
+		owner,
+		repo,
+		base: extension.ref,
+		head: latestSha,
+	});
+
+	if (comparison.status !== "ahead") {
+		logger.warning(
+			`Skipping ${extension.nameWithOwner}: pinned commit ${shortenSha(extension.ref)} is ${comparison.status} ` +
+				`compared with ${branch}, so it cannot be moved forward`,
+		);
+		return null;
+	}
+
+	const commits: TrackedCommit[] = comparison.commits
+		.slice(-COMMIT_LIST_LIMIT)
+		.reverse()
+		.map((commit) => ({
+			sha: commit.sha,
+			message: commit.commit.message.split("\n")[0],
+			author: commit.author?.login ?? commit.commit.author?.name ?? undefined,
+			url: commit.html_url,
+		}));
+
+	logger.info(
+		`Update available for ${extension.nameWithOwner}: ${shortenSha(extension.ref)} → ${shortenSha(latestSha)} ` +
+			`(${comparison.ahead_by} new commit(s) on ${branch})`,
+	);
+
+	return {
+		...update,
+		currentVersion: shortenSha(extension.ref),
+		commit: {
+			branch,
+			currentSha: extension.ref,
+			latestSha,
+			compareUrl: comparison.html_url,
+			commits,
+			totalCommits: comparison.ahead_by,
+		},
+	};
+}
+
+/**
+ * Resolves updates for extensions installed from a branch or a commit SHA.
+ * Each one follows a branch, and its update moves the pinned SHA to the branch's latest commit.
+ * An extension installed from the branch itself is pinned to the branch's current head.
+ * Extensions that cannot be checked are reported as warnings and left out.
+ * @param octokit GitHub API client
+ * @param extensions Commit-tracked extensions found by checkForUpdates
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns Updates carrying the commit details
+ */
+export async function checkForCommitUpdates(
+	octokit: OctokitClient,
+	extensions: CommitTrackedExtension[],
+	logger: Logger = actionsLogger,
+): Promise<ExtensionUpdate[]> {
+	const updates: ExtensionUpdate[] = [];
+
+	for (const extension of extensions) {
+		try {
+			const update = await checkCommitTrackedExtension(octokit, extension, logger);
+			if (update) {
+				updates.push(update);
+			}
+		} catch (error) {
+			logger.warning(`Could not check ${extension.nameWithOwner} for new commits: ${error}`);
+		}
+	}
+
+	return updates;
+}
@@ -0,0 +1,219 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import * as semver from "semver";
+import type { OctokitClient } from "./github.js";
+import type { ExtensionData, ExtensionUpdate } from "./types.js";
+import { parseExtensionManifest } from "./extensions.js";
+import { HTTP_NOT_FOUND, QUARTO_MANIFEST_FILENAMES, RELEASES_PER_PAGE } from "./constants.js";
+
+/**
+ * A published release of an extension repository
+ */
+export interface ExtensionRelease {
+	tag: string;
+	url: string;
+}
+
+/**
+ * Where the releases of an extension and their manifests come from, to check `quarto-required` before installing.
+ * Programs embedding the updater can pass their own, to read a mirror or a fixture instead of the GitHub API.
+ */
+export interface ReleaseSource {
+	/**
+	 * Published releases of a repository, as owner/repo, newest first.
+	 * With `since`, the listing may stop once it reaches releases at or below that version.
+	 */
+	listReleases(repository: string, since?: string): Promise<ExtensionRelease[]>;
+	/** Manifest of an extension at a tag, or null if the release has no manifest for it */
+	fetchManifest(repository: string, tag: string, owner: string, name: string): Promise<ExtensionData | null>;
+}
+
+/**
+ * Where the releases of an extension come from, and the installed Quarto version they are checked against
+ */
+export interface QuartoCompatibility {
+	/** The installed Quarto version, or null if Quarto is not installed and `quarto-required` is not checked */
+	quartoVersion: string | null;
+	releases: ReleaseSource;
+}
+
+/**
+ * Checks whether the installed Quarto version satisfies a required version
+ * @param quartoVersion The installed Quarto version
+ * @param requiredVersion The minimum required Quarto version from extension manifest
+ * @returns True if the installed version satisfies the requirement
+ */
+export function satisfiesQuartoRequirement(quartoVersion: string, requiredVersion: string): boolean {
+	const installed = semver.coerce(quartoVersion);
+	const required = semver.coerce(requiredVersion);
+
+	if (!installed || !required) {
+		return true;
+	}
+
+	return semver.gte(installed, required);
+}
+
+/**
+ * Reads the semantic version a release tag names
+ * @param tag The release tag, with or without a leading "v"
+ * @returns The version, or null if the tag is not one
+ */
+function releaseVersion(tag: string): string | null {
+	return semver.valid(tag.trim().replace(/^v/, ""));
+}
+
+/**
+ * Creates the release source reading releases and manifests through the GitHub REST API.
+ * Releases are read a page at a time, up to the first page that reaches the version they are listed since.
+ * The manifest is looked for where `quarto add` looks: `_extensions/owner/name`, then `_extensions/name`.
+ * @param octokit GitHub API client
+ * @returns The release source
+ */
+export function createGitHubReleaseSource(octokit: OctokitClient): ReleaseSource {
+	return {
+		async listReleases(repository, since) {
+			const [owner, repo] = repository.split("/");
+			const sinceVersion = since ? releaseVersion(since) : null;
+			const releases = await octokit.paginate(
+				octokit.rest.repos.listReleases,
+				{ owner, repo, per_page: RELEASES_PER_PAGE },
+				(response, done) => {
+					const reached = (tag: string) => {
+						const version = releaseVersion(tag);
+						return version !== null && sinceVersion !== null && semver.lte(version, sinceVersion);
+					};
+					if (response.data.some((release) => reached(release.tag_name))) {
+						done();
+					}
+					return response.data;
+				},
+			);
+			return releases
+				.filter((release) => !release.draft)
+				.map((release) => ({ tag: release.tag_name, url: release.html_url }));
+		},
+
+		async fetchManifest(repository, tag, owner, name) {
+			const [repoOwner, repo] = repository.split("/");
+			for (const directory of [`_extensions/${owner}/${name}`, `_extensions/${name}`]) {
+				for (const filename of QUARTO_MANIFEST_FILENAMES) {
+					try {
+						const { data } = await octokit.rest.repos.getContent({
+							owner: repoOwner,
+							repo,
+							path: `${directory}/${filename}`,
+							ref: tag,
+						});
+						if (!Array.isArray(data) && "content" in data) {
+							return parseExtensionManifest(Buffer.from(data.content, "base64").toString("utf-8"));
+						}
+					} catch (error) {
+						if ((error as { status?: unknown }).status !== HTTP_NOT_FOUND) {
+							throw error;
+						}
+					}
+				}
+			}
+			return null;
+		},
+	};
+}
+
+/**
+ * Checks the `quarto-required` of an extension at a release, from its manifest, before anything is installed.
+ * A manifest that cannot be read holds the release back, as nothing checks it after the install.
+ * @param update The extension update
+ * @param tag The release to check
+ * @param compatibility The installed Quarto version and where the manifests come from
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns Why the installed Quarto is too old for the release, or null if it is not
+ */
+export async function checkQuartoRequirement(
+	update: ExtensionUpdate,
+	tag: string,
+	compatibility: QuartoCompatibility,
+	logger: Logger = actionsLogger,
+): Promise<string | null> {
+	const { quartoVersion } = compatibility;
+	if (!quartoVersion) {
+		return null;
+	}
+
+	try {
+		const manifest = await compatibility.releases.fetchManifest(update.repositoryName, tag, update.owner, update.name);
+		if (!manifest) {
+			logger.debug(`No manifest for ${update.nameWithOwner} in ${update.repositoryName}@${tag}`);
+			return `the manifest of version ${tag} could not be read to check quarto-required`;
+		}
+
+		const required = manifest.quartoRequired;
+		if (!required || satisfiesQuartoRequirement(quartoVersion, required)) {
+			return null;
+		}
+		return `version ${tag} requires Quarto ${required} but ${quartoVersion} is installed`;
+	} catch (error) {
+		logger.warning(`Could not check quarto-required of ${update.nameWithOwner} ${tag} before installing: ${error}`);
+		return `the manifest of version ${tag} could not be read to check quarto-required`;
+	}
+}
+
+/**
+ * Walks the releases of an extension between the installed version and the latest one, newest first,
+ * for the highest version the update rules allow and the installed Quarto supports.
+ * When Quarto is installed, releases whose manifest cannot be read are passed over.
+ * @param update The update to the latest release
+ * @param compatibility Where the releases come from, and the installed Quarto version
+ * @param isAllowed Whether the update rules allow moving to a version
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The release, or null if none satisfies every constraint
+ */
+export async function findFallbackRelease(
+	update: ExtensionUpdate,
+	compatibility: QuartoCompatibility,
+	isAllowed: (version: string) => boolean,
+	logger: Logger = actionsLogger,
+): Promise<ExtensionRelease | null> {
+	const current = releaseVersion(update.currentVersion);
+	const latest = releaseVersion(update.latestVersion);
+	if (!current || !latest) {
+		return null;
+	}
+
+	let releases: ExtensionRelease[];
+	try {
+		releases = await compatibility.releases.listReleases(update.repositoryName, update.currentVersion);
+	} catch (error) {
+		logger.warning(`Could not list the releases of ${update.repositoryName}: ${error}`);
+		return null;
+	}
+
+	const candidates = releases
+		.filter((release) => {
+			const candidate = releaseVersion(release.tag);
+			return candidate && semver.gt(candidate, current) && semver.lt(candidate, latest) && isAllowed(release.tag);
+		})
+		.sort((a, b) => semver.rcompare(releaseVersion(a.tag) ?? "0.0.0", releaseVersion(b.tag) ?? "0.0.0"));
+
+	for (const release of candidates) {
+		if (!compatibility.quartoVersion) {
+			return release;
+		}
+
+		const manifest = await compatibility.releases
+			.fetchManifest(update.repositoryName, release.tag, update.owner, update.name)
+			.catch((error: unknown) => {
+				logger.debug(`Could not read the manifest of ${update.repositoryName}@${release.tag}: ${error}`);
+				return null;
+			});
+		if (!manifest) {
+			logger.debug(`${update.repositoryName}@${release.tag} has no manifest for ${update.nameWithOwner}`);
+			continue;
+		}
+		if (!manifest.quartoRequired || satisfiesQuartoRequirement(compatibility.quartoVersion, manifest.quartoRequired)) {
+			return release;
+		}
+		logger.debug(`${update.repositoryName}@${release.tag} requires Quarto ${manifest.quartoRequired}`);
+	}
+
+	return null;
+}
@@ -1,12 +1,19 @@
 import * as core from "@actions/core";
+import * as path from "path";
 import {
 	validateAutoMergeStrategy,
 	validateMergeMethod,
 	validateUpdateStrategy,
+	validateRebaseStrategy,
+	validateCommitMode,
+	validateInstaller,
 	validateRegistryUrl,
 	validateBranchPrefix,
+	validateExtensionFilter,
 	parseCommaSeparatedList,
 	parseNewlineSeparatedList,
+	parseCooldown,
+	parseWholeNumber,
 } from "./validation.js";
 import {
 	DEFAULT_BASE_BRANCH,
@@ -14,12 +21,27 @@ import {
 	DEFAULT_PR_TITLE_PREFIX,
 	DEFAULT_COMMIT_MESSAGE_PREFIX,
 	DEFAULT_PR_LABELS,
-	LABEL_SEPARATOR,
+	DEFAULT_CONFIG_FILE,
+	DEFAULT_INSTALL_TIMEOUT_MS,
+	DEFAULT_INSTALL_CONCURRENCY,
 } from "./constants.js";
-import type { AutoMergeConfig, ExtensionFilterConfig, UpdateStrategy, PRAssignmentConfig } from "./types.js";
+import { loadConfigFile, type FileConfig } from "./configFile.js";
+import { actionsLogger, type Logger } from "./logger.js";
+import type {
+	AutoMergeConfig,
+	CooldownConfig,
+	ExtensionFilterConfig,
+	ExtensionRule,
+	UpdateGroupRule,
+	UpdateStrategy,
+	RebaseStrategy,
+	CommitMode,
+	ExtensionInstaller,
+	PRAssignmentConfig,
+} from "./types.js";
 
 /**
- * Application configuration parsed from GitHub Actions inputs
+ * Application configuration parsed from GitHub Actions inputs or command-line flags, and the repository configuration file
  */
 export interface AppConfig {
 	githubToken: string;
@@ -32,45 +54,118 @@ export interface AppConfig {
 	prTitlePrefix: string;
 	commitMessagePrefix: string;
 	prLabels: string[];
+	/** Most open update PRs at once, or undefined for no limit */
+	openPullRequestsLimit: number | undefined;
 	autoMergeConfig: AutoMergeConfig;
 	filterConfig: ExtensionFilterConfig;
+	extensionRules: ExtensionRule[];
 	groupUpdates: boolean;
+	groupRules: UpdateGroupRule[];
 	updateStrategy: UpdateStrategy;
+	allowPrereleases: boolean;
+	cooldown: CooldownConfig;
+	rebaseStrategy: RebaseStrategy;
+	commitMode: CommitMode;
+	installer: ExtensionInstaller;
+	/** Time one `quarto add` may take before it is stopped, in seconds */
+	installTimeout: number;
+	/** Most projects installed into at once */
+	installConcurrency: number;
 	dryRun: boolean;
 	createIssue: boolean;
 	assignmentConfig: PRAssignmentConfig;
 }
 
 /**
- * Parses all GitHub Actions inputs and returns validated configuration
+ * Source of the named settings: the GitHub Actions inputs, or the flags of the command-line interface.
+ * Setting names are those of the action inputs.
+ */
+export interface InputSource {
+	getInput(name: string, options?: { required?: boolean }): string;
+	getBooleanInput(name: string): boolean;
+}
+
+/**
+ * Reads an optional boolean input, returning undefined when the input is not set
+ * so that the configuration file or the built-in default can apply instead
+ * @param inputs The source to read from
+ * @param name The input name
+ * @returns The input value, or undefined when empty
+ * @throws TypeError if the input is set to a value that is not a YAML boolean
+ */
+function getOptionalBooleanInput(inputs: InputSource, name: string): boolean | undefined {
+	try {
+		return inputs.getBooleanInput(name);
+	} catch (error) {
+		if (inputs.getInput(name).trim() === "") {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Reads the repository configuration file named by the `config-file` input
+ * @param inputs The source to read from
+ * @param workspacePath The workspace path the file is relative to
+ * @param logger Where progress is logged
+ * @returns The file configuration, empty when the default file does not exist
+ * @throws ValidationError if the file is invalid, or missing when set explicitly
+ */
+function readFileConfig(inputs: InputSource, workspacePath: string, logger: Logger): FileConfig {
+	const configFileInput = inputs.getInput("config-file");
+	const configFile = configFileInput || DEFAULT_CONFIG_FILE;
+	const configPath = path.isAbsolute(configFile) ? configFile : path.join(workspacePath, configFile);
+	return loadConfigFile(configPath, configFileInput.length > 0, logger);
+}
+
+/**
+ * Parses all GitHub Actions inputs, merged over the repository configuration file,
+ * and returns validated configuration.
+ * An input that is set overrides the file, and the file overrides the built-in default.
+ * @param inputs The source to read from (default: the GitHub Actions inputs)
+ * @param logger Where progress is logged (default: the GitHub Actions log)
  * @returns Validated application configuration object
- * @throws ValidationError if any input validation fails
+ * @throws ValidationError if any input or configuration file validation fails
  */
-export function parseInputs(): AppConfig {
+export function parseInputs(inputs: InputSource = core, logger: Logger = actionsLogger): AppConfig {
 	// Required inputs
-	const githubToken = core.getInput("github-token", { required: true });
+	const githubToken = inputs.getInput("github-token", { required: true });
+
+	// Path and configuration file
+	const workspacePath = inputs.getInput("workspace-path") || process.cwd();
+	const fileConfig = readFileConfig(inputs, workspacePath, logger);
 
-	// Path and registry
-	const workspacePath = core.getInput("workspace-path") || process.cwd();
-	const scanDirectoriesInput = core.getInput("scan-directories") || ".";
-	const scanDirectories = parseNewlineSeparatedList(scanDirectoriesInput);
-	const registryUrl = core.getInput("registry-url") || undefined;
+	// Scan directories and registry
+	const scanDirectoriesInput = inputs.getInput("scan-directories");
+	const scanDirectories = scanDirectoriesInput
+		? parseNewlineSeparatedList(scanDirectoriesInput)
+		: (fileConfig.scanDirectories ?? ["."]);
+	const registryUrl = inputs.getInput("registry-url") || fileConfig.registryUrl || undefined;
 
 	// PR configuration
-	const createPR = core.getBooleanInput("create-pr") !== false;
-	const baseBranch = core.getInput("base-branch") || DEFAULT_BASE_BRANCH;
-	const branchPrefix = core.getInput("branch-prefix") || DEFAULT_BRANCH_PREFIX;
-	const prTitlePrefix = core.getInput("pr-title-prefix") || DEFAULT_PR_TITLE_PREFIX;
-	const commitMessagePrefix = core.getInput("commit-message-prefix") || DEFAULT_COMMIT_MESSAGE_PREFIX;
+	const createPR = getOptionalBooleanInput(inputs, "create-pr") ?? fileConfig.createPR ?? true;
+	const baseBranch = inputs.getInput("base-branch") || fileConfig.baseBranch || DEFAULT_BASE_BRANCH;
+	const branchPrefix = inputs.getInput("branch-prefix") || fileConfig.branchPrefix || DEFAULT_BRANCH_PREFIX;
+	const prTitlePrefix = inputs.getInput("pr-title-prefix") || fileConfig.prTitlePrefix || DEFAULT_PR_TITLE_PREFIX;
+	const commitMessagePrefix =
+		inputs.getInput("commit-message-prefix") || fileConfig.commitMessagePrefix || DEFAULT_COMMIT_MESSAGE_PREFIX;
 
 	// PR labels
-	const prLabelsInput = core.getInput("pr-labels") || DEFAULT_PR_LABELS.join(LABEL_SEPARATOR);
-	const prLabels = parseCommaSeparatedList(prLabelsInput);
+	const prLabelsInput = inputs.getInput("pr-labels");
+	const prLabels = prLabelsInput
+		? parseCommaSeparatedList(prLabelsInput)
+		: (fileConfig.prLabels ?? [...DEFAULT_PR_LABELS]);
+
+	const openPullRequestsLimitInput = inputs.getInput("open-pull-requests-limit");
+	const openPullRequestsLimit = openPullRequestsLimitInput
+		? parseWholeNumber(openPullRequestsLimitInput, "open-pull-requests-limit", "pull request limit", 0)
+		: fileConfig.openPullRequestsLimit;
 
 	// Auto-merge configuration
-	const autoMergeEnabled = core.getBooleanInput("auto-merge") === true;
-	const autoMergeStrategyInput = core.getInput("auto-merge-strategy") || "patch";
-	const autoMergeMethodInput = core.getInput("auto-merge-method") || "squash";
+	const autoMergeEnabled = getOptionalBooleanInput(inputs, "auto-merge") ?? fileConfig.autoMerge ?? false;
+	const autoMergeStrategyInput = inputs.getInput("auto-merge-strategy") || fileConfig.autoMergeStrategy || "patch";
+	const autoMergeMethodInput = inputs.getInput("auto-merge-method") || fileConfig.autoMergeMethod || "squash";
 
 	// Validate auto-merge inputs
 	validateAutoMergeStrategy(autoMergeStrategyInput);
@@ -83,33 +178,75 @@ export function parseInputs(): AppConfig {
 	};
 
 	// Extension filtering
-	const includeExtensionsInput = core.getInput("include-extensions") || "";
-	const excludeExtensionsInput = core.getInput("exclude-extensions") || "";
+	const includeExtensionsInput = inputs.getInput("include-extensions");
+	const excludeExtensionsInput = inputs.getInput("exclude-extensions");
 
 	const filterConfig: ExtensionFilterConfig = {
-		include: parseCommaSeparatedList(includeExtensionsInput),
-		exclude: parseCommaSeparatedList(excludeExtensionsInput),
+		include: includeExtensionsInput
+			? parseCommaSeparatedList(includeExtensionsInput)
+			: (fileConfig.includeExtensions ?? []),
+		exclude: excludeExtensionsInput
+			? parseCommaSeparatedList(excludeExtensionsInput)
+			: (fileConfig.excludeExtensions ?? []),
 	};
 
+	validateExtensionFilter(filterConfig.include, "include-extensions");
+	validateExtensionFilter(filterConfig.exclude, "exclude-extensions");
+
 	// Update configuration
-	const groupUpdates = core.getBooleanInput("group-updates") === true;
-	const updateStrategyInput = core.getInput("update-strategy") || "all";
-	const dryRun = core.getBooleanInput("dry-run") === true;
-	const createIssue = core.getBooleanInput("create-issue") === true;
+	const groupUpdates = getOptionalBooleanInput(inputs, "group-updates") ?? fileConfig.groupUpdates ?? false;
+	const updateStrategyInput = inputs.getInput("update-strategy") || fileConfig.updateStrategy || "all";
+	const dryRun = getOptionalBooleanInput(inputs, "dry-run") ?? fileConfig.dryRun ?? false;
+	const createIssue = getOptionalBooleanInput(inputs, "create-issue") ?? fileConfig.createIssue ?? false;
 
 	// Validate update strategy
 	validateUpdateStrategy(updateStrategyInput);
 	const updateStrategy = updateStrategyInput;
 
+	const allowPrereleases = getOptionalBooleanInput(inputs, "allow-prereleases") ?? fileConfig.allowPrereleases ?? false;
+
+	const cooldownInput = inputs.getInput("cooldown");
+	const cooldown = cooldownInput
+		? parseCooldown(cooldownInput, "cooldown")
+		: (fileConfig.cooldown ?? { major: 0, minor: 0, patch: 0 });
+
+	const rebaseStrategyInput = inputs.getInput("rebase-strategy") || fileConfig.rebaseStrategy || "disabled";
+	validateRebaseStrategy(rebaseStrategyInput);
+	const rebaseStrategy = rebaseStrategyInput;
+
+	const commitModeInput = inputs.getInput("commit-mode") || fileConfig.commitMode || "api";
+	validateCommitMode(commitModeInput);
+	const commitMode = commitModeInput;
+
+	const installerInput = inputs.getInput("installer") || fileConfig.installer || "quarto";
+	validateInstaller(installerInput);
+	const installer = installerInput;
+
+	const installTimeoutInput = inputs.getInput("install-timeout");
+	const installTimeout = installTimeoutInput
+		? parseWholeNumber(installTimeoutInput, "install-timeout", "install timeout", 1)
+		: (fileConfig.installTimeout ?? DEFAULT_INSTALL_TIMEOUT_MS / 1000);
+
+	const installConcurrencyInput = inputs.getInput("install-concurrency");
+	const installConcurrency = installConcurrencyInput
+		? parseWholeNumber(installConcurrencyInput, "install-concurrency", "install concurrency", 1)
+		: (fileConfig.installConcurrency ?? DEFAULT_INSTALL_CONCURRENCY);
+
+	// Per-extension rules are only expressible in the configuration file
+	const extensionRules: ExtensionRule[] = fileConfig.extensions ?? [];
+	const groupRules: UpdateGroupRule[] = fileConfig.groups ?? [];
+
 	// PR assignment configuration
-	const prReviewersInput = core.getInput("pr-reviewers") || "";
-	const prTeamReviewersInput = core.getInput("pr-team-reviewers") || "";
-	const prAssigneesInput = core.getInput("pr-assignees") || "";
+	const prReviewersInput = inputs.getInput("pr-reviewers");
+	const prTeamReviewersInput = inputs.getInput("pr-team-reviewers");
+	const prAssigneesInput = inputs.getInput("pr-assignees");
 
 	const assignmentConfig: PRAssignmentConfig = {
-		reviewers: parseCommaSeparatedList(prReviewersInput),
-		teamReviewers: parseCommaSeparatedList(prTeamReviewersInput),
-		assignees: parseCommaSeparatedList(prAssigneesInput),
+		reviewers: prReviewersInput ? parseCommaSeparatedList(prReviewersInput) : (fileConfig.prReviewers ?? []),
+		teamReviewers: prTeamReviewersInput
+			? parseCommaSeparatedList(prTeamReviewersInput)
+			: (fileConfig.prTeamReviewers ?? []),
+		assignees: prAssigneesInput ? parseCommaSeparatedList(prAssigneesInput) : (fileConfig.prAssignees ?? []),
 	};
 
 	// Validate configuration
@@ -129,10 +266,20 @@ export function parseInputs(): AppConfig {
 		prTitlePrefix,
 		commitMessagePrefix,
 		prLabels,
+		openPullRequestsLimit,
 		autoMergeConfig,
 		filterConfig,
+		extensionRules,
 		groupUpdates,
+		groupRules,
 		updateStrategy,
+		allowPrereleases,
+		cooldown,
+		rebaseStrategy,
+		commitMode,
+		installer,
+		installTimeout,
+		installConcurrency,
 		dryRun,
 		createIssue,
 		assignmentConfig,
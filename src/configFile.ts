@@ -0,0 +1,418 @@
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { actionsLogger, type Logger } from "./logger.js";
+import type {
+	AutoMergeStrategy,
+	CommitMode,
+	CooldownConfig,
+	ExtensionInstaller,
+	ExtensionRule,
+	MergeMethod,
+	RebaseStrategy,
+	UpdateGroupRule,
+	UpdateStrategy,
+} from "./types.js";
+import { ValidationError } from "./errors.js";
+import {
+	validateAutoMergeStrategy,
+	validateMergeMethod,
+	validateUpdateStrategy,
+	validateRebaseStrategy,
+	validateCommitMode,
+	validateInstaller,
+	validateExtensionPattern,
+	validateExtensionFilter,
+	validateGroupName,
+	validateGroupUpdateTypes,
+	validateVersionRange,
+	parseCommaSeparatedList,
+	parseCooldown,
+	parseWholeNumber,
+} from "./validation.js";
+
+/**
+ * Settings read from the repository configuration file.
+ * Every field is optional: an unset field falls back to the built-in default,
+ * and an action input, when set, overrides it.
+ */
+export interface FileConfig {
+	registryUrl?: string;
+	scanDirectories?: string[];
+	createPR?: boolean;
+	baseBranch?: string;
+	branchPrefix?: string;
+	prTitlePrefix?: string;
+	commitMessagePrefix?: string;
+	prLabels?: string[];
+	openPullRequestsLimit?: number;
+	autoMerge?: boolean;
+	autoMergeStrategy?: AutoMergeStrategy;
+	autoMergeMethod?: MergeMethod;
+	includeExtensions?: string[];
+	excludeExtensions?: string[];
+	groupUpdates?: boolean;
+	updateStrategy?: UpdateStrategy;
+	allowPrereleases?: boolean;
+	cooldown?: CooldownConfig;
+	rebaseStrategy?: RebaseStrategy;
+	commitMode?: CommitMode;
+	installer?: ExtensionInstaller;
+	installTimeout?: number;
+	installConcurrency?: number;
+	dryRun?: boolean;
+	createIssue?: boolean;
+	prReviewers?: string[];
+	prTeamReviewers?: string[];
+	prAssignees?: string[];
+	extensions?: ExtensionRule[];
+	groups?: UpdateGroupRule[];
+}
+
+/** Top-level keys accepted in the configuration file, named after the matching action inputs */
+const FILE_CONFIG_KEYS = [
+	"registry-url",
+	"scan-directories",
+	"create-pr",
+	"base-branch",
+	"branch-prefix",
+	"pr-title-prefix",
+	"commit-message-prefix",
+	"pr-labels",
+	"open-pull-requests-limit",
+	"auto-merge",
+	"auto-merge-strategy",
+	"auto-merge-method",
+	"include-extensions",
+	"exclude-extensions",
+	"group-updates",
+	"update-strategy",
+	"allow-prereleases",
+	"cooldown",
+	"rebase-strategy",
+	"commit-mode",
+	"installer",
+	"install-timeout",
+	"install-concurrency",
+	"dry-run",
+	"create-issue",
+	"pr-reviewers",
+	"pr-team-reviewers",
+	"pr-assignees",
+	"extensions",
+	"groups",
+] as const;
+
+/** Keys accepted for each entry of the `extensions` mapping */
+const EXTENSION_RULE_KEYS = ["update-strategy", "pin", "ignore-versions", "allow-prereleases", "branch"] as const;
+
+/** Keys accepted for each entry of the `groups` mapping */
+const GROUP_RULE_KEYS = ["patterns", "update-types", "auto-merge", "auto-merge-strategy"] as const;
+
+type YAMLMapping = Record<string, unknown>;
+
+function isMapping(value: unknown): value is YAMLMapping {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Throws a ValidationError for the first key of a mapping that is not in the allowed list
+ */
+function rejectUnknownKeys(data: YAMLMapping, allowed: readonly string[], prefix: string): void {
+	for (const key of Object.keys(data)) {
+		if (!allowed.includes(key)) {
+			const field = `${prefix}${key}`;
+			throw new ValidationError(`Unknown configuration key: '${field}'`, field, data[key]);
+		}
+	}
+}
+
+function readString(data: YAMLMapping, key: string, field = key): string | undefined {
+	const value = data[key];
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (typeof value !== "string") {
+		throw new ValidationError(`Configuration key '${field}' must be a string`, field, value);
+	}
+	return value.trim();
+}
+
+function readBoolean(data: YAMLMapping, key: string, field = key): boolean | undefined {
+	const value = data[key];
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (typeof value !== "boolean") {
+		throw new ValidationError(`Configuration key '${field}' must be true or false`, field, value);
+	}
+	return value;
+}
+
+/**
+ * Reads a list, given either as a YAML sequence of strings or as a comma-separated string
+ */
+function readList(data: YAMLMapping, key: string, field = key): string[] | undefined {
+	const value = data[key];
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (typeof value === "string") {
+		return parseCommaSeparatedList(value);
+	}
+	if (Array.isArray(value) && value.every((item) => typeof item === "string" || typeof item === "number")) {
+		return value.map((item) => String(item).trim()).filter((item) => item.length > 0);
+	}
+	throw new ValidationError(`Configuration key '${field}' must be a list of strings`, field, value);
+}
+
+/**
+ * Runs a validator and re-throws its ValidationError against the fully qualified configuration key
+ */
+function validateField(field: string, validate: () => void): void {
+	try {
+		validate();
+	} catch (error) {
+		if (error instanceof ValidationError && error.field !== field) {
+			throw new ValidationError(`${field}: ${error.message}`, field, error.value);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Parses the `extensions` mapping into per-extension rules.
+ * Keys are exact `owner/name` names or glob patterns, kept in file order.
+ */
+function parseExtensionRules(value: unknown): ExtensionRule[] {
+	if (!isMapping(value)) {
+		throw new ValidationError(
+			"Configuration key 'extensions' must be a mapping of extension names",
+			"extensions",
+			value,
+		);
+	}
+
+	const rules: ExtensionRule[] = [];
+
+	for (const [match, settings] of Object.entries(value)) {
+		const prefix = `extensions.${match}.`;
+
+		validateExtensionPattern(match, `extensions.${match}`);
+
+		if (!isMapping(settings)) {
+			throw new ValidationError(
+				`Configuration key 'extensions.${match}' must be a mapping`,
+				`extensions.${match}`,
+				settings,
+			);
+		}
+		rejectUnknownKeys(settings, EXTENSION_RULE_KEYS, prefix);
+
+		const updateStrategy = readString(settings, "update-strategy", `${prefix}update-strategy`);
+		if (updateStrategy !== undefined) {
+			validateField(`${prefix}update-strategy`, () => validateUpdateStrategy(updateStrategy));
+		}
+
+		const pin = readString(settings, "pin", `${prefix}pin`);
+		if (pin !== undefined) {
+			validateVersionRange(pin, `${prefix}pin`);
+		}
+
+		rules.push({
+			match,
+			updateStrategy: updateStrategy as UpdateStrategy | undefined,
+			pin,
+			ignoreVersions: readList(settings, "ignore-versions", `${prefix}ignore-versions`) ?? [],
+			allowPrereleases: readBoolean(settings, "allow-prereleases", `${prefix}allow-prereleases`),
+			branch: readString(settings, "branch", `${prefix}branch`),
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Parses the `groups` mapping into named update groups, kept in file order
+ */
+function parseGroupRules(value: unknown): UpdateGroupRule[] {
+	if (!isMapping(value)) {
+		throw new ValidationError("Configuration key 'groups' must be a mapping of group names", "groups", value);
+	}
+
+	const groups: UpdateGroupRule[] = [];
+
+	for (const [name, settings] of Object.entries(value)) {
+		const prefix = `groups.${name}.`;
+
+		validateGroupName(name, `groups.${name}`);
+
+		if (!isMapping(settings)) {
+			throw new ValidationError(`Configuration key 'groups.${name}' must be a mapping`, `groups.${name}`, settings);
+		}
+		rejectUnknownKeys(settings, GROUP_RULE_KEYS, prefix);
+
+		const patterns = readList(settings, "patterns", `${prefix}patterns`) ?? [];
+		validateExtensionFilter(patterns, `${prefix}patterns`);
+
+		const updateTypes = readList(settings, "update-types", `${prefix}update-types`) ?? [];
+		validateGroupUpdateTypes(updateTypes, `${prefix}update-types`);
+
+		if (patterns.length === 0 && updateTypes.length === 0) {
+			throw new ValidationError(
+				`Group '${name}' must set 'patterns', 'update-types', or both`,
+				`groups.${name}`,
+				settings,
+			);
+		}
+
+		const autoMergeStrategy = readString(settings, "auto-merge-strategy", `${prefix}auto-merge-strategy`);
+		if (autoMergeStrategy !== undefined) {
+			validateField(`${prefix}auto-merge-strategy`, () => validateAutoMergeStrategy(autoMergeStrategy));
+		}
+
+		groups.push({
+			name,
+			patterns,
+			updateTypes,
+			autoMerge: readBoolean(settings, "auto-merge", `${prefix}auto-merge`),
+			autoMergeStrategy: autoMergeStrategy as AutoMergeStrategy | undefined,
+		});
+	}
+
+	return groups;
+}
+
+/**
+ * Validates parsed YAML content and converts it into a FileConfig
+ * @param data The parsed YAML document
+ * @returns The validated configuration
+ * @throws ValidationError naming the offending key if the content is invalid
+ */
+export function parseFileConfig(data: unknown): FileConfig {
+	if (data === undefined || data === null) {
+		return {};
+	}
+
+	if (!isMapping(data)) {
+		throw new ValidationError("Configuration file must contain a mapping of settings", "config-file", data);
+	}
+
+	rejectUnknownKeys(data, FILE_CONFIG_KEYS, "");
+
+	const autoMergeStrategy = readString(data, "auto-merge-strategy");
+	if (autoMergeStrategy !== undefined) {
+		validateAutoMergeStrategy(autoMergeStrategy);
+	}
+
+	const autoMergeMethod = readString(data, "auto-merge-method");
+	if (autoMergeMethod !== undefined) {
+		validateMergeMethod(autoMergeMethod);
+	}
+
+	const updateStrategy = readString(data, "update-strategy");
+	if (updateStrategy !== undefined) {
+		validateUpdateStrategy(updateStrategy);
+	}
+
+	const rebaseStrategy = readString(data, "rebase-strategy");
+	if (rebaseStrategy !== undefined) {
+		validateRebaseStrategy(rebaseStrategy);
+	}
+
+	const commitMode = readString(data, "commit-mode");
+	if (commitMode !== undefined) {
+		validateCommitMode(commitMode);
+	}
+
+	const installer = readString(data, "installer");
+	if (installer !== undefined) {
+		validateInstaller(installer);
+	}
+
+	const includeExtensions = readList(data, "include-extensions");
+	if (includeExtensions !== undefined) {
+		validateExtensionFilter(includeExtensions, "include-extensions");
+	}
+
+	const excludeExtensions = readList(data, "exclude-extensions");
+	if (excludeExtensions !== undefined) {
+		validateExtensionFilter(excludeExtensions, "exclude-extensions");
+	}
+
+	return {
+		registryUrl: readString(data, "registry-url"),
+		scanDirectories: readList(data, "scan-directories"),
+		createPR: readBoolean(data, "create-pr"),
+		baseBranch: readString(data, "base-branch"),
+		branchPrefix: readString(data, "branch-prefix"),
+		prTitlePrefix: readString(data, "pr-title-prefix"),
+		commitMessagePrefix: readString(data, "commit-message-prefix"),
+		prLabels: readList(data, "pr-labels"),
+		openPullRequestsLimit:
+			data["open-pull-requests-limit"] === undefined || data["open-pull-requests-limit"] === null
+				? undefined
+				: parseWholeNumber(data["open-pull-requests-limit"], "open-pull-requests-limit", "pull request limit", 0),
+		autoMerge: readBoolean(data, "auto-merge"),
+		autoMergeStrategy: autoMergeStrategy as AutoMergeStrategy | undefined,
+		autoMergeMethod: autoMergeMethod as MergeMethod | undefined,
+		includeExtensions,
+		excludeExtensions,
+		groupUpdates: readBoolean(data, "group-updates"),
+		updateStrategy: updateStrategy as UpdateStrategy | undefined,
+		allowPrereleases: readBoolean(data, "allow-prereleases"),
+		cooldown:
+			data.cooldown === undefined || data.cooldown === null ? undefined : parseCooldown(data.cooldown, "cooldown"),
+		rebaseStrategy: rebaseStrategy as RebaseStrategy | undefined,
+		commitMode: commitMode as CommitMode | undefined,
+		installer: installer as ExtensionInstaller | undefined,
+		installTimeout:
+			data["install-timeout"] === undefined || data["install-timeout"] === null
+				? undefined
+				: parseWholeNumber(data["install-timeout"], "install-timeout", "install timeout", 1),
+		installConcurrency:
+			data["install-concurrency"] === undefined || data["install-concurrency"] === null
+				? undefined
+				: parseWholeNumber(data["install-concurrency"], "install-concurrency", "install concurrency", 1),
+		dryRun: readBoolean(data, "dry-run"),
+		createIssue: readBoolean(data, "create-issue"),
+		prReviewers: readList(data, "pr-reviewers"),
+		prTeamReviewers: readList(data, "pr-team-reviewers"),
+		prAssignees: readList(data, "pr-assignees"),
+		extensions:
+			data.extensions === undefined || data.extensions === null ? undefined : parseExtensionRules(data.extensions),
+		groups: data.groups === undefined || data.groups === null ? undefined : parseGroupRules(data.groups),
+	};
+}
+
+/**
+ * Loads and validates the repository configuration file
+ * @param configPath Absolute path to the configuration file
+ * @param required Whether a missing file is an error (true when the path was set explicitly)
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The validated configuration, or an empty configuration when an optional file is missing
+ * @throws ValidationError if the file is required but missing, is not valid YAML, or fails validation
+ */
+export function loadConfigFile(configPath: string, required: boolean, logger: Logger = actionsLogger): FileConfig {
+	if (!fs.existsSync(configPath)) {
+		if (required) {
+			throw new ValidationError(`Configuration file not found: ${configPath}`, "config-file", configPath);
+		}
+		logger.debug(`No configuration file found at ${configPath}`);
+		return {};
+	}
+
+	let data: unknown;
+	try {
+		data = yaml.load(fs.readFileSync(configPath, "utf-8"));
+	} catch (error) {
+		throw new ValidationError(
+			`Configuration file is not valid YAML: ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+			"config-file",
+			configPath,
+		);
+	}
+
+	const fileConfig = parseFileConfig(data);
+	logger.info(`Loaded configuration file: ${configPath}`);
+	return fileConfig;
+}
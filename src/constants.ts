@@ -13,9 +13,21 @@
 /** HTTP 404 Not Found status code */
 export const HTTP_NOT_FOUND = 404;
 
+/** HTTP 400 Bad Request - Used by the GitLab API to indicate a branch already exists */
+export const HTTP_BAD_REQUEST = 400;
+
+/** HTTP 409 Conflict - Used by the Gitea API to indicate a branch already exists or an auto-merge is already scheduled */
+export const HTTP_CONFLICT = 409;
+
 /** HTTP 422 Unprocessable Entity - Used by GitHub API to indicate a ref already exists */
 export const HTTP_UNPROCESSABLE_ENTITY = 422;
 
+/** Default time `quarto add` may take for one extension, in milliseconds */
+export const DEFAULT_INSTALL_TIMEOUT_MS = 300000; // 5 minutes
+
+/** Default number of projects whose extensions are installed at once */
+export const DEFAULT_INSTALL_CONCURRENCY = 4;
+
 /** Default HTTP request timeout in milliseconds */
 export const DEFAULT_FETCH_TIMEOUT_MS = 30000; // 30 seconds
 
@@ -32,6 +44,29 @@ export const HTTP_USER_AGENT = "quarto-extensions-updater";
 /** Git file mode for regular non-executable file */
 export const GIT_FILE_MODE_REGULAR = "100644" as const;
 
+/** Git file mode for executable file */
+export const GIT_FILE_MODE_EXECUTABLE = "100755" as const;
+
+/** Git file mode for symbolic link, whose blob holds the link target */
+export const GIT_FILE_MODE_SYMLINK = "120000" as const;
+
+/** Owner execute permission bit, which git reads as an executable file */
+export const FILE_MODE_OWNER_EXECUTE = 0o100;
+
+/** Permissions of the files the built-in installer writes, executable or not */
+export const FILE_MODE_EXECUTABLE = 0o755;
+export const FILE_MODE_REGULAR = 0o644;
+
+/** Size of a tar header block, and the unit tar pads file contents to */
+export const TAR_BLOCK_SIZE = 512;
+
+/** Remote the local git commit mode pushes update branches to */
+export const GIT_REMOTE = "origin";
+
+/** Committer of the local git commit mode when the repository sets none: the GitHub Actions bot */
+export const GIT_BOT_NAME = "github-actions[bot]";
+export const GIT_BOT_EMAIL = "41898282+github-actions[bot]@users.noreply.github.com";
+
 /** Default base branch for pull requests */
 export const DEFAULT_BASE_BRANCH = "main";
 
@@ -47,9 +82,36 @@ export const DEFAULT_COMMIT_MESSAGE_PREFIX = "chore(deps):";
 /** Default labels for pull requests */
 export const DEFAULT_PR_LABELS = ["dependencies", "quarto-extensions"] as const;
 
+/** Page size when listing open pull requests, every page of which is read */
+export const PULL_REQUESTS_PER_PAGE = 100;
+
+/** Page size when listing the timeline of a Gitea pull request, the most Gitea returns by default */
+export const TIMELINE_EVENTS_PER_PAGE = 50;
+
+/** Page size when listing the releases of an extension, read down to the installed version for a compatible one */
+export const RELEASES_PER_PAGE = 100;
+
 /** Separator for label lists */
 export const LABEL_SEPARATOR = ",";
 
+/** Default path of the repository configuration file, relative to the workspace */
+export const DEFAULT_CONFIG_FILE = ".github/quarto-extensions.yml";
+
+/** Full or abbreviated commit SHA, as found in a manifest `source` such as `owner/repo@3f2a1b9` */
+export const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+/** Release tag of one to three numbers, such as `v2`, `1.2`, or `v1.2.0`; full semver tags are read with semver */
+export const RELEASE_TAG_PATTERN = /^v?\d+(?:\.\d+){0,2}$/;
+
+/** Length of the abbreviated commit SHAs shown in versions, titles and branch names */
+export const SHORT_SHA_LENGTH = 7;
+
+/** Most commits listed in the body of a commit-tracking PR; the compare link shows the rest */
+export const COMMIT_LIST_LIMIT = 20;
+
+/** Milliseconds in a day, to turn cooldown periods into dates */
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 // ============================================================================
 // Quarto CLI Constants
 // ============================================================================
@@ -76,6 +138,12 @@ export { getDefaultRegistryUrl } from "@quarto-wizard/core";
 /** Default Quarto extensions registry URL */
 export const DEFAULT_REGISTRY_URL = "https://m.canouil.dev/quarto-extensions/extensions.json";
 
+/** GitHub archive download URL, serving a tarball of a repository at any tag, branch, or commit */
+export const GITHUB_ARCHIVE_URL = "https://codeload.github.com";
+
+/** Default GitLab REST API URL */
+export const DEFAULT_GITLAB_API_URL = "https://gitlab.com/api/v4";
+
 /** GitHub repository base URL */
 export const GITHUB_BASE_URL = "https://github.com";
 
@@ -90,6 +158,9 @@ export const ACTION_REPOSITORY_URL = "https://github.com/mcanouil/quarto-extensi
 export const PR_FOOTER_TEXT =
 	`🤖 This PR was automatically generated by [quarto-extensions-updater](${ACTION_REPOSITORY_URL})` as const;
 
+/** Name of the hidden comment listing the versions a PR updates, kept as first written so earlier PRs still match */
+export const UPDATES_MARKER = "quarto-extensions-updater-group";
+
 /** Instructions for setting up Quarto in GitHub Actions */
 export const QUARTO_SETUP_INSTRUCTIONS = `In GitHub Actions, add this step before using quarto-extensions-updater:
   - name: Setup Quarto
@@ -108,9 +179,48 @@ export const VALID_AUTO_MERGE_STRATEGIES = ["patch", "minor", "all"] as const;
 /** Valid update strategies */
 export const VALID_UPDATE_STRATEGIES = ["patch", "minor", "all"] as const;
 
+/** Update types a named group can select */
+export const VALID_GROUP_UPDATE_TYPES = ["major", "minor", "patch"] as const;
+
+/** Group name: letters, digits, `_`, `.` and `-`, so that it can be used in a branch name */
+export const GROUP_NAME_PATTERN = /^[\w.-]+$/;
+
+/** Keys of the cooldown setting: one per update type, and `default` for the types not listed */
+export const VALID_COOLDOWN_KEYS = ["default", "major", "minor", "patch"] as const;
+
+/** Valid rebase strategies */
+export const VALID_REBASE_STRATEGIES = ["auto", "disabled"] as const;
+
+/** Valid commit modes */
+export const VALID_COMMIT_MODES = ["api", "git"] as const;
+
+/** Valid extension installers */
+export const VALID_INSTALLERS = ["quarto", "builtin"] as const;
+
 /** URL protocol prefix for HTTPS */
 export const HTTPS_PROTOCOL = "https://";
 
+/** Extension pattern: `owner/name`, where either segment may use `*` and `?` wildcards */
+export const EXTENSION_PATTERN = /^[\w.*?-]+\/[\w.*?-]+$/;
+
+/** Repository name: `owner/repo` */
+export const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+/**
+ * GitHub repository an extension is installed from: an owner of letters, digits, and inner hyphens,
+ * and a repository name of letters, digits, `.`, `_`, and `-`, other than `.` and `..`
+ */
+export const GITHUB_REPOSITORY_PATTERN = /^[A-Za-z\d](?:[A-Za-z\d-]{0,37}[A-Za-z\d])?\/(?!\.\.?$)[\w.-]{1,100}$/;
+
+/** Release tag, branch, or commit an extension is installed from, which cannot start like a command-line option */
+export const RELEASE_REF_PATTERN = /^\w[\w.+/-]{0,254}$/;
+
+/** GitLab project path: `group/project`, with any number of subgroups */
+export const PROJECT_PATH_PATTERN = /^[\w.-]+(\/[\w.-]+)+$/;
+
+/** Services a repository can be hosted on */
+export const VALID_GIT_HOSTS = ["github", "gitlab", "gitea"] as const;
+
 /** Invalid Git ref characters pattern */
 export const INVALID_GIT_REF_CHARS = /[~^:?*[\]\\]/;
 
@@ -0,0 +1,102 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import type { OctokitClient } from "./github.js";
+import type { CooldownConfig, DeferredUpdate, ExtensionUpdate } from "./types.js";
+import { getUpdateType } from "./automerge.js";
+import { MS_PER_DAY } from "./constants.js";
+
+/**
+ * Gets the cooldown period that applies to an update.
+ * Updates without a semantic version type, such as commit updates, have none.
+ * @param update The extension update
+ * @param cooldown The cooldown per update type
+ * @returns The cooldown in days
+ */
+export function getCooldownDays(update: ExtensionUpdate, cooldown: CooldownConfig): number {
+	const updateType = getUpdateType(update.currentVersion, update.latestVersion);
+	return updateType === "unknown" ? 0 : cooldown[updateType];
+}
+
+/**
+ * Fetches the publication date of the release an update moves to
+ * @param octokit GitHub API client
+ * @param update The extension update
+ * @param logger Where progress and warnings are logged
+ * @returns The publication date, or null if the release cannot be found
+ */
+async function fetchReleaseDate(octokit: OctokitClient, update: ExtensionUpdate, logger: Logger): Promise<Date | null> {
+	const [owner, repo] = update.repositoryName.split("/");
+	const version = update.latestVersion;
+	const tagsToTry = version.startsWith("v") ? [version, version.slice(1)] : [version, `v${version}`];
+
+	for (const tag of tagsToTry) {
+		try {
+			const { data: release } = await octokit.rest.repos.getReleaseByTag({ owner, repo, tag });
+			const published = release.published_at ?? release.created_at;
+			return published ? new Date(published) : null;
+		} catch (error) {
+			logger.debug(`Failed to fetch release ${update.repositoryName}@${tag}: ${error}`);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Holds back updates whose release is younger than the cooldown period for its update type.
+ * The release date is the one the registry records, or else the publication date of the GitHub release;
+ * an update whose release date cannot be found is not held back, and a warning says so.
+ * @param octokit GitHub API client
+ * @param updates The available updates
+ * @param cooldown The cooldown per update type
+ * @param now The current date (default: now)
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The updates that are old enough, and the deferred ones with the date each becomes eligible
+ */
+export async function deferUpdatesInCooldown(
+	octokit: OctokitClient,
+	updates: ExtensionUpdate[],
+	cooldown: CooldownConfig,
+	now: Date = new Date(),
+	logger: Logger = actionsLogger,
+): Promise<{ updates: ExtensionUpdate[]; deferredUpdates: DeferredUpdate[] }> {
+	const eligible: ExtensionUpdate[] = [];
+	const deferredUpdates: DeferredUpdate[] = [];
+
+	for (const update of updates) {
+		const cooldownDays = getCooldownDays(update, cooldown);
+		if (cooldownDays === 0) {
+			eligible.push(update);
+			continue;
+		}
+
+		const releaseDate = update.releaseDate
+			? new Date(update.releaseDate)
+			: await fetchReleaseDate(octokit, update, logger);
+		if (!releaseDate) {
+			logger.warning(
+				`Could not find the release date of ${update.nameWithOwner} ${update.latestVersion}, proposing it without a cooldown`,
+			);
+			eligible.push(update);
+			continue;
+		}
+
+		const eligibleDate = new Date(releaseDate.getTime() + cooldownDays * MS_PER_DAY);
+		if (eligibleDate > now) {
+			logger.info(
+				`Deferring ${update.nameWithOwner} ${update.latestVersion}: released ${releaseDate.toISOString().slice(0, 10)}, ` +
+					`eligible on ${eligibleDate.toISOString().slice(0, 10)} after a ${cooldownDays}-day cooldown`,
+			);
+			deferredUpdates.push({
+				update,
+				releaseDate: releaseDate.toISOString(),
+				eligibleDate: eligibleDate.toISOString(),
+				cooldownDays,
+			});
+			continue;
+		}
+
+		eligible.push(update);
+	}
+
+	return { updates: eligible, deferredUpdates };
+}
@@ -74,6 +74,37 @@ export class GitHubAPIError extends QuartoExtensionUpdaterError {
 	}
 }
 
+/**
+ * Error thrown when the API of a Git host other than GitHub answers with an error
+ */
+export class GitHostAPIError extends QuartoExtensionUpdaterError {
+	constructor(
+		message: string,
+		public readonly host: string,
+		public readonly operation: string,
+		public readonly statusCode?: number,
+	) {
+		super(message, "GIT_HOST_API_ERROR", { host, operation, statusCode });
+		this.name = "GitHostAPIError";
+		Object.setPrototypeOf(this, GitHostAPIError.prototype);
+	}
+}
+
+/**
+ * Error thrown when the built-in installer cannot install an extension from its release archive
+ */
+export class ExtensionInstallError extends QuartoExtensionUpdaterError {
+	constructor(
+		message: string,
+		public readonly source: string,
+		public readonly statusCode?: number,
+	) {
+		super(message, "EXTENSION_INSTALL_ERROR", { source, statusCode });
+		this.name = "ExtensionInstallError";
+		Object.setPrototypeOf(this, ExtensionInstallError.prototype);
+	}
+}
+
 /**
  * Type guard to check if an error is a QuartoExtensionUpdaterError
  */
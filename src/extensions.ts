@@ -1,10 +1,10 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import type { InstalledExtension, ExtensionManifest } from "@quarto-wizard/core";
 import type { ExtensionData } from "./types.js";
-import { QUARTO_MANIFEST_FILENAMES } from "./constants.js";
+import { COMMIT_SHA_PATTERN, QUARTO_MANIFEST_FILENAMES } from "./constants.js";
 
 // Re-export core types for use in other modules
 export type { InstalledExtension, ExtensionManifest };
@@ -23,13 +23,14 @@ interface ExtensionManifestYAML {
 /**
  * Finds all Quarto extension manifests in the workspace
  * @param workspacePath The root path to search for extensions
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns Array of paths to extension manifest files
  */
-export function findExtensionManifests(workspacePath: string): string[] {
+export function findExtensionManifests(workspacePath: string, logger: Logger = actionsLogger): string[] {
 	const extensionsDir = path.join(workspacePath, "_extensions");
 
 	if (!fs.existsSync(extensionsDir)) {
-		core.info("No _extensions directory found");
+		logger.info("No _extensions directory found");
 		return [];
 	}
 
@@ -59,43 +60,51 @@ export function findExtensionManifests(workspacePath: string): string[] {
 			}
 		}
 
-		core.info(`Found ${manifests.length} extension manifests`);
+		logger.info(`Found ${manifests.length} extension manifests`);
 		return manifests;
 	} catch (error) {
-		core.warning(`Error scanning extensions directory: ${error}`);
+		logger.warning(`Error scanning extensions directory: ${error}`);
 		return [];
 	}
 }
 
+/**
+ * Parses the content of a Quarto extension manifest, keeping the fields the updater reads
+ * @param content The YAML content of the manifest
+ * @returns Parsed extension data
+ * @throws Error if the content is not a YAML mapping
+ */
+export function parseExtensionManifest(content: string): ExtensionData {
+	const data = yaml.load(content) as ExtensionManifestYAML;
+
+	return {
+		title: typeof data.title === "string" ? data.title : undefined,
+		author: typeof data.author === "string" ? data.author : undefined,
+		version: typeof data.version === "string" ? data.version : undefined,
+		quartoRequired: typeof data["quarto-required"] === "string" ? data["quarto-required"] : undefined,
+		contributes:
+			data.contributes && typeof data.contributes === "object" ? Object.keys(data.contributes).join(", ") : undefined,
+		source: typeof data.source === "string" ? data.source : undefined,
+		repository: typeof data.source === "string" ? data.source.replace(/@.*$/, "") : undefined,
+	};
+}
+
 /**
  * Reads and parses a Quarto extension manifest file
  * @param manifestPath Path to the manifest file
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns Parsed extension data or null if invalid
  */
-export function readExtensionManifest(manifestPath: string): ExtensionData | null {
+export function readExtensionManifest(manifestPath: string, logger: Logger = actionsLogger): ExtensionData | null {
 	try {
 		if (!fs.existsSync(manifestPath)) {
-			core.warning(`Manifest not found: ${manifestPath}`);
+			logger.warning(`Manifest not found: ${manifestPath}`);
 			return null;
 		}
 
-		const fileContent = fs.readFileSync(manifestPath, "utf8");
-		const data = yaml.load(fileContent) as ExtensionManifestYAML;
-
-		const extensionData: ExtensionData = {
-			title: typeof data.title === "string" ? data.title : undefined,
-			author: typeof data.author === "string" ? data.author : undefined,
-			version: typeof data.version === "string" ? data.version : undefined,
-			quartoRequired: typeof data["quarto-required"] === "string" ? data["quarto-required"] : undefined,
-			contributes:
-				data.contributes && typeof data.contributes === "object" ? Object.keys(data.contributes).join(", ") : undefined,
-			source: typeof data.source === "string" ? data.source : undefined,
-			repository: typeof data.source === "string" ? data.source.replace(/@.*$/, "") : undefined,
-		};
-
-		return extensionData;
+		return parseExtensionManifest(fs.readFileSync(manifestPath, "utf8"));
 	} catch (error) {
-		core.warning(`Error reading manifest ${manifestPath}: ${error}`);
+		logger.warning(`Error reading manifest ${manifestPath}: ${error}`);
 		return null;
 	}
 }
@@ -103,9 +112,13 @@ export function readExtensionManifest(manifestPath: string): ExtensionData | nul
 /**
  * Extracts owner and extension name from a manifest path
  * @param manifestPath Path to the manifest file
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns Object with owner and name, or null if invalid path
  */
-export function extractExtensionInfo(manifestPath: string): {
+export function extractExtensionInfo(
+	manifestPath: string,
+	logger: Logger = actionsLogger,
+): {
 	owner: string;
 	name: string;
 } | null {
@@ -122,7 +135,7 @@ export function extractExtensionInfo(manifestPath: string): {
 			name: parts[extensionsIndex + 2],
 		};
 	} catch (error) {
-		core.warning(`Error extracting extension info from ${manifestPath}: ${error}`);
+		logger.warning(`Error extracting extension info from ${manifestPath}: ${error}`);
 		return null;
 	}
 }
@@ -131,21 +144,45 @@ export function extractExtensionInfo(manifestPath: string): {
  * Updates the source field in an extension manifest only if it doesn't exist
  * @param manifestPath Path to the manifest file
  * @param source The source URL to set (e.g., "owner/repo@v1.0.0")
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
-export function updateManifestSource(manifestPath: string, source: string): void {
+export function updateManifestSource(manifestPath: string, source: string, logger: Logger = actionsLogger): void {
 	try {
 		const fileContent = fs.readFileSync(manifestPath, "utf-8");
 
 		if (fileContent.includes("source:")) {
-			core.info(`Source field already exists in ${manifestPath}, skipping source update`);
+			logger.info(`Source field already exists in ${manifestPath}, skipping source update`);
 			return;
 		}
 
 		const updatedContent = `${fileContent.trim()}\nsource: ${source}\n`;
 		fs.writeFileSync(manifestPath, updatedContent, "utf-8");
-		core.info(`Added source field to ${manifestPath}: ${source}`);
+		logger.info(`Added source field to ${manifestPath}: ${source}`);
 	} catch (error) {
-		core.error(`Error updating manifest source in ${manifestPath}: ${error}`);
+		logger.error(`Error updating manifest source in ${manifestPath}: ${error}`);
 		throw error;
 	}
 }
+
+/**
+ * Splits a manifest source such as `owner/repo@v1.0.0` into its GitHub repository and ref
+ * @param source The manifest source field
+ * @returns The repository as owner/repo and the ref, or null if the source is not of that form
+ */
+export function parseSourceRef(source: string): { repository: string; ref: string } | null {
+	const match = /^([\w.-]+\/[\w.-]+)@(.+)$/.exec(source.trim());
+	if (!match) {
+		return null;
+	}
+
+	return { repository: match[1], ref: match[2] };
+}
+
+/**
+ * Checks whether a source ref is a full or abbreviated commit SHA
+ * @param ref The ref from a manifest source
+ * @returns True if the ref looks like a commit SHA
+ */
+export function isCommitSha(ref: string): boolean {
+	return COMMIT_SHA_PATTERN.test(ref);
+}
@@ -1,47 +1,73 @@
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import * as fs from "fs";
+import * as crypto from "crypto";
 import * as path from "path";
-import { execSync } from "child_process";
-import * as semver from "semver";
-import type { ExtensionUpdate, ApplyUpdatesResult } from "./types.js";
-import { updateManifestSource, readExtensionManifest } from "./extensions.js";
+import { execFile, execFileSync } from "child_process";
+import type { ExtensionUpdate, ApplyUpdatesResult, ExtensionInstaller, GitFileMode, SkippedUpdate } from "./types.js";
+import { updateManifestSource } from "./extensions.js";
+import { installExtension, type ArchiveFetcher } from "./installer.js";
+import { validateGitHubRepositoryName, validateReleaseRef } from "./validation.js";
+import {
+	DEFAULT_INSTALL_CONCURRENCY,
+	DEFAULT_INSTALL_TIMEOUT_MS,
+	FILE_MODE_OWNER_EXECUTE,
+	GIT_FILE_MODE_EXECUTABLE,
+	GIT_FILE_MODE_REGULAR,
+	GIT_FILE_MODE_SYMLINK,
+} from "./constants.js";
 
 /**
- * Gets the installed Quarto CLI version
- * @returns The Quarto version string or null if unavailable
+ * Options for installing updates
  */
-export function getQuartoVersion(): string | null {
-	try {
-		const output = execSync("quarto --version", {
-			stdio: "pipe",
-			encoding: "utf-8",
-		});
-		return output.trim();
-	} catch (error) {
-		core.error(`Quarto CLI is not available: ${error}`);
-		return null;
-	}
+export interface ApplyUpdatesOptions {
+	/** Install with `quarto add`, or from the release archive without the Quarto CLI (default: `quarto`) */
+	installer?: ExtensionInstaller;
+	/** Where the built-in installer gets release archives from (default: downloaded from GitHub) */
+	fetchArchive?: ArchiveFetcher;
+	/** Time one extension may take to install, with either installer, before it is stopped and the update skipped */
+	timeoutMs?: number;
+	/** Most projects installed into at once; the extensions of one project are always installed one at a time */
+	concurrency?: number;
+	/** Stops the running installs and skips the remaining updates when aborted */
+	signal?: AbortSignal;
 }
 
+/** Files an installed update added, changed, or deleted */
+interface InstalledFiles {
+	modifiedFiles: string[];
+	deletedFiles: string[];
+}
+
+/** A failed command, with the output it wrote before failing */
+type CommandError = Error & { stdout?: unknown; stderr?: unknown; killed?: boolean };
+
 /**
- * Checks whether the installed Quarto version satisfies a required version
- * @param quartoVersion The installed Quarto version
- * @param requiredVersion The minimum required Quarto version from extension manifest
- * @returns True if the installed version satisfies the requirement
+ * Runs `quarto --version`
+ * @throws Error if the Quarto CLI is not available
  */
-function satisfiesQuartoRequirement(quartoVersion: string, requiredVersion: string): boolean {
-	const installed = semver.coerce(quartoVersion);
-	const required = semver.coerce(requiredVersion);
+function readQuartoVersion(): string {
+	return execFileSync("quarto", ["--version"], {
+		stdio: "pipe",
+		encoding: "utf-8",
+	}).trim();
+}
 
-	if (!installed || !required) {
-		return true;
+/**
+ * Gets the installed Quarto CLI version
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The Quarto version string or null if unavailable
+ */
+export function getQuartoVersion(logger: Logger = actionsLogger): string | null {
+	try {
+		return readQuartoVersion();
+	} catch (error) {
+		logger.error(`Quarto CLI is not available: ${error}`);
+		return null;
 	}
-
-	return semver.gte(installed, required);
 }
 
 /**
- * Recursively gets all files in a directory
+ * Recursively gets all files and symbolic links in a directory, without following the links
  * @param dirPath Directory path to scan
  * @returns Array of file paths
  */
@@ -59,7 +85,7 @@ function getAllFilesInDirectory(dirPath: string): string[] {
 
 		if (entry.isDirectory()) {
 			files.push(...getAllFilesInDirectory(fullPath));
-		} else if (entry.isFile()) {
+		} else if (entry.isFile() || entry.isSymbolicLink()) {
 			files.push(fullPath);
 		}
 	}
@@ -68,21 +94,65 @@ function getAllFilesInDirectory(dirPath: string): string[] {
 }
 
 /**
- * Extracts a meaningful error message from an execSync failure.
- * Checks stderr, then stdout, then falls back to the error message.
- * @param error The caught error from execSync
+ * Gets the Git tree entry mode of a file from the filesystem, as git does: a symbolic link, a file its owner can
+ * execute, or a regular file
+ * @param filePath Path of the file
+ * @returns The tree entry mode
+ */
+export function getGitFileMode(filePath: string): GitFileMode {
+	const stats = fs.lstatSync(filePath);
+
+	if (stats.isSymbolicLink()) {
+		return GIT_FILE_MODE_SYMLINK;
+	}
+
+	return stats.mode & FILE_MODE_OWNER_EXECUTE ? GIT_FILE_MODE_EXECUTABLE : GIT_FILE_MODE_REGULAR;
+}
+
+/**
+ * Reads what Git stores for a file
+ * @param filePath Path of the file
+ * @param mode Tree entry mode of the file
+ * @returns The target of a symbolic link, or the content of a file
+ */
+export function readGitFileContent(filePath: string, mode: GitFileMode): Buffer {
+	return mode === GIT_FILE_MODE_SYMLINK ? Buffer.from(fs.readlinkSync(filePath)) : fs.readFileSync(filePath);
+}
+
+/**
+ * Hashes the mode and content of every file in a directory, so a file whose mode alone changes counts as changed
+ * @param dirPath Directory path to scan
+ * @returns Map of file path to hash
+ */
+function hashDirectoryContents(dirPath: string): Map<string, string> {
+	const hashes = new Map<string, string>();
+
+	for (const filePath of getAllFilesInDirectory(dirPath)) {
+		const mode = getGitFileMode(filePath);
+		hashes.set(
+			filePath,
+			crypto.createHash("sha1").update(mode).update(readGitFileContent(filePath, mode)).digest("hex"),
+		);
+	}
+
+	return hashes;
+}
+
+/**
+ * Extracts a meaningful error message from a command failure.
+ * Keeps what the command wrote to stderr, then to stdout, and falls back to the error message without output.
+ * @param error The caught error from the command
  * @returns A descriptive error string
  */
 function extractExecError(error: unknown): string {
 	if (error instanceof Error && "stderr" in error) {
-		const execError = error as Error & { stderr?: unknown; stdout?: unknown };
-		const stderr = String(execError.stderr ?? "").trim();
-		if (stderr) {
-			return stderr;
-		}
-		const stdout = String(execError.stdout ?? "").trim();
-		if (stdout) {
-			return stdout;
+		const execError = error as CommandError;
+		const output = [execError.stderr, execError.stdout]
+			.map((stream) => String(stream ?? "").trim())
+			.filter(Boolean)
+			.join("\n");
+		if (output) {
+			return output;
 		}
 	}
 	return error instanceof Error ? error.message : String(error);
@@ -93,8 +163,8 @@ function extractExecError(error: unknown): string {
  * @returns The installed Quarto version string
  * @throws Error if Quarto CLI is not available
  */
-function requireQuartoVersion(): string {
-	const quartoVersion = getQuartoVersion();
+function requireQuartoVersion(logger: Logger): string {
+	const quartoVersion = getQuartoVersion(logger);
 
 	if (!quartoVersion) {
 		const errorMessage =
@@ -104,11 +174,11 @@ function requireQuartoVersion(): string {
 			"    uses: quarto-dev/quarto-actions/setup@v2\n" +
 			"    with:\n" +
 			'      version: "release"';
-		core.error(errorMessage);
+		logger.error(errorMessage);
 		throw new Error("Quarto CLI is not available");
 	}
 
-	core.info(`Installed Quarto version: ${quartoVersion}`);
+	logger.info(`Installed Quarto version: ${quartoVersion}`);
 	return quartoVersion;
 }
 
@@ -129,92 +199,311 @@ export function deriveQuartoAddCwd(manifestPath: string): string {
 }
 
 /**
- * Applies extension updates using Quarto CLI
- * @param updates Array of updates to apply
- * @returns Result containing modified files and any skipped updates
+ * Gets the Quarto version that the `quarto-required` of new releases is checked against before installing,
+ * where Quarto is optional
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The installed Quarto version, or null if Quarto is not installed
  */
-export function applyUpdates(updates: ExtensionUpdate[]): ApplyUpdatesResult {
-	const quartoVersion = requireQuartoVersion();
+export function findQuartoVersion(logger: Logger = actionsLogger): string | null {
+	try {
+		const quartoVersion = readQuartoVersion();
+		logger.info(`Installed Quarto version: ${quartoVersion}`);
+		return quartoVersion;
+	} catch {
+		logger.info("Quarto CLI is not available, so quarto-required is not checked");
+		return null;
+	}
+}
 
-	const modifiedFiles: string[] = [];
-	const skippedUpdates: ApplyUpdatesResult["skippedUpdates"] = [];
+/**
+ * Runs a program without a shell and without blocking, stopping it once it outlasts the timeout or the signal aborts
+ * @returns The standard output
+ * @throws CommandError with the output captured so far if the program fails, times out, or is aborted
+ */
+function runCommand(
+	file: string,
+	args: string[],
+	cwd: string,
+	timeoutMs: number,
+	signal?: AbortSignal,
+): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(file, args, { cwd, encoding: "utf-8", timeout: timeoutMs, signal }, (error, stdout, stderr) => {
+			if (!error) {
+				resolve(stdout);
+				return;
+			}
+			// The reason the program was stopped comes first, then what it wrote until then
+			const stopped = signal?.aborted
+				? "Cancelled"
+				: (error as CommandError).killed
+					? `${[file, ...args].join(" ")} timed out after ${timeoutMs / 1000} s`
+					: "";
+			reject(Object.assign(error, { stdout, stderr: [stopped, stderr.trim()].filter(Boolean).join("\n") }));
+		});
+	});
+}
 
-	for (const update of updates) {
-		try {
-			const source = `${update.repositoryName}@${update.latestVersion}`;
-			const quartoAddCwd = deriveQuartoAddCwd(update.manifestPath);
-			core.info(`Running: quarto add ${source} --no-prompt (cwd: ${quartoAddCwd})`);
-
-			const output = execSync(`quarto add ${source} --no-prompt`, {
-				cwd: quartoAddCwd,
-				stdio: "pipe",
-				encoding: "utf-8",
+/**
+ * Runs `quarto add` for an update in the project holding the extension.
+ * The source is passed as a single argument, never through a shell.
+ */
+async function installWithQuarto(
+	update: ExtensionUpdate,
+	source: string,
+	options: ApplyUpdatesOptions,
+	logger: Logger,
+): Promise<void> {
+	const quartoAddCwd = deriveQuartoAddCwd(update.manifestPath);
+	logger.info(`Running: quarto add ${source} --no-prompt (cwd: ${quartoAddCwd})`);
+
+	const output = await runCommand(
+		"quarto",
+		["add", source, "--no-prompt"],
+		quartoAddCwd,
+		options.timeoutMs ?? DEFAULT_INSTALL_TIMEOUT_MS,
+		options.signal,
+	);
+
+	if (output) {
+		logger.info(output.trim());
+	}
+}
+
+/**
+ * Installs an update with the built-in installer, stopping the download once it outlasts the timeout
+ * or the signal aborts
+ */
+async function installFromArchive(
+	update: ExtensionUpdate,
+	ref: string,
+	extensionDir: string,
+	options: ApplyUpdatesOptions,
+	logger: Logger,
+): Promise<void> {
+	const timeoutMs = options.timeoutMs ?? DEFAULT_INSTALL_TIMEOUT_MS;
+	const timeout = AbortSignal.timeout(timeoutMs);
+	const signal = options.signal ? AbortSignal.any([timeout, options.signal]) : timeout;
+
+	try {
+		await installExtension(update.repositoryName, ref, extensionDir, options.fetchArchive, signal, logger);
+	} catch (error) {
+		if (options.signal?.aborted) {
+			throw new Error("Cancelled", { cause: error });
+		}
+		if (timeout.aborted) {
+			throw new Error(`Installing ${update.repositoryName}@${ref} timed out after ${timeoutMs / 1000} s`, {
+				cause: error,
 			});
+		}
+		throw error;
+	}
+}
 
-			if (output) {
-				core.info(output.trim());
-			}
+/**
+ * Installs one update. Its `quarto-required` is not checked here: checkForUpdates() checked it from the
+ * manifest of the release when Quarto is installed, and held the release back when that manifest could not be read
+ * @returns The files the update added, changed, or deleted, or why it was skipped
+ */
+async function applyUpdate(
+	update: ExtensionUpdate,
+	options: ApplyUpdatesOptions,
+	logger: Logger,
+): Promise<InstalledFiles | SkippedUpdate> {
+	// Commit-tracked updates show an abbreviated SHA but are installed from the full one
+	const ref = update.commit?.latestSha ?? update.latestVersion;
+	const source = `${update.repositoryName}@${ref}`;
+
+	// The repository and the ref come from the registry or a manifest, which this repository does not control
+	try {
+		validateGitHubRepositoryName(update.repositoryName, "repository");
+		validateReleaseRef(ref, "version");
+	} catch (error) {
+		const reason = `Rejected the source from the registry: ${error instanceof Error ? error.message : error}`;
+		logger.warning(`Skipping ${update.nameWithOwner}: ${reason}`);
+		return { update, reason };
+	}
 
-			core.info(`Successfully updated ${update.nameWithOwner} to ${update.latestVersion}`);
-
-			// Check quarto-required in the updated manifest
-			const updatedManifest = readExtensionManifest(update.manifestPath);
-			if (updatedManifest?.quartoRequired) {
-				if (!satisfiesQuartoRequirement(quartoVersion, updatedManifest.quartoRequired)) {
-					const reason =
-						`Extension requires Quarto >= ${updatedManifest.quartoRequired} ` +
-						`but installed version is ${quartoVersion}`;
-					core.warning(`Skipping ${update.nameWithOwner}: ${reason}`);
-					skippedUpdates.push({ update, reason });
-					continue;
-				}
-			}
+	try {
+		if (options.signal?.aborted) {
+			throw new Error("Cancelled before installing");
+		}
+
+		const extensionDir = path.dirname(update.manifestPath);
+		const previousHashes = hashDirectoryContents(extensionDir);
 
-			updateManifestSource(update.manifestPath, source);
+		if (options.installer === "builtin") {
+			await installFromArchive(update, ref, extensionDir, options, logger);
+		} else {
+			await installWithQuarto(update, source, options, logger);
+		}
 
-			const extensionDir = path.dirname(update.manifestPath);
-			const extensionFiles = getAllFilesInDirectory(extensionDir);
-			modifiedFiles.push(...extensionFiles);
+		logger.info(`Successfully updated ${update.nameWithOwner} to ${update.latestVersion}`);
 
-			core.info(`Tracked ${extensionFiles.length} file(s) in ${extensionDir}`);
-		} catch (error) {
-			const reason = `Failed to update: ${extractExecError(error)}`;
-			core.warning(`Skipping ${update.nameWithOwner}: ${reason}`);
-			skippedUpdates.push({ update, reason });
+		updateManifestSource(update.manifestPath, source, logger);
+
+		// Only added or changed files need a blob; unchanged ones are already in the base tree
+		const currentHashes = hashDirectoryContents(extensionDir);
+		const modifiedFiles = [...currentHashes.keys()].filter(
+			(file) => previousHashes.get(file) !== currentHashes.get(file),
+		);
+
+		// Files the new release no longer ships must be deleted from the commit tree
+		const deletedFiles = [...previousHashes.keys()].filter((file) => !currentHashes.has(file));
+
+		logger.info(`Tracked ${modifiedFiles.length} file(s) in ${extensionDir}`);
+		const unchangedCount = currentHashes.size - modifiedFiles.length;
+		if (unchangedCount > 0) {
+			logger.info(`Left ${unchangedCount} unchanged file(s) out of the commit`);
+		}
+		if (deletedFiles.length > 0) {
+			logger.info(`Removed ${deletedFiles.length} file(s) no longer shipped by ${update.nameWithOwner}`);
 		}
+		return { modifiedFiles, deletedFiles };
+	} catch (error) {
+		const reason = `Failed to update: ${extractExecError(error)}`;
+		logger.warning(`Skipping ${update.nameWithOwner}: ${reason}`);
+		return { update, reason };
+	}
+}
+
+/**
+ * Applies extension updates with the Quarto CLI or the built-in installer.
+ * Projects, each holding an `_extensions` directory, are installed into in parallel, up to `concurrency` at once;
+ * the extensions of one project are installed one after the other, as `quarto add` rewrites the same directory.
+ * @param updates Array of updates to apply
+ * @param options The installer to use (default: `quarto add`), the timeout of each install, the parallelism,
+ * and a signal cancelling the installs
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns Result containing added or changed files, files removed by the updates, and any skipped updates,
+ * in the order of the updates
+ * @throws Error if the Quarto CLI installer is used and Quarto is not available
+ */
+export async function applyUpdates(
+	updates: ExtensionUpdate[],
+	options: ApplyUpdatesOptions = {},
+	logger: Logger = actionsLogger,
+): Promise<ApplyUpdatesResult> {
+	if (options.installer !== "builtin") {
+		requireQuartoVersion(logger);
+	}
+
+	const projects = new Map<string, ExtensionUpdate[]>();
+	for (const update of updates) {
+		const project = deriveQuartoAddCwd(update.manifestPath);
+		projects.set(project, [...(projects.get(project) ?? []), update]);
 	}
 
-	return { modifiedFiles, skippedUpdates };
+	const outcomes = new Map<ExtensionUpdate, InstalledFiles | SkippedUpdate>();
+	const queue = [...projects.values()];
+	const installNext = async (): Promise<void> => {
+		for (let project = queue.shift(); project; project = queue.shift()) {
+			for (const update of project) {
+				outcomes.set(update, await applyUpdate(update, options, logger));
+			}
+		}
+	};
+	const workers = Math.min(Math.max(options.concurrency ?? DEFAULT_INSTALL_CONCURRENCY, 1), queue.length);
+	await Promise.all(Array.from({ length: workers }, installNext));
+
+	const result: ApplyUpdatesResult = { modifiedFiles: [], deletedFiles: [], skippedUpdates: [] };
+	for (const update of updates) {
+		const outcome = outcomes.get(update);
+		if (outcome && "reason" in outcome) {
+			result.skippedUpdates.push(outcome);
+		} else if (outcome) {
+			result.modifiedFiles.push(...outcome.modifiedFiles);
+			result.deletedFiles.push(...outcome.deletedFiles);
+		}
+	}
+	return result;
 }
 
 /**
  * Creates a branch name for the update PR
  * @param updates Array of updates
  * @param branchPrefix Prefix for the branch name (will be separated with /)
+ * @param groupName Name of the group the updates belong to; its branch name does not change between runs
  * @returns Branch name
  */
-export function createBranchName(updates: ExtensionUpdate[], branchPrefix = "chore/quarto-extensions"): string {
+export function createBranchName(
+	updates: ExtensionUpdate[],
+	branchPrefix = "chore/quarto-extensions",
+	groupName?: string,
+): string {
 	const timestamp = new Date().toISOString().split("T")[0].replace(/-/g, "");
 	const prefix = branchPrefix.length === 0 ? "chore/quarto-extensions" : branchPrefix;
 
+	if (groupName) {
+		return `${prefix}/update-group-${groupName}`;
+	}
+
 	if (updates.length === 1) {
 		const update = updates[0];
-		const safeName = update.nameWithOwner.replace(/\//g, "-");
-		return `${prefix}/update-${safeName}-${update.latestVersion}`;
+		return `${prefix}/update-${getBranchSafeName(update.nameWithOwner)}-${update.latestVersion}`;
 	}
 
 	return `${prefix}/update-extensions-${timestamp}`;
 }
 
+/**
+ * Converts an extension's owner/name into the form used in branch names
+ * @param nameWithOwner The extension's owner/name
+ * @returns The owner and name joined with "-"
+ */
+export function getBranchSafeName(nameWithOwner: string): string {
+	return nameWithOwner.replace(/\//g, "-");
+}
+
+/**
+ * Parses a single-extension branch name created by createBranchName
+ * @param branchName The branch name
+ * @param branchPrefix Prefix of the update branches
+ * @returns The owner and name joined with "-" as in the branch name, and the target version or, for an extension
+ * tracked by commit, the abbreviated SHA; null for other branches
+ */
+export function parseExtensionBranchName(
+	branchName: string,
+	branchPrefix = "chore/quarto-extensions",
+): { extension: string; version: string } | null {
+	const prefix = `${branchPrefix.length === 0 ? "chore/quarto-extensions" : branchPrefix}/update-`;
+	if (!branchName.startsWith(prefix)) {
+		return null;
+	}
+
+	// Commit branches end in a SHA of SHORT_SHA_LENGTH characters, unlike the date of the branches of several updates
+	const match = /^(.+)-(v?\d+\.\d+\.\d+(?:[-+][\w.+-]*)?|[0-9a-f]{7})$/.exec(branchName.slice(prefix.length));
+	if (!match) {
+		return null;
+	}
+
+	return { extension: match[1], version: match[2] };
+}
+
 /**
  * Creates a commit message for the updates
  * @param updates Array of updates
  * @param prefix Prefix for the commit message (default: "chore(deps):")
+ * @param groupName Name of the group the updates belong to
  * @returns Commit message
  */
-export function createCommitMessage(updates: ExtensionUpdate[], prefix = "chore(deps):"): string {
+export function createCommitMessage(updates: ExtensionUpdate[], prefix = "chore(deps):", groupName?: string): string {
+	if (groupName) {
+		const body = updates.map((u) => `- ${u.nameWithOwner}: ${u.currentVersion} → ${u.latestVersion}`).join("\n");
+		return `${prefix} update ${groupName} group of Quarto extensions\n\n${body}`;
+	}
+
 	if (updates.length === 1) {
 		const update = updates[0];
+
+		if (update.commit) {
+			return `${prefix} update ${update.nameWithOwner} extension to ${update.latestVersion}
+
+Updates ${update.nameWithOwner} from ${update.currentVersion} to ${update.latestVersion}, the latest commit on ${update.commit.branch}.
+
+Changes: ${update.commit.compareUrl ?? update.releaseUrl}`;
+		}
+
 		return `${prefix} update ${update.nameWithOwner} extension to ${update.latestVersion}
 
 Updates ${update.nameWithOwner} from ${update.currentVersion} to ${update.latestVersion}.
@@ -231,12 +520,13 @@ Release notes: ${update.releaseUrl}`;
 /**
  * Validates that files were actually modified
  * @param filePaths Array of file paths to check
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns True if all files exist
  */
-export function validateModifiedFiles(filePaths: string[]): boolean {
+export function validateModifiedFiles(filePaths: string[], logger: Logger = actionsLogger): boolean {
 	for (const filePath of filePaths) {
 		if (!fs.existsSync(filePath)) {
-			core.error(`Modified file not found: ${filePath}`);
+			logger.error(`Modified file not found: ${filePath}`);
 			return false;
 		}
 	}
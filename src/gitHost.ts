@@ -0,0 +1,103 @@
+import type { GitFileMode, MergeMethod } from "./types.js";
+
+/**
+ * A file to commit, with its path relative to the repository root
+ */
+export interface CommitFile {
+	path: string;
+	/** Content of the file, or the target of a symbolic link */
+	content: Buffer;
+	/** Tree entry mode (default: regular file) */
+	mode?: GitFileMode;
+}
+
+/**
+ * An open pull request (GitHub) or merge request (GitLab)
+ */
+export interface HostPullRequest {
+	number: number;
+	url: string;
+	title: string;
+	body?: string;
+	/** Source branch */
+	branchName: string;
+	/** True if the source branch is in the repository itself rather than in a fork */
+	fromSameRepository: boolean;
+	labels: string[];
+}
+
+/**
+ * How an update branch compares with the base branch
+ */
+export interface UpdateBranchStatus {
+	/** Number of base branch commits missing from the update branch */
+	behindBy: number;
+	/** True if the host reports that the PR cannot be merged cleanly */
+	conflicting: boolean;
+	/** SHAs of commits on the update branch that were not authored by the PR author */
+	foreignCommits: string[];
+}
+
+/**
+ * The repository updates are proposed on, and the operations the PR pipeline needs from the service hosting it.
+ * Methods throw on API errors; the functions calling them decide which errors to report and carry on from.
+ * Numbers are those shown to users: the PR number on GitHub, the merge request IID on GitLab.
+ */
+export interface GitHost {
+	/** Name of the service, for messages */
+	readonly name: string;
+	/** Repository acted on, as owner/repo or, on GitLab, the full project path */
+	readonly repository: string;
+	/** Prefix of a PR reference in comments and descriptions: `#` on GitHub, `!` on GitLab */
+	readonly pullRequestPrefix: string;
+
+	/** Gets the SHA of the latest commit on a branch */
+	getBranchSha(branch: string): Promise<string>;
+	/**
+	 * Creates a branch pointing at a commit
+	 * @returns False if the branch already exists
+	 */
+	createBranch(branch: string, sha: string): Promise<boolean>;
+	/**
+	 * Points an existing branch at a commit, discarding the commits it had.
+	 * A host that cannot move a branch checks that it exists, and its createCommit() resets it to the base commit.
+	 */
+	updateBranch(branch: string, sha: string): Promise<void>;
+	deleteBranch(branch: string): Promise<void>;
+	/**
+	 * Commits files on top of a base commit and moves the branch to the new commit
+	 * @returns The SHA of the new commit
+	 */
+	createCommit(
+		branch: string,
+		baseSha: string,
+		message: string,
+		files: CommitFile[],
+		deletedFiles: string[],
+	): Promise<string>;
+	/** Compares a PR's branch with a base commit */
+	getBranchStatus(prNumber: number, branch: string, baseSha: string): Promise<UpdateBranchStatus>;
+
+	/** Finds the open PR from a branch of the repository, or null if there is none */
+	findOpenPullRequest(branch: string): Promise<HostPullRequest | null>;
+	/** Lists every open PR of the repository, reading as many pages as there are */
+	listOpenPullRequests(): Promise<HostPullRequest[]>;
+	createPullRequest(
+		branch: string,
+		baseBranch: string,
+		title: string,
+		body: string,
+	): Promise<{ number: number; url: string }>;
+	updatePullRequest(prNumber: number, title: string, body: string): Promise<{ number: number; url: string }>;
+	closePullRequest(prNumber: number): Promise<void>;
+	addComment(prNumber: number, body: string): Promise<void>;
+	/** Replaces the labels of a PR */
+	setLabels(prNumber: number, labels: string[]): Promise<void>;
+	requestReviewers(prNumber: number, reviewers: string[], teamReviewers: string[]): Promise<void>;
+	addAssignees(prNumber: number, assignees: string[]): Promise<void>;
+	/** Merges a PR once its checks pass and its reviews are in */
+	enableAutoMerge(prNumber: number, mergeMethod: MergeMethod): Promise<void>;
+	isAutoMergeEnabled(prNumber: number): Promise<boolean>;
+
+	createIssue(title: string, body: string): Promise<{ number: number; url: string }>;
+}
@@ -0,0 +1,334 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import type { GitHost, HostPullRequest } from "./gitHost.js";
+import { GitHostAPIError } from "./errors.js";
+import { getNextPage, requestAllPages, type HostResponse } from "./hostHttp.js";
+import {
+	DEFAULT_FETCH_TIMEOUT_MS,
+	GIT_FILE_MODE_REGULAR,
+	HTTP_CONFLICT,
+	HTTP_HEADER_ACCEPT_JSON,
+	HTTP_NOT_FOUND,
+	HTTP_USER_AGENT,
+	PULL_REQUESTS_PER_PAGE,
+	TIMELINE_EVENTS_PER_PAGE,
+} from "./constants.js";
+
+/**
+ * Options for the Gitea host, which also serves Forgejo
+ */
+export interface GiteaHostOptions {
+	/** Repository, as owner/repo */
+	repository: string;
+	/** Access token with write access to the repository and its issues */
+	token: string;
+	/** REST API URL of the instance, such as `https://gitea.example.com/api/v1` */
+	apiUrl: string;
+	/** Where warnings are logged (default: the GitHub Actions log) */
+	logger?: Logger;
+}
+
+/** A pull request as returned by the Gitea REST API */
+interface GiteaPullRequest {
+	number: number;
+	html_url: string;
+	title: string;
+	body: string | null;
+	head: { ref: string; sha: string; repo_id: number };
+	base: { repo_id: number };
+	labels: { name: string }[] | null;
+	mergeable?: boolean;
+	user?: { login: string } | null;
+}
+
+/** An event of the timeline of an issue or a pull request, as returned by the Gitea API */
+interface GiteaTimelineEvent {
+	type: string;
+}
+
+/** A commit as returned by the Gitea compare API */
+interface GiteaCommit {
+	sha: string;
+	author: { login: string } | null;
+}
+
+/**
+ * Converts a Gitea pull request into the host's view of a PR
+ */
+function toHostPullRequest(pullRequest: GiteaPullRequest): HostPullRequest {
+	return {
+		number: pullRequest.number,
+		url: pullRequest.html_url,
+		title: pullRequest.title,
+		body: pullRequest.body ?? undefined,
+		branchName: pullRequest.head.ref,
+		fromSameRepository: pullRequest.head.repo_id === pullRequest.base.repo_id,
+		labels: (pullRequest.labels ?? []).map((label) => label.name),
+	};
+}
+
+/**
+ * Encodes a branch or file path for the URL, keeping its slashes
+ */
+function encodePath(path: string): string {
+	return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Creates the Gitea host: the REST API v1 of Gitea or Forgejo for branches, commits, pull requests, labels,
+ * reviewers, and issues. There is no GraphQL API, so auto-merge is scheduled through the merge endpoint, merging once
+ * the checks succeed; whether a merge is scheduled is read from the events scheduling and cancelling it on the
+ * pull request's timeline, which the API has instead of a field.
+ * The contents API only writes regular files, so an executable file or a symbolic link is committed as a regular one,
+ * a link holding the path it points to, with a warning pointing to `commit-mode: git`.
+ * @param options The repository, the access token, the API URL of the instance, and where warnings are logged
+ * @returns The host acting on the repository
+ */
+export function createGiteaHost(options: GiteaHostOptions): GitHost {
+	const apiUrl = options.apiUrl.replace(/\/+$/, "");
+	const repoPath = `/repos/${encodePath(options.repository)}`;
+
+	/**
+	 * Sends a request to the repository's API, reading the next page of a list from the `Link` header
+	 * @returns The parsed JSON response, or undefined for an empty one, and the next page, if any
+	 * @throws GitHostAPIError if the API answers with an error status
+	 */
+	async function send<T>(operation: string, method: string, path: string, body?: unknown): Promise<HostResponse<T>> {
+		const response = await fetch(`${apiUrl}${repoPath}${path}`, {
+			method,
+			headers: {
+				Authorization: `token ${options.token}`,
+				Accept: HTTP_HEADER_ACCEPT_JSON,
+				"Content-Type": HTTP_HEADER_ACCEPT_JSON,
+				"User-Agent": HTTP_USER_AGENT,
+			},
+			body: body === undefined ? undefined : JSON.stringify(body),
+			signal: AbortSignal.timeout(DEFAULT_FETCH_TIMEOUT_MS),
+		});
+
+		const text = await response.text();
+		if (!response.ok) {
+			throw new GitHostAPIError(
+				`Gitea API ${method} ${path} failed with status ${response.status}: ${text}`,
+				"Gitea",
+				operation,
+				response.status,
+			);
+		}
+
+		return {
+			data: (text ? JSON.parse(text) : undefined) as T,
+			nextPage: getNextPage(response.headers.get("Link")),
+		};
+	}
+
+	/**
+	 * Sends a request to the repository's API
+	 * @returns The parsed JSON response, or undefined for an empty one
+	 * @throws GitHostAPIError if the API answers with an error status
+	 */
+	async function request<T>(operation: string, method: string, path: string, body?: unknown): Promise<T> {
+		return (await send<T>(operation, method, path, body)).data;
+	}
+
+	/**
+	 * Gets the blob SHA of a file at a commit, which the contents API needs to update or delete it
+	 * @returns The SHA, or undefined if the file does not exist
+	 */
+	async function getFileSha(filePath: string, ref: string): Promise<string | undefined> {
+		try {
+			const file = await request<{ sha: string }>(
+				"getContents",
+				"GET",
+				`/contents/${encodePath(filePath)}?ref=${encodeURIComponent(ref)}`,
+			);
+			return file.sha;
+		} catch (error) {
+			if (error instanceof GitHostAPIError && error.statusCode === HTTP_NOT_FOUND) {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	const listPullRequests = async () =>
+		(
+			await requestAllPages<GiteaPullRequest>(
+				send,
+				"listPullRequests",
+				`/pulls?state=open&limit=${PULL_REQUESTS_PER_PAGE}`,
+			)
+		).map(toHostPullRequest);
+
+	return {
+		name: "Gitea",
+		repository: options.repository,
+		pullRequestPrefix: "#",
+
+		async getBranchSha(branch) {
+			const data = await request<{ commit: { id: string } }>("getBranch", "GET", `/branches/${encodePath(branch)}`);
+			return data.commit.id;
+		},
+
+		async createBranch(branch, sha) {
+			try {
+				await request("createBranch", "POST", "/branches", { new_branch_name: branch, old_ref_name: sha });
+				return true;
+			} catch (error) {
+				if (error instanceof GitHostAPIError && error.statusCode === HTTP_CONFLICT) {
+					return false;
+				}
+				throw error;
+			}
+		},
+
+		// Deleting the branch would close its pull request, so the branch is force-updated in place
+		async updateBranch(branch, sha) {
+			await request("updateBranch", "PUT", `/branches/${encodePath(branch)}`, { new_commit_id: sha, force: true });
+		},
+
+		async deleteBranch(branch) {
+			await request("deleteBranch", "DELETE", `/branches/${encodePath(branch)}`);
+		},
+
+		// The contents API commits on top of the branch, which the pipeline has just pointed at the base commit
+		async createCommit(branch, baseSha, message, files, deletedFiles) {
+			const logger = options.logger ?? actionsLogger;
+			for (const file of files.filter((file) => file.mode && file.mode !== GIT_FILE_MODE_REGULAR)) {
+				logger.warning(
+					`Gitea cannot commit executable files or symbolic links through its API: ${file.path} is committed ` +
+						"as a regular file. Use commit-mode: git to keep its mode",
+				);
+			}
+
+			const changes = [];
+			for (const file of files) {
+				const sha = await getFileSha(file.path, baseSha);
+				changes.push({
+					operation: sha ? "update" : "create",
+					path: file.path,
+					content: file.content.toString("base64"),
+					...(sha && { sha }),
+				});
+			}
+			for (const filePath of deletedFiles) {
+				changes.push({ operation: "delete", path: filePath, sha: await getFileSha(filePath, baseSha) });
+			}
+
+			const result = await request<{ commit: { sha: string } }>("createCommit", "POST", "/contents", {
+				branch,
+				message,
+				files: changes,
+			});
+			return result.commit.sha;
+		},
+
+		async getBranchStatus(prNumber, _branch, baseSha) {
+			const pullRequest = await request<GiteaPullRequest>("getPullRequest", "GET", `/pulls/${prNumber}`);
+			const compare = (base: string, head: string) =>
+				request<{ total_commits: number; commits: GiteaCommit[] }>(
+					"compare",
+					"GET",
+					`/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`,
+				);
+			const ahead = await compare(baseSha, pullRequest.head.sha);
+			const behind = await compare(pullRequest.head.sha, baseSha);
+
+			const botLogin = pullRequest.user?.login;
+			return {
+				behindBy: behind.total_commits,
+				conflicting: pullRequest.mergeable === false,
+				foreignCommits: ahead.commits
+					.filter((commit) => !botLogin || commit.author?.login !== botLogin)
+					.map((commit) => commit.sha),
+			};
+		},
+
+		// The list API cannot filter on the source branch
+		async findOpenPullRequest(branch) {
+			const pullRequests = await listPullRequests();
+			return pullRequests.find((pr) => pr.branchName === branch && pr.fromSameRepository) ?? null;
+		},
+
+		listOpenPullRequests: listPullRequests,
+
+		async createPullRequest(branch, baseBranch, title, body) {
+			const pullRequest = await request<GiteaPullRequest>("createPullRequest", "POST", "/pulls", {
+				head: branch,
+				base: baseBranch,
+				title,
+				body,
+			});
+			return { number: pullRequest.number, url: pullRequest.html_url };
+		},
+
+		async updatePullRequest(prNumber, title, body) {
+			const pullRequest = await request<GiteaPullRequest>("updatePullRequest", "PATCH", `/pulls/${prNumber}`, {
+				title,
+				body,
+			});
+			return { number: pullRequest.number, url: pullRequest.html_url };
+		},
+
+		async closePullRequest(prNumber) {
+			await request("closePullRequest", "PATCH", `/pulls/${prNumber}`, { state: "closed" });
+		},
+
+		async addComment(prNumber, body) {
+			await request("createComment", "POST", `/issues/${prNumber}/comments`, { body });
+		},
+
+		async setLabels(prNumber, labels) {
+			await request("setLabels", "PUT", `/issues/${prNumber}/labels`, { labels });
+		},
+
+		async requestReviewers(prNumber, reviewers, teamReviewers) {
+			await request("requestReviewers", "POST", `/pulls/${prNumber}/requested_reviewers`, {
+				reviewers,
+				team_reviewers: teamReviewers,
+			});
+		},
+
+		async addAssignees(prNumber, assignees) {
+			const issue = await request<{ assignees: { login: string }[] | null }>("getIssue", "GET", `/issues/${prNumber}`);
+			const current = (issue.assignees ?? []).map((assignee) => assignee.login);
+			await request("setAssignees", "PATCH", `/issues/${prNumber}`, {
+				assignees: [...new Set([...current, ...assignees])],
+			});
+		},
+
+		async enableAutoMerge(prNumber, mergeMethod) {
+			try {
+				await request("scheduleAutoMerge", "POST", `/pulls/${prNumber}/merge`, {
+					Do: mergeMethod,
+					merge_when_checks_succeed: true,
+				});
+			} catch (error) {
+				// A conflict means the merge is already scheduled
+				if (!(error instanceof GitHostAPIError && error.statusCode === HTTP_CONFLICT)) {
+					throw error;
+				}
+			}
+		},
+
+		async isAutoMergeEnabled(prNumber) {
+			// The API has no field for a scheduled merge, but scheduling and cancelling it leave events on the timeline
+			const events = await requestAllPages<GiteaTimelineEvent>(
+				send,
+				"listTimeline",
+				`/issues/${prNumber}/timeline?limit=${TIMELINE_EVENTS_PER_PAGE}`,
+			);
+			const last = events
+				.filter((event) => event.type === "pull_scheduled_merge" || event.type === "pull_cancel_scheduled_merge")
+				.at(-1);
+			return last?.type === "pull_scheduled_merge";
+		},
+
+		async createIssue(title, body) {
+			const issue = await request<{ number: number; html_url: string }>("createIssue", "POST", "/issues", {
+				title,
+				body,
+			});
+			return { number: issue.number, url: issue.html_url };
+		},
+	};
+}
@@ -1,188 +1,670 @@
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import * as github from "@actions/github";
+import * as semver from "semver";
 import type {
 	PRAssignmentConfig,
 	ExtensionUpdate,
 	AutoMergeConfig,
 	UpdateStrategy,
 	ExtensionFilterConfig,
+	BlockedUpdate,
+	DeferredUpdate,
+	InstalledExtension,
 } from "./types.js";
-import { HTTP_UNPROCESSABLE_ENTITY, HTTP_NOT_FOUND, GIT_FILE_MODE_REGULAR } from "./constants.js";
+import type { GitHost, HostPullRequest } from "./gitHost.js";
+import {
+	HTTP_UNPROCESSABLE_ENTITY,
+	HTTP_NOT_FOUND,
+	GIT_FILE_MODE_REGULAR,
+	UPDATES_MARKER,
+	PULL_REQUESTS_PER_PAGE,
+} from "./constants.js";
 import { generateDryRunMarkdown } from "./summary.js";
+import { getBranchSafeName, parseExtensionBranchName } from "./git.js";
+import { isCommitSha } from "./extensions.js";
 
-/** GitHub API error with status code */
-interface GitHubError extends Error {
-	status: number;
-}
+export type { UpdateBranchStatus } from "./gitHost.js";
 
-/** Type guard to check if an error is a GitHub API error with status code */
-function isGitHubError(error: unknown): error is GitHubError {
-	return (
-		error instanceof Error && "status" in error && typeof (error as Error & { status?: unknown }).status === "number"
-	);
+/**
+ * Gets the HTTP status of an API error: `status` for Octokit request errors, `statusCode` for the updater's own errors
+ * @returns The status, or undefined if the error carries none
+ */
+function getErrorStatus(error: unknown): number | undefined {
+	if (!(error instanceof Error)) {
+		return undefined;
+	}
+	const { status, statusCode } = error as Error & { status?: unknown; statusCode?: unknown };
+	if (typeof status === "number") {
+		return status;
+	}
+	return typeof statusCode === "number" ? statusCode : undefined;
 }
 
 /** Type alias for GitHub Octokit client */
 export type OctokitClient = ReturnType<typeof github.getOctokit>;
 
+/** A pull request as listed by the GitHub REST API */
+interface GitHubPullRequest {
+	number: number;
+	html_url: string;
+	title: string;
+	body?: string | null;
+	head: { ref: string; repo?: { full_name: string } | null };
+	labels?: { name?: string }[];
+}
+
+/**
+ * Creates the GitHub host: REST calls for refs, commits, PRs, labels, reviewers, and issues,
+ * and GraphQL calls for auto-merge, which the REST API does not support
+ * @param octokit GitHub API client
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @returns The host acting on owner/repo
+ */
+export function createGitHubHost(octokit: OctokitClient, owner: string, repo: string): GitHost {
+	const toHostPullRequest = (pr: GitHubPullRequest): HostPullRequest => ({
+		number: pr.number,
+		url: pr.html_url,
+		title: pr.title,
+		body: pr.body ?? undefined,
+		branchName: pr.head.ref,
+		fromSameRepository: pr.head.repo?.full_name === `${owner}/${repo}`,
+		labels: (pr.labels ?? []).flatMap((label) => (label.name ? [label.name] : [])),
+	});
+
+	return {
+		name: "GitHub",
+		repository: `${owner}/${repo}`,
+		pullRequestPrefix: "#",
+
+		async getBranchSha(branch) {
+			const { data: refData } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+			return refData.object.sha;
+		},
+
+		async createBranch(branch, sha) {
+			try {
+				await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha });
+				return true;
+			} catch (error) {
+				if (getErrorStatus(error) === HTTP_UNPROCESSABLE_ENTITY) {
+					return false;
+				}
+				throw error;
+			}
+		},
+
+		async updateBranch(branch, sha) {
+			await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha, force: true });
+		},
+
+		async deleteBranch(branch) {
+			await octokit.rest.git.deleteRef({ owner, repo, ref: `heads/${branch}` });
+		},
+
+		async createCommit(branch, baseSha, message, files, deletedFiles) {
+			const blobs = await Promise.all(
+				files.map(async (file) => {
+					const { data: blob } = await octokit.rest.git.createBlob({
+						owner,
+						repo,
+						content: file.content.toString("base64"),
+						encoding: "base64",
+					});
+
+					return {
+						path: file.path,
+						mode: file.mode ?? GIT_FILE_MODE_REGULAR,
+						type: "blob" as const,
+						sha: blob.sha,
+					};
+				}),
+			);
+
+			// A null SHA removes the path from the base tree
+			const deletions = deletedFiles.map((filePath) => ({
+				path: filePath,
+				mode: GIT_FILE_MODE_REGULAR,
+				type: "blob" as const,
+				sha: null,
+			}));
+			const tree = [...blobs, ...deletions];
+
+			const { data: newTree } = await octokit.rest.git.createTree({
+				owner,
+				repo,
+				base_tree: baseSha,
+				tree,
+			});
+
+			const { data: commit } = await octokit.rest.git.createCommit({
+				owner,
+				repo,
+				message,
+				tree: newTree.sha,
+				parents: [baseSha],
+			});
+
+			await octokit.rest.git.updateRef({
+				owner,
+				repo,
+				ref: `heads/${branch}`,
+				sha: commit.sha,
+			});
+
+			return commit.sha;
+		},
+
+		async getBranchStatus(prNumber, branch, baseSha) {
+			const { data: pr } = await octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: prNumber,
+			});
+			const { data: comparison } = await octokit.rest.repos.compareCommits({
+				owner,
+				repo,
+				base: baseSha,
+				head: branch,
+			});
+
+			// The updater authors its commits as the same account that opens the PR
+			const botLogin = pr.user?.login;
+			const foreignCommits = comparison.commits
+				.filter((commit) => !botLogin || commit.author?.login !== botLogin)
+				.map((commit) => commit.sha);
+
+			return {
+				behindBy: comparison.behind_by,
+				// null means GitHub has not computed mergeability yet
+				conflicting: pr.mergeable === false,
+				foreignCommits,
+			};
+		},
+
+		async findOpenPullRequest(branch) {
+			const { data: openPRs } = await octokit.rest.pulls.list({
+				owner,
+				repo,
+				head: `${owner}:${branch}`,
+				state: "open",
+			});
+			return openPRs.length > 0 ? toHostPullRequest(openPRs[0]) : null;
+		},
+
+		async listOpenPullRequests() {
+			const openPRs = await octokit.paginate(octokit.rest.pulls.list, {
+				owner,
+				repo,
+				state: "open",
+				per_page: PULL_REQUESTS_PER_PAGE,
+			});
+			return openPRs.map(toHostPullRequest);
+		},
+
+		async createPullRequest(branch, baseBranch, title, body) {
+			const { data: pr } = await octokit.rest.pulls.create({
+				owner,
+				repo,
+				title,
+				body,
+				head: branch,
+				base: baseBranch,
+			});
+			return { number: pr.number, url: pr.html_url };
+		},
+
+		async updatePullRequest(prNumber, title, body) {
+			const { data: pr } = await octokit.rest.pulls.update({
+				owner,
+				repo,
+				pull_number: prNumber,
+				title,
+				body,
+			});
+			return { number: pr.number, url: pr.html_url };
+		},
+
+		async closePullRequest(prNumber) {
+			await octokit.rest.pulls.update({ owner, repo, pull_number: prNumber, state: "closed" });
+		},
+
+		async addComment(prNumber, body) {
+			await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body });
+		},
+
+		async setLabels(prNumber, labels) {
+			await octokit.rest.issues.setLabels({ owner, repo, issue_number: prNumber, labels });
+		},
+
+		async requestReviewers(prNumber, reviewers, teamReviewers) {
+			await octokit.rest.pulls.requestReviewers({
+				owner,
+				repo,
+				pull_number: prNumber,
+				reviewers,
+				team_reviewers: teamReviewers,
+			});
+		},
+
+		async addAssignees(prNumber, assignees) {
+			await octokit.rest.issues.addAssignees({ owner, repo, issue_number: prNumber, assignees });
+		},
+
+		async enableAutoMerge(prNumber, mergeMethod) {
+			const mutation = `
+				mutation EnableAutoMerge($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) {
+					enablePullRequestAutoMerge(input: {
+						pullRequestId: $pullRequestId
+						mergeMethod: $mergeMethod
+					}) {
+						pullRequest {
+							id
+							number
+							autoMergeRequest {
+								enabledAt
+								enabledBy {
+									login
+								}
+							}
+						}
+					}
+				}
+			`;
+
+			// First, get the PR node ID
+			const prData = await octokit.rest.pulls.get({
+				owner,
+				repo,
+				pull_number: prNumber,
+			});
+
+			// Convert merge method to GraphQL enum format
+			await octokit.graphql(mutation, {
+				pullRequestId: prData.data.node_id,
+				mergeMethod: mergeMethod.toUpperCase(),
+			});
+		},
+
+		async isAutoMergeEnabled(prNumber) {
+			const query = `
+				query CheckAutoMerge($owner: String!, $repo: String!, $prNumber: Int!) {
+					repository(owner: $owner, name: $repo) {
+						pullRequest(number: $prNumber) {
+							autoMergeRequest {
+								enabledAt
+							}
+						}
+					}
+				}
+			`;
+
+			const result = await octokit.graphql<{
+				repository: {
+					pullRequest: {
+						autoMergeRequest: {
+							enabledAt: string;
+						} | null;
+					};
+				};
+			}>(query, {
+				owner,
+				repo,
+				prNumber,
+			});
+
+			return result.repository.pullRequest.autoMergeRequest !== null;
+		},
+
+		async createIssue(title, body) {
+			const { data: issue } = await octokit.rest.issues.create({ owner, repo, title, body });
+			return { number: issue.number, url: issue.html_url };
+		},
+	};
+}
+
 export interface ExistingPRResult {
 	exists: boolean;
 	prNumber?: number;
 	prUrl?: string;
+	prBody?: string;
 }
 
 /**
  * Checks if a PR already exists for a specific branch and title
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * @param host The Git host of the repository
  * @param branchName Branch name to check
  * @param expectedTitle Expected PR title
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns ExistingPRResult with PR details if found
  */
 export async function checkExistingPR(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	branchName: string,
 	expectedTitle: string,
+	logger: Logger = actionsLogger,
 ): Promise<ExistingPRResult> {
 	try {
-		const existingPRs = await octokit.rest.pulls.list({
-			owner,
-			repo,
-			head: `${owner}:${branchName}`,
-			state: "open",
-		});
-
-		if (existingPRs.data.length > 0) {
-			const existingPR = existingPRs.data[0];
-			if (existingPR.title === expectedTitle) {
-				return {
-					exists: true,
-					prNumber: existingPR.number,
-					prUrl: existingPR.html_url,
-				};
-			}
+		const existingPR = await host.findOpenPullRequest(branchName);
+
+		if (existingPR && existingPR.title === expectedTitle) {
+			return {
+				exists: true,
+				prNumber: existingPR.number,
+				prUrl: existingPR.url,
+				prBody: existingPR.body,
+			};
 		}
 	} catch (error) {
-		if (isGitHubError(error)) {
-			if (error.status === HTTP_NOT_FOUND) {
-				core.debug(`No existing PRs found for branch: ${branchName}`);
-				return { exists: false };
-			}
+		if (getErrorStatus(error) === HTTP_NOT_FOUND) {
+			logger.debug(`No existing PRs found for branch: ${branchName}`);
+			return { exists: false };
 		}
-		core.warning(`Unexpected error checking for existing PR on branch ${branchName}: ${error}`);
+		logger.warning(`Unexpected error checking for existing PR on branch ${branchName}: ${error}`);
 		throw error;
 	}
 
 	return { exists: false };
 }
 
+/** An open PR whose branch was created by the updater */
+interface OpenUpdatePR {
+	number: number;
+	branchName: string;
+	/** The extension's owner and name joined with "-", as in the branch name */
+	extension: string;
+	/** The target version, or the abbreviated SHA of the target commit for an extension tracked by commit */
+	version: string;
+	/** The extension's owner/name, from the marker of the PR body; absent for PRs opened before it was written */
+	nameWithOwner?: string;
+}
+
+/**
+ * Reads the owner/name of each update from the hidden marker of a PR body, written by createUpdatesMarker()
+ * @returns The owner/name of each update, or null if the body has no marker
+ */
+function readUpdatesMarker(body: string | undefined): string[] | null {
+	const match = new RegExp(`<!-- ${UPDATES_MARKER}: (.*?) -->`).exec(body ?? "");
+	if (!match) {
+		return null;
+	}
+	return match[1]
+		.split(", ")
+		.filter(Boolean)
+		.map((entry) => entry.slice(0, entry.lastIndexOf("@")));
+}
+
+/**
+ * Tells whether an update PR is for an extension: by the owner/name its body records,
+ * or by its branch name for PRs opened before the marker, where `a-b/c` and `a/b-c` read alike
+ */
+function isUpdatePRFor(pr: OpenUpdatePR, nameWithOwner: string): boolean {
+	return pr.nameWithOwner ? pr.nameWithOwner === nameWithOwner : pr.extension === getBranchSafeName(nameWithOwner);
+}
+
+/**
+ * Tells whether an open update PR for the same extension is superseded by an update: any PR to another commit
+ * when either one moves to a commit, else a PR to the same or an older version
+ */
+function isSupersededBy(pr: OpenUpdatePR, update: ExtensionUpdate): boolean {
+	if (update.commit || isCommitSha(pr.version)) {
+		return pr.version !== update.latestVersion;
+	}
+	return !!semver.valid(update.latestVersion) && !semver.gt(pr.version, update.latestVersion);
+}
+
+/**
+ * Lists the open single-extension update PRs from this repository's own branches under the branch prefix
+ * @returns The PRs, or an empty list if they cannot be listed
+ */
+async function listOpenUpdatePRs(host: GitHost, branchPrefix: string, logger: Logger): Promise<OpenUpdatePR[]> {
+	try {
+		const updatePRs: OpenUpdatePR[] = [];
+		for (const pr of await host.listOpenPullRequests()) {
+			const parsed = parseExtensionBranchName(pr.branchName, branchPrefix);
+			if (parsed && pr.fromSameRepository) {
+				const marked = readUpdatesMarker(pr.body);
+				const nameWithOwner = marked?.length === 1 ? marked[0] : undefined;
+				updatePRs.push({ number: pr.number, branchName: pr.branchName, ...parsed, nameWithOwner });
+			}
+		}
+		return updatePRs;
+	} catch (error) {
+		logger.warning(`Failed to list open PRs: ${error}`);
+		return [];
+	}
+}
+
+/** An open PR counted against the open PR limit */
+export interface UpdaterPR {
+	number: number;
+	branchName: string;
+}
+
+/**
+ * Lists the open PRs opened by the updater: those from this repository's own branches under the branch prefix,
+ * whether for one extension or a group, and those carrying every one of the updater's labels
+ * @param host The Git host of the repository
+ * @param branchPrefix Prefix of the update branches
+ * @param labels Labels the updater adds to its PRs
+ * @returns The open PRs
+ */
+export async function listOpenUpdaterPRs(host: GitHost, branchPrefix: string, labels: string[]): Promise<UpdaterPR[]> {
+	const openPRs = await host.listOpenPullRequests();
+
+	return openPRs
+		.filter((pr) => {
+			const ownBranch = pr.fromSameRepository && pr.branchName.startsWith(`${branchPrefix}/`);
+			const labelled = labels.length > 0 && labels.every((label) => pr.labels.includes(label));
+			return ownBranch || labelled;
+		})
+		.map((pr) => ({ number: pr.number, branchName: pr.branchName }));
+}
+
+/**
+ * Comments on an update PR, closes it, and deletes its branch
+ * @returns True if the PR was closed, false if a step failed (logged as a warning)
+ */
+async function closeUpdatePR(host: GitHost, pr: OpenUpdatePR, comment: string, logger: Logger): Promise<boolean> {
+	try {
+		await host.addComment(pr.number, comment);
+		await host.closePullRequest(pr.number);
+		await host.deleteBranch(pr.branchName);
+		logger.info(`🗑️ Closed PR ${host.pullRequestPrefix}${pr.number} and deleted branch ${pr.branchName}`);
+		return true;
+	} catch (error) {
+		logger.warning(`Failed to close PR ${host.pullRequestPrefix}${pr.number}: ${error}`);
+		return false;
+	}
+}
+
+/**
+ * Closes open single-extension PRs that update the same extension to the same or an older version than a newer PR,
+ * or to another commit of an extension tracked by commit, such as a group PR that now carries the update. Each one gets a comment linking the newer PR, is closed, and has its branch deleted.
+ * Failures are logged as warnings and do not stop the run.
+ * @param host The Git host of the repository
+ * @param update The update the newer PR applies
+ * @param branchPrefix Prefix of the update branches
+ * @param newPRNumber Number of the newer PR
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns Numbers of the PRs that were closed
+ */
+export async function closeSupersededPRs(
+	host: GitHost,
+	update: ExtensionUpdate,
+	branchPrefix: string,
+	newPRNumber: number,
+	logger: Logger = actionsLogger,
+): Promise<number[]> {
+	const newPR = `${host.pullRequestPrefix}${newPRNumber}`;
+	const closedPRs: number[] = [];
+
+	for (const pr of await listOpenUpdatePRs(host, branchPrefix, logger)) {
+		if (pr.number === newPRNumber || !isUpdatePRFor(pr, update.nameWithOwner) || !isSupersededBy(pr, update)) {
+			continue;
+		}
+
+		logger.info(`Closing PR ${host.pullRequestPrefix}${pr.number}: superseded by ${newPR}`);
+		const comment = `Superseded by ${newPR}, which updates ${update.nameWithOwner} to ${update.latestVersion}.`;
+		if (await closeUpdatePR(host, pr, comment, logger)) {
+			closedPRs.push(pr.number);
+		}
+	}
+
+	return closedPRs;
+}
+
+/**
+ * Explains why an update PR is no longer needed
+ * @returns The reason, or null if the PR is still needed or that is unknown: its branch name matches several
+ * installed extensions, or the extension's manifest cannot be read
+ */
+function getObsoleteReason(pr: OpenUpdatePR, installed: InstalledExtension[], baseBranch: string): string | null {
+	const candidates = installed.filter((candidate) => isUpdatePRFor(pr, candidate.nameWithOwner));
+	if (candidates.length > 1) {
+		return null;
+	}
+
+	const extension = candidates[0];
+	if (!extension) {
+		return `the extension is no longer installed on ${baseBranch}`;
+	}
+
+	if (extension.excluded) {
+		return `${extension.nameWithOwner} is now left out by the include-extensions or exclude-extensions filters`;
+	}
+
+	if (extension.unreadable) {
+		return null;
+	}
+
+	// A PR to a commit is no longer needed once the manifest source is pinned to that commit
+	if (isCommitSha(pr.version)) {
+		return extension.sourceRef?.toLowerCase().startsWith(pr.version)
+			? `${extension.nameWithOwner} is already at ${pr.version} on ${baseBranch}`
+			: null;
+	}
+
+	if (extension.version && semver.valid(extension.version) && semver.gte(extension.version, pr.version)) {
+		return `${extension.nameWithOwner} is already at ${extension.version} on ${baseBranch}`;
+	}
+
+	return null;
+}
+
+/**
+ * Closes open update PRs that are no longer needed: the target version is already installed,
+ * the extension was removed, or the include/exclude filters now leave it out.
+ * Each one gets a comment explaining why, is closed, and has its branch deleted.
+ * Failures are logged as warnings and do not stop the run.
+ * @param host The Git host of the repository
+ * @param branchPrefix Prefix of the update branches
+ * @param baseBranch Branch the installed extensions were read from
+ * @param installed Every extension found in the scanned directories
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns Numbers of the PRs that were closed
+ */
+export async function closeObsoletePRs(
+	host: GitHost,
+	branchPrefix: string,
+	baseBranch: string,
+	installed: InstalledExtension[],
+	logger: Logger = actionsLogger,
+): Promise<number[]> {
+	const closedPRs: number[] = [];
+
+	for (const pr of await listOpenUpdatePRs(host, branchPrefix, logger)) {
+		const reason = getObsoleteReason(pr, installed, baseBranch);
+		if (!reason) {
+			continue;
+		}
+
+		logger.info(`Closing PR ${host.pullRequestPrefix}${pr.number}: ${reason}`);
+		const comment = `Closing this pull request as it is no longer needed: ${reason}.`;
+		if (await closeUpdatePR(host, pr, comment, logger)) {
+			closedPRs.push(pr.number);
+		}
+	}
+
+	return closedPRs;
+}
+
 /**
  * Creates a new branch or updates an existing one
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * @param host The Git host of the repository
  * @param branchName Branch name
  * @param baseSha SHA to point the branch to
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
 export async function createOrUpdateBranch(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	branchName: string,
 	baseSha: string,
+	logger: Logger = actionsLogger,
 ): Promise<void> {
-	try {
-		await octokit.rest.git.createRef({
-			owner,
-			repo,
-			ref: `refs/heads/${branchName}`,
-			sha: baseSha,
-		});
-		core.info(`✅ Created branch: ${branchName}`);
-	} catch (error: unknown) {
-		if (isGitHubError(error) && error.status === HTTP_UNPROCESSABLE_ENTITY) {
-			core.info(`Branch ${branchName} already exists, updating it...`);
-			await octokit.rest.git.updateRef({
-				owner,
-				repo,
-				ref: `heads/${branchName}`,
-				sha: baseSha,
-				force: true,
-			});
-		} else {
-			throw error;
-		}
+	if (await host.createBranch(branchName, baseSha)) {
+		logger.info(`✅ Created branch: ${branchName}`);
+		return;
 	}
+
+	logger.info(`Branch ${branchName} already exists, updating it...`);
+	await host.updateBranch(branchName, baseSha);
 }
 
 /**
  * Requests reviewers and assignees for a pull request
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * @param host The Git host of the repository
  * @param prNumber PR number
  * @param assignmentConfig Reviewer and assignee configuration
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
 export async function requestReviewersAndAssignees(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	prNumber: number,
 	assignmentConfig: PRAssignmentConfig,
+	logger: Logger = actionsLogger,
 ): Promise<void> {
-	try {
-		// Request reviewers (individual users and teams)
-		if (assignmentConfig.reviewers.length > 0 || assignmentConfig.teamReviewers.length > 0) {
-			await octokit.rest.pulls.requestReviewers({
-				owner,
-				repo,
-				pull_number: prNumber,
-				reviewers: assignmentConfig.reviewers,
-				team_reviewers: assignmentConfig.teamReviewers,
-			});
+	// Request reviewers (individual users and teams), apart from the assignees so that one failure spares the other
+	if (assignmentConfig.reviewers.length > 0 || assignmentConfig.teamReviewers.length > 0) {
+		try {
+			await host.requestReviewers(prNumber, assignmentConfig.reviewers, assignmentConfig.teamReviewers);
 
+			const [owner] = host.repository.split("/");
 			const reviewerList = [
 				...assignmentConfig.reviewers,
 				...assignmentConfig.teamReviewers.map((team) => `@${owner}/${team}`),
 			];
-			core.info(`✅ Requested reviewers: ${reviewerList.join(", ")}`);
+			logger.info(`✅ Requested reviewers: ${reviewerList.join(", ")}`);
+		} catch (error) {
+			logger.warning(`Failed to request reviewers: ${error instanceof Error ? error.message : String(error)}`);
 		}
+	}
 
-		// Assign users to the PR
-		if (assignmentConfig.assignees.length > 0) {
-			await octokit.rest.issues.addAssignees({
-				owner,
-				repo,
-				issue_number: prNumber,
-				assignees: assignmentConfig.assignees,
-			});
-			core.info(`✅ Added assignees: ${assignmentConfig.assignees.join(", ")}`);
+	// Assign users to the PR
+	if (assignmentConfig.assignees.length > 0) {
+		try {
+			await host.addAssignees(prNumber, assignmentConfig.assignees);
+			logger.info(`✅ Added assignees: ${assignmentConfig.assignees.join(", ")}`);
+		} catch (error) {
+			logger.warning(`Failed to add assignees: ${error instanceof Error ? error.message : String(error)}`);
 		}
-	} catch (error) {
-		core.warning(`Failed to set reviewers/assignees: ${error instanceof Error ? error.message : String(error)}`);
 	}
 }
 
 /**
  * Creates or updates a pull request
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * @param host The Git host of the repository
  * @param branchName Branch name
  * @param baseBranch Base branch name
  * @param prTitle PR title
  * @param prBody PR body
  * @param prLabels Labels to apply
  * @param assignmentConfig Optional reviewer and assignee configuration
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns PR number and URL
  */
 export async function createOrUpdatePR(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	branchName: string,
 	baseBranch: string,
 	prTitle: string,
@@ -190,159 +672,72 @@ export async function createOrUpdatePR(
 	prLabels: string[],
 	assignmentConfig?: PRAssignmentConfig,
 	existingPRNumber?: number,
+	logger: Logger = actionsLogger,
 ): Promise<{ number: number; url: string }> {
-	let prNumber: number;
-	let prUrl: string;
+	let pr: { number: number; url: string };
 
 	if (existingPRNumber) {
-		core.info(`Updating existing PR #${existingPRNumber}`);
-
-		const { data: updatedPR } = await octokit.rest.pulls.update({
-			owner,
-			repo,
-			pull_number: existingPRNumber,
-			title: prTitle,
-			body: prBody,
-		});
-
-		await octokit.rest.issues.setLabels({
-			owner,
-			repo,
-			issue_number: existingPRNumber,
-			labels: prLabels,
-		});
-
-		prNumber = updatedPR.number;
-		prUrl = updatedPR.html_url;
-		core.info(`✅ Updated PR: ${prUrl}`);
+		logger.info(`Updating existing PR ${host.pullRequestPrefix}${existingPRNumber}`);
+
+		pr = await host.updatePullRequest(existingPRNumber, prTitle, prBody);
+		await host.setLabels(existingPRNumber, prLabels);
+
+		logger.info(`✅ Updated PR: ${pr.url}`);
 	} else {
-		const { data: pr } = await octokit.rest.pulls.create({
-			owner,
-			repo,
-			title: prTitle,
-			body: prBody,
-			head: branchName,
-			base: baseBranch,
-		});
-
-		await octokit.rest.issues.setLabels({
-			owner,
-			repo,
-			issue_number: pr.number,
-			labels: prLabels,
-		});
-
-		prNumber = pr.number;
-		prUrl = pr.html_url;
-		core.info(`✅ Created PR: ${prUrl}`);
+		pr = await host.createPullRequest(branchName, baseBranch, prTitle, prBody);
+		await host.setLabels(pr.number, prLabels);
+
+		logger.info(`✅ Created PR: ${pr.url}`);
 	}
 
 	// Request reviewers and assignees if configured
 	if (assignmentConfig) {
-		await requestReviewersAndAssignees(octokit, owner, repo, prNumber, assignmentConfig);
+		await requestReviewersAndAssignees(host, pr.number, assignmentConfig, logger);
 	}
 
-	return { number: prNumber, url: prUrl };
+	return pr;
 }
 
 /**
- * Creates a Git commit with the specified files
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
- * @param branchName Branch name to update
- * @param baseSha Base commit SHA
- * @param message Commit message
- * @param files Array of files with path and content
- * @returns Commit SHA
- */
-export async function createCommit(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
-	branchName: string,
-	baseSha: string,
-	message: string,
-	files: { path: string; content: Buffer }[],
-): Promise<string> {
-	const tree = await Promise.all(
-		files.map(async (file) => {
-			const { data: blob } = await octokit.rest.git.createBlob({
-				owner,
-				repo,
-				content: file.content.toString("base64"),
-				encoding: "base64",
-			});
-
-			return {
-				path: file.path,
-				mode: GIT_FILE_MODE_REGULAR,
-				type: "blob" as const,
-				sha: blob.sha,
-			};
-		}),
-	);
-
-	const { data: newTree } = await octokit.rest.git.createTree({
-		owner,
-		repo,
-		base_tree: baseSha,
-		tree,
-	});
-
-	const { data: commit } = await octokit.rest.git.createCommit({
-		owner,
-		repo,
-		message,
-		tree: newTree.sha,
-		parents: [baseSha],
-	});
-
-	await octokit.rest.git.updateRef({
-		owner,
-		repo,
-		ref: `heads/${branchName}`,
-		sha: commit.sha,
-	});
-
-	return commit.sha;
-}
-
-/**
- * Creates a GitHub issue with dry-run update summary
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * Creates an issue with dry-run update summary
+ * @param host The Git host of the repository
  * @param updates Array of extension updates found
  * @param groupUpdates Whether updates would be grouped
  * @param updateStrategy The update strategy being used
  * @param filterConfig Extension filtering configuration
  * @param autoMergeConfig Auto-merge configuration
+ * @param blockedUpdates Updates held back by the update strategy or a per-extension rule
+ * @param deferredUpdates Updates deferred until their release is past the cooldown
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns Issue number and URL
  */
 export async function createIssueForUpdates(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	updates: ExtensionUpdate[],
 	groupUpdates: boolean,
 	updateStrategy: UpdateStrategy,
 	filterConfig: ExtensionFilterConfig,
 	autoMergeConfig: AutoMergeConfig,
+	blockedUpdates: BlockedUpdate[] = [],
+	deferredUpdates: DeferredUpdate[] = [],
+	logger: Logger = actionsLogger,
 ): Promise<{ number: number; url: string }> {
 	const title = `Quarto Extensions Updates Available (${updates.length} update${updates.length > 1 ? "s" : ""})`;
 
 	// Generate the same markdown content as the job summary
-	const body = generateDryRunMarkdown(updates, groupUpdates, updateStrategy, filterConfig, autoMergeConfig);
+	const body = generateDryRunMarkdown(
+		updates,
+		groupUpdates,
+		updateStrategy,
+		filterConfig,
+		autoMergeConfig,
+		blockedUpdates,
+		deferredUpdates,
+	);
 
-	const { data: issue } = await octokit.rest.issues.create({
-		owner,
-		repo,
-		title,
-		body,
-	});
+	const issue = await host.createIssue(title, body);
 
-	core.info(`✅ Created issue: ${issue.html_url}`);
+	logger.info(`✅ Created issue: ${issue.url}`);
 
-	return { number: issue.number, url: issue.html_url };
+	return issue;
 }
@@ -0,0 +1,356 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import type { GitHost, HostPullRequest } from "./gitHost.js";
+import { GitHostAPIError } from "./errors.js";
+import { getNextPage, requestAllPages, type HostResponse } from "./hostHttp.js";
+import {
+	DEFAULT_FETCH_TIMEOUT_MS,
+	DEFAULT_GITLAB_API_URL,
+	GIT_FILE_MODE_EXECUTABLE,
+	GIT_FILE_MODE_SYMLINK,
+	HTTP_BAD_REQUEST,
+	HTTP_HEADER_ACCEPT_JSON,
+	HTTP_NOT_FOUND,
+	HTTP_USER_AGENT,
+	PULL_REQUESTS_PER_PAGE,
+} from "./constants.js";
+
+/**
+ * Options for the GitLab host
+ */
+export interface GitLabHostOptions {
+	/** Full project path, such as `group/subgroup/project` */
+	project: string;
+	/** Personal, group, or project access token with the `api` scope */
+	token: string;
+	/** REST API URL of the instance (default: `https://gitlab.com/api/v4`) */
+	apiUrl?: string;
+	/** Where warnings are logged (default: the GitHub Actions log) */
+	logger?: Logger;
+}
+
+/** A merge request as returned by the GitLab REST API */
+interface GitLabMergeRequest {
+	iid: number;
+	web_url: string;
+	title: string;
+	description: string | null;
+	source_branch: string;
+	source_project_id: number;
+	target_project_id: number;
+	labels: string[];
+	has_conflicts?: boolean;
+	merge_when_pipeline_succeeds?: boolean;
+	author?: { username: string; name: string } | null;
+	assignees?: { id: number }[];
+}
+
+/** A commit as returned by the GitLab compare API */
+interface GitLabCommit {
+	id: string;
+	author_name: string;
+}
+
+/**
+ * Converts a GitLab merge request into the host's view of a PR
+ */
+function toHostPullRequest(mergeRequest: GitLabMergeRequest): HostPullRequest {
+	return {
+		number: mergeRequest.iid,
+		url: mergeRequest.web_url,
+		title: mergeRequest.title,
+		body: mergeRequest.description ?? undefined,
+		branchName: mergeRequest.source_branch,
+		fromSameRepository: mergeRequest.source_project_id === mergeRequest.target_project_id,
+		labels: mergeRequest.labels,
+	};
+}
+
+/**
+ * Creates the GitLab host: the REST API v4 for branches, commits, merge requests, labels, reviewers, and issues.
+ * Auto-merge sets the merge request to merge when its pipeline succeeds, squashing for the `squash` merge method;
+ * GitLab has no team reviewers, so those requested are ignored with a warning once the user reviewers are set.
+ * The commits API sets executable bits but cannot create symbolic links, so a link is committed as a regular file
+ * holding the path it points to, with a warning pointing to `commit-mode: git`.
+ * @param options The project, the access token, the API URL of the instance, and where warnings are logged
+ * @returns The host acting on the project
+ */
+export function createGitLabHost(options: GitLabHostOptions): GitHost {
+	const apiUrl = (options.apiUrl || DEFAULT_GITLAB_API_URL).replace(/\/+$/, "");
+	const projectPath = `/projects/${encodeURIComponent(options.project)}`;
+	const userIds = new Map<string, number>();
+
+	/**
+	 * Sends a request to the project's API, reading the next page of a list from the `Link` header
+	 * @returns The parsed JSON response, or undefined for an empty one, and the next page, if any
+	 * @throws GitHostAPIError if the API answers with an error status
+	 */
+	async function send<T>(operation: string, method: string, path: string, body?: unknown): Promise<HostResponse<T>> {
+		const response = await fetch(`${apiUrl}${path}`, {
+			method,
+			headers: {
+				"PRIVATE-TOKEN": options.token,
+				Accept: HTTP_HEADER_ACCEPT_JSON,
+				"Content-Type": HTTP_HEADER_ACCEPT_JSON,
+				"User-Agent": HTTP_USER_AGENT,
+			},
+			body: body === undefined ? undefined : JSON.stringify(body),
+			signal: AbortSignal.timeout(DEFAULT_FETCH_TIMEOUT_MS),
+		});
+
+		const text = await response.text();
+		if (!response.ok) {
+			throw new GitHostAPIError(
+				`GitLab API ${method} ${path} failed with status ${response.status}: ${text}`,
+				"GitLab",
+				operation,
+				response.status,
+			);
+		}
+
+		return {
+			data: (text ? JSON.parse(text) : undefined) as T,
+			nextPage: getNextPage(response.headers.get("Link")),
+		};
+	}
+
+	/**
+	 * Sends a request to the project's API
+	 * @returns The parsed JSON response, or undefined for an empty one
+	 * @throws GitHostAPIError if the API answers with an error status
+	 */
+	async function request<T>(operation: string, method: string, path: string, body?: unknown): Promise<T> {
+		return (await send<T>(operation, method, path, body)).data;
+	}
+
+	const branchPath = (branch: string) => `${projectPath}/repository/branches/${encodeURIComponent(branch)}`;
+	const mergeRequestPath = (iid: number) => `${projectPath}/merge_requests/${iid}`;
+
+	/** Checks whether a file exists at a commit, to choose between creating and updating it */
+	async function fileExists(filePath: string, ref: string): Promise<boolean> {
+		try {
+			await request(
+				"getFile",
+				"HEAD",
+				`${projectPath}/repository/files/${encodeURIComponent(filePath)}?ref=${encodeURIComponent(ref)}`,
+			);
+			return true;
+		} catch (error) {
+			if (error instanceof GitHostAPIError && error.statusCode === HTTP_NOT_FOUND) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	/** Resolves usernames to the user IDs the merge request API takes */
+	async function resolveUserIds(usernames: string[]): Promise<number[]> {
+		const ids: number[] = [];
+		for (const username of usernames) {
+			let id = userIds.get(username);
+			if (id === undefined) {
+				const users = await request<{ id: number }[]>(
+					"getUser",
+					"GET",
+					`/users?username=${encodeURIComponent(username)}`,
+				);
+				if (users.length === 0) {
+					throw new GitHostAPIError(`GitLab user not found: ${username}`, "GitLab", "getUser", HTTP_NOT_FOUND);
+				}
+				id = users[0].id;
+				userIds.set(username, id);
+			}
+			ids.push(id);
+		}
+		return ids;
+	}
+
+	async function createBranch(branch: string, sha: string): Promise<boolean> {
+		try {
+			await request("createBranch", "POST", `${projectPath}/repository/branches`, { branch, ref: sha });
+			return true;
+		} catch (error) {
+			if (error instanceof GitHostAPIError && error.statusCode === HTTP_BAD_REQUEST) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	async function deleteBranch(branch: string): Promise<void> {
+		await request("deleteBranch", "DELETE", branchPath(branch));
+	}
+
+	return {
+		name: "GitLab",
+		repository: options.project,
+		pullRequestPrefix: "!",
+
+		async getBranchSha(branch) {
+			const data = await request<{ commit: { id: string } }>("getBranch", "GET", branchPath(branch));
+			return data.commit.id;
+		},
+
+		createBranch,
+
+		// GitLab has no API moving a branch, and deleting the source branch of a merge request closes it:
+		// the branch is left in place, and createCommit() force-resets it to the base commit with start_sha
+		async updateBranch(branch) {
+			await request("getBranch", "GET", branchPath(branch));
+		},
+
+		deleteBranch,
+
+		async createCommit(branch, baseSha, message, files, deletedFiles) {
+			const logger = options.logger ?? actionsLogger;
+			for (const file of files.filter((file) => file.mode === GIT_FILE_MODE_SYMLINK)) {
+				logger.warning(
+					`GitLab cannot commit symbolic links through its API: ${file.path} is committed as a regular file. ` +
+						"Use commit-mode: git to keep it a link",
+				);
+			}
+
+			const actions: Record<string, unknown>[] = [];
+			for (const file of files) {
+				actions.push({
+					action: (await fileExists(file.path, baseSha)) ? "update" : "create",
+					file_path: file.path,
+					content: file.content.toString("base64"),
+					encoding: "base64",
+				});
+				// A created file is not executable, and an updated one keeps its mode, unless told otherwise
+				if (file.mode && file.mode !== GIT_FILE_MODE_SYMLINK) {
+					actions.push({
+						action: "chmod",
+						file_path: file.path,
+						execute_filemode: file.mode === GIT_FILE_MODE_EXECUTABLE,
+					});
+				}
+			}
+			for (const filePath of deletedFiles) {
+				actions.push({ action: "delete", file_path: filePath });
+			}
+
+			// With force, the branch is reset to the base commit before the new commit is added
+			const commit = await request<{ id: string }>("createCommit", "POST", `${projectPath}/repository/commits`, {
+				branch,
+				commit_message: message,
+				start_sha: baseSha,
+				force: true,
+				actions,
+			});
+			return commit.id;
+		},
+
+		async getBranchStatus(prNumber, branch, baseSha) {
+			const mergeRequest = await request<GitLabMergeRequest>("getMergeRequest", "GET", mergeRequestPath(prNumber));
+			const compare = (from: string, to: string) =>
+				request<{ commits: GitLabCommit[] }>(
+					"compare",
+					"GET",
+					`${projectPath}/repository/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
+				);
+			const ahead = await compare(baseSha, branch);
+			const behind = await compare(branch, baseSha);
+
+			// The updater authors its commits as the same account that opens the merge request
+			const botName = mergeRequest.author?.name;
+			return {
+				behindBy: behind.commits.length,
+				conflicting: mergeRequest.has_conflicts === true,
+				foreignCommits: ahead.commits
+					.filter((commit) => !botName || commit.author_name !== botName)
+					.map((commit) => commit.id),
+			};
+		},
+
+		async findOpenPullRequest(branch) {
+			const mergeRequests = await request<GitLabMergeRequest[]>(
+				"listMergeRequests",
+				"GET",
+				`${projectPath}/merge_requests?state=opened&source_branch=${encodeURIComponent(branch)}`,
+			);
+			return mergeRequests.length > 0 ? toHostPullRequest(mergeRequests[0]) : null;
+		},
+
+		async listOpenPullRequests() {
+			const mergeRequests = await requestAllPages<GitLabMergeRequest>(
+				send,
+				"listMergeRequests",
+				`${projectPath}/merge_requests?state=opened&per_page=${PULL_REQUESTS_PER_PAGE}`,
+			);
+			return mergeRequests.map(toHostPullRequest);
+		},
+
+		async createPullRequest(branch, baseBranch, title, body) {
+			const mergeRequest = await request<GitLabMergeRequest>(
+				"createMergeRequest",
+				"POST",
+				`${projectPath}/merge_requests`,
+				{ source_branch: branch, target_branch: baseBranch, title, description: body },
+			);
+			return { number: mergeRequest.iid, url: mergeRequest.web_url };
+		},
+
+		async updatePullRequest(prNumber, title, body) {
+			const mergeRequest = await request<GitLabMergeRequest>("updateMergeRequest", "PUT", mergeRequestPath(prNumber), {
+				title,
+				description: body,
+			});
+			return { number: mergeRequest.iid, url: mergeRequest.web_url };
+		},
+
+		async closePullRequest(prNumber) {
+			await request("closeMergeRequest", "PUT", mergeRequestPath(prNumber), { state_event: "close" });
+		},
+
+		async addComment(prNumber, body) {
+			await request("createNote", "POST", `${mergeRequestPath(prNumber)}/notes`, { body });
+		},
+
+		async setLabels(prNumber, labels) {
+			await request("setLabels", "PUT", mergeRequestPath(prNumber), { labels: labels.join(",") });
+		},
+
+		async requestReviewers(prNumber, reviewers, teamReviewers) {
+			if (reviewers.length > 0) {
+				await request("setReviewers", "PUT", mergeRequestPath(prNumber), {
+					reviewer_ids: await resolveUserIds(reviewers),
+				});
+			}
+			if (teamReviewers.length > 0) {
+				(options.logger ?? actionsLogger).warning(
+					`GitLab has no team reviewers, ignoring: ${teamReviewers.join(", ")}`,
+				);
+			}
+		},
+
+		async addAssignees(prNumber, assignees) {
+			const mergeRequest = await request<GitLabMergeRequest>("getMergeRequest", "GET", mergeRequestPath(prNumber));
+			const current = (mergeRequest.assignees ?? []).map((assignee) => assignee.id);
+			const added = await resolveUserIds(assignees);
+			await request("setAssignees", "PUT", mergeRequestPath(prNumber), {
+				assignee_ids: [...new Set([...current, ...added])],
+			});
+		},
+
+		async enableAutoMerge(prNumber, mergeMethod) {
+			await request("mergeWhenPipelineSucceeds", "PUT", `${mergeRequestPath(prNumber)}/merge`, {
+				merge_when_pipeline_succeeds: true,
+				squash: mergeMethod === "squash",
+			});
+		},
+
+		async isAutoMergeEnabled(prNumber) {
+			const mergeRequest = await request<GitLabMergeRequest>("getMergeRequest", "GET", mergeRequestPath(prNumber));
+			return mergeRequest.merge_when_pipeline_succeeds === true;
+		},
+
+		async createIssue(title, body) {
+			const issue = await request<{ iid: number; web_url: string }>("createIssue", "POST", `${projectPath}/issues`, {
+				title,
+				description: body,
+			});
+			return { number: issue.iid, url: issue.web_url };
+		},
+	};
+}
@@ -0,0 +1,48 @@
+/**
+ * A response of a Git host's REST API, with the next page of a list, if any
+ */
+export interface HostResponse<T> {
+	data: T;
+	nextPage: number | null;
+}
+
+/**
+ * Sends a request to a Git host's REST API
+ * @throws GitHostAPIError if the API answers with an error status
+ */
+export type HostRequestSender = <T>(
+	operation: string,
+	method: string,
+	path: string,
+	body?: unknown,
+) => Promise<HostResponse<T>>;
+
+/**
+ * Reads the number of the next page from the `Link` header of a list response
+ * @returns The page number, or null on the last page
+ */
+export function getNextPage(link: string | null): number | null {
+	const next = link?.split(",").find((part) => part.includes('rel="next"'));
+	const page = next ? /[?&]page=(\d+)/.exec(next) : null;
+	return page ? Number(page[1]) : null;
+}
+
+/**
+ * Sends a GET request for a list, then for each further page the `Link` header of the response names
+ * @param send Sends a request to the host's API
+ * @param operation The operation, as reported in errors
+ * @param path Path of the list, with a query string
+ * @returns The items of every page
+ * @throws GitHostAPIError if the API answers with an error status
+ */
+export async function requestAllPages<T>(send: HostRequestSender, operation: string, path: string): Promise<T[]> {
+	const items: T[] = [];
+	let page: number | null = 1;
+	while (page !== null) {
+		const response: HostResponse<T[]> = await send<T[]>(operation, "GET", `${path}&page=${page}`);
+		items.push(...response.data);
+		// A page that does not move forward ends the list rather than reading it again
+		page = response.nextPage !== null && response.nextPage > page ? response.nextPage : null;
+	}
+	return items;
+}
@@ -1,15 +1,13 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import * as fs from "fs";
-import { fetchExtensionsRegistry } from "./registry.js";
-import { checkForUpdates } from "./updates.js";
 import { logUpdateSummary } from "./pr.js";
 import { parseInputs } from "./config.js";
 import { validateScanDirectories } from "./validation.js";
 import { generateDryRunSummary, generateCompletedSummary } from "./summary.js";
-import { processAllPRs } from "./prProcessor.js";
-import { createIssueForUpdates } from "./github.js";
-import type { ExtensionUpdate } from "./types.js";
+import { findUpdates, openUpdatePRs } from "./run.js";
+import { closeObsoletePRs, createGitHubHost, createIssueForUpdates } from "./github.js";
+import type { DeferredUpdate, ExtensionUpdate } from "./types.js";
 
 /**
  * Validates that the workspace path exists
@@ -25,8 +23,9 @@ function validateWorkspace(workspacePath: string): void {
 /**
  * Sets GitHub Actions output values for extension updates
  * @param updates Array of extension updates found
+ * @param deferredUpdates Updates deferred by the cooldown, set apart with the date each becomes eligible
  */
-function setUpdateOutputs(updates: ExtensionUpdate[]): void {
+function setUpdateOutputs(updates: ExtensionUpdate[], deferredUpdates: DeferredUpdate[] = []): void {
 	core.setOutput("updates-available", updates.length > 0 ? "true" : "false");
 	core.setOutput("update-count", updates.length.toString());
 	core.setOutput(
@@ -39,6 +38,18 @@ function setUpdateOutputs(updates: ExtensionUpdate[]): void {
 			})),
 		),
 	);
+	core.setOutput(
+		"deferred-updates",
+		JSON.stringify(
+			deferredUpdates.map((d) => ({
+				name: d.update.nameWithOwner,
+				currentVersion: d.update.currentVersion,
+				latestVersion: d.update.latestVersion,
+				releaseDate: d.releaseDate,
+				eligibleDate: d.eligibleDate,
+			})),
+		),
+	);
 }
 
 /**
@@ -66,6 +77,7 @@ async function run(): Promise<void> {
 		const octokit = github.getOctokit(config.githubToken);
 		const context = github.context;
 		const { owner, repo } = context.repo;
+		const host = createGitHubHost(octokit, owner, repo);
 
 		core.info("🚀 Starting Quarto Extensions Updater...");
 		core.info(`Workspace path: ${config.workspacePath}`);
@@ -74,29 +86,64 @@ async function run(): Promise<void> {
 		core.info(`Base branch: ${config.baseBranch}`);
 
 		// Fetch registry and check for updates
-		core.startGroup("📥 Fetching extensions registry");
-		const registry = await fetchExtensionsRegistry(config.registryUrl);
-		core.endGroup();
-
-		core.startGroup("🔍 Checking for updates");
-		const updates = checkForUpdates(
-			config.workspacePath,
-			registry,
-			config.filterConfig,
-			config.updateStrategy,
-			config.scanDirectories,
-		);
-		core.endGroup();
-
-		// Handle no updates case
+		const { updates, blockedUpdates, deferredUpdates, installed } = await findUpdates(octokit, config);
+
+		if (blockedUpdates.length > 0) {
+			core.info(`ℹ️ ${blockedUpdates.length} update(s) held back by the update strategy or extension rules`);
+		}
+
+		if (deferredUpdates.length > 0) {
+			core.info(`⏳ ${deferredUpdates.length} update(s) deferred until their release is past the cooldown`);
+		}
+
+		// Close update PRs that the base branch no longer needs
+		if (!config.dryRun && config.createPR) {
+			core.startGroup("🧹 Closing update PRs that are no longer needed");
+			const closedPRs = await closeObsoletePRs(host, config.branchPrefix, config.baseBranch, installed);
+			core.info(`Closed ${closedPRs.length} PR(s)`);
+			core.endGroup();
+		}
+
+		// Handle no updates case, still reporting the releases deferred by the cooldown
 		if (updates.length === 0) {
-			core.info("✅ All extensions are up to date!");
-			setUpdateOutputs(updates);
+			setUpdateOutputs(updates, deferredUpdates);
+			if (deferredUpdates.length === 0) {
+				core.info("✅ All extensions are up to date!");
+				return;
+			}
+
+			core.info("⏳ Every update is waiting for its cooldown");
+			core.startGroup("📋 Generating Job Summary");
+			if (config.dryRun) {
+				await generateDryRunSummary(
+					updates,
+					config.groupUpdates,
+					config.updateStrategy,
+					config.filterConfig,
+					config.autoMergeConfig,
+					false,
+					blockedUpdates,
+					deferredUpdates,
+				);
+			} else {
+				await generateCompletedSummary(
+					updates,
+					[],
+					config.groupUpdates,
+					config.updateStrategy,
+					config.filterConfig,
+					config.autoMergeConfig,
+					[],
+					blockedUpdates,
+					deferredUpdates,
+				);
+			}
+			core.endGroup();
 			return;
 		}
 
 		logUpdateSummary(updates);
-		setUpdateOutputs(updates);
+		setUpdateOutputs(updates, deferredUpdates);
 
 		// Handle dry-run mode
 		if (config.dryRun) {
@@ -109,6 +156,8 @@ async function run(): Promise<void> {
 				config.filterConfig,
 				config.autoMergeConfig,
 				config.createIssue,
+				blockedUpdates,
+				deferredUpdates,
 			);
 
 			core.info("📋 Dry-run summary written to job summary");
@@ -119,14 +168,14 @@ async function run(): Promise<void> {
 			if (config.createIssue) {
 				core.info("📝 Creating issue with update summary...");
 				const issue = await createIssueForUpdates(
-					octokit,
-					owner,
-					repo,
+					host,
 					updates,
 					config.groupUpdates,
 					config.updateStrategy,
 					config.filterConfig,
 					config.autoMergeConfig,
+					blockedUpdates,
+					deferredUpdates,
 				);
 				core.setOutput("issue-number", issue.number.toString());
 				core.setOutput("issue-url", issue.url);
@@ -143,40 +192,19 @@ async function run(): Promise<void> {
 			return;
 		}
 
-		// Get base branch SHA
-		const { data: refData } = await octokit.rest.git.getRef({
-			owner,
-			repo,
-			ref: `heads/${config.baseBranch}`,
-		});
-		const baseSha = refData.object.sha;
-
 		// Process all PRs
-		const { createdPRs, skippedUpdates: allSkippedUpdates } = await processAllPRs(
-			octokit,
-			owner,
-			repo,
-			updates,
-			config.groupUpdates,
-			{
-				workspacePath: config.workspacePath,
-				baseBranch: config.baseBranch,
-				baseSha,
-				branchPrefix: config.branchPrefix,
-				prTitlePrefix: config.prTitlePrefix,
-				commitMessagePrefix: config.commitMessagePrefix,
-				prLabels: config.prLabels,
-				autoMergeConfig: config.autoMergeConfig,
-				assignmentConfig: config.assignmentConfig,
-			},
-		);
+		const {
+			createdPRs,
+			skippedUpdates: allSkippedUpdates,
+			limitedUpdates,
+		} = await openUpdatePRs(host, octokit, config, updates);
 
 		// Filter updates to only those that were successfully applied
-		const skippedNames = new Set(allSkippedUpdates.map((s) => s.update.nameWithOwner));
+		const skippedNames = new Set([...allSkippedUpdates, ...limitedUpdates].map((s) => s.update.nameWithOwner));
 		const appliedUpdates = updates.filter((u) => !skippedNames.has(u.nameWithOwner));
 
 		// Set outputs and generate summary
-		if (createdPRs.length > 0) {
+		if (createdPRs.length > 0 || limitedUpdates.length > 0 || deferredUpdates.length > 0) {
 			setPROutputs(createdPRs);
 
 			core.startGroup("📋 Generating Job Summary");
@@ -188,10 +216,19 @@ async function run(): Promise<void> {
 				config.filterConfig,
 				config.autoMergeConfig,
 				allSkippedUpdates,
+				[...blockedUpdates, ...limitedUpdates],
+				deferredUpdates,
 			);
 			core.endGroup();
 		}
 
+		if (limitedUpdates.length > 0) {
+			core.info(
+				`⏸️ ${limitedUpdates.length} update(s) deferred by open-pull-requests-limit: ` +
+					limitedUpdates.map((limited) => limited.update.nameWithOwner).join(", "),
+			);
+		}
+
 		if (allSkippedUpdates.length > 0) {
 			core.warning(
 				`${allSkippedUpdates.length} extension(s) were skipped during update. ` + "Check the job summary for details.",
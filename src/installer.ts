@@ -0,0 +1,323 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { ExtensionInstallError } from "./errors.js";
+import {
+	DEFAULT_FETCH_TIMEOUT_MS,
+	FILE_MODE_EXECUTABLE,
+	FILE_MODE_OWNER_EXECUTE,
+	FILE_MODE_REGULAR,
+	GITHUB_ARCHIVE_URL,
+	HTTP_USER_AGENT,
+	TAR_BLOCK_SIZE,
+} from "./constants.js";
+
+/**
+ * Fetches the gzipped tarball of a repository at a tag, branch, or commit, stopping when the signal aborts
+ */
+export type ArchiveFetcher = (repository: string, ref: string, signal?: AbortSignal) => Promise<Buffer>;
+
+/** A file or symbolic link of an archive, at its path below the archive's top-level directory */
+interface ArchiveEntry {
+	path: string;
+	content: Buffer;
+	mode: number;
+	/** Target of a symbolic link */
+	linkTarget?: string;
+}
+
+/** An extension found in an archive */
+interface ArchiveExtension {
+	/** Directory holding the manifest, in the archive */
+	directory: string;
+	manifestName: string;
+	owner?: string;
+	name: string;
+}
+
+const MANIFEST_NAMES = ["_extension.yml", "_extension.yaml"];
+
+/**
+ * Reads a NUL-terminated string field of a tar header
+ */
+function readField(block: Buffer, offset: number, length: number): string {
+	const field = block.subarray(offset, offset + length);
+	const end = field.indexOf(0);
+	return field.subarray(0, end === -1 ? field.length : end).toString("utf-8");
+}
+
+/**
+ * Reads an octal number field of a tar header
+ */
+function readOctal(block: Buffer, offset: number, length: number): number {
+	return parseInt(readField(block, offset, length).trim() || "0", 8);
+}
+
+/**
+ * Reads the records of a pax extended header, which carry the paths too long for the ustar header
+ */
+function readPaxRecords(data: Buffer): Record<string, string> {
+	const records: Record<string, string> = {};
+	let offset = 0;
+	while (offset < data.length) {
+		const space = data.indexOf(" ", offset);
+		const length = parseInt(data.subarray(offset, space).toString("utf-8"), 10);
+		if (space === -1 || !length) {
+			break;
+		}
+		const record = data.subarray(space + 1, offset + length - 1).toString("utf-8");
+		const equals = record.indexOf("=");
+		records[record.slice(0, equals)] = record.slice(equals + 1);
+		offset += length;
+	}
+	return records;
+}
+
+/**
+ * Reads the files and symbolic links of a tar archive, without its top-level directory as GitHub archives have one.
+ * Directories are left out, as writing the files creates them.
+ */
+function readTarEntries(tar: Buffer): ArchiveEntry[] {
+	const entries: ArchiveEntry[] = [];
+	let pax: Record<string, string> = {};
+	let longPath: string | undefined;
+	let longLinkTarget: string | undefined;
+	let offset = 0;
+
+	while (offset + TAR_BLOCK_SIZE <= tar.length) {
+		const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+		if (header.every((byte) => byte === 0)) {
+			break;
+		}
+
+		const size = readOctal(header, 124, 12);
+		const type = header[156] === 0 ? "0" : String.fromCharCode(header[156]);
+		const data = tar.subarray(offset + TAR_BLOCK_SIZE, offset + TAR_BLOCK_SIZE + size);
+		offset += TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+		// Extended headers describe the entry that follows them; a global one only carries the commit SHA
+		if (type === "x") {
+			pax = readPaxRecords(data);
+			continue;
+		}
+		if (type === "L" || type === "K") {
+			const value = readField(data, 0, data.length);
+			[longPath, longLinkTarget] = type === "L" ? [value, longLinkTarget] : [longPath, value];
+			continue;
+		}
+		if (type === "g") {
+			continue;
+		}
+
+		const prefix = readField(header, 257, 6) === "ustar" ? readField(header, 345, 155) : "";
+		const name = readField(header, 0, 100);
+		const entryPath = pax.path ?? longPath ?? (prefix ? `${prefix}/${name}` : name);
+		const linkTarget = pax.linkpath ?? longLinkTarget ?? readField(header, 157, 100);
+		pax = {};
+		longPath = longLinkTarget = undefined;
+
+		const relativePath = entryPath.split("/").slice(1).join("/");
+		if (type === "0" || type === "7") {
+			entries.push({ path: relativePath, content: Buffer.from(data), mode: readOctal(header, 100, 8) });
+		} else if (type === "2") {
+			entries.push({ path: relativePath, content: Buffer.from(linkTarget), mode: 0, linkTarget });
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Finds the extensions of an archive, from their manifests in an `_extensions` directory,
+ * either as `_extensions/owner/name` or as `_extensions/name`
+ */
+function findArchiveExtensions(entries: ArchiveEntry[]): ArchiveExtension[] {
+	const extensions: ArchiveExtension[] = [];
+	for (const entry of entries) {
+		const segments = entry.path.split("/");
+		const manifestName = segments.pop() ?? "";
+		const extensionsIndex = segments.lastIndexOf("_extensions");
+		const nested = segments.slice(extensionsIndex + 1);
+		if (!MANIFEST_NAMES.includes(manifestName) || extensionsIndex === -1 || nested.length < 1 || nested.length > 2) {
+			continue;
+		}
+		extensions.push({
+			directory: segments.join("/"),
+			manifestName,
+			owner: nested.length === 2 ? nested[0] : undefined,
+			name: nested[nested.length - 1],
+		});
+	}
+
+	// Extensions of the repository itself come before those of its examples or tests, deeper in the tree
+	return extensions.sort((a, b) => a.directory.split("/").length - b.directory.split("/").length);
+}
+
+/**
+ * Resolves a path of an archive, as `/`-separated segments from the extension directory,
+ * the way the file system would once the archive's symbolic links are written
+ * @param segments Segments of the path, which may hold `.` and `..`
+ * @param links Paths of the archive's symbolic links, from the extension directory
+ * @returns The normalised path, or null if it leaves the extension directory or goes through one of the links
+ */
+function resolveArchivePath(segments: string[], links: Set<string>): string | null {
+	const resolved: string[] = [];
+	for (const [index, segment] of segments.entries()) {
+		if (segment === "..") {
+			if (resolved.length === 0) {
+				return null;
+			}
+			resolved.pop();
+		} else if (segment !== "." && segment !== "") {
+			resolved.push(segment);
+		}
+		// A link of the archive may point anywhere the checks on its own target allow, so nothing resolves through one
+		if (index < segments.length - 1 && links.has(resolved.join("/"))) {
+			return null;
+		}
+	}
+	return resolved.join("/");
+}
+
+/**
+ * Checks that every file and link of an extension stays inside the extension directory once written:
+ * paths do not climb out of it or go through a link of the archive, and links point inside it.
+ * @throws ExtensionInstallError naming the first entry that does not
+ */
+function checkArchivePaths(files: ArchiveEntry[], source: string): void {
+	const links = new Set(files.filter((file) => file.linkTarget !== undefined).map((file) => file.path));
+	for (const file of files) {
+		if (path.posix.isAbsolute(file.path) || resolveArchivePath(file.path.split("/"), links) === null) {
+			throw new ExtensionInstallError(
+				`The archive of ${source} has a path outside the extension: ${file.path}`,
+				source,
+			);
+		}
+
+		const target = file.linkTarget;
+		const parent = path.posix.dirname(file.path);
+		if (
+			target !== undefined &&
+			(path.posix.isAbsolute(target) ||
+				resolveArchivePath([...(parent === "." ? [] : parent.split("/")), ...target.split("/")], links) === null)
+		) {
+			throw new ExtensionInstallError(
+				`The archive of ${source} has a symbolic link outside the extension: ${file.path} -> ${target}`,
+				source,
+			);
+		}
+	}
+}
+
+/**
+ * Sets the `source` field of a manifest, as `quarto add` records where an extension was installed from
+ */
+function writeManifestSource(manifestPath: string, source: string): void {
+	const content = fs.readFileSync(manifestPath, "utf-8");
+	const sourceLine = /^source:.*$/m;
+	const updated = sourceLine.test(content)
+		? content.replace(sourceLine, `source: ${source}`)
+		: `${content.trim()}\nsource: ${source}\n`;
+	fs.writeFileSync(manifestPath, updated, "utf-8");
+}
+
+/**
+ * Downloads the archive of a GitHub repository at a tag, branch, or commit
+ * @param repository Repository, as owner/repo
+ * @param ref Tag, branch, or commit SHA
+ * @param signal Stops the download when aborted (default: a timeout of DEFAULT_FETCH_TIMEOUT_MS)
+ * @returns The gzipped tarball
+ * @throws ExtensionInstallError if the download fails
+ */
+export async function downloadArchive(repository: string, ref: string, signal?: AbortSignal): Promise<Buffer> {
+	const encode = (value: string) => value.split("/").map(encodeURIComponent).join("/");
+	const response = await fetch(`${GITHUB_ARCHIVE_URL}/${encode(repository)}/tar.gz/${encode(ref)}`, {
+		headers: { "User-Agent": HTTP_USER_AGENT },
+		signal: signal ?? AbortSignal.timeout(DEFAULT_FETCH_TIMEOUT_MS),
+	});
+
+	if (!response.ok) {
+		throw new ExtensionInstallError(
+			`Failed to download ${repository}@${ref}: HTTP ${response.status}`,
+			`${repository}@${ref}`,
+			response.status,
+		);
+	}
+
+	return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Installs an extension from the archive of its repository without the Quarto CLI, as `quarto add` would:
+ * the extension directory is replaced by the one of the same name in the archive's `_extensions` directory,
+ * and its manifest records the source it came from.
+ * @param repository Repository of the extension, as owner/repo
+ * @param ref Tag, branch, or commit SHA to install
+ * @param extensionDir The installed extension directory, as `_extensions/owner/name`
+ * @param fetchArchive Where the archive comes from (default: downloaded from GitHub)
+ * @param signal Stops the download, and leaves the installed extension in place, when aborted
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @throws ExtensionInstallError if the archive cannot be fetched or read, holds no extension of that name,
+ * or has a path or symbolic link leading outside the extension
+ * @throws The reason of the signal if it aborts before the extension is written
+ */
+export async function installExtension(
+	repository: string,
+	ref: string,
+	extensionDir: string,
+	fetchArchive: ArchiveFetcher = downloadArchive,
+	signal?: AbortSignal,
+	logger: Logger = actionsLogger,
+): Promise<void> {
+	const source = `${repository}@${ref}`;
+	const name = path.basename(extensionDir);
+	const owner = path.basename(path.dirname(extensionDir));
+
+	logger.info(`Downloading ${source}`);
+	const archive = await fetchArchive(repository, ref, signal);
+	signal?.throwIfAborted();
+
+	let entries: ArchiveEntry[];
+	try {
+		entries = readTarEntries(zlib.gunzipSync(archive));
+	} catch (error) {
+		throw new ExtensionInstallError(`The archive of ${source} is not a gzipped tarball: ${error}`, source);
+	}
+
+	const candidates = findArchiveExtensions(entries).filter((extension) => extension.name === name);
+	const extension = candidates.find((candidate) => candidate.owner === owner) ?? candidates[0];
+	if (!extension) {
+		throw new ExtensionInstallError(`The archive of ${source} holds no extension named ${name}`, source);
+	}
+
+	const files = entries
+		.filter((entry) => entry.path.startsWith(`${extension.directory}/`))
+		.map((entry) => ({ ...entry, path: entry.path.slice(extension.directory.length + 1) }));
+	checkArchivePaths(files, source);
+
+	// The release is written next to the extension and swapped in once complete, so a failure leaves the old one.
+	// Files the new release no longer ships go with the old directory, as `quarto add` does.
+	fs.mkdirSync(path.dirname(extensionDir), { recursive: true });
+	const stagingDir = fs.mkdtempSync(path.join(path.dirname(extensionDir), `.${name}-`));
+	try {
+		for (const file of files) {
+			const filePath = path.join(stagingDir, file.path);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			if (file.linkTarget !== undefined) {
+				fs.symlinkSync(file.linkTarget, filePath);
+			} else {
+				const mode = file.mode & FILE_MODE_OWNER_EXECUTE ? FILE_MODE_EXECUTABLE : FILE_MODE_REGULAR;
+				fs.writeFileSync(filePath, file.content, { mode });
+			}
+		}
+		writeManifestSource(path.join(stagingDir, extension.manifestName), source);
+
+		fs.rmSync(extensionDir, { recursive: true, force: true });
+		fs.renameSync(stagingDir, extensionDir);
+	} finally {
+		fs.rmSync(stagingDir, { recursive: true, force: true });
+	}
+
+	logger.info(`Installed ${files.length} file(s) from ${extension.directory} of ${source}`);
+}
@@ -0,0 +1,49 @@
+/**
+ * Library entry point of quarto-extensions-updater, for programs calling the updater from TypeScript or JavaScript.
+ * The action bundle (`dist/index.js`) and the command line (`dist/cli/index.js`) are built from other entry points.
+ */
+export {
+	QuartoExtensionsUpdater,
+	type UpdaterOptions,
+	type UpdaterDependencies,
+	type UpdaterRunResult,
+} from "./updater.js";
+export type { AppConfig } from "./config.js";
+export type { FoundUpdates } from "./run.js";
+export { createGitHubHost, type OctokitClient } from "./github.js";
+export { createGitLabHost, type GitLabHostOptions } from "./gitlab.js";
+export { createGiteaHost, type GiteaHostOptions } from "./gitea.js";
+export type { GitHost, HostPullRequest, CommitFile, UpdateBranchStatus } from "./gitHost.js";
+export type { ProcessAllPRsResult, PRProcessingResult } from "./prProcessor.js";
+export { installExtension, downloadArchive, type ArchiveFetcher } from "./installer.js";
+export { fetchExtensionsRegistry, remoteRegistry, type RegistrySource } from "./registry.js";
+export {
+	createGitHubReleaseSource,
+	satisfiesQuartoRequirement,
+	type ReleaseSource,
+	type ExtensionRelease,
+	type QuartoCompatibility,
+} from "./compatibility.js";
+export {
+	actionsLogger,
+	createConsoleLogger,
+	createMemoryLogger,
+	type Logger,
+	type ConsoleLoggerOptions,
+	type MemoryLogger,
+	type LogEntry,
+	type SummaryWriter,
+	type SummaryTableCell,
+} from "./logger.js";
+export {
+	QuartoExtensionUpdaterError,
+	ValidationError,
+	RegistryError,
+	GitOperationError,
+	GitHubAPIError,
+	GitHostAPIError,
+	ExtensionInstallError,
+	isQuartoError,
+	formatError,
+} from "./errors.js";
+export type * from "./types.js";
@@ -0,0 +1,106 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GIT_BOT_EMAIL, GIT_BOT_NAME, GIT_REMOTE } from "./constants.js";
+
+/**
+ * Runs git in a directory, without a shell
+ * @returns The trimmed standard output
+ * @throws Error if git exits with a non-zero status
+ */
+function runGit(cwd: string, args: string[]): string {
+	return execFileSync("git", args, { cwd, stdio: "pipe", encoding: "utf-8" }).trim();
+}
+
+/**
+ * Makes sure a commit is in the local repository, fetching it from the remote when it is not,
+ * as a shallow clone lacks a base commit that moved after the checkout
+ */
+function ensureCommit(cwd: string, sha: string): void {
+	try {
+		runGit(cwd, ["cat-file", "-e", `${sha}^{commit}`]);
+	} catch {
+		runGit(cwd, ["fetch", "--quiet", "--no-tags", GIT_REMOTE, sha]);
+	}
+}
+
+/**
+ * Copies a file, with its mode, or a symbolic link, as a link, or deletes the copy when the file is gone
+ */
+function copyToWorktree(source: string, target: string): void {
+	const stats = fs.lstatSync(source, { throwIfNoEntry: false });
+	fs.rmSync(target, { force: true });
+	if (!stats) {
+		return;
+	}
+
+	fs.mkdirSync(path.dirname(target), { recursive: true });
+	if (stats.isSymbolicLink()) {
+		fs.symlinkSync(fs.readlinkSync(source), target);
+	} else {
+		fs.copyFileSync(source, target);
+		fs.chmodSync(target, stats.mode);
+	}
+}
+
+/**
+ * Gets the identity options git needs to commit, when the repository and the user set none
+ * @returns `-c` options naming the GitHub Actions bot, or none if an email is configured
+ */
+function getIdentityOptions(cwd: string): string[] {
+	try {
+		runGit(cwd, ["config", "user.email"]);
+		return [];
+	} catch {
+		return ["-c", `user.name=${GIT_BOT_NAME}`, "-c", `user.email=${GIT_BOT_EMAIL}`];
+	}
+}
+
+/**
+ * Commits files with the local git binary and force-pushes the commit as the update branch, in one push.
+ * The commit is made in a temporary worktree of the base commit, fetched first when the clone lacks it,
+ * so git applies `.gitattributes`, keeps file modes, and runs the repository's hooks, while the branch,
+ * index, and working tree of the workspace are left as they are.
+ * @param workspacePath The root of the working tree, a clone of the repository the PR is opened on
+ * @param branchName The update branch, created or moved on the remote
+ * @param baseSha The commit the update branch starts from
+ * @param message The commit message
+ * @param filePaths Absolute paths of the files added, changed, or deleted by the updates
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The SHA of the new commit
+ * @throws Error if a git command fails, such as a hook rejecting the commit or the remote rejecting the push
+ */
+export function commitWithLocalGit(
+	workspacePath: string,
+	branchName: string,
+	baseSha: string,
+	message: string,
+	filePaths: string[],
+	logger: Logger = actionsLogger,
+): string {
+	ensureCommit(workspacePath, baseSha);
+
+	const worktree = fs.mkdtempSync(path.join(os.tmpdir(), "quarto-extensions-updater-"));
+	try {
+		runGit(workspacePath, ["worktree", "add", "--quiet", "--detach", worktree, baseSha]);
+
+		// The updated files are carried over to the base commit, as they would be to a new branch
+		const relativePaths = filePaths.map((filePath) => path.relative(workspacePath, filePath));
+		for (const relativePath of relativePaths) {
+			copyToWorktree(path.join(workspacePath, relativePath), path.join(worktree, relativePath));
+		}
+
+		runGit(worktree, ["add", "--all", "--", ...relativePaths]);
+		runGit(worktree, [...getIdentityOptions(worktree), "commit", "--quiet", "--message", message]);
+		const commitSha = runGit(worktree, ["rev-parse", "HEAD"]);
+
+		logger.info(`Pushing ${commitSha} to ${GIT_REMOTE} as ${branchName}`);
+		runGit(worktree, ["push", "--force", GIT_REMOTE, `HEAD:refs/heads/${branchName}`]);
+		return commitSha;
+	} finally {
+		fs.rmSync(worktree, { recursive: true, force: true });
+		runGit(workspacePath, ["worktree", "prune"]);
+	}
+}
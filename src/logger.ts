@@ -0,0 +1,179 @@
+import * as core from "@actions/core";
+
+/**
+ * A cell of a summary table; the first row of a table is its header
+ */
+export interface SummaryTableCell {
+	data: string;
+	header?: boolean;
+}
+
+/**
+ * Builds a report in the shape of the GitHub Actions job summary, then writes it out
+ */
+export interface SummaryWriter {
+	addHeading(text: string, level?: number): unknown;
+	addRaw(text: string, addEOL?: boolean): unknown;
+	addTable(rows: SummaryTableCell[][]): unknown;
+	addBreak(): unknown;
+	write(): Promise<unknown>;
+}
+
+/**
+ * Where progress messages and the run summary go.
+ * Passed to the functions that check for, apply, and propose updates, so that they run
+ * in GitHub Actions, in a terminal, or embedded in another program alike.
+ */
+export interface Logger {
+	debug(message: string): void;
+	info(message: string): void;
+	warning(message: string): void;
+	error(message: string): void;
+	startGroup(name: string): void;
+	endGroup(): void;
+	summary: SummaryWriter;
+}
+
+/**
+ * Logs through `@actions/core`: annotations for warnings and errors, collapsible groups,
+ * and the job summary. The default logger of every function taking one.
+ */
+export const actionsLogger: Logger = {
+	debug: (message) => core.debug(message),
+	info: (message) => core.info(message),
+	warning: (message) => core.warning(message),
+	error: (message) => core.error(message),
+	startGroup: (name) => core.startGroup(name),
+	endGroup: () => core.endGroup(),
+	get summary() {
+		return core.summary;
+	},
+};
+
+/**
+ * Renders a summary table as a Markdown table
+ */
+function formatMarkdownTable(rows: SummaryTableCell[][]): string {
+	if (rows.length === 0) {
+		return "";
+	}
+
+	const formatRow = (row: SummaryTableCell[]) => `| ${row.map((cell) => cell.data).join(" | ")} |\n`;
+	const [header, ...body] = rows;
+
+	return formatRow(header) + `|${header.map(() => "---").join("|")}|\n` + body.map(formatRow).join("");
+}
+
+/**
+ * Creates a summary writer that renders the summary as Markdown
+ * @param flush Receives the Markdown each time the summary is written
+ * @returns The summary writer
+ */
+function createMarkdownSummary(flush: (markdown: string) => void): SummaryWriter {
+	let buffer = "";
+
+	const summary: SummaryWriter = {
+		addHeading(text, level = 1) {
+			buffer += `${"#".repeat(level)} ${text}\n\n`;
+			return summary;
+		},
+		addRaw(text, addEOL = false) {
+			buffer += addEOL ? `${text}\n` : text;
+			return summary;
+		},
+		addTable(rows) {
+			buffer += `${formatMarkdownTable(rows)}\n`;
+			return summary;
+		},
+		addBreak() {
+			buffer += "\n";
+			return summary;
+		},
+		async write() {
+			flush(buffer);
+			buffer = "";
+			return summary;
+		},
+	};
+
+	return summary;
+}
+
+/**
+ * Options for the console logger
+ */
+export interface ConsoleLoggerOptions {
+	/** Stream to write to (default: standard error, leaving standard output to the program's own output) */
+	stream?: NodeJS.WritableStream;
+	/** Whether to print debug messages (default: false) */
+	verbose?: boolean;
+}
+
+/**
+ * Creates a logger writing plain lines to a stream, for terminals and CI systems other than GitHub Actions.
+ * Warnings and errors are prefixed, group names become headings, and the summary is written as Markdown.
+ * @param options The stream to write to, and whether to print debug messages
+ * @returns The logger
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+	const stream = options.stream ?? process.stderr;
+	const writeLine = (line: string) => stream.write(`${line}\n`);
+
+	return {
+		debug: (message) => {
+			if (options.verbose) {
+				writeLine(`debug: ${message}`);
+			}
+		},
+		info: (message) => writeLine(message),
+		warning: (message) => writeLine(`warning: ${message}`),
+		error: (message) => writeLine(`error: ${message}`),
+		startGroup: (name) => writeLine(name),
+		endGroup: () => undefined,
+		summary: createMarkdownSummary((markdown) => stream.write(markdown)),
+	};
+}
+
+/**
+ * A message recorded by the in-memory logger
+ */
+export interface LogEntry {
+	level: "debug" | "info" | "warning" | "error" | "group";
+	message: string;
+}
+
+/**
+ * A logger keeping everything in memory, for tests and for programs embedding the updater
+ */
+export interface MemoryLogger extends Logger {
+	/** Messages in the order they were logged; a group start is recorded with the group name */
+	entries: LogEntry[];
+	/** Each summary written, as Markdown */
+	summaries: string[];
+}
+
+/**
+ * Creates a logger recording every message and summary in memory
+ * @returns The logger, with the recorded entries and summaries
+ */
+export function createMemoryLogger(): MemoryLogger {
+	const entries: LogEntry[] = [];
+	const summaries: string[] = [];
+	const record = (level: LogEntry["level"]) => (message: string) => {
+		entries.push({ level, message });
+	};
+
+	return {
+		entries,
+		summaries,
+		debug: record("debug"),
+		info: record("info"),
+		warning: record("warning"),
+		error: record("error"),
+		startGroup: record("group"),
+		endGroup: () => undefined,
+		summary: createMarkdownSummary((markdown) => {
+			summaries.push(markdown);
+		}),
+	};
+}
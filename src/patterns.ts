@@ -0,0 +1,75 @@
+/**
+ * Converts an extension pattern into a regular expression.
+ * `*` matches any run of characters within an `owner` or `name` segment,
+ * `?` matches a single character, and everything else matches literally.
+ * @param pattern The pattern, such as `quarto-ext/*`
+ * @returns A regular expression anchored at both ends
+ */
+export function patternToRegExp(pattern: string): RegExp {
+	let source = "";
+
+	for (const char of pattern) {
+		if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a pattern contains glob wildcards
+ * @param pattern The pattern to check
+ * @returns True if the pattern contains `*` or `?`
+ */
+export function isGlobPattern(pattern: string): boolean {
+	return pattern.includes("*") || pattern.includes("?");
+}
+
+/**
+ * Checks whether an extension name matches a pattern
+ * @param pattern An exact `owner/name` or a glob pattern
+ * @param nameWithOwner The extension's owner/name
+ * @returns True if the extension matches
+ */
+export function matchesPattern(pattern: string, nameWithOwner: string): boolean {
+	if (!isGlobPattern(pattern)) {
+		return pattern === nameWithOwner;
+	}
+
+	return patternToRegExp(pattern).test(nameWithOwner);
+}
+
+/**
+ * Checks whether a pattern is a negation, such as `!quarto-ext/lightbox`
+ * @param pattern The pattern to check
+ * @returns True if the pattern starts with `!`
+ */
+export function isNegatedPattern(pattern: string): boolean {
+	return pattern.startsWith("!");
+}
+
+/**
+ * Checks whether an extension name is selected by a list of patterns.
+ * Patterns are read in order and the last one matching decides: a plain pattern selects the extension,
+ * a negated pattern (`!owner/name`) deselects it. A list made only of negations starts from every extension.
+ * @param patterns Exact names, glob patterns, or negated patterns
+ * @param nameWithOwner The extension's owner/name
+ * @returns True if the extension is selected
+ */
+export function matchesPatternList(patterns: string[], nameWithOwner: string): boolean {
+	let selected = patterns.every(isNegatedPattern);
+
+	for (const pattern of patterns) {
+		const negated = isNegatedPattern(pattern);
+		if (matchesPattern(negated ? pattern.slice(1) : pattern, nameWithOwner)) {
+			selected = !negated;
+		}
+	}
+
+	return selected;
+}
@@ -1,8 +1,15 @@
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import type { OctokitClient } from "./github.js";
 import type { ExtensionUpdate, SkippedUpdate } from "./types.js";
-import { groupUpdatesByType } from "./updates.js";
-import { PR_FOOTER_TEXT, DEFAULT_PR_LABELS, LOG_SEPARATOR_CHAR, LOG_SEPARATOR_LENGTH } from "./constants.js";
+import { groupUpdatesByType, isPrerelease } from "./updates.js";
+import { shortenSha } from "./commits.js";
+import {
+	PR_FOOTER_TEXT,
+	UPDATES_MARKER,
+	DEFAULT_PR_LABELS,
+	LOG_SEPARATOR_CHAR,
+	LOG_SEPARATOR_LENGTH,
+} from "./constants.js";
 
 /**
  * Fetches release notes for a specific release
@@ -10,6 +17,7 @@ import { PR_FOOTER_TEXT, DEFAULT_PR_LABELS, LOG_SEPARATOR_CHAR, LOG_SEPARATOR_LE
  * @param owner Repository owner
  * @param repo Repository name
  * @param version Release version (will try with and without 'v' prefix)
+ * @param logger Where progress and warnings are logged
  * @returns Release notes body or null if not found
  */
 async function fetchReleaseNotes(
@@ -17,6 +25,7 @@ async function fetchReleaseNotes(
 	owner: string,
 	repo: string,
 	version: string,
+	logger: Logger,
 ): Promise<string | null> {
 	const tagsToTry = version.startsWith("v") ? [version, version.slice(1)] : [version, `v${version}`];
 
@@ -29,7 +38,7 @@ async function fetchReleaseNotes(
 			});
 			return release.body || null;
 		} catch (error) {
-			core.debug(`Failed to fetch release notes for ${owner}/${repo}@${tag}: ${error}`);
+			logger.debug(`Failed to fetch release notes for ${owner}/${repo}@${tag}: ${error}`);
 		}
 	}
 
@@ -40,9 +49,14 @@ async function fetchReleaseNotes(
  * Generates a Pull Request title
  * @param updates Array of extension updates
  * @param prefix Prefix for the PR title (default: "chore(deps):")
+ * @param groupName Name of the group the updates belong to; its title does not change between runs
  * @returns PR title
  */
-export function generatePRTitle(updates: ExtensionUpdate[], prefix = "chore(deps):"): string {
+export function generatePRTitle(updates: ExtensionUpdate[], prefix = "chore(deps):", groupName?: string): string {
+	if (groupName) {
+		return `${prefix} update ${groupName} group of Quarto extensions`;
+	}
+
 	if (updates.length === 1) {
 		const update = updates[0];
 		return `${prefix} update ${update.nameWithOwner} extension to ${update.latestVersion}`;
@@ -51,20 +65,43 @@ export function generatePRTitle(updates: ExtensionUpdate[], prefix = "chore(deps
 	return `${prefix} update ${updates.length} Quarto extension${updates.length > 1 ? "s" : ""}`;
 }
 
+/**
+ * Creates the hidden marker recording which versions a PR updates, so that a later run can tell
+ * whether a group PR still matches the group's updates, and which extension a single-extension PR is for
+ * @param updates Array of extension updates
+ * @returns An HTML comment listing each update as owner/name@version
+ */
+export function createUpdatesMarker(updates: ExtensionUpdate[]): string {
+	const versions = updates
+		.map((u) => `${u.nameWithOwner}@${u.latestVersion}`)
+		.sort()
+		.join(", ");
+	return `<!-- ${UPDATES_MARKER}: ${versions} -->`;
+}
+
 /**
  * Generates a detailed Pull Request body similar to Dependabot
  * @param updates Array of extension updates
  * @param octokit GitHub API client
+ * @param skippedUpdates Updates that could not be applied
+ * @param groupName Name of the group the updates belong to
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns PR body in markdown format
  */
 export async function generatePRBody(
 	updates: ExtensionUpdate[],
 	octokit: OctokitClient,
 	skippedUpdates: SkippedUpdate[] = [],
+	groupName?: string,
+	logger: Logger = actionsLogger,
 ): Promise<string> {
 	const sections: string[] = [];
 
-	sections.push("Updates the following Quarto extension(s):");
+	sections.push(
+		groupName
+			? `Updates the following Quarto extension(s) in the **${groupName}** group:`
+			: "Updates the following Quarto extension(s):",
+	);
 	sections.push("");
 
 	const grouped = groupUpdatesByType(updates);
@@ -90,22 +127,54 @@ export async function generatePRBody(
 		sections.push("");
 	}
 
+	const commitUpdates = updates.filter((u) => u.commit);
+	if (commitUpdates.length > 0) {
+		sections.push("## 🔀 Commit Updates");
+		sections.push("");
+		sections.push(...formatUpdateList(commitUpdates));
+		sections.push("");
+	}
+
+	const prereleases = updates.filter((u) => isPrerelease(u.latestVersion));
+	if (prereleases.length > 0) {
+		const names = prereleases.map((u) => `${u.nameWithOwner} ${u.latestVersion}`).join(", ");
+		const verb = prereleases.length > 1 ? "are prereleases" : "is a prerelease";
+		sections.push("> [!WARNING]");
+		sections.push(`> ${names} ${verb}, which may change or break before the stable release.`);
+		sections.push("");
+	}
+
+	const fallbackNotes = updates.flatMap(({ nameWithOwner, latestVersion, fallback }) =>
+		fallback
+			? [`> - **${nameWithOwner}** \`${latestVersion}\` instead of \`${fallback.heldBackVersion}\`: ${fallback.reason}`]
+			: [],
+	);
+	if (fallbackNotes.length > 0) {
+		sections.push("> [!NOTE]");
+		sections.push(
+			"> The latest release was held back, so the newest release that satisfies every constraint is proposed:",
+		);
+		sections.push(...fallbackNotes);
+		sections.push("");
+	}
+
 	sections.push("---");
 	sections.push("");
 
 	// Fetch all release notes in parallel
 	const releaseNotesMap = new Map<string, string | null>();
 	const releaseNotesEntries = updates
+		.filter((update) => !update.commit)
 		.map((update) => {
 			const parts = update.repositoryName.split("/");
 			if (parts.length !== 2) {
-				core.warning(`Invalid repository name format: ${update.repositoryName}`);
+				logger.warning(`Invalid repository name format: ${update.repositoryName}`);
 				return null;
 			}
 			const [owner, repo] = parts;
 			return {
 				key: update.nameWithOwner,
-				promise: fetchReleaseNotes(octokit, owner, repo, update.latestVersion),
+				promise: fetchReleaseNotes(octokit, owner, repo, update.latestVersion, logger),
 			};
 		})
 		.filter((entry): entry is NonNullable<typeof entry> => entry !== null);
@@ -120,10 +189,15 @@ export async function generatePRBody(
 			sections.push(`### ${update.nameWithOwner}`);
 			sections.push("");
 		} else {
-			sections.push("### Release Notes");
+			sections.push(update.commit ? "### Commits" : "### Release Notes");
 			sections.push("");
 		}
 
+		if (update.commit) {
+			sections.push(...formatCommitDetails(update));
+			continue;
+		}
+
 		const releaseBody = releaseNotesMap.get(update.nameWithOwner) ?? null;
 
 		sections.push("<details>");
@@ -172,9 +246,57 @@ export async function generatePRBody(
 	sections.push("");
 	sections.push(PR_FOOTER_TEXT);
 
+	sections.push("");
+	sections.push(createUpdatesMarker(updates));
+
 	return sections.join("\n");
 }
 
+/**
+ * Formats the commits of a commit-tracked update as markdown, with a compare link when the installed commit is known
+ * @param update A commit-tracked extension update
+ * @returns Array of markdown lines
+ */
+function formatCommitDetails(update: ExtensionUpdate): string[] {
+	const commit = update.commit;
+	if (!commit) {
+		return [];
+	}
+
+	const lines: string[] = [];
+
+	if (commit.compareUrl) {
+		lines.push("<details>");
+		lines.push(`<summary>${commit.totalCommits} new commit(s) on ${commit.branch}</summary>`);
+		lines.push("");
+		for (const tracked of commit.commits) {
+			const author = tracked.author ? ` (${tracked.author})` : "";
+			lines.push(`- [\`${shortenSha(tracked.sha)}\`](${tracked.url}) ${tracked.message}${author}`);
+		}
+		if (commit.totalCommits > commit.commits.length) {
+			lines.push(`- … and ${commit.totalCommits - commit.commits.length} more`);
+		}
+		lines.push("");
+		lines.push("</details>");
+		lines.push("");
+		lines.push(`**Links**: [Repository](${update.url}) · [Compare](${commit.compareUrl})`);
+	} else {
+		lines.push(
+			`Installed from \`${commit.branch}\` without a recorded commit; this pins it to the current head of \`${commit.branch}\`.`,
+		);
+		lines.push("");
+		lines.push(`**Links**: [Repository](${update.url}) · [Commit](${update.releaseUrl})`);
+	}
+	lines.push("");
+
+	if (update.description) {
+		lines.push(`**About**: ${update.description}`);
+		lines.push("");
+	}
+
+	return lines;
+}
+
 /**
  * Formats a list of updates as markdown
  * @param updates Array of extension updates
@@ -184,8 +306,10 @@ function formatUpdateList(updates: ExtensionUpdate[]): string[] {
 	const lines: string[] = [];
 
 	for (const update of updates) {
+		const prerelease = isPrerelease(update.latestVersion) ? " 🧪 prerelease" : "";
+		const branch = update.commit ? ` on \`${update.commit.branch}\`` : "";
 		lines.push(
-			`- **[${update.nameWithOwner}](${update.url})**: \`${update.currentVersion}\` → \`${update.latestVersion}\``,
+			`- **[${update.nameWithOwner}](${update.url})**: \`${update.currentVersion}\` → \`${update.latestVersion}\`${branch}${prerelease}`,
 		);
 	}
 
@@ -207,34 +331,35 @@ export function generatePRLabels(): string[] {
 /**
  * Logs a summary of the updates
  * @param updates Array of extension updates
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
-export function logUpdateSummary(updates: ExtensionUpdate[]): void {
-	core.info("📦 Extension Updates Summary:");
-	core.info(LOG_SEPARATOR_CHAR.repeat(LOG_SEPARATOR_LENGTH));
+export function logUpdateSummary(updates: ExtensionUpdate[], logger: Logger = actionsLogger): void {
+	logger.info("📦 Extension Updates Summary:");
+	logger.info(LOG_SEPARATOR_CHAR.repeat(LOG_SEPARATOR_LENGTH));
 
 	const grouped = groupUpdatesByType(updates);
 
 	if (grouped.major.length > 0) {
-		core.warning(`⚠️  Major updates (${grouped.major.length}):`);
+		logger.warning(`⚠️  Major updates (${grouped.major.length}):`);
 		for (const update of grouped.major) {
-			core.warning(`   ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`);
+			logger.warning(`   ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`);
 		}
 	}
 
 	if (grouped.minor.length > 0) {
-		core.info(`✨ Minor updates (${grouped.minor.length}):`);
+		logger.info(`✨ Minor updates (${grouped.minor.length}):`);
 		for (const update of grouped.minor) {
-			core.info(`   ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`);
+			logger.info(`   ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`);
 		}
 	}
 
 	if (grouped.patch.length > 0) {
-		core.info(`🐛 Patch updates (${grouped.patch.length}):`);
+		logger.info(`🐛 Patch updates (${grouped.patch.length}):`);
 		for (const update of grouped.patch) {
-			core.info(`   ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`);
+			logger.info(`   ${update.nameWithOwner}: ${update.currentVersion} → ${update.latestVersion}`);
 		}
 	}
 
-	core.info(LOG_SEPARATOR_CHAR.repeat(LOG_SEPARATOR_LENGTH));
-	core.info(`Total: ${updates.length} extension(s) to update`);
+	logger.info(LOG_SEPARATOR_CHAR.repeat(LOG_SEPARATOR_LENGTH));
+	logger.info(`Total: ${updates.length} extension(s) to update`);
 }
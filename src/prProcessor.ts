@@ -1,11 +1,39 @@
-import * as core from "@actions/core";
-import * as fs from "fs";
+import { actionsLogger, type Logger } from "./logger.js";
 import * as path from "path";
-import { applyUpdates, createBranchName, createCommitMessage, validateModifiedFiles } from "./git.js";
-import { generatePRTitle, generatePRBody } from "./pr.js";
-import { checkExistingPR, createOrUpdateBranch, createOrUpdatePR, createCommit, type OctokitClient } from "./github.js";
+import {
+	applyUpdates,
+	createBranchName,
+	createCommitMessage,
+	getBranchSafeName,
+	getGitFileMode,
+	parseExtensionBranchName,
+	readGitFileContent,
+	validateModifiedFiles,
+} from "./git.js";
+import { generatePRTitle, generatePRBody, createUpdatesMarker } from "./pr.js";
+import {
+	checkExistingPR,
+	closeSupersededPRs,
+	createOrUpdateBranch,
+	createOrUpdatePR,
+	listOpenUpdaterPRs,
+	type OctokitClient,
+} from "./github.js";
+import type { CommitFile, GitHost, UpdateBranchStatus } from "./gitHost.js";
+import { commitWithLocalGit } from "./localGit.js";
 import { shouldAutoMerge, enableAutoMerge, isAutoMergeEnabled } from "./automerge.js";
-import type { ExtensionUpdate, AutoMergeConfig, PRAssignmentConfig, SkippedUpdate } from "./types.js";
+import { assignUpdateGroups, sortUpdatesByPriority } from "./updates.js";
+import type {
+	BlockedUpdate,
+	ExtensionUpdate,
+	AutoMergeConfig,
+	CommitMode,
+	ExtensionInstaller,
+	PRAssignmentConfig,
+	RebaseStrategy,
+	SkippedUpdate,
+	UpdateGroupRule,
+} from "./types.js";
 
 /**
  * Result of processing a PR
@@ -23,6 +51,8 @@ export interface PRProcessingResult {
 export interface ProcessAllPRsResult {
 	createdPRs: PRProcessingResult[];
 	skippedUpdates: SkippedUpdate[];
+	/** Updates left for a later run because open-pull-requests-limit was reached */
+	limitedUpdates: BlockedUpdate[];
 }
 
 /**
@@ -38,37 +68,49 @@ export interface PRProcessingConfig {
 	prLabels: string[];
 	autoMergeConfig: AutoMergeConfig;
 	assignmentConfig: PRAssignmentConfig;
+	rebaseStrategy: RebaseStrategy;
+	/** Commit through the Git host's API, or with the local git binary in the workspace */
+	commitMode: CommitMode;
+	/** Install updates with `quarto add`, or from the release archive */
+	installer: ExtensionInstaller;
+	/** Time one `quarto add` may take before it is stopped, in seconds */
+	installTimeout: number;
+	/** Most projects installed into at once */
+	installConcurrency: number;
+	groupRules: UpdateGroupRule[];
+	/** Most open update PRs at once, or undefined for no limit */
+	openPullRequestsLimit?: number;
 }
 
 /**
  * Handles auto-merge logic for a PR
  */
 async function handleAutoMerge(
-	octokit: OctokitClient,
-	owner: string,
-	repo: string,
+	host: GitHost,
 	prNumber: number,
 	updateGroup: ExtensionUpdate[],
 	autoMergeConfig: AutoMergeConfig,
+	groupRule: UpdateGroupRule | undefined,
+	logger: Logger,
 ): Promise<void> {
 	if (!autoMergeConfig.enabled) {
 		return;
 	}
 
 	// For single extension updates
-	if (updateGroup.length === 1) {
+	if (updateGroup.length === 1 && !groupRule) {
 		if (shouldAutoMerge(updateGroup[0], autoMergeConfig)) {
-			core.info(`🤖 Auto-merge enabled for ${updateGroup[0].nameWithOwner}`);
+			logger.info(`🤖 Auto-merge enabled for ${updateGroup[0].nameWithOwner}`);
 
-			const alreadyEnabled = await isAutoMergeEnabled(octokit, owner, repo, prNumber);
+			const alreadyEnabled = await isAutoMergeEnabled(host, prNumber, logger);
 
 			if (alreadyEnabled) {
-				core.info(`   Auto-merge already enabled for PR #${prNumber}`);
+				logger.info(`   Auto-merge already enabled for PR ${host.pullRequestPrefix}${prNumber}`);
 			} else {
-				await enableAutoMerge(octokit, owner, repo, prNumber, autoMergeConfig.mergeMethod);
+				await enableAutoMerge(host, prNumber, autoMergeConfig.mergeMethod, logger);
 			}
 		} else {
-			core.info(
+			logger.info(
 				`ℹ️ Auto-merge not applicable for ${updateGroup[0].nameWithOwner} (strategy: ${autoMergeConfig.strategy})`,
 			);
 		}
@@ -76,149 +118,341 @@ async function handleAutoMerge(
 	}
 
 	// For grouped updates, check if all updates qualify for auto-merge
+	const groupDesc = describeUpdateGroup(updateGroup, groupRule);
 	const allQualify = updateGroup.every((u) => shouldAutoMerge(u, autoMergeConfig));
 	if (allQualify) {
-		core.info(`🤖 Auto-merge enabled for grouped updates (all ${updateGroup.length} updates qualify)`);
-		const alreadyEnabled = await isAutoMergeEnabled(octokit, owner, repo, prNumber);
+		logger.info(`🤖 Auto-merge enabled for ${groupDesc} (all ${updateGroup.length} updates qualify)`);
+		const alreadyEnabled = await isAutoMergeEnabled(host, prNumber, logger);
 		if (!alreadyEnabled) {
-			await enableAutoMerge(octokit, owner, repo, prNumber, autoMergeConfig.mergeMethod);
+			await enableAutoMerge(host, prNumber, autoMergeConfig.mergeMethod, logger);
 		}
 	} else {
-		core.info(
-			`ℹ️ Auto-merge not applicable for grouped updates (not all updates qualify for strategy: ${autoMergeConfig.strategy})`,
+		logger.info(
+			`ℹ️ Auto-merge not applicable for ${groupDesc} (not all updates qualify for strategy: ${autoMergeConfig.strategy})`,
 		);
 	}
 }
 
+/**
+ * Returns the auto-merge settings for a PR, with a named group's overrides applied
+ */
+function getGroupAutoMergeConfig(autoMergeConfig: AutoMergeConfig, groupRule?: UpdateGroupRule): AutoMergeConfig {
+	return {
+		...autoMergeConfig,
+		enabled: groupRule?.autoMerge ?? autoMergeConfig.enabled,
+		strategy: groupRule?.autoMergeStrategy ?? autoMergeConfig.strategy,
+	};
+}
+
+/**
+ * Decides whether an existing PR's branch should be regenerated on the current base.
+ * Only branches that are behind, conflicting, or no longer carry the group's updates,
+ * and that carry no commits from anyone but the updater, qualify.
+ */
+async function shouldRegenerateBranch(
+	host: GitHost,
+	prNumber: number,
+	branchName: string,
+	baseSha: string,
+	updatesChanged: boolean,
+	logger: Logger,
+): Promise<boolean> {
+	const pr = `${host.pullRequestPrefix}${prNumber}`;
+	let status: UpdateBranchStatus;
+	try {
+		status = await host.getBranchStatus(prNumber, branchName, baseSha);
+	} catch (error) {
+		logger.warning(`Could not compare PR ${pr} with the base branch, leaving it as is: ${error}`);
+		return false;
+	}
+
+	if (!updatesChanged && status.behindBy === 0 && !status.conflicting) {
+		logger.info(`   PR ${pr} is up to date with the base branch`);
+		return false;
+	}
+
+	const state = updatesChanged
+		? "no longer matches the group's updates"
+		: status.conflicting
+			? "has conflicts"
+			: `is ${status.behindBy} commit(s) behind the base branch`;
+
+	if (status.foreignCommits.length > 0) {
+		logger.warning(
+			`PR ${pr} ${state} but its branch has ${status.foreignCommits.length} commit(s) from someone else; ` +
+				"leaving it to be rebased by hand",
+		);
+		return false;
+	}
+
+	logger.info(`♻️ PR ${pr} ${state}, regenerating ${branchName} on the current base`);
+	return true;
+}
+
 /**
  * Returns a human-readable description of an update group
  */
-function describeUpdateGroup(updateGroup: ExtensionUpdate[]): string {
+function describeUpdateGroup(updateGroup: ExtensionUpdate[], groupRule?: UpdateGroupRule): string {
+	if (groupRule) {
+		return `the ${groupRule.name} group`;
+	}
 	return updateGroup.length === 1 ? updateGroup[0].nameWithOwner : "grouped updates";
 }
 
 /**
- * Prepares files for a Git commit by stripping the workspace prefix and reading contents
+ * Closes single-extension PRs made redundant by a PR: older versions of the same extension,
+ * and, for a named group, PRs for the versions the group now carries
+ */
+async function closeRedundantPRs(
+	host: GitHost,
+	updateGroup: ExtensionUpdate[],
+	branchPrefix: string,
+	prNumber: number,
+	groupRule: UpdateGroupRule | undefined,
+	logger: Logger,
+): Promise<void> {
+	if (updateGroup.length !== 1 && !groupRule) {
+		return;
+	}
+	for (const update of updateGroup) {
+		await closeSupersededPRs(host, update, branchPrefix, prNumber, logger);
+	}
+}
+
+/**
+ * Converts an absolute file path into a repository path by stripping the workspace prefix
  */
-function prepareCommitFiles(modifiedFiles: string[], workspacePath: string): { path: string; content: Buffer }[] {
+function toRepositoryPath(filePath: string, workspacePath: string): string {
 	const workspacePrefix = `${workspacePath}${path.sep}`;
-	return modifiedFiles.map((filePath) => ({
-		path: filePath.startsWith(workspacePrefix) ? filePath.slice(workspacePrefix.length) : filePath,
-		content: fs.readFileSync(filePath),
-	}));
+	return filePath.startsWith(workspacePrefix) ? filePath.slice(workspacePrefix.length) : filePath;
+}
+
+/**
+ * Prepares files for a Git commit by stripping the workspace prefix and reading their modes and contents
+ */
+function prepareCommitFiles(modifiedFiles: string[], workspacePath: string): CommitFile[] {
+	return modifiedFiles.map((filePath) => {
+		const mode = getGitFileMode(filePath);
+		return {
+			path: toRepositoryPath(filePath, workspacePath),
+			content: readGitFileContent(filePath, mode),
+			mode,
+		};
+	});
 }
 
 /**
- * Processes a single update group (either a single extension or multiple grouped extensions)
+ * Processes a single update group (either a single extension or multiple grouped extensions).
+ * A named group keeps the same branch and PR across runs; when its updates change, the PR is regenerated.
+ * @param host The Git host of the repository the PR is opened on
+ * @param octokit GitHub API client, for the release notes of the extensions
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
 export async function processPRForUpdateGroup(
+	host: GitHost,
 	octokit: OctokitClient,
-	owner: string,
-	repo: string,
 	updateGroup: ExtensionUpdate[],
 	config: PRProcessingConfig,
+	groupRule?: UpdateGroupRule,
+	logger: Logger = actionsLogger,
 ): Promise<PRProcessingResult> {
-	const groupDesc = describeUpdateGroup(updateGroup);
-	const branchName = createBranchName(updateGroup, config.branchPrefix);
-	const prTitle = generatePRTitle(updateGroup, config.prTitlePrefix);
+	const groupDesc = describeUpdateGroup(updateGroup, groupRule);
+	const branchName = createBranchName(updateGroup, config.branchPrefix, groupRule?.name);
+	const prTitle = generatePRTitle(updateGroup, config.prTitlePrefix, groupRule?.name);
 
 	// Check for existing PR
-	const existingPR = await checkExistingPR(octokit, owner, repo, branchName, prTitle);
-	if (existingPR.exists && existingPR.prNumber && existingPR.prUrl) {
-		if (updateGroup.length === 1) {
-			core.info(
-				`ℹ️ PR #${existingPR.prNumber} already exists for ${updateGroup[0].nameWithOwner}@${updateGroup[0].latestVersion}, skipping...`,
+	const existingPR = await checkExistingPR(host, branchName, prTitle, logger);
+	const updatesChanged =
+		existingPR.exists && !!groupRule && !existingPR.prBody?.includes(createUpdatesMarker(updateGroup));
+	const regenerate =
+		existingPR.exists &&
+		!!existingPR.prNumber &&
+		(updatesChanged || config.rebaseStrategy === "auto") &&
+		(await shouldRegenerateBranch(host, existingPR.prNumber, branchName, config.baseSha, updatesChanged, logger));
+	if (existingPR.exists && existingPR.prNumber && existingPR.prUrl && !regenerate) {
+		if (updateGroup.length === 1 && !groupRule) {
+			logger.info(
+				`ℹ️ PR ${host.pullRequestPrefix}${existingPR.prNumber} already exists for ${updateGroup[0].nameWithOwner}@${updateGroup[0].latestVersion}, skipping...`,
 			);
 		} else {
-			core.info(`ℹ️ PR #${existingPR.prNumber} already exists for grouped updates, skipping...`);
+			logger.info(`ℹ️ PR ${host.pullRequestPrefix}${existingPR.prNumber} already exists for ${groupDesc}, skipping...`);
 		}
-		core.info(`   URL: ${existingPR.prUrl}`);
+		logger.info(`   URL: ${existingPR.prUrl}`);
+		await closeRedundantPRs(host, updateGroup, config.branchPrefix, existingPR.prNumber, groupRule, logger);
 		return { number: existingPR.prNumber, url: existingPR.prUrl, extensions: updateGroup.map((u) => u.nameWithOwner) };
 	}
 
 	// Apply updates and validate
-	const { modifiedFiles, skippedUpdates } = applyUpdates(updateGroup);
+	const { modifiedFiles, deletedFiles, skippedUpdates } = await applyUpdates(
+		updateGroup,
+		{
+			installer: config.installer,
+			timeoutMs: config.installTimeout * 1000,
+			concurrency: config.installConcurrency,
+		},
+		logger,
+	);
 
 	if (skippedUpdates.length > 0) {
-		core.warning(`Skipped ${skippedUpdates.length} extension(s) during update`);
+		logger.warning(`Skipped ${skippedUpdates.length} extension(s) during update`);
 		for (const skipped of skippedUpdates) {
-			core.warning(`  - ${skipped.update.nameWithOwner}: ${skipped.reason}`);
+			logger.warning(`  - ${skipped.update.nameWithOwner}: ${skipped.reason}`);
 		}
 	}
 
 	if (modifiedFiles.length === 0) {
-		core.warning(`No files modified for ${groupDesc}, all extensions may have been skipped`);
+		logger.warning(`No files modified for ${groupDesc}, all extensions may have been skipped`);
 		return { number: 0, url: "", extensions: updateGroup.map((u) => u.nameWithOwner), skippedUpdates };
 	}
 
-	if (!validateModifiedFiles(modifiedFiles)) {
+	if (!validateModifiedFiles(modifiedFiles, logger)) {
 		throw new Error(`Failed to validate modified files for ${groupDesc}`);
 	}
 
-	core.info(`Modified ${modifiedFiles.length} file(s)`);
+	logger.info(`Modified ${modifiedFiles.length} file(s)`);
+	if (deletedFiles.length > 0) {
+		logger.info(`Deleted ${deletedFiles.length} file(s)`);
+	}
 
 	// Create commit
-	const commitMessage = createCommitMessage(updateGroup, config.commitMessagePrefix);
-	core.info(`Branch: ${branchName}`);
-	core.info(`Commit message: ${commitMessage.split("\n")[0]}`);
-
-	await createOrUpdateBranch(octokit, owner, repo, branchName, config.baseSha);
+	const commitMessage = createCommitMessage(updateGroup, config.commitMessagePrefix, groupRule?.name);
+	logger.info(`Branch: ${branchName}`);
+	logger.info(`Commit message: ${commitMessage.split("\n")[0]}`);
+
+	let commitSha: string;
+	if (config.commitMode === "git") {
+		// The push creates or moves the branch
+		commitSha = commitWithLocalGit(
+			config.workspacePath,
+			branchName,
+			config.baseSha,
+			commitMessage,
+			[...modifiedFiles, ...deletedFiles],
+			logger,
+		);
+	} else {
+		await createOrUpdateBranch(host, branchName, config.baseSha, logger);
 
-	const files = prepareCommitFiles(modifiedFiles, config.workspacePath);
-	const commitSha = await createCommit(octokit, owner, repo, branchName, config.baseSha, commitMessage, files);
+		const files = prepareCommitFiles(modifiedFiles, config.workspacePath);
+		const deletedPaths = deletedFiles.map((filePath) => toRepositoryPath(filePath, config.workspacePath));
+		commitSha = await host.createCommit(branchName, config.baseSha, commitMessage, files, deletedPaths);
+	}
 
-	core.info(`✅ Created commit: ${commitSha}`);
+	logger.info(`✅ Created commit: ${commitSha}`);
 
 	// Create or update PR
-	const prBody = await generatePRBody(updateGroup, octokit, skippedUpdates);
+	const prBody = await generatePRBody(updateGroup, octokit, skippedUpdates, groupRule?.name, logger);
 
 	try {
 		const pr = await createOrUpdatePR(
-			octokit,
-			owner,
-			repo,
+			host,
 			branchName,
 			config.baseBranch,
 			prTitle,
 			prBody,
 			config.prLabels,
 			config.assignmentConfig,
+			regenerate ? existingPR.prNumber : undefined,
+			logger,
 		);
 
+		// Close PRs for older versions of the same extensions
+		await closeRedundantPRs(host, updateGroup, config.branchPrefix, pr.number, groupRule, logger);
+
 		// Handle auto-merge
-		await handleAutoMerge(octokit, owner, repo, pr.number, updateGroup, config.autoMergeConfig);
+		await handleAutoMerge(
+			host,
+			pr.number,
+			updateGroup,
+			getGroupAutoMergeConfig(config.autoMergeConfig, groupRule),
+			groupRule,
+			logger,
+		);
 
 		return { ...pr, extensions: updateGroup.map((u) => u.nameWithOwner), skippedUpdates };
 	} catch (error) {
-		core.error(`Failed to create/update PR for ${groupDesc}: ${error}`);
+		logger.error(`Failed to create/update PR for ${groupDesc}: ${error}`);
 		throw error;
 	}
 }
 
 /**
- * Processes all update groups and returns results
+ * Checks whether processing an update group would add an open PR, rather than update or replace one:
+ * its branch has no open PR, and, for a single extension, no open PR updates the same extension to another version
+ */
+function opensNewPR(
+	updateGroup: ExtensionUpdate[],
+	branchName: string,
+	openBranches: Set<string>,
+	branchPrefix: string,
+	groupRule?: UpdateGroupRule,
+): boolean {
+	if (openBranches.has(branchName)) {
+		return false;
+	}
+
+	if (updateGroup.length !== 1 || groupRule) {
+		return true;
+	}
+
+	const extension = getBranchSafeName(updateGroup[0].nameWithOwner);
+	return ![...openBranches].some((branch) => parseExtensionBranchName(branch, branchPrefix)?.extension === extension);
+}
+
+/**
+ * Processes all update groups and returns results.
+ * With open-pull-requests-limit set, the updater's open PRs are counted first; once the limit is reached,
+ * groups that would open a new PR are left for a later run, while existing PRs are still updated.
+ * @param host The Git host of the repository the PRs are opened on
+ * @param octokit GitHub API client, for the release notes of the extensions
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  */
 export async function processAllPRs(
+	host: GitHost,
 	octokit: OctokitClient,
-	owner: string,
-	repo: string,
 	updates: ExtensionUpdate[],
 	groupUpdates: boolean,
 	config: PRProcessingConfig,
+	logger: Logger = actionsLogger,
 ): Promise<ProcessAllPRsResult> {
 	const createdPRs: PRProcessingResult[] = [];
 	const allSkippedUpdates: SkippedUpdate[] = [];
+	const limitedUpdates: BlockedUpdate[] = [];
+
+	// Named groups first, then one PR for all other updates or one PR per extension, in priority order
+	const updateGroups = assignUpdateGroups(sortUpdatesByPriority(updates), config.groupRules, groupUpdates);
 
-	// Determine whether to create one PR for all updates or one PR per extension
-	const updateGroups = groupUpdates ? [updates] : updates.map((u) => [u]);
+	const limit = config.openPullRequestsLimit;
+	const openBranches = new Set<string>();
+	if (limit !== undefined) {
+		const openPRs = await listOpenUpdaterPRs(host, config.branchPrefix, config.prLabels);
+		for (const pr of openPRs) {
+			openBranches.add(pr.branchName);
+		}
+		logger.info(`${openPRs.length} of at most ${limit} update PR(s) open`);
+	}
+
+	for (const { updates: updateGroup, rule } of updateGroups) {
+		const groupDescription = rule
+			? `${rule.name} group (${updateGroup.length} extension${updateGroup.length > 1 ? "s" : ""})`
+			: updateGroup.length === 1
+				? updateGroup[0].nameWithOwner
+				: `${updateGroup.length} extensions`;
+
+		const branchName = createBranchName(updateGroup, config.branchPrefix, rule?.name);
+		const newPR = limit !== undefined && opensNewPR(updateGroup, branchName, openBranches, config.branchPrefix, rule);
+		if (newPR && openBranches.size >= limit) {
+			logger.info(`⏸️ Deferring ${groupDescription}: open-pull-requests-limit of ${limit} reached`);
+			limitedUpdates.push(
+				...updateGroup.map((update) => ({ update, reason: `open-pull-requests-limit of ${limit} reached` })),
+			);
+			continue;
+		}
 
-	for (const updateGroup of updateGroups) {
-		const groupDescription =
-			updateGroup.length === 1 ? updateGroup[0].nameWithOwner : `${updateGroup.length} extensions`;
-		core.startGroup(`📝 Processing ${groupDescription}`);
+		logger.startGroup(`📝 Processing ${groupDescription}`);
 
 		try {
-			const result = await processPRForUpdateGroup(octokit, owner, repo, updateGroup, config);
+			const result = await processPRForUpdateGroup(host, octokit, updateGroup, config, rule, logger);
 
 			if (result.skippedUpdates && result.skippedUpdates.length > 0) {
 				allSkippedUpdates.push(...result.skippedUpdates);
@@ -226,14 +460,17 @@ export async function processAllPRs(
 
 			if (result.number > 0) {
 				createdPRs.push(result);
+				if (newPR) {
+					openBranches.add(branchName);
+				}
 			}
 		} catch (error) {
-			core.error(`Failed to process ${groupDescription}: ${error}`);
+			logger.error(`Failed to process ${groupDescription}: ${error}`);
 			throw error;
 		} finally {
-			core.endGroup();
+			logger.endGroup();
 		}
 	}
 
-	return { createdPRs, skippedUpdates: allSkippedUpdates };
+	return { createdPRs, skippedUpdates: allSkippedUpdates, limitedUpdates };
 }
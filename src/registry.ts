@@ -1,4 +1,4 @@
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import { fetchRegistry as coreFetchRegistry, type Registry } from "@quarto-wizard/core";
 import { RegistryError } from "./errors.js";
 import { DEFAULT_REGISTRY_URL, DEFAULT_FETCH_TIMEOUT_MS } from "./constants.js";
@@ -6,14 +6,15 @@ import { DEFAULT_REGISTRY_URL, DEFAULT_FETCH_TIMEOUT_MS } from "./constants.js";
 /**
  * Fetches the Quarto extensions registry using @quarto-wizard/core
  * @param registryUrl Optional custom registry URL
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
  * @returns The extension registry
  * @throws RegistryError if the fetch fails
  */
-export async function fetchExtensionsRegistry(registryUrl?: string): Promise<Registry> {
+export async function fetchExtensionsRegistry(registryUrl?: string, logger: Logger = actionsLogger): Promise<Registry> {
 	const url = registryUrl || DEFAULT_REGISTRY_URL;
 
 	try {
-		core.info(`Fetching extensions registry from: ${url}`);
+		logger.info(`Fetching extensions registry from: ${url}`);
 
 		const registry = await coreFetchRegistry({
 			registryUrl: url,
@@ -23,12 +24,27 @@ export async function fetchExtensionsRegistry(registryUrl?: string): Promise<Reg
 		});
 
 		const extensionCount = Object.keys(registry).length;
-		core.info(`Successfully fetched ${extensionCount} extensions from registry`);
+		logger.info(`Successfully fetched ${extensionCount} extensions from registry`);
 
 		return registry;
 	} catch (error) {
 		const wrappedError = new RegistryError(`Failed to fetch registry: ${error}`, url);
-		core.error(wrappedError.message);
+		logger.error(wrappedError.message);
 		throw wrappedError;
 	}
 }
+
+/**
+ * Where the extensions registry comes from.
+ * Programs embedding the updater can pass their own, to read a mirror or a fixture instead of fetching over HTTP.
+ */
+export interface RegistrySource {
+	fetchRegistry(registryUrl: string | undefined, logger: Logger): Promise<Registry>;
+}
+
+/**
+ * Fetches the registry over HTTP through `fetchExtensionsRegistry()`. The default registry source.
+ */
+export const remoteRegistry: RegistrySource = {
+	fetchRegistry: (registryUrl, logger) => fetchExtensionsRegistry(registryUrl, logger),
+};
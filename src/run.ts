@@ -0,0 +1,124 @@
+import { actionsLogger, type Logger } from "./logger.js";
+import type { OctokitClient } from "./github.js";
+import type { GitHost } from "./gitHost.js";
+import type { AppConfig } from "./config.js";
+import type { BlockedUpdate, DeferredUpdate, ExtensionUpdate, InstalledExtension } from "./types.js";
+import { remoteRegistry, type RegistrySource } from "./registry.js";
+import { checkForUpdates } from "./updates.js";
+import { checkForCommitUpdates } from "./commits.js";
+import { deferUpdatesInCooldown } from "./cooldown.js";
+import { createGitHubReleaseSource, type ReleaseSource } from "./compatibility.js";
+import { findQuartoVersion } from "./git.js";
+import { processAllPRs, type ProcessAllPRsResult } from "./prProcessor.js";
+
+/**
+ * Updates found for the scanned directories, once every rule and the cooldown have been applied
+ */
+export interface FoundUpdates {
+	updates: ExtensionUpdate[];
+	blockedUpdates: BlockedUpdate[];
+	deferredUpdates: DeferredUpdate[];
+	/** Every extension found in the scanned directories, whether or not it has an update */
+	installed: InstalledExtension[];
+}
+
+/**
+ * Fetches the registry and finds the updates to propose: registry releases allowed by the update strategy
+ * and extension rules, and new commits for extensions installed from a branch or a commit SHA,
+ * less those still in their cooldown. When Quarto is installed, each release is checked against its
+ * `quarto-required` before anything is installed; a latest release that is held back gives way to the newest
+ * release that satisfies every constraint.
+ * Shared by the action, the command-line interface, and the library.
+ * @param octokit GitHub API client
+ * @param config Application configuration
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @param registrySource Where the registry comes from (default: fetched over HTTP)
+ * @param releaseSource Where the releases walked for a fallback and the manifests checked for `quarto-required`
+ * come from (default: the GitHub API)
+ * @returns The updates to propose, and those held back or deferred
+ */
+export async function findUpdates(
+	octokit: OctokitClient,
+	config: AppConfig,
+	logger: Logger = actionsLogger,
+	registrySource: RegistrySource = remoteRegistry,
+	releaseSource: ReleaseSource = createGitHubReleaseSource(octokit),
+): Promise<FoundUpdates> {
+	logger.startGroup("📥 Fetching extensions registry");
+	const registry = await registrySource.fetchRegistry(config.registryUrl, logger);
+	logger.endGroup();
+
+	logger.startGroup("🔍 Checking for updates");
+	const quartoVersion = findQuartoVersion(logger);
+	const {
+		updates: releaseUpdates,
+		blockedUpdates,
+		installed,
+		commitTracked,
+	} = await checkForUpdates(
+		config.workspacePath,
+		registry,
+		config.filterConfig,
+		config.updateStrategy,
+		config.scanDirectories,
+		config.extensionRules,
+		config.allowPrereleases,
+		{ quartoVersion, releases: releaseSource },
+		logger,
+	);
+	const { updates, deferredUpdates } = await deferUpdatesInCooldown(
+		octokit,
+		[...releaseUpdates, ...(await checkForCommitUpdates(octokit, commitTracked, logger))],
+		config.cooldown,
+		undefined,
+		logger,
+	);
+	logger.endGroup();
+
+	return { updates, blockedUpdates, deferredUpdates, installed };
+}
+
+/**
+ * Opens or updates the pull requests for a set of updates, branching from the current head of the base branch
+ * @param host The Git host of the repository
+ * @param octokit GitHub API client, for the release notes of the extensions
+ * @param config Application configuration
+ * @param updates The updates to propose
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns The pull requests created or updated, and the updates skipped or left for a later run
+ */
+export async function openUpdatePRs(
+	host: GitHost,
+	octokit: OctokitClient,
+	config: AppConfig,
+	updates: ExtensionUpdate[],
+	logger: Logger = actionsLogger,
+): Promise<ProcessAllPRsResult> {
+	const baseSha = await host.getBranchSha(config.baseBranch);
+
+	return processAllPRs(
+		host,
+		octokit,
+		updates,
+		config.groupUpdates,
+		{
+			workspacePath: config.workspacePath,
+			baseBranch: config.baseBranch,
+			baseSha,
+			branchPrefix: config.branchPrefix,
+			prTitlePrefix: config.prTitlePrefix,
+			commitMessagePrefix: config.commitMessagePrefix,
+			prLabels: config.prLabels,
+			openPullRequestsLimit: config.openPullRequestsLimit,
+			autoMergeConfig: config.autoMergeConfig,
+			assignmentConfig: config.assignmentConfig,
+			rebaseStrategy: config.rebaseStrategy,
+			commitMode: config.commitMode,
+			installer: config.installer,
+			installTimeout: config.installTimeout,
+			installConcurrency: config.installConcurrency,
+			groupRules: config.groupRules,
+		},
+		logger,
+	);
+}
@@ -1,4 +1,4 @@
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import { shouldAutoMerge } from "./automerge.js";
 import type {
 	ExtensionUpdate,
@@ -6,6 +6,8 @@ import type {
 	UpdateStrategy,
 	ExtensionFilterConfig,
 	SkippedUpdate,
+	BlockedUpdate,
+	DeferredUpdate,
 } from "./types.js";
 
 /**
@@ -25,6 +27,55 @@ interface ConfigTableRow {
 	header: boolean;
 }
 
+/**
+ * Row describing how the update strategy or a per-extension rule decided an update
+ */
+interface RuleDecisionRow {
+	extension: string;
+	current: string;
+	latest: string;
+	rule: string;
+	decision: string;
+}
+
+/**
+ * Builds the rule decision rows: every update allowed by a per-extension rule, then every held-back update
+ */
+function getRuleDecisionRows(updates: ExtensionUpdate[], blockedUpdates: BlockedUpdate[]): RuleDecisionRow[] {
+	const rows: RuleDecisionRow[] = [];
+
+	for (const update of updates) {
+		if (update.rule) {
+			rows.push({
+				extension: update.nameWithOwner,
+				current: update.currentVersion,
+				latest: update.latestVersion,
+				rule: update.rule,
+				decision: "✓ Allowed",
+			});
+		}
+	}
+
+	for (const blocked of blockedUpdates) {
+		rows.push({
+			extension: blocked.update.nameWithOwner,
+			current: blocked.update.currentVersion,
+			latest: blocked.update.latestVersion,
+			rule: blocked.rule ?? "global",
+			decision: `✗ Held back: ${blocked.reason}`,
+		});
+	}
+
+	return rows;
+}
+
+/**
+ * Formats an ISO 8601 timestamp as its date, such as 2026-10-18
+ */
+function formatDate(timestamp: string): string {
+	return timestamp.slice(0, 10);
+}
+
 /**
  * Builds a normalised list of configuration rows from the current settings
  */
@@ -74,6 +125,8 @@ function getConfigRows(
  * @param updateStrategy The update strategy being used
  * @param filterConfig Extension filtering configuration
  * @param autoMergeConfig Auto-merge configuration
+ * @param blockedUpdates Updates held back by the update strategy or a per-extension rule
+ * @param deferredUpdates Updates deferred until their release is past the cooldown
  * @returns Markdown string for the dry-run summary
  */
 export function generateDryRunMarkdown(
@@ -82,6 +135,8 @@ export function generateDryRunMarkdown(
 	updateStrategy: UpdateStrategy,
 	filterConfig: ExtensionFilterConfig,
 	autoMergeConfig: AutoMergeConfig,
+	blockedUpdates: BlockedUpdate[] = [],
+	deferredUpdates: DeferredUpdate[] = [],
 ): string {
 	let markdown = "## Dry-Run Summary\n\n";
 	markdown += "No PRs will be created. This is a preview of what would happen.\n\n";
@@ -121,6 +176,34 @@ export function generateDryRunMarkdown(
 
 	markdown += "\n";
 
+	// Rule decisions
+	const ruleRows = getRuleDecisionRows(updates, blockedUpdates);
+	if (ruleRows.length > 0) {
+		markdown += "### Rule Decisions\n\n";
+		markdown +=
+			"| Extension | Current | Latest | Rule | Decision |\n|-----------|---------|--------|------|----------|\n";
+
+		for (const row of ruleRows) {
+			markdown += `| ${row.extension} | ${row.current} | ${row.latest} | ${row.rule} | ${row.decision} |\n`;
+		}
+
+		markdown += "\n";
+	}
+
+	// Deferred updates
+	if (deferredUpdates.length > 0) {
+		markdown += "### Deferred Updates\n\n";
+		markdown += "These releases are younger than the cooldown and will be proposed once they are old enough.\n\n";
+		markdown +=
+			"| Extension | Current | Latest | Released | Eligible On |\n|-----------|---------|--------|----------|-------------|\n";
+
+		for (const deferred of deferredUpdates) {
+			markdown += `| ${deferred.update.nameWithOwner} | ${deferred.update.currentVersion} | ${deferred.update.latestVersion} | ${formatDate(deferred.releaseDate)} | ${formatDate(deferred.eligibleDate)} |\n`;
+		}
+
+		markdown += "\n";
+	}
+
 	// Next steps
 	markdown += "### Next Steps\n\n";
 	markdown += "To apply these updates, remove `dry-run: true` from your workflow configuration.\n";
@@ -157,6 +240,9 @@ function configRowsToTable(rows: ConfigRow[]): ConfigTableRow[][] {
  * @param filterConfig Extension filtering configuration
  * @param autoMergeConfig Auto-merge configuration
  * @param createIssue Whether an issue will be created with the summary
+ * @param blockedUpdates Updates held back by the update strategy or a per-extension rule
+ * @param deferredUpdates Updates deferred until their release is past the cooldown
+ * @param logger Where the summary is written (default: the GitHub Actions job summary)
  */
 export async function generateDryRunSummary(
 	updates: ExtensionUpdate[],
@@ -165,52 +251,44 @@ export async function generateDryRunSummary(
 	filterConfig: ExtensionFilterConfig,
 	autoMergeConfig: AutoMergeConfig,
 	createIssue = false,
+	blockedUpdates: BlockedUpdate[] = [],
+	deferredUpdates: DeferredUpdate[] = [],
+	logger: Logger = actionsLogger,
 ): Promise<void> {
 	// Generate markdown content
-	const markdown = generateDryRunMarkdown(updates, groupUpdates, updateStrategy, filterConfig, autoMergeConfig);
+	const markdown = generateDryRunMarkdown(
+		updates,
+		groupUpdates,
+		updateStrategy,
+		filterConfig,
+		autoMergeConfig,
+		blockedUpdates,
+		deferredUpdates,
+	);
 
 	// Add the markdown to the summary
-	core.summary.addRaw(markdown);
+	logger.summary.addRaw(markdown);
 
 	// Add issue creation notice if applicable
 	if (createIssue) {
-		core.summary.addBreak();
-		core.summary.addRaw("ℹ️ A GitHub issue has been created with this summary for tracking purposes.", true);
+		logger.summary.addBreak();
+		logger.summary.addRaw("ℹ️ A GitHub issue has been created with this summary for tracking purposes.", true);
 	}
 
-	await core.summary.write();
+	await logger.summary.write();
 }
 
 /**
- * Generates job summary for completed PR operations
- * @param updates Array of extension updates that were applied
- * @param createdPRs Array of created PR results
- * @param groupUpdates Whether updates were grouped in a single PR
- * @param updateStrategy The update strategy that was used
- * @param filterConfig Extension filtering configuration
- * @param autoMergeConfig Auto-merge configuration
+ * Adds the table of applied updates, each with its PR and whether it is auto-merged, to the job summary
  */
-export async function generateCompletedSummary(
+function addAppliedUpdates(
 	updates: ExtensionUpdate[],
 	createdPRs: { number: number; url: string; extensions: string[] }[],
 	groupUpdates: boolean,
-	updateStrategy: UpdateStrategy,
-	filterConfig: ExtensionFilterConfig,
 	autoMergeConfig: AutoMergeConfig,
-	skippedUpdates: SkippedUpdate[] = [],
-): Promise<void> {
-	core.summary.addHeading("Extension Updates Summary", 2);
-	core.summary.addRaw(`Successfully created/updated ${createdPRs.length} PR${createdPRs.length > 1 ? "s" : ""}`, true);
-	core.summary.addBreak();
-
-	// Configuration section
-	core.summary.addHeading("Configuration", 3);
-	const configRows = getConfigRows(groupUpdates, updateStrategy, filterConfig, autoMergeConfig);
-	core.summary.addTable(configRowsToTable(configRows));
-	core.summary.addBreak();
-
-	// Updates section
-	core.summary.addHeading("Applied Updates", 3);
+	logger: Logger,
+): void {
+	logger.summary.addHeading("Applied Updates", 3);
 
 	// Create a map of updates to their PRs
 	const updateToPR = new Map<string, { number: number; url: string }>();
@@ -253,12 +331,56 @@ export async function generateCompletedSummary(
 		]);
 	}
 
-	core.summary.addTable(updatesTable);
-	core.summary.addBreak();
+	logger.summary.addTable(updatesTable);
+	logger.summary.addBreak();
+}
+
+/**
+ * Generates job summary for completed PR operations
+ * @param updates Array of extension updates that were applied
+ * @param createdPRs Array of created PR results
+ * @param groupUpdates Whether updates were grouped in a single PR
+ * @param updateStrategy The update strategy that was used
+ * @param filterConfig Extension filtering configuration
+ * @param autoMergeConfig Auto-merge configuration
+ * @param skippedUpdates Updates skipped while applying them
+ * @param blockedUpdates Updates held back by the update strategy or a per-extension rule
+ * @param deferredUpdates Updates deferred until their release is past the cooldown
+ * @param logger Where the summary is written (default: the GitHub Actions job summary)
+ */
+export async function generateCompletedSummary(
+	updates: ExtensionUpdate[],
+	createdPRs: { number: number; url: string; extensions: string[] }[],
+	groupUpdates: boolean,
+	updateStrategy: UpdateStrategy,
+	filterConfig: ExtensionFilterConfig,
+	autoMergeConfig: AutoMergeConfig,
+	skippedUpdates: SkippedUpdate[] = [],
+	blockedUpdates: BlockedUpdate[] = [],
+	deferredUpdates: DeferredUpdate[] = [],
+	logger: Logger = actionsLogger,
+): Promise<void> {
+	logger.summary.addHeading("Extension Updates Summary", 2);
+	logger.summary.addRaw(
+		`Successfully created/updated ${createdPRs.length} PR${createdPRs.length > 1 ? "s" : ""}`,
+		true,
+	);
+	logger.summary.addBreak();
+
+	// Configuration section
+	logger.summary.addHeading("Configuration", 3);
+	const configRows = getConfigRows(groupUpdates, updateStrategy, filterConfig, autoMergeConfig);
+	logger.summary.addTable(configRowsToTable(configRows));
+	logger.summary.addBreak();
+
+	// Updates section, left out when every update is deferred
+	if (updates.length > 0) {
+		addAppliedUpdates(updates, createdPRs, groupUpdates, autoMergeConfig, logger);
+	}
 
 	if (skippedUpdates.length > 0) {
-		core.summary.addHeading("Skipped Extensions", 3);
-		core.summary.addRaw("The following extension(s) were skipped during this update:", true);
+		logger.summary.addHeading("Skipped Extensions", 3);
+		logger.summary.addRaw("The following extension(s) were skipped during this update:", true);
 
 		const skippedTable = [
 			[
@@ -278,9 +400,65 @@ export async function generateCompletedSummary(
 			]);
 		}
 
-		core.summary.addTable(skippedTable);
-		core.summary.addBreak();
+		logger.summary.addTable(skippedTable);
+		logger.summary.addBreak();
+	}
+
+	const ruleRows = getRuleDecisionRows(updates, blockedUpdates);
+	if (ruleRows.length > 0) {
+		logger.summary.addHeading("Rule Decisions", 3);
+
+		const ruleTable = [
+			[
+				{ data: "Extension", header: true },
+				{ data: "Current", header: true },
+				{ data: "Latest", header: true },
+				{ data: "Rule", header: true },
+				{ data: "Decision", header: true },
+			],
+		];
+
+		for (const row of ruleRows) {
+			ruleTable.push([
+				{ data: row.extension, header: false },
+				{ data: row.current, header: false },
+				{ data: row.latest, header: false },
+				{ data: row.rule, header: false },
+				{ data: row.decision, header: false },
+			]);
+		}
+
+		logger.summary.addTable(ruleTable);
+		logger.summary.addBreak();
+	}
+
+	if (deferredUpdates.length > 0) {
+		logger.summary.addHeading("Deferred Updates", 3);
+		logger.summary.addRaw("The following release(s) are younger than the cooldown:", true);
+
+		const deferredTable = [
+			[
+				{ data: "Extension", header: true },
+				{ data: "Current", header: true },
+				{ data: "Latest", header: true },
+				{ data: "Released", header: true },
+				{ data: "Eligible On", header: true },
+			],
+		];
+
+		for (const deferred of deferredUpdates) {
+			deferredTable.push([
+				{ data: deferred.update.nameWithOwner, header: false },
+				{ data: deferred.update.currentVersion, header: false },
+				{ data: deferred.update.latestVersion, header: false },
+				{ data: formatDate(deferred.releaseDate), header: false },
+				{ data: formatDate(deferred.eligibleDate), header: false },
+			]);
+		}
+
+		logger.summary.addTable(deferredTable);
+		logger.summary.addBreak();
 	}
 
-	await core.summary.write();
+	await logger.summary.write();
 }
@@ -26,7 +26,10 @@ export interface SkippedUpdate {
  * Result of applying extension updates
  */
 export interface ApplyUpdatesResult {
+	/** Files added or changed by the updates */
 	modifiedFiles: string[];
+	/** Files present before an update that the new release no longer ships */
+	deletedFiles: string[];
 	skippedUpdates: SkippedUpdate[];
 }
 
@@ -44,6 +47,132 @@ export interface ExtensionUpdate {
 	url: string;
 	releaseUrl: string;
 	description: string;
+	/** Per-extension rule that allowed the update, when one applies */
+	rule?: string;
+	/** Commit details, for extensions tracked by commit rather than by release */
+	commit?: CommitUpdate;
+	/** Why the latest release was held back, when the update moves to an older release instead */
+	fallback?: ReleaseFallback;
+	/** Publication date of the release, as an ISO string, when the registry records it */
+	releaseDate?: string;
+}
+
+/**
+ * The latest release of an extension, held back in favour of the newest release that satisfies every constraint
+ */
+export interface ReleaseFallback {
+	/** Version of the latest release */
+	heldBackVersion: string;
+	/** Why the latest release was held back */
+	reason: string;
+}
+
+/**
+ * A commit between the pinned commit and the latest one of a commit-tracked extension
+ */
+export interface TrackedCommit {
+	sha: string;
+	/** First line of the commit message */
+	message: string;
+	author?: string;
+	url: string;
+}
+
+/**
+ * How a commit-tracked extension moves from its pinned commit to the latest commit on the branch it follows
+ */
+export interface CommitUpdate {
+	/** Branch followed for new commits */
+	branch: string;
+	/** Full SHA currently installed; undefined when the extension was installed from the branch itself */
+	currentSha?: string;
+	/** Full SHA of the latest commit on the branch */
+	latestSha: string;
+	/** Link comparing the installed commit with the latest one */
+	compareUrl?: string;
+	/** Newest commits first, at most COMMIT_LIST_LIMIT of them */
+	commits: TrackedCommit[];
+	/** Number of commits between the installed commit and the latest one */
+	totalCommits: number;
+}
+
+/**
+ * An installed extension whose manifest source names a branch or a commit SHA rather than a release tag
+ */
+export interface CommitTrackedExtension {
+	name: string;
+	owner: string;
+	nameWithOwner: string;
+	/** GitHub repository from the manifest source, as owner/repo */
+	repositoryName: string;
+	/** Branch or commit SHA from the manifest source */
+	ref: string;
+	/** Branch to follow, from a per-extension rule; defaults to the source branch, or the default branch for a SHA */
+	branch?: string;
+	manifestPath: string;
+	url: string;
+	description: string;
+	/** Per-extension rule that set the branch, when one applies */
+	rule?: string;
+}
+
+/**
+ * Represents an available update that was held back by the update strategy or a per-extension rule
+ */
+export interface BlockedUpdate {
+	update: ExtensionUpdate;
+	reason: string;
+	/** Per-extension rule that blocked the update, when one applies */
+	rule?: string;
+}
+
+/**
+ * Represents an available update held back until its release has been out for the cooldown period
+ */
+export interface DeferredUpdate {
+	update: ExtensionUpdate;
+	/** Publication date of the release, as an ISO 8601 timestamp */
+	releaseDate: string;
+	/** Date from which the update is proposed, as an ISO 8601 timestamp */
+	eligibleDate: string;
+	/** Cooldown that applied to the update's type, in days */
+	cooldownDays: number;
+}
+
+/**
+ * Minimum age in days of a release before it is proposed, per update type
+ */
+export interface CooldownConfig {
+	major: number;
+	minor: number;
+	patch: number;
+}
+
+/**
+ * Result of checking installed extensions for updates
+ */
+export interface UpdateCheckResult {
+	updates: ExtensionUpdate[];
+	blockedUpdates: BlockedUpdate[];
+	/** Every extension found in the scanned directories, whether or not it has an update */
+	installed: InstalledExtension[];
+	/** Extensions installed from a branch or a commit SHA, whose updates are resolved through the GitHub API */
+	commitTracked: CommitTrackedExtension[];
+}
+
+/**
+ * An extension found in the scanned directories
+ */
+export interface InstalledExtension {
+	nameWithOwner: string;
+	/** The manifest version, if any */
+	version?: string;
+	/** The ref of the manifest source, such as a tag, a branch, or a commit SHA, if any */
+	sourceRef?: string;
+	/** True if the include/exclude filters leave the extension out */
+	excluded: boolean;
+	/** True if the manifest could not be read, so whether an update PR is still needed is unknown */
+	unreadable?: boolean;
 }
 
 /**
@@ -56,6 +185,59 @@ export type UpdateStrategy = "patch" | "minor" | "all";
  */
 export type AutoMergeStrategy = "patch" | "minor" | "all";
 
+/**
+ * A named group of updates, opened as a single PR, from the `groups` setting of the configuration file
+ */
+export interface UpdateGroupRule {
+	name: string;
+	/** Extension patterns the group takes, with `*`/`?` wildcards and `!` negations; empty takes every extension */
+	patterns: string[];
+	/** Update types the group takes; empty takes every type */
+	updateTypes: GroupUpdateType[];
+	/** Overrides the global auto-merge setting for the group's PR */
+	autoMerge?: boolean;
+	/** Overrides the global auto-merge strategy for the group's PR */
+	autoMergeStrategy?: AutoMergeStrategy;
+}
+
+/**
+ * Update types a group can select
+ */
+export type GroupUpdateType = "major" | "minor" | "patch";
+
+/**
+ * A set of updates opened as one PR, with the named group it belongs to, if any
+ */
+export interface UpdateGroup {
+	updates: ExtensionUpdate[];
+	rule?: UpdateGroupRule;
+}
+
+/**
+ * Rebase strategy - controls whether outdated or conflicting update branches are regenerated
+ */
+export type RebaseStrategy = "auto" | "disabled";
+
+/**
+ * Commit mode - how the commit of an update PR is made: through the Git host's API, or with the local git binary
+ */
+export type CommitMode = "api" | "git";
+
+/**
+ * Extension installer - how updates are installed: with `quarto add`, or by extracting the release archive directly
+ */
+export type ExtensionInstaller = "quarto" | "builtin";
+
+/**
+ * Service hosting the repository that update PRs are opened on
+ */
+export type GitHostType = "github" | "gitlab" | "gitea";
+
+/**
+ * Git tree entry mode of a file: regular, executable, or symbolic link
+ */
+export type GitFileMode = "100644" | "100755" | "120000";
+
 /**
  * GitHub merge method
  */
@@ -91,3 +273,31 @@ export interface PRAssignmentConfig {
 	teamReviewers: string[];
 	assignees: string[];
 }
+
+/**
+ * Per-extension rule from the configuration file
+ */
+export interface ExtensionRule {
+	/** Extension the rule applies to, as an exact `owner/name` or a glob such as `quarto-ext/*` */
+	match: string;
+	/** Update strategy overriding the global one for matching extensions */
+	updateStrategy?: UpdateStrategy;
+	/** Semver range the proposed version must satisfy, such as `^2` */
+	pin?: string;
+	/** Versions never proposed for matching extensions */
+	ignoreVersions: string[];
+	/** Whether prerelease versions are proposed for matching extensions, overriding the global setting */
+	allowPrereleases?: boolean;
+	/** Branch followed by matching extensions installed from a commit SHA or a branch */
+	branch?: string;
+}
+
+/**
+ * Outcome of evaluating an available update against the update strategy and rules
+ */
+export interface UpdateDecision {
+	allowed: boolean;
+	reason: string;
+	/** Per-extension rule that decided the outcome, when one applies */
+	rule?: string;
+}
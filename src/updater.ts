@@ -0,0 +1,314 @@
+import * as github from "@actions/github";
+import { parseInputs, type AppConfig, type InputSource } from "./config.js";
+import {
+	parseCooldown,
+	parseWholeNumber,
+	validateAutoMergeStrategy,
+	validateBranchPrefix,
+	validateCommitMode,
+	validateExtensionFilter,
+	validateInstaller,
+	validateMergeMethod,
+	validateRebaseStrategy,
+	validateRegistryUrl,
+	validateRepository,
+	validateScanDirectories,
+	validateUpdateStrategy,
+} from "./validation.js";
+import { findUpdates, openUpdatePRs, type FoundUpdates } from "./run.js";
+import { applyUpdates } from "./git.js";
+import { closeObsoletePRs, createGitHubHost, createIssueForUpdates, type OctokitClient } from "./github.js";
+import type { GitHost } from "./gitHost.js";
+import { remoteRegistry, type RegistrySource } from "./registry.js";
+import type { ReleaseSource } from "./compatibility.js";
+import { createConsoleLogger, type Logger } from "./logger.js";
+import type { ProcessAllPRsResult, PRProcessingResult } from "./prProcessor.js";
+import type { ApplyUpdatesResult, BlockedUpdate, ExtensionUpdate, InstalledExtension, SkippedUpdate } from "./types.js";
+import { ValidationError } from "./errors.js";
+
+/**
+ * Settings of the updater: any field of the application configuration, merged over the repository
+ * configuration file and the built-in defaults as the action inputs are
+ */
+export interface UpdaterOptions extends Partial<AppConfig> {
+	/** Configuration file, relative to the workspace (default: `.github/quarto-extensions.yml`, read when present) */
+	configFile?: string;
+	/** GitHub repository to open pull requests on, as owner/repo; the pull request methods need it or a gitHost */
+	repository?: string;
+}
+
+/**
+ * Services the updater relies on, each replaceable by programs embedding it
+ */
+export interface UpdaterDependencies {
+	/** Where the extensions registry comes from (default: fetched over HTTP) */
+	registry?: RegistrySource;
+	/** GitHub API client, for the extension releases (default: one authenticated with the `githubToken` option) */
+	github?: OctokitClient;
+	/**
+	 * Where the releases walked for a fallback and the manifests checked for `quarto-required` come from
+	 * (default: the `github` client)
+	 */
+	releases?: ReleaseSource;
+	/**
+	 * Host of the repository to open pull requests on, such as `createGitLabHost()` or `createGiteaHost()`
+	 * (default: the GitHub `repository`)
+	 */
+	gitHost?: GitHost;
+	/** Where progress and warnings are logged (default: plain lines on standard error) */
+	logger?: Logger;
+}
+
+/**
+ * Outcome of a full run: the updates found, then what was closed, opened, or reported
+ */
+export interface UpdaterRunResult extends FoundUpdates {
+	/** Updates proposed in a pull request */
+	appliedUpdates: ExtensionUpdate[];
+	skippedUpdates: SkippedUpdate[];
+	/** Updates left for a later run because open-pull-requests-limit was reached */
+	limitedUpdates: BlockedUpdate[];
+	pullRequests: PRProcessingResult[];
+	/** Numbers of the update PRs closed as no longer needed */
+	closedPRs: number[];
+	/** Issue listing the updates, created in a dry run with `createIssue` */
+	issue?: { number: number; url: string };
+}
+
+/**
+ * Reads the options that map onto an input; every other input is left unset,
+ * so that the configuration file or the built-in default applies
+ */
+function createOptionInputs(options: UpdaterOptions): InputSource {
+	const values: Record<string, string | undefined> = {
+		"github-token": options.githubToken,
+		"workspace-path": options.workspacePath,
+		"config-file": options.configFile,
+	};
+
+	return {
+		getInput: (name) => values[name] ?? "",
+		getBooleanInput(name) {
+			throw new TypeError(`Input ${name} is not set`);
+		},
+	};
+}
+
+/**
+ * Resolves the options into a validated configuration
+ * @param options The updater options
+ * @param logger Where progress is logged
+ * @returns The configuration file and defaults, overridden by the options that are set
+ * @throws ValidationError if an option or the configuration file is invalid
+ */
+function resolveConfig(options: UpdaterOptions, logger: Logger): AppConfig {
+	const config = parseInputs(createOptionInputs(options), logger);
+	for (const key of Object.keys(config) as (keyof AppConfig)[]) {
+		if (options[key] !== undefined) {
+			Object.assign(config, { [key]: options[key] });
+		}
+	}
+
+	if (config.registryUrl) {
+		validateRegistryUrl(config.registryUrl);
+	}
+	validateBranchPrefix(config.branchPrefix);
+	validateExtensionFilter(config.filterConfig.include, "include-extensions");
+	validateExtensionFilter(config.filterConfig.exclude, "exclude-extensions");
+	validateScanDirectories(config.scanDirectories, config.workspacePath);
+	validateAutoMergeStrategy(config.autoMergeConfig.strategy);
+	validateMergeMethod(config.autoMergeConfig.mergeMethod);
+	validateUpdateStrategy(config.updateStrategy);
+	validateRebaseStrategy(config.rebaseStrategy);
+	validateCommitMode(config.commitMode);
+	validateInstaller(config.installer);
+	// Parsed again rather than checked, so a partial cooldown such as { major: 14 } leaves the other types at zero
+	if (config.openPullRequestsLimit !== undefined) {
+		config.openPullRequestsLimit = parseWholeNumber(
+			config.openPullRequestsLimit,
+			"open-pull-requests-limit",
+			"pull request limit",
+			0,
+		);
+	}
+	config.installTimeout = parseWholeNumber(config.installTimeout, "install-timeout", "install timeout", 1);
+	config.installConcurrency = parseWholeNumber(
+		config.installConcurrency,
+		"install-concurrency",
+		"install concurrency",
+		1,
+	);
+	config.cooldown = parseCooldown(config.cooldown, "cooldown");
+
+	return config;
+}
+
+/**
+ * Checks for, applies, and proposes extension updates from another program.
+ * It runs the same steps as the action and the command line, and returns their results rather than
+ * setting action outputs or writing a job summary.
+ *
+ * @example
+ * const updater = new QuartoExtensionsUpdater({ githubToken, workspacePath: "." });
+ * const { updates } = await updater.checkForUpdates();
+ * await updater.applyUpdates(updates);
+ */
+export class QuartoExtensionsUpdater {
+	/** The resolved configuration */
+	readonly config: AppConfig;
+
+	private readonly registry: RegistrySource;
+	private readonly github: OctokitClient;
+	private readonly releases: ReleaseSource | undefined;
+	private readonly gitHost: GitHost | undefined;
+	private readonly logger: Logger;
+
+	/**
+	 * @param options Settings, merged over the repository configuration file and the defaults
+	 * @param dependencies Registry source, GitHub API client, Git host, and logger to use instead of the defaults
+	 * @throws ValidationError if an option or the configuration file is invalid, or no token nor client is given
+	 */
+	constructor(options: UpdaterOptions = {}, dependencies: UpdaterDependencies = {}) {
+		this.logger = dependencies.logger ?? createConsoleLogger();
+		this.registry = dependencies.registry ?? remoteRegistry;
+		this.config = resolveConfig(options, this.logger);
+
+		if (options.repository !== undefined) {
+			validateRepository(options.repository, "repository");
+		}
+
+		if (!dependencies.github && !this.config.githubToken) {
+			throw new ValidationError("Missing GitHub token: pass githubToken or a github client", "githubToken", "");
+		}
+		this.github = dependencies.github ?? github.getOctokit(this.config.githubToken);
+		this.releases = dependencies.releases;
+
+		if (dependencies.gitHost) {
+			this.gitHost = dependencies.gitHost;
+		} else if (options.repository) {
+			const [owner, repo] = options.repository.split("/");
+			this.gitHost = createGitHubHost(this.github, owner, repo);
+		}
+	}
+
+	/**
+	 * Finds the updates to propose for the scanned directories
+	 * @returns The updates to propose, those held back or deferred, and every installed extension
+	 */
+	async checkForUpdates(): Promise<FoundUpdates> {
+		return findUpdates(this.github, this.config, this.logger, this.registry, this.releases);
+	}
+
+	/**
+	 * Installs updates in the working tree with the configured installer, leaving committing them to the caller
+	 * @param updates The updates to install, usually from `checkForUpdates()`
+	 * @param signal Stops the running installs and skips the remaining updates when aborted
+	 * @returns The files added, changed, or deleted, and the updates that could not be installed
+	 */
+	async applyUpdates(updates: ExtensionUpdate[], signal?: AbortSignal): Promise<ApplyUpdatesResult> {
+		return applyUpdates(
+			updates,
+			{
+				installer: this.config.installer,
+				timeoutMs: this.config.installTimeout * 1000,
+				concurrency: this.config.installConcurrency,
+				signal,
+			},
+			this.logger,
+		);
+	}
+
+	/**
+	 * Opens or updates the pull requests for a set of updates
+	 * @param updates The updates to propose, usually from `checkForUpdates()`
+	 * @returns The pull requests created or updated, and the updates skipped or left for a later run
+	 * @throws ValidationError if neither a repository nor a Git host was given
+	 */
+	async openPullRequests(updates: ExtensionUpdate[]): Promise<ProcessAllPRsResult> {
+		return openUpdatePRs(this.getGitHost(), this.github, this.config, updates, this.logger);
+	}
+
+	/**
+	 * Closes the update pull requests that the base branch no longer needs
+	 * @param installed Every installed extension, from `checkForUpdates()`
+	 * @returns Numbers of the PRs that were closed
+	 * @throws ValidationError if neither a repository nor a Git host was given
+	 */
+	async closeObsoletePullRequests(installed: InstalledExtension[]): Promise<number[]> {
+		return closeObsoletePRs(
+			this.getGitHost(),
+			this.config.branchPrefix,
+			this.config.baseBranch,
+			installed,
+			this.logger,
+		);
+	}
+
+	/**
+	 * Runs the pull request pipeline as the action does: closes the PRs no longer needed, then opens or updates
+	 * the PRs for the available updates, or in a dry run only reports them, with an issue when `createIssue` is set
+	 * @returns The updates found, and the PRs and issue closed, opened, or created
+	 * @throws ValidationError if neither a repository nor a Git host was given
+	 */
+	async run(): Promise<UpdaterRunResult> {
+		const host = this.getGitHost();
+		const found = await this.checkForUpdates();
+		const result: UpdaterRunResult = {
+			...found,
+			appliedUpdates: [],
+			skippedUpdates: [],
+			limitedUpdates: [],
+			pullRequests: [],
+			closedPRs: [],
+		};
+
+		if (!this.config.dryRun && this.config.createPR) {
+			result.closedPRs = await this.closeObsoletePullRequests(found.installed);
+		}
+
+		if (found.updates.length === 0 || (!this.config.dryRun && !this.config.createPR)) {
+			return result;
+		}
+
+		if (this.config.dryRun) {
+			if (this.config.createIssue) {
+				result.issue = await createIssueForUpdates(
+					host,
+					found.updates,
+					this.config.groupUpdates,
+					this.config.updateStrategy,
+					this.config.filterConfig,
+					this.config.autoMergeConfig,
+					found.blockedUpdates,
+					found.deferredUpdates,
+					this.logger,
+				);
+			}
+			return result;
+		}
+
+		const { createdPRs, skippedUpdates, limitedUpdates } = await this.openPullRequests(found.updates);
+		const skippedNames = new Set([...skippedUpdates, ...limitedUpdates].map((s) => s.update.nameWithOwner));
+		result.appliedUpdates = found.updates.filter((u) => !skippedNames.has(u.nameWithOwner));
+		result.skippedUpdates = skippedUpdates;
+		result.limitedUpdates = limitedUpdates;
+		result.pullRequests = createdPRs;
+
+		return result;
+	}
+
+	/**
+	 * Gets the host to open pull requests on
+	 * @throws ValidationError if neither a repository nor a Git host was given
+	 */
+	private getGitHost(): GitHost {
+		if (!this.gitHost) {
+			throw new ValidationError(
+				"Missing repository: pass the repository option as owner/repo, or a gitHost",
+				"repository",
+				"",
+			);
+		}
+		return this.gitHost;
+	}
+}
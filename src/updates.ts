@@ -1,43 +1,186 @@
 import * as path from "path";
-import * as core from "@actions/core";
+import { actionsLogger, type Logger } from "./logger.js";
 import * as semver from "semver";
 import type { Registry, RegistryEntry } from "@quarto-wizard/core";
-import type { ExtensionUpdate, ExtensionFilterConfig, UpdateStrategy } from "./types.js";
-import { findExtensionManifests, readExtensionManifest, extractExtensionInfo } from "./extensions.js";
+import type {
+	BlockedUpdate,
+	CommitTrackedExtension,
+	ExtensionUpdate,
+	ExtensionFilterConfig,
+	ExtensionRule,
+	InstalledExtension,
+	UpdateCheckResult,
+	UpdateDecision,
+	UpdateGroup,
+	UpdateGroupRule,
+	UpdateStrategy,
+	UpdateType,
+} from "./types.js";
+import {
+	findExtensionManifests,
+	readExtensionManifest,
+	extractExtensionInfo,
+	parseSourceRef,
+	isCommitSha,
+} from "./extensions.js";
 import { getUpdateType } from "./automerge.js";
+import { isGlobPattern, matchesPattern, matchesPatternList } from "./patterns.js";
+import { findUnmatchedPatterns } from "./validation.js";
+import { checkQuartoRequirement, findFallbackRelease, type QuartoCompatibility } from "./compatibility.js";
+import { GITHUB_BASE_URL, RELEASE_TAG_PATTERN } from "./constants.js";
 
 /**
- * Determines if an update should be applied based on the update strategy
+ * Checks whether an update type is allowed by an update strategy
  * @param currentVersion The current version
  * @param latestVersion The latest version
  * @param strategy The update strategy
- * @returns True if the update should be applied
+ * @returns True if the strategy allows the update
  */
-function shouldApplyUpdate(currentVersion: string, latestVersion: string, strategy: UpdateStrategy): boolean {
+function isAllowedByStrategy(currentVersion: string, latestVersion: string, strategy: UpdateStrategy): boolean {
 	if (strategy === "all") {
 		return true;
 	}
 
-	const current = normaliseVersion(currentVersion);
-	const latest = normaliseVersion(latestVersion);
-
-	if (!semver.valid(current) || !semver.valid(latest)) {
-		return false;
-	}
-
-	const diff = semver.diff(current, latest);
+	const updateType = getUpdateType(normaliseVersion(currentVersion), normaliseVersion(latestVersion));
 
 	if (strategy === "patch") {
-		return diff === "patch" || diff === "prepatch";
+		return updateType === "patch";
 	}
 
 	if (strategy === "minor") {
-		return diff === "minor" || diff === "preminor" || diff === "patch" || diff === "prepatch";
+		return updateType === "minor" || updateType === "patch";
 	}
 
 	return false;
 }
 
+/**
+ * Finds the per-extension rule for an extension.
+ * A rule naming the extension exactly wins over glob rules; among glob rules, the first listed wins.
+ * @param extensionRules Rules from the configuration file
+ * @param nameWithOwner The extension's owner/name
+ * @returns The matching rule or undefined
+ */
+export function findExtensionRule(extensionRules: ExtensionRule[], nameWithOwner: string): ExtensionRule | undefined {
+	return (
+		extensionRules.find((rule) => rule.match === nameWithOwner) ??
+		extensionRules.find((rule) => isGlobPattern(rule.match) && matchesPattern(rule.match, nameWithOwner))
+	);
+}
+
+/**
+ * Checks whether a version is listed in a rule's ignored versions
+ * @param rule The per-extension rule
+ * @param version The version to check (with or without 'v' prefix)
+ * @returns True if the version is ignored
+ */
+function isIgnoredVersion(rule: ExtensionRule, version: string): boolean {
+	const normalised = normaliseVersion(version);
+	return rule.ignoreVersions.some((ignored) => normaliseVersion(ignored) === normalised);
+}
+
+/**
+ * Determines if an update should be applied based on the update strategy and the extension's rule.
+ * Ignored versions are checked first, then prereleases, then the pinned range, then the update strategy.
+ * @param currentVersion The current version
+ * @param latestVersion The latest version
+ * @param updateStrategy The global update strategy
+ * @param allowPrereleases Whether prerelease versions are proposed, unless the rule says otherwise
+ * @param rule The per-extension rule, if any
+ * @returns The decision, with the reason and the rule that decided it
+ */
+function shouldApplyUpdate(
+	currentVersion: string,
+	latestVersion: string,
+	updateStrategy: UpdateStrategy,
+	allowPrereleases: boolean,
+	rule?: ExtensionRule,
+): UpdateDecision {
+	if (rule && isIgnoredVersion(rule, latestVersion)) {
+		return { allowed: false, reason: `version ${latestVersion} is ignored by rule '${rule.match}'`, rule: rule.match };
+	}
+
+	const prereleasesAllowed = rule?.allowPrereleases ?? allowPrereleases;
+	if (!prereleasesAllowed && isPrerelease(latestVersion)) {
+		const source = rule?.allowPrereleases === undefined ? "global setting" : `rule '${rule.match}'`;
+		return {
+			allowed: false,
+			reason: `version ${latestVersion} is a prerelease, not allowed by allow-prereleases (${source})`,
+			rule: rule?.allowPrereleases === undefined ? undefined : rule.match,
+		};
+	}
+
+	// Ranges leave prereleases out unless asked: a pin of ^2 takes 2.1.0-beta.1 only when prereleases are allowed
+	if (
+		rule?.pin &&
+		!semver.satisfies(normaliseVersion(latestVersion), rule.pin, { includePrerelease: prereleasesAllowed })
+	) {
+		return {
+			allowed: false,
+			reason: `version ${latestVersion} is outside the pinned range ${rule.pin} of rule '${rule.match}'`,
+			rule: rule.match,
+		};
+	}
+
+	const strategy = rule?.updateStrategy ?? updateStrategy;
+	const strategySource = rule?.updateStrategy ? `rule '${rule.match}'` : "global setting";
+
+	if (!isAllowedByStrategy(currentVersion, latestVersion, strategy)) {
+		const updateType = getUpdateType(normaliseVersion(currentVersion), normaliseVersion(latestVersion));
+		return {
+			allowed: false,
+			reason: `${updateType} update (${currentVersion} → ${latestVersion}) not allowed by update strategy (${strategy}, ${strategySource})`,
+			rule: rule?.match,
+		};
+	}
+
+	return {
+		allowed: true,
+		reason: rule?.pin
+			? `within pinned range ${rule.pin}, allowed by update strategy (${strategy}, ${strategySource})`
+			: `allowed by update strategy (${strategy}, ${strategySource})`,
+		rule: rule?.match,
+	};
+}
+
+/**
+ * Checks whether a source ref is followed by commit rather than by release: a commit SHA, or anything that does not
+ * name a release, such as `main` or `release-1.2`, which is taken as a branch. A release is named by a version tag,
+ * such as `v1.2`, `v1.2.0`, or `1.2.0-beta.1`, or by the version the manifest records
+ * @param ref The ref from a manifest source
+ * @param version The manifest version, if any
+ * @returns True if the ref is a commit SHA or a branch
+ */
+function isTrackedByCommit(ref: string, version: string | undefined): boolean {
+	if (isCommitSha(ref)) {
+		return true;
+	}
+
+	const tag = normaliseVersion(ref);
+	const namesRelease =
+		semver.valid(tag) !== null ||
+		RELEASE_TAG_PATTERN.test(ref) ||
+		(version !== undefined && tag === normaliseVersion(version));
+	return !namesRelease;
+}
+
+/**
+ * Warns about include/exclude patterns that match no installed extension, which usually means a typo
+ * @param filterConfig The include/exclude filters
+ * @param installed The owner/name of every installed extension
+ * @param logger Where progress and warnings are logged
+ */
+function warnUnmatchedPatterns(filterConfig: ExtensionFilterConfig, installed: string[], logger: Logger): void {
+	for (const [field, patterns] of [
+		["include-extensions", filterConfig.include],
+		["exclude-extensions", filterConfig.exclude],
+	] as const) {
+		for (const pattern of findUnmatchedPatterns(patterns, installed)) {
+			logger.warning(`Pattern '${pattern}' in ${field} does not match any installed extension`);
+		}
+	}
+}
+
 /**
  * Checks for available updates for installed Quarto extensions
  * @param workspacePath The workspace path to check
@@ -45,69 +188,119 @@ function shouldApplyUpdate(currentVersion: string, latestVersion: string, strate
  * @param filterConfig Optional configuration for filtering extensions
  * @param updateStrategy Optional strategy to control which types of updates to apply (default: "all")
  * @param scanDirectories Directories relative to workspacePath to scan for _extensions (default: ["."])
- * @returns Array of available updates
+ * @param extensionRules Per-extension rules setting a strategy, a pinned range, or ignored versions (default: [])
+ * @param allowPrereleases Whether prerelease versions are proposed, unless a rule says otherwise (default: false)
+ * @param compatibility Release source and installed Quarto version: `quarto-required` is checked before installing,
+ * and an update whose latest release is held back by `quarto-required`, a rule, or the update strategy moves to the
+ * newest release that satisfies every constraint (default: neither, so an update held back is reported as such,
+ * without a fallback release)
+ * @param logger Where progress and warnings are logged (default: the GitHub Actions log)
+ * @returns Available updates, the updates held back by the update strategy, a rule, or `quarto-required`,
+ * every installed extension, and the extensions installed from a branch or a commit SHA, whose updates are resolved
+ * separately
  */
-export function checkForUpdates(
+export async function checkForUpdates(
 	workspacePath: string,
 	registry: Registry,
 	filterConfig?: ExtensionFilterConfig,
 	updateStrategy: UpdateStrategy = "all",
 	scanDirectories: string[] = ["."],
-): ExtensionUpdate[] {
+	extensionRules: ExtensionRule[] = [],
+	allowPrereleases = false,
+	compatibility?: QuartoCompatibility,
+	logger: Logger = actionsLogger,
+): Promise<UpdateCheckResult> {
 	const updates: ExtensionUpdate[] = [];
+	const blockedUpdates: BlockedUpdate[] = [];
 	const allManifestPaths: string[] = [];
 	for (const scanDir of scanDirectories) {
-		allManifestPaths.push(...findExtensionManifests(path.join(workspacePath, scanDir)));
+		allManifestPaths.push(...findExtensionManifests(path.join(workspacePath, scanDir), logger));
 	}
 	const manifestPaths = [...new Set(allManifestPaths)];
+	const installed: InstalledExtension[] = [];
+	const commitTracked: CommitTrackedExtension[] = [];
 
-	core.info(`Checking ${manifestPaths.length} extensions for updates...`);
+	logger.info(`Checking ${manifestPaths.length} extensions for updates...`);
 
 	for (const manifestPath of manifestPaths) {
-		const extensionData = readExtensionManifest(manifestPath);
-		const extensionInfo = extractExtensionInfo(manifestPath);
+		const extensionData = readExtensionManifest(manifestPath, logger);
+		const extensionInfo = extractExtensionInfo(manifestPath, logger);
 
-		if (!extensionData || !extensionInfo) {
+		if (!extensionInfo) {
 			continue;
 		}
 
 		const { owner, name } = extensionInfo;
 		const nameWithOwner = `${owner}/${name}`;
 
+		const notIncluded =
+			!!filterConfig && filterConfig.include.length > 0 && !matchesPatternList(filterConfig.include, nameWithOwner);
+		const excluded =
+			!!filterConfig && filterConfig.exclude.length > 0 && matchesPatternList(filterConfig.exclude, nameWithOwner);
+
+		// An extension whose manifest cannot be read is still installed: its update PRs are neither needed nor obsolete
+		if (!extensionData) {
+			installed.push({ nameWithOwner, excluded: notIncluded || excluded, unreadable: true });
+			continue;
+		}
+		const sourceRef = extensionData.source ? parseSourceRef(extensionData.source) : null;
+		installed.push({
+			nameWithOwner,
+			version: extensionData.version,
+			sourceRef: sourceRef?.ref,
+			excluded: notIncluded || excluded,
+		});
+
 		// Apply include/exclude filters
-		if (filterConfig) {
-			if (filterConfig.include.length > 0 && !filterConfig.include.includes(nameWithOwner)) {
-				core.info(`Skipping ${nameWithOwner}: not in include list`);
-				continue;
-			}
+		if (notIncluded) {
+			logger.info(`Skipping ${nameWithOwner}: not in include list`);
+			continue;
+		}
 
-			if (filterConfig.exclude.length > 0 && filterConfig.exclude.includes(nameWithOwner)) {
-				core.info(`Skipping ${nameWithOwner}: in exclude list`);
-				continue;
-			}
+		if (excluded) {
+			logger.info(`Skipping ${nameWithOwner}: in exclude list`);
+			continue;
 		}
 
 		if (!extensionData.source) {
-			core.info(`Skipping ${nameWithOwner}: no source field (cannot track updates)`);
+			logger.info(`Skipping ${nameWithOwner}: no source field (cannot track updates)`);
 			continue;
 		}
 
-		if (!extensionData.version || extensionData.version === "none") {
-			core.info(`Skipping ${nameWithOwner}: no version specified`);
+		const registryEntry = findRegistryEntry(registry, nameWithOwner, extensionData.repository);
+
+		if (sourceRef && isTrackedByCommit(sourceRef.ref, extensionData.version)) {
+			const rule = findExtensionRule(extensionRules, nameWithOwner);
+			logger.info(`${nameWithOwner} is installed from ${sourceRef.ref}, checking for new commits`);
+			commitTracked.push({
+				name,
+				owner,
+				nameWithOwner,
+				repositoryName: sourceRef.repository,
+				ref: sourceRef.ref,
+				branch: rule?.branch,
+				manifestPath,
+				url: registryEntry?.htmlUrl || `${GITHUB_BASE_URL}/${sourceRef.repository}`,
+				description: registryEntry?.description || "",
+				rule: rule?.branch ? rule.match : undefined,
+			});
 			continue;
 		}
 
-		const registryEntry = findRegistryEntry(registry, nameWithOwner, extensionData.repository);
+		if (!extensionData.version || extensionData.version === "none") {
+			logger.info(`Skipping ${nameWithOwner}: no version specified`);
+			continue;
+		}
 
 		if (!registryEntry) {
-			core.info(`Skipping ${nameWithOwner}: not found in registry`);
+			logger.info(`Skipping ${nameWithOwner}: not found in registry`);
 			continue;
 		}
 
 		// Use latestTag (with 'v' prefix) or latestVersion (without prefix)
 		const latestVersion = registryEntry.latestTag || registryEntry.latestVersion;
 		if (!latestVersion || latestVersion === "none") {
-			core.info(`Skipping ${nameWithOwner}: no release version in registry`);
+			logger.info(`Skipping ${nameWithOwner}: no release version in registry`);
 			continue;
 		}
 
@@ -115,25 +308,14 @@ export function checkForUpdates(
 		const normalizedLatest = normaliseVersion(latestVersion);
 
 		if (!semver.valid(currentVersion) || !semver.valid(normalizedLatest)) {
-			core.warning(
+			logger.warning(
 				`Skipping ${nameWithOwner}: invalid version format (current: ${extensionData.version}, latest: ${latestVersion})`,
 			);
 			continue;
 		}
 
 		if (semver.lt(currentVersion, normalizedLatest)) {
-			// Check if this update should be applied based on the update strategy
-			if (!shouldApplyUpdate(extensionData.version, latestVersion, updateStrategy)) {
-				const diff = semver.diff(currentVersion, normalizedLatest);
-				core.info(
-					`Skipping ${nameWithOwner}: ${diff} update (${extensionData.version} → ${latestVersion}) not allowed by update strategy (${updateStrategy})`,
-				);
-				continue;
-			}
-
-			core.info(`Update available for ${nameWithOwner}: ${extensionData.version} → ${latestVersion}`);
-
-			updates.push({
+			const update: ExtensionUpdate = {
 				name,
 				owner,
 				nameWithOwner,
@@ -144,13 +326,66 @@ export function checkForUpdates(
 				url: registryEntry.htmlUrl,
 				releaseUrl: registryEntry.latestReleaseUrl || "",
 				description: registryEntry.description || "",
-			});
+				releaseDate: getRegistryReleaseDate(registryEntry),
+			};
+
+			// Check if this update should be applied based on the update strategy, the rules, and quarto-required
+			const rule = findExtensionRule(extensionRules, nameWithOwner);
+			const decide = (version: string) =>
+				shouldApplyUpdate(update.currentVersion, version, updateStrategy, allowPrereleases, rule);
+			let decision = decide(latestVersion);
+			if (decision.allowed && compatibility) {
+				const reason = await checkQuartoRequirement(update, latestVersion, compatibility, logger);
+				if (reason) {
+					decision = { allowed: false, reason };
+				}
+			}
+
+			let proposed = update;
+			if (!decision.allowed) {
+				const fallback =
+					compatibility &&
+					(await findFallbackRelease(update, compatibility, (version) => decide(version).allowed, logger));
+				if (!fallback) {
+					logger.info(`Skipping ${nameWithOwner}: ${decision.reason}`);
+					blockedUpdates.push({ update, reason: decision.reason, rule: decision.rule });
+					continue;
+				}
+
+				logger.info(
+					`Holding back ${nameWithOwner} ${latestVersion}: ${decision.reason}. ` +
+						`Proposing ${fallback.tag}, the newest release that satisfies every constraint`,
+				);
+				proposed = {
+					...update,
+					latestVersion: fallback.tag,
+					releaseUrl: fallback.url,
+					// The registry date is that of the release held back
+					releaseDate: undefined,
+					fallback: { heldBackVersion: latestVersion, reason: decision.reason },
+				};
+				decision = decide(fallback.tag);
+			}
+
+			logger.info(
+				`Update available for ${nameWithOwner}: ${extensionData.version} → ${proposed.latestVersion} (${decision.reason})`,
+			);
+
+			updates.push(decision.rule ? { ...proposed, rule: decision.rule } : proposed);
 		} else {
-			core.info(`${nameWithOwner} is up to date (${extensionData.version})`);
+			logger.info(`${nameWithOwner} is up to date (${extensionData.version})`);
 		}
 	}
 
-	return updates;
+	if (filterConfig) {
+		warnUnmatchedPatterns(
+			filterConfig,
+			installed.map((extension) => extension.nameWithOwner),
+			logger,
+		);
+	}
+
+	return { updates, blockedUpdates, installed, commitTracked };
 }
 
 /**
@@ -175,6 +410,17 @@ function findRegistryEntry(registry: Registry, nameWithOwner: string, repository
 	return null;
 }
 
+/**
+ * Reads the publication date of the latest release from a registry entry, recorded as `latestReleaseDate`
+ * by registries that provide it; the entry type of @quarto-wizard/core does not declare it
+ * @param entry The registry entry
+ * @returns The date, or undefined if the entry has none or it is not a date
+ */
+function getRegistryReleaseDate(entry: RegistryEntry): string | undefined {
+	const date = (entry as RegistryEntry & { latestReleaseDate?: unknown }).latestReleaseDate;
+	return typeof date === "string" && !Number.isNaN(Date.parse(date)) ? date : undefined;
+}
+
 /**
  * Normalises a version string for semver comparison
  * Removes 'v' prefix and ensures valid semver format
@@ -191,6 +437,15 @@ export function normaliseVersion(version: string): string {
 	return normalised;
 }
 
+/**
+ * Checks whether a version is a prerelease, such as 2.0.0-beta.1
+ * @param version The version string (with or without 'v' prefix)
+ * @returns True if the version carries a prerelease part
+ */
+export function isPrerelease(version: string): boolean {
+	return semver.prerelease(normaliseVersion(version)) !== null;
+}
+
 /**
  * Groups updates by type for better PR organisation
  * @param updates Array of extension updates
@@ -221,3 +476,78 @@ export function groupUpdatesByType(updates: ExtensionUpdate[]): {
 
 	return grouped;
 }
+
+/**
+ * Checks whether an update belongs to a named group: it must match the group's patterns and update types,
+ * where an empty list places no restriction
+ */
+function matchesGroupRule(update: ExtensionUpdate, rule: UpdateGroupRule): boolean {
+	if (rule.patterns.length > 0 && !matchesPatternList(rule.patterns, update.nameWithOwner)) {
+		return false;
+	}
+
+	if (rule.updateTypes.length === 0) {
+		return true;
+	}
+
+	const updateType = getUpdateType(update.currentVersion, update.latestVersion);
+	return rule.updateTypes.some((type) => type === updateType);
+}
+
+/** Order in which update types are opened as PRs: the smallest changes first, as they are the quickest to review */
+const UPDATE_TYPE_PRIORITY: UpdateType[] = ["patch", "minor", "major", "unknown"];
+
+/**
+ * Sorts updates into the order their PRs are opened: patch, then minor, then major updates,
+ * then updates without a version type such as commit updates, each by extension name.
+ * The order is the same from one run to the next, which matters once open-pull-requests-limit is reached.
+ * @param updates Updates to sort
+ * @returns A sorted copy of the updates
+ */
+export function sortUpdatesByPriority(updates: ExtensionUpdate[]): ExtensionUpdate[] {
+	const priority = (update: ExtensionUpdate) =>
+		UPDATE_TYPE_PRIORITY.indexOf(getUpdateType(update.currentVersion, update.latestVersion));
+
+	return [...updates].sort((a, b) => priority(a) - priority(b) || a.nameWithOwner.localeCompare(b.nameWithOwner, "en"));
+}
+
+/**
+ * Splits updates into the sets that are each opened as one PR.
+ * Each update joins the first named group, in configuration order, that matches it;
+ * updates left over follow group-updates: one PR for all of them, or one PR each.
+ * @param updates Updates to split
+ * @param groupRules Named groups from the configuration file
+ * @param groupUpdates Whether updates outside any named group share a single PR
+ * @returns Named groups that received updates, in configuration order, followed by the remaining updates
+ */
+export function assignUpdateGroups(
+	updates: ExtensionUpdate[],
+	groupRules: UpdateGroupRule[],
+	groupUpdates: boolean,
+): UpdateGroup[] {
+	const named = new Map<string, ExtensionUpdate[]>();
+	const remaining: ExtensionUpdate[] = [];
+
+	for (const update of updates) {
+		const rule = groupRules.find((candidate) => matchesGroupRule(update, candidate));
+		if (rule) {
+			named.set(rule.name, [...(named.get(rule.name) ?? []), update]);
+		} else {
+			remaining.push(update);
+		}
+	}
+
+	const groups: UpdateGroup[] = groupRules
+		.filter((rule) => named.has(rule.name))
+		.map((rule) => ({ rule, updates: named.get(rule.name) ?? [] }));
+
+	if (groupUpdates) {
+		if (remaining.length > 0) {
+			groups.push({ updates: remaining });
+		}
+	} else {
+		groups.push(...remaining.map((update) => ({ updates: [update] })));
+	}
+
+	return groups;
+}
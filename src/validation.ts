@@ -1,14 +1,38 @@
 import * as path from "path";
 import * as fs from "fs";
-import type { AutoMergeStrategy, MergeMethod, UpdateStrategy } from "./types.js";
+import * as semver from "semver";
+import type {
+	AutoMergeStrategy,
+	CommitMode,
+	CooldownConfig,
+	ExtensionInstaller,
+	GitHostType,
+	GroupUpdateType,
+	MergeMethod,
+	RebaseStrategy,
+	UpdateStrategy,
+} from "./types.js";
 import { ValidationError } from "./errors.js";
 import {
 	VALID_MERGE_METHODS,
 	VALID_AUTO_MERGE_STRATEGIES,
 	VALID_UPDATE_STRATEGIES,
+	VALID_REBASE_STRATEGIES,
+	VALID_COMMIT_MODES,
+	VALID_INSTALLERS,
 	HTTPS_PROTOCOL,
 	INVALID_GIT_REF_CHARS,
+	EXTENSION_PATTERN,
+	REPOSITORY_PATTERN,
+	GITHUB_REPOSITORY_PATTERN,
+	RELEASE_REF_PATTERN,
+	PROJECT_PATH_PATTERN,
+	VALID_GIT_HOSTS,
+	GROUP_NAME_PATTERN,
+	VALID_GROUP_UPDATE_TYPES,
+	VALID_COOLDOWN_KEYS,
 } from "./constants.js";
+import { isNegatedPattern, matchesPattern } from "./patterns.js";
 
 /**
  * Validates that a merge method is one of the allowed values
@@ -55,6 +79,66 @@ export function validateUpdateStrategy(strategy: string): asserts strategy is Up
 	}
 }
 
+/**
+ * Validates that a rebase strategy is one of the allowed values
+ * @param strategy The rebase strategy to validate
+ * @throws ValidationError if the strategy is invalid
+ */
+export function validateRebaseStrategy(strategy: string): asserts strategy is RebaseStrategy {
+	if (!VALID_REBASE_STRATEGIES.includes(strategy as RebaseStrategy)) {
+		throw new ValidationError(
+			`Invalid rebase strategy: '${strategy}'. Must be one of: ${VALID_REBASE_STRATEGIES.join(", ")}`,
+			"rebase-strategy",
+			strategy,
+		);
+	}
+}
+
+/**
+ * Validates that a commit mode is one of the allowed values
+ * @param mode The commit mode to validate
+ * @throws ValidationError if the mode is invalid
+ */
+export function validateCommitMode(mode: string): asserts mode is CommitMode {
+	if (!VALID_COMMIT_MODES.includes(mode as CommitMode)) {
+		throw new ValidationError(
+			`Invalid commit mode: '${mode}'. Must be one of: ${VALID_COMMIT_MODES.join(", ")}`,
+			"commit-mode",
+			mode,
+		);
+	}
+}
+
+/**
+ * Validates that an extension installer is one of the allowed values
+ * @param installer The installer to validate
+ * @throws ValidationError if the installer is invalid
+ */
+export function validateInstaller(installer: string): asserts installer is ExtensionInstaller {
+	if (!VALID_INSTALLERS.includes(installer as ExtensionInstaller)) {
+		throw new ValidationError(
+			`Invalid installer: '${installer}'. Must be one of: ${VALID_INSTALLERS.join(", ")}`,
+			"installer",
+			installer,
+		);
+	}
+}
+
+/**
+ * Validates that a Git host is one of the supported services
+ * @param host The Git host to validate
+ * @throws ValidationError if the host is not supported
+ */
+export function validateGitHost(host: string): asserts host is GitHostType {
+	if (!VALID_GIT_HOSTS.includes(host as GitHostType)) {
+		throw new ValidationError(
+			`Invalid Git host: '${host}'. Must be one of: ${VALID_GIT_HOSTS.join(", ")}`,
+			"host",
+			host,
+		);
+	}
+}
+
 /**
  * Validates a workspace path
  * @param workspacePath The workspace path to validate
@@ -107,6 +191,229 @@ export function validateBranchPrefix(branchPrefix: string): void {
 	}
 }
 
+/**
+ * Validates an extension pattern: an exact `owner/name`, or a glob such as `quarto-ext/*`
+ * @param pattern The pattern to validate
+ * @param field The input or configuration key the pattern came from
+ * @throws ValidationError if the pattern is not of the form owner/name
+ */
+export function validateExtensionPattern(pattern: string, field: string): void {
+	if (!EXTENSION_PATTERN.test(pattern)) {
+		throw new ValidationError(
+			`Invalid extension pattern: '${pattern}'. Expected 'owner/name', optionally with '*' or '?' wildcards`,
+			field,
+			pattern,
+		);
+	}
+}
+
+/**
+ * Validates a repository name of the form `owner/repo`
+ * @param repository The repository name to validate
+ * @param field The input or flag the name came from
+ * @throws ValidationError if the name is not of the form owner/repo
+ */
+export function validateRepository(repository: string, field: string): void {
+	if (!REPOSITORY_PATTERN.test(repository)) {
+		throw new ValidationError(`Invalid repository: '${repository}'. Expected 'owner/repo'`, field, repository);
+	}
+}
+
+/**
+ * Validates the GitHub repository an extension is installed from, which comes from the registry or a manifest
+ * and is passed to `quarto add`
+ * @param repository The repository name to validate
+ * @param field The source of the name, for the error
+ * @throws ValidationError if the name is not a valid GitHub owner/repo
+ */
+export function validateGitHubRepositoryName(repository: string, field: string): void {
+	if (!GITHUB_REPOSITORY_PATTERN.test(repository)) {
+		throw new ValidationError(
+			`Invalid GitHub repository: '${repository}'. Expected 'owner/repo' with letters, digits, '.', '_', or '-'`,
+			field,
+			repository,
+		);
+	}
+}
+
+/**
+ * Validates the release tag, branch, or commit SHA an extension is installed from
+ * @param ref The ref to validate
+ * @param field The source of the ref, for the error
+ * @throws ValidationError if the ref has characters other than letters, digits, '.', '_', '+', '/', or '-',
+ * starts with anything but a letter, digit, or '_', or holds '..'
+ */
+export function validateReleaseRef(ref: string, field: string): void {
+	if (!RELEASE_REF_PATTERN.test(ref) || ref.includes("..") || ref.endsWith("/")) {
+		throw new ValidationError(
+			`Invalid release ref: '${ref}'. Expected letters, digits, '.', '_', '+', '/', or '-', not starting with '-'`,
+			field,
+			ref,
+		);
+	}
+}
+
+/**
+ * Validates a GitLab project path: a group, any subgroups, and the project
+ * @param projectPath The project path to validate
+ * @param field The input or configuration key the path came from
+ * @throws ValidationError if the path is not group/project
+ */
+export function validateProjectPath(projectPath: string, field: string): void {
+	if (!PROJECT_PATH_PATTERN.test(projectPath)) {
+		throw new ValidationError(
+			`Invalid project path: '${projectPath}'. Expected 'group/project' or 'group/subgroup/project'`,
+			field,
+			projectPath,
+		);
+	}
+}
+
+/**
+ * Validates the patterns of an include or exclude list, each optionally negated with a leading `!`
+ * @param patterns The patterns to validate
+ * @param field The input or configuration key the list came from
+ * @throws ValidationError naming the first invalid pattern
+ */
+export function validateExtensionFilter(patterns: string[], field: string): void {
+	for (const pattern of patterns) {
+		validateExtensionPattern(isNegatedPattern(pattern) ? pattern.slice(1) : pattern, field);
+	}
+}
+
+/**
+ * Finds the patterns of an include or exclude list that match none of the installed extensions
+ * @param patterns The patterns to check, each optionally negated with a leading `!`
+ * @param installed The owner/name of every installed extension
+ * @returns The patterns, as written, that match nothing
+ */
+export function findUnmatchedPatterns(patterns: string[], installed: string[]): string[] {
+	return patterns.filter((pattern) => {
+		const target = isNegatedPattern(pattern) ? pattern.slice(1) : pattern;
+		return !installed.some((nameWithOwner) => matchesPattern(target, nameWithOwner));
+	});
+}
+
+/**
+ * Validates a group name, which becomes part of the group's branch name
+ * @param name The group name to validate
+ * @param field The configuration key the name came from
+ * @throws ValidationError if the name contains characters other than letters, digits, `_`, `.` and `-`
+ */
+export function validateGroupName(name: string, field: string): void {
+	if (!GROUP_NAME_PATTERN.test(name)) {
+		throw new ValidationError(`Invalid group name: '${name}'. Use letters, digits, '_', '.' and '-' only`, field, name);
+	}
+}
+
+/**
+ * Validates the update types selected by a group
+ * @param updateTypes The update types to validate
+ * @param field The configuration key the types came from
+ * @throws ValidationError naming the first invalid type
+ */
+export function validateGroupUpdateTypes(
+	updateTypes: string[],
+	field: string,
+): asserts updateTypes is GroupUpdateType[] {
+	for (const updateType of updateTypes) {
+		if (!VALID_GROUP_UPDATE_TYPES.includes(updateType as GroupUpdateType)) {
+			throw new ValidationError(
+				`Invalid update type: '${updateType}'. Must be one of: ${VALID_GROUP_UPDATE_TYPES.join(", ")}`,
+				field,
+				updateType,
+			);
+		}
+	}
+}
+
+/**
+ * Validates a semver range, such as `^2` or `>=1.2.0 <2.0.0`
+ * @param range The range to validate
+ * @param field The input or configuration key the range came from
+ * @throws ValidationError if the range cannot be parsed
+ */
+export function validateVersionRange(range: string, field: string): void {
+	if (semver.validRange(range) === null) {
+		throw new ValidationError(`Invalid version range: '${range}'`, field, range);
+	}
+}
+
+/**
+ * Validates a cooldown period
+ * @param days The number of days to validate
+ * @param field The input or configuration key the period came from
+ * @throws ValidationError if the period is not a whole number of days, zero or more
+ */
+export function validateCooldownDays(days: unknown, field: string): asserts days is number {
+	if (typeof days !== "number" || !Number.isInteger(days) || days < 0) {
+		throw new ValidationError(`Invalid cooldown: '${days}'. Must be a whole number of days, zero or more`, field, days);
+	}
+}
+
+/**
+ * Parses a whole-number setting, such as the maximum number of open update PRs or the install timeout
+ * @param value The input string, or the value read from the configuration file
+ * @param field The input or configuration key the number came from
+ * @param label What the number is, for the error message
+ * @param minimum The smallest number allowed
+ * @returns The number
+ * @throws ValidationError if the value is not a whole number, at least the minimum
+ */
+export function parseWholeNumber(value: unknown, field: string, label: string, minimum: number): number {
+	const number = typeof value === "string" && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+	if (typeof number !== "number" || !Number.isInteger(number) || number < minimum) {
+		throw new ValidationError(`Invalid ${label}: '${value}'. Must be a whole number, ${minimum} or more`, field, value);
+	}
+	return number;
+}
+
+/**
+ * Parses a cooldown setting into a period per update type.
+ * The setting is a number of days for every update type, or per-type periods given as a mapping
+ * or as a comma-separated string such as `major=14, minor=7, patch=3`; `default` sets the types not listed.
+ * @param value The input string, or the value read from the configuration file
+ * @param field The input or configuration key the setting came from
+ * @returns The cooldown in days for each update type, zero where none applies
+ * @throws ValidationError naming the first invalid key or period
+ */
+export function parseCooldown(value: unknown, field: string): CooldownConfig {
+	let periods: Record<string, unknown>;
+
+	if (typeof value === "number") {
+		periods = { default: value };
+	} else if (typeof value === "string") {
+		periods = {};
+		for (const entry of parseCommaSeparatedList(value)) {
+			const [key, days] = entry.includes("=") ? entry.split("=", 2).map((part) => part.trim()) : ["default", entry];
+			periods[key] = /^\d+$/.test(days) ? Number(days) : days;
+		}
+	} else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+		periods = value as Record<string, unknown>;
+	} else {
+		throw new ValidationError(`Invalid cooldown: '${value}'. Must be a number of days or a mapping`, field, value);
+	}
+
+	for (const [key, days] of Object.entries(periods)) {
+		if (!VALID_COOLDOWN_KEYS.includes(key as (typeof VALID_COOLDOWN_KEYS)[number])) {
+			throw new ValidationError(
+				`Invalid cooldown key: '${key}'. Must be one of: ${VALID_COOLDOWN_KEYS.join(", ")}`,
+				field,
+				key,
+			);
+		}
+		validateCooldownDays(days, field);
+	}
+
+	const fallback = (periods.default as number | undefined) ?? 0;
+
+	return {
+		major: (periods.major as number | undefined) ?? fallback,
+		minor: (periods.minor as number | undefined) ?? fallback,
+		patch: (periods.patch as number | undefined) ?? fallback,
+	};
+}
+
 /**
  * Parses a comma-separated list input into trimmed, non-empty strings
  * @param input The comma-separated input string
@@ -53,8 +53,12 @@ export function createMockOctokit() {
 				listReviews: jest.fn(),
 			},
 			repos: {
+				get: jest.fn(),
 				getBranch: jest.fn(),
 				getReleaseByTag: jest.fn(),
+				listReleases: jest.fn(),
+				getContent: jest.fn(),
+				compareCommits: jest.fn(),
 			},
 			git: {
 				createRef: jest.fn(),
@@ -69,6 +73,11 @@ export function createMockOctokit() {
 			},
 		},
 		graphql: jest.fn(),
+		// Reads a single page, from the mocked method
+		paginate: jest.fn(async (method: (params: unknown) => Promise<{ data: unknown[] }>, params: unknown) => {
+			const { data } = await method(params);
+			return data;
+		}),
 	} as unknown as ReturnType<typeof github.getOctokit>;
 }
 
@@ -96,6 +105,8 @@ export function createMockFs() {
 		readdirSync: jest.fn(),
 		readFileSync: jest.fn(),
 		writeFileSync: jest.fn(),
+		lstatSync: jest.fn(),
+		readlinkSync: jest.fn(),
 	};
 }
 
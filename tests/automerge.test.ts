@@ -7,6 +7,7 @@ jest.unstable_mockModule("@actions/core", createMockActionsCore);
 
 const core = await import("@actions/core");
 const { getUpdateType, shouldAutoMerge, enableAutoMerge, isAutoMergeEnabled } = await import("../src/automerge.js");
+const { createGitHubHost } = await import("../src/github.js");
 
 type MockOctokit = ReturnType<typeof github.getOctokit>;
 
@@ -32,6 +33,21 @@ describe("getUpdateType", () => {
 		expect(getUpdateType("1.0.0", "1.0.1-rc.1")).toBe("patch");
 	});
 
+	it("should count steps between prereleases of the same release as patch updates", () => {
+		expect(getUpdateType("2.0.0-beta.1", "2.0.0-beta.2")).toBe("patch");
+		expect(getUpdateType("1.3.0-rc.1", "1.3.0-rc.2")).toBe("patch");
+	});
+
+	it("should class a move from a prerelease to a stable release against the last stable release", () => {
+		expect(getUpdateType("2.0.0-beta.2", "2.0.0")).toBe("major");
+		expect(getUpdateType("2.0.0-rc.1", "2.0.1")).toBe("major");
+		expect(getUpdateType("1.3.0-rc.1", "1.3.0")).toBe("minor");
+		expect(getUpdateType("1.3.0-rc.1", "1.3.2")).toBe("minor");
+		expect(getUpdateType("1.3.0-rc.1", "1.4.0")).toBe("minor");
+		expect(getUpdateType("1.2.3-rc.1", "1.2.3")).toBe("patch");
+		expect(getUpdateType("1.0.0-beta.1", "2.0.0")).toBe("major");
+	});
+
 	it("should handle versions with v prefix", () => {
 		expect(getUpdateType("v1.0.0", "v2.0.0")).toBe("major");
 		expect(getUpdateType("v1.0.0", "v1.1.0")).toBe("minor");
@@ -147,6 +163,7 @@ describe("shouldAutoMerge", () => {
 
 describe("enableAutoMerge", () => {
 	const mockOctokit = createMockOctokit();
+	const host = createGitHubHost(mockOctokit as unknown as MockOctokit, "owner", "repo");
 
 	beforeEach(() => {
 		jest.clearAllMocks();
@@ -159,7 +176,7 @@ describe("enableAutoMerge", () => {
 		});
 		mockOctokit.graphql.mockResolvedValue({});
 
-		await enableAutoMerge(mockOctokit as unknown as MockOctokit, "owner", "repo", 42, "squash");
+		await enableAutoMerge(host, 42, "squash");
 
 		expect(mockOctokit.rest.pulls.get).toHaveBeenCalledWith({
 			owner: "owner",
@@ -183,13 +200,13 @@ describe("enableAutoMerge", () => {
 		});
 		mockOctokit.graphql.mockResolvedValue({});
 
-		await enableAutoMerge(mockOctokit as unknown as MockOctokit, "owner", "repo", 42, "merge");
+		await enableAutoMerge(host, 42, "merge");
 		expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.any(String), {
 			pullRequestId: prNodeId,
 			mergeMethod: "MERGE",
 		});
 
-		await enableAutoMerge(mockOctokit as unknown as MockOctokit, "owner", "repo", 42, "rebase");
+		await enableAutoMerge(host, 42, "rebase");
 		expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.any(String), {
 			pullRequestId: prNodeId,
 			mergeMethod: "REBASE",
@@ -200,7 +217,7 @@ describe("enableAutoMerge", () => {
 		const error = new Error("Test error");
 		mockOctokit.rest.pulls.get.mockRejectedValue(error);
 
-		await enableAutoMerge(mockOctokit as unknown as MockOctokit, "owner", "repo", 42, "squash");
+		await enableAutoMerge(host, 42, "squash");
 
 		expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Failed to enable auto-merge for PR #42"));
 	});
@@ -209,7 +226,7 @@ describe("enableAutoMerge", () => {
 		const error = new Error("permissions error");
 		mockOctokit.rest.pulls.get.mockRejectedValue(error);
 
-		await enableAutoMerge(mockOctokit as unknown as MockOctokit, "owner", "repo", 42, "squash");
+		await enableAutoMerge(host, 42, "squash");
 
 		expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("permissions"));
 		expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("pull-requests: write"));
@@ -218,6 +235,7 @@ describe("enableAutoMerge", () => {
 
 describe("isAutoMergeEnabled", () => {
 	const mockOctokit = createMockOctokit();
+	const host = createGitHubHost(mockOctokit as unknown as MockOctokit, "owner", "repo");
 
 	beforeEach(() => {
 		jest.clearAllMocks();
@@ -234,7 +252,7 @@ describe("isAutoMergeEnabled", () => {
 			},
 		});
 
-		const result = await isAutoMergeEnabled(mockOctokit as unknown as MockOctokit, "owner", "repo", 42);
+		const result = await isAutoMergeEnabled(host, 42);
 
 		expect(result).toBe(true);
 		expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.stringContaining("autoMergeRequest"), {
@@ -253,7 +271,7 @@ describe("isAutoMergeEnabled", () => {
 			},
 		});
 
-		const result = await isAutoMergeEnabled(mockOctokit as unknown as MockOctokit, "owner", "repo", 42);
+		const result = await isAutoMergeEnabled(host, 42);
 
 		expect(result).toBe(false);
 	});
@@ -262,7 +280,7 @@ describe("isAutoMergeEnabled", () => {
 		const error = new Error("Test error");
 		mockOctokit.graphql.mockRejectedValue(error);
 
-		const result = await isAutoMergeEnabled(mockOctokit as unknown as MockOctokit, "owner", "repo", 42);
+		const result = await isAutoMergeEnabled(host, 42);
 
 		expect(result).toBe(false);
 		expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Failed to check auto-merge status for PR #42"));
@@ -0,0 +1,301 @@
+import { jest } from "@jest/globals";
+import * as os from "os";
+import { createMockActionsCore, createMockOctokit, createMockUpdate } from "./__test-utils__/mockFactories.js";
+
+const mockOctokit = createMockOctokit();
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+jest.unstable_mockModule("@actions/github", () => ({
+	getOctokit: jest.fn(() => mockOctokit),
+	context: { repo: { owner: "", repo: "" } },
+}));
+jest.unstable_mockModule("@actions/github/lib/utils", () => ({
+	GitHub: jest.fn(() => mockOctokit),
+}));
+jest.unstable_mockModule("../src/run.js", () => ({
+	findUpdates: jest.fn(),
+	openUpdatePRs: jest.fn(),
+}));
+jest.unstable_mockModule("../src/git.js", () => ({
+	applyUpdates: jest.fn(),
+}));
+jest.unstable_mockModule("../src/github.js", () => ({
+	closeObsoletePRs: jest.fn(),
+	createIssueForUpdates: jest.fn(),
+	createGitHubHost: jest.fn((_octokit, owner, repo) => ({ name: "GitHub", repository: `${owner}/${repo}` })),
+}));
+
+const github = await import("@actions/github");
+const { GitHub } = await import("@actions/github/lib/utils");
+const { findUpdates, openUpdatePRs } = await import("../src/run.js");
+const { applyUpdates } = await import("../src/git.js");
+const { closeObsoletePRs, createGitHubHost } = await import("../src/github.js");
+const { parseCliArgs, runCommand, formatJsonReport, formatTextReport } = await import("../src/commands.js");
+const { createMemoryLogger } = await import("../src/logger.js");
+
+const mockFindUpdates = jest.mocked(findUpdates);
+const mockOpenUpdatePRs = jest.mocked(openUpdatePRs);
+const mockApplyUpdates = jest.mocked(applyUpdates);
+const mockCloseObsoletePRs = jest.mocked(closeObsoletePRs);
+
+const workspace = os.tmpdir();
+const env = { GITHUB_TOKEN: "env-token" };
+
+describe("parseCliArgs", () => {
+	it("should read the command and map flags onto the action inputs", () => {
+		const args = parseCliArgs(
+			["check", "--update-strategy", "minor", "--scan-directories", "docs", "--scan-directories", "slides", "--json"],
+			env,
+		);
+
+		expect(args.command).toBe("check");
+		expect(args.json).toBe(true);
+		expect(args.inputs.getInput("update-strategy")).toBe("minor");
+		expect(args.inputs.getInput("scan-directories")).toBe("docs\nslides");
+		expect(args.inputs.getInput("base-branch")).toBe("");
+	});
+
+	it("should read boolean flags and their --no- form", () => {
+		const args = parseCliArgs(["pr", "--dry-run", "--no-create-pr"], env);
+
+		expect(args.inputs.getBooleanInput("dry-run")).toBe(true);
+		expect(args.inputs.getBooleanInput("create-pr")).toBe(false);
+		expect(() => args.inputs.getBooleanInput("auto-merge")).toThrow("Flag --auto-merge must be true or false");
+	});
+
+	it("should fall back to the environment for the token and repository", () => {
+		const args = parseCliArgs(["pr"], { GH_TOKEN: "gh-token", GITHUB_REPOSITORY: "owner/repo" });
+
+		expect(args.inputs.getInput("github-token", { required: true })).toBe("gh-token");
+		expect(args.repository).toBe("owner/repo");
+		expect(() => parseCliArgs(["pr"], {}).inputs.getInput("github-token", { required: true })).toThrow(
+			"Missing required flag: --github-token",
+		);
+	});
+
+	it("should only require the token for pull requests on GitHub", () => {
+		const read = (argv: string[]) => parseCliArgs(argv, {}).inputs.getInput("github-token", { required: true });
+
+		expect(read(["check"])).toBe("");
+		expect(read(["update", "--apply"])).toBe("");
+		expect(read(["pr", "--host", "gitlab"])).toBe("");
+		expect(read(["pr", "--host", "gitea"])).toBe("");
+	});
+
+	it("should read the GitLab project, API URL, and token from the GitLab CI environment", () => {
+		const args = parseCliArgs(["pr", "--host", "gitlab"], {
+			...env,
+			GITHUB_REPOSITORY: "owner/repo",
+			CI_PROJECT_PATH: "group/subgroup/project",
+			CI_API_V4_URL: "https://gitlab.example.com/api/v4",
+			GITLAB_TOKEN: "gitlab-token",
+		});
+
+		expect(args.host).toBe("gitlab");
+		expect(args.repository).toBe("group/subgroup/project");
+		expect(args.hostUrl).toBe("https://gitlab.example.com/api/v4");
+		expect(args.hostToken).toBe("gitlab-token");
+		expect(parseCliArgs(["pr"], { ...env, GITLAB_TOKEN: "gitlab-token" }).hostToken).toBeUndefined();
+		expect(() => parseCliArgs(["pr", "--host", "bitbucket"], env)).toThrow("Invalid Git host: 'bitbucket'");
+	});
+
+	it("should read the Gitea repository, API URL, and token from the environment", () => {
+		const args = parseCliArgs(["pr", "--host", "gitea"], {
+			...env,
+			GITHUB_REPOSITORY: "owner/repo",
+			GITEA_API_URL: "https://gitea.example.com/api/v1",
+			GITEA_TOKEN: "gitea-token",
+			GITLAB_TOKEN: "gitlab-token",
+		});
+
+		expect(args.host).toBe("gitea");
+		expect(args.repository).toBe("owner/repo");
+		expect(args.hostUrl).toBe("https://gitea.example.com/api/v1");
+		expect(args.hostToken).toBe("gitea-token");
+	});
+
+	it("should reject unknown commands, misplaced --apply, and conflicting flags", () => {
+		expect(() => parseCliArgs(["upgrade"], env)).toThrow("Unknown command: 'upgrade'");
+		expect(() => parseCliArgs(["check", "--apply"], env)).toThrow("Flag --apply only applies to the update command");
+		expect(() => parseCliArgs(["pr", "--dry-run", "--no-dry-run"], env)).toThrow(
+			"Flags --dry-run and --no-dry-run cannot be used together",
+		);
+		expect(() => parseCliArgs(["check", "--update-stratgy", "minor"], env)).toThrow(
+			"Unknown option '--update-stratgy'",
+		);
+	});
+});
+
+describe("runCommand", () => {
+	const update = createMockUpdate("mcanouil/iconify", "1.0.0", "1.1.0");
+	const blocked = createMockUpdate("quarto-ext/lightbox", "1.0.0", "2.0.0");
+	let logger: ReturnType<typeof createMemoryLogger>;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		logger = createMemoryLogger();
+		mockFindUpdates.mockResolvedValue({
+			updates: [update],
+			blockedUpdates: [{ update: blocked, reason: "major update not allowed by update-strategy 'minor'" }],
+			deferredUpdates: [],
+			installed: [],
+		});
+	});
+
+	it("should check for updates with the settings given as flags", async () => {
+		const report = await runCommand(
+			parseCliArgs(["check", "--workspace-path", workspace, "--update-strategy", "minor"], env),
+			logger,
+		);
+
+		expect(github.getOctokit).toHaveBeenCalledWith("env-token");
+		expect(mockFindUpdates.mock.calls[0][2]).toBe(logger);
+		expect(mockFindUpdates.mock.calls[0][1]).toMatchObject({ workspacePath: workspace, updateStrategy: "minor" });
+		expect(report.updates).toEqual([update]);
+		expect(mockApplyUpdates).not.toHaveBeenCalled();
+	});
+
+	it("should install the updates with update --apply", async () => {
+		mockApplyUpdates.mockResolvedValue({
+			modifiedFiles: ["_extensions/mcanouil/iconify/iconify.lua"],
+			deletedFiles: [],
+			skippedUpdates: [],
+		});
+
+		const report = await runCommand(parseCliArgs(["update", "--apply", "--workspace-path", workspace], env), logger);
+
+		expect(mockApplyUpdates).toHaveBeenCalledWith(
+			[update],
+			{ installer: "quarto", timeoutMs: 300000, concurrency: 4 },
+			logger,
+		);
+		expect(report.appliedUpdates).toEqual([update]);
+		expect(report.modifiedFiles).toEqual(["_extensions/mcanouil/iconify/iconify.lua"]);
+	});
+
+	it("should install nothing with update --apply in a dry run", async () => {
+		const report = await runCommand(
+			parseCliArgs(["update", "--apply", "--dry-run", "--workspace-path", workspace], env),
+			logger,
+		);
+
+		expect(mockApplyUpdates).not.toHaveBeenCalled();
+		expect(report.dryRun).toBe(true);
+		expect(report.appliedUpdates).toBeUndefined();
+		expect(formatTextReport(report)).toContain("Dry run: no updates were installed.");
+		expect(formatTextReport(report)).not.toContain("Run with --apply");
+	});
+
+	it("should read the releases anonymously without a token", async () => {
+		await runCommand(parseCliArgs(["check", "--workspace-path", workspace], {}), logger);
+
+		expect(github.getOctokit).not.toHaveBeenCalled();
+		expect(GitHub).toHaveBeenCalledWith();
+		expect(mockFindUpdates.mock.calls[0][0]).toBe(mockOctokit);
+	});
+
+	it("should require a repository for pr", async () => {
+		await expect(runCommand(parseCliArgs(["pr", "--workspace-path", workspace], env), logger)).rejects.toThrow(
+			"Missing repository",
+		);
+		await expect(
+			runCommand(parseCliArgs(["pr", "--workspace-path", workspace, "--repository", "owner"], env), logger),
+		).rejects.toThrow("Invalid repository: 'owner'");
+	});
+
+	it("should open pull requests on the given repository", async () => {
+		mockCloseObsoletePRs.mockResolvedValue([]);
+		mockOpenUpdatePRs.mockResolvedValue({
+			createdPRs: [{ number: 12, url: "https://github.com/owner/repo/pull/12", extensions: ["mcanouil/iconify"] }],
+			skippedUpdates: [],
+			limitedUpdates: [],
+		});
+
+		const report = await runCommand(
+			parseCliArgs(["pr", "--workspace-path", workspace, "--repository", "owner/repo"], env),
+			logger,
+		);
+
+		const host = jest.mocked(createGitHubHost).mock.results[0].value;
+		expect(createGitHubHost).toHaveBeenCalledWith(mockOctokit, "owner", "repo");
+		expect(mockCloseObsoletePRs).toHaveBeenCalledWith(host, "chore/quarto-extensions", "main", [], logger);
+		expect(mockOpenUpdatePRs).toHaveBeenCalledWith(host, mockOctokit, expect.anything(), [update], logger);
+		expect(report.pullRequests).toHaveLength(1);
+		expect(report.appliedUpdates).toEqual([update]);
+	});
+
+	it("should open merge requests on a GitLab project", async () => {
+		mockCloseObsoletePRs.mockResolvedValue([]);
+		mockOpenUpdatePRs.mockResolvedValue({ createdPRs: [], skippedUpdates: [], limitedUpdates: [] });
+		const flags = ["pr", "--workspace-path", workspace, "--host", "gitlab", "--repository", "group/project"];
+
+		await expect(runCommand(parseCliArgs(flags, env), logger)).rejects.toThrow("Missing GitLab token");
+		await runCommand(parseCliArgs([...flags, "--host-token", "gitlab-token"], env), logger);
+
+		expect(createGitHubHost).not.toHaveBeenCalled();
+		expect(mockOpenUpdatePRs.mock.calls[0][0]).toMatchObject({ name: "GitLab", repository: "group/project" });
+		expect(mockOpenUpdatePRs.mock.calls[0][1]).toBe(mockOctokit);
+	});
+
+	it("should open pull requests on a Gitea repository", async () => {
+		mockCloseObsoletePRs.mockResolvedValue([]);
+		mockOpenUpdatePRs.mockResolvedValue({ createdPRs: [], skippedUpdates: [], limitedUpdates: [] });
+		const flags = ["pr", "--workspace-path", workspace, "--host", "gitea", "--repository", "owner/repo"];
+		const urlFlags = [...flags, "--host-url", "https://gitea.example.com/api/v1"];
+
+		await expect(runCommand(parseCliArgs(flags, env), logger)).rejects.toThrow("Missing Gitea API URL");
+		await expect(runCommand(parseCliArgs(urlFlags, env), logger)).rejects.toThrow("Missing Gitea token");
+		await runCommand(parseCliArgs([...urlFlags, "--host-token", "gitea-token"], env), logger);
+
+		expect(createGitHubHost).not.toHaveBeenCalled();
+		expect(mockOpenUpdatePRs.mock.calls[0][0]).toMatchObject({ name: "Gitea", repository: "owner/repo" });
+	});
+
+	it("should neither close nor open pull requests in a dry run", async () => {
+		const report = await runCommand(
+			parseCliArgs(["pr", "--workspace-path", workspace, "--repository", "owner/repo", "--dry-run"], env),
+			logger,
+		);
+
+		expect(report.dryRun).toBe(true);
+		expect(mockCloseObsoletePRs).not.toHaveBeenCalled();
+		expect(mockOpenUpdatePRs).not.toHaveBeenCalled();
+	});
+});
+
+describe("report formatting", () => {
+	const report = {
+		command: "check" as const,
+		updates: [createMockUpdate("mcanouil/iconify", "1.0.0", "1.1.0")],
+		blockedUpdates: [],
+		deferredUpdates: [
+			{
+				update: createMockUpdate("quarto-ext/lightbox", "1.0.0", "1.0.1"),
+				releaseDate: "2026-10-15T10:00:00Z",
+				eligibleDate: "2026-10-22T10:00:00Z",
+				cooldownDays: 7,
+			},
+		],
+	};
+
+	it("should format a report as JSON, leaving out sections the command does not produce", () => {
+		const document = JSON.parse(formatJsonReport(report));
+
+		expect(document.updates).toEqual([
+			{ name: "mcanouil/iconify", currentVersion: "1.0.0", latestVersion: "1.1.0", updateType: "minor" },
+		]);
+		expect(document.deferredUpdates[0]).toMatchObject({
+			name: "quarto-ext/lightbox",
+			eligibleDate: "2026-10-22T10:00:00Z",
+		});
+		expect(document).not.toHaveProperty("pullRequests");
+	});
+
+	it("should format a report as text", () => {
+		const text = formatTextReport(report);
+
+		expect(text).toContain("Available updates (1):\n  mcanouil/iconify: 1.0.0 → 1.1.0 (minor)");
+		expect(text).toContain("quarto-ext/lightbox: 1.0.0 → 1.0.1 (eligible on 2026-10-22)");
+		expect(formatTextReport({ ...report, updates: [], deferredUpdates: [] })).toBe("All extensions are up to date.\n");
+	});
+});
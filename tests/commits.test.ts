@@ -0,0 +1,163 @@
+import { jest } from "@jest/globals";
+import type { CommitTrackedExtension } from "../src/types.js";
+import { createMockActionsCore, createMockOctokit } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const core = await import("@actions/core");
+const { checkForCommitUpdates, shortenSha } = await import("../src/commits.js");
+
+const LATEST_SHA = "9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d";
+
+function createTrackedExtension(ref: string, branch?: string): CommitTrackedExtension {
+	return {
+		name: "iconify",
+		owner: "mcanouil",
+		nameWithOwner: "mcanouil/iconify",
+		repositoryName: "mcanouil/quarto-iconify",
+		ref,
+		branch,
+		manifestPath: "/workspace/_extensions/mcanouil/iconify/_extension.yml",
+		url: "https://github.com/mcanouil/quarto-iconify",
+		description: "Use Iconify icons in Quarto HTML documents",
+	};
+}
+
+function createCommit(index: number) {
+	return {
+		sha: `${index}`.padStart(40, "a"),
+		commit: { message: `Change ${index}\n\nDetails`, author: { name: "Jane Doe" } },
+		author: index % 2 === 0 ? { login: "jdoe" } : null,
+		html_url: `https://github.com/mcanouil/quarto-iconify/commit/${index}`,
+	};
+}
+
+describe("shortenSha", () => {
+	it("should keep the first seven characters", () => {
+		expect(shortenSha(LATEST_SHA)).toBe("9c8d7e6");
+	});
+});
+
+describe("checkForCommitUpdates", () => {
+	let mockOctokit: ReturnType<typeof createMockOctokit>;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockOctokit = createMockOctokit();
+		(mockOctokit.rest.repos.get as unknown as jest.Mock).mockResolvedValue({
+			data: { default_branch: "main" },
+		} as never);
+		(mockOctokit.rest.repos.getBranch as unknown as jest.Mock).mockResolvedValue({
+			data: { commit: { sha: LATEST_SHA } },
+		} as never);
+	});
+
+	it("should move a pinned SHA to the latest commit on the default branch", async () => {
+		(mockOctokit.rest.repos.compareCommits as unknown as jest.Mock).mockResolvedValue({
+			data: {
+				status: "ahead",
+				ahead_by: 2,
+				html_url: "https://github.com/mcanouil/quarto-iconify/compare/3f2a1b9...9c8d7e6",
+				commits: [createCommit(1), createCommit(2)],
+			},
+		} as never);
+
+		const updates = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("3f2a1b9")]);
+
+		expect(mockOctokit.rest.repos.getBranch).toHaveBeenCalledWith({
+			owner: "mcanouil",
+			repo: "quarto-iconify",
+			branch: "main",
+		});
+		expect(mockOctokit.rest.repos.compareCommits).toHaveBeenCalledWith({
+			owner: "mcanouil",
+			repo: "quarto-iconify",
+			base: "3f2a1b9",
+			head: LATEST_SHA,
+		});
+		expect(updates).toHaveLength(1);
+		expect(updates[0]).toMatchObject({
+			currentVersion: "3f2a1b9",
+			latestVersion: "9c8d7e6",
+			releaseUrl: `https://github.com/mcanouil/quarto-iconify/commit/${LATEST_SHA}`,
+		});
+		expect(updates[0].commit).toEqual({
+			branch: "main",
+			currentSha: "3f2a1b9",
+			latestSha: LATEST_SHA,
+			compareUrl: "https://github.com/mcanouil/quarto-iconify/compare/3f2a1b9...9c8d7e6",
+			commits: [
+				{ sha: createCommit(2).sha, message: "Change 2", author: "jdoe", url: createCommit(2).html_url },
+				{ sha: createCommit(1).sha, message: "Change 1", author: "Jane Doe", url: createCommit(1).html_url },
+			],
+			totalCommits: 2,
+		});
+	});
+
+	it("should list at most twenty commits, newest first", async () => {
+		(mockOctokit.rest.repos.compareCommits as unknown as jest.Mock).mockResolvedValue({
+			data: {
+				status: "ahead",
+				ahead_by: 300,
+				html_url: "https://github.com/mcanouil/quarto-iconify/compare/3f2a1b9...9c8d7e6",
+				commits: Array.from({ length: 25 }, (_, index) => createCommit(index + 1)),
+			},
+		} as never);
+
+		const [update] = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("3f2a1b9")]);
+
+		expect(update.commit?.commits).toHaveLength(20);
+		expect(update.commit?.commits[0].message).toBe("Change 25");
+		expect(update.commit?.totalCommits).toBe(300);
+	});
+
+	it("should follow the branch set by a rule", async () => {
+		(mockOctokit.rest.repos.compareCommits as unknown as jest.Mock).mockResolvedValue({
+			data: { status: "ahead", ahead_by: 1, html_url: "https://example.com/compare", commits: [createCommit(1)] },
+		} as never);
+
+		const [update] = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("3f2a1b9", "dev")]);
+
+		expect(mockOctokit.rest.repos.get).not.toHaveBeenCalled();
+		expect(update.commit?.branch).toBe("dev");
+	});
+
+	it("should report nothing when the pinned SHA is the branch head", async () => {
+		const updates = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("9c8d7e6")]);
+
+		expect(updates).toHaveLength(0);
+		expect(mockOctokit.rest.repos.compareCommits).not.toHaveBeenCalled();
+	});
+
+	it("should pin an extension installed from a branch to the branch head", async () => {
+		const [update] = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("main")]);
+
+		expect(mockOctokit.rest.repos.get).not.toHaveBeenCalled();
+		expect(mockOctokit.rest.repos.compareCommits).not.toHaveBeenCalled();
+		expect(update.currentVersion).toBe("main");
+		expect(update.latestVersion).toBe("9c8d7e6");
+		expect(update.commit).toEqual({ branch: "main", latestSha: LATEST_SHA, commits: [], totalCommits: 0 });
+	});
+
+	it("should warn and skip a pinned SHA that is not behind the branch", async () => {
+		(mockOctokit.rest.repos.compareCommits as unknown as jest.Mock).mockResolvedValue({
+			data: { status: "diverged", ahead_by: 3, html_url: "https://example.com/compare", commits: [] },
+		} as never);
+
+		const updates = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("3f2a1b9")]);
+
+		expect(updates).toHaveLength(0);
+		expect(core.warning).toHaveBeenCalledWith(
+			"Skipping mcanouil/iconify: pinned commit 3f2a1b9 is diverged compared with main, so it cannot be moved forward",
+		);
+	});
+
+	it("should warn and carry on when the repository cannot be read", async () => {
+		(mockOctokit.rest.repos.getBranch as unknown as jest.Mock).mockRejectedValue(new Error("Not Found") as never);
+
+		const updates = await checkForCommitUpdates(mockOctokit, [createTrackedExtension("main")]);
+
+		expect(updates).toHaveLength(0);
+		expect(core.warning).toHaveBeenCalledWith("Could not check mcanouil/iconify for new commits: Error: Not Found");
+	});
+});
@@ -0,0 +1,110 @@
+import { jest } from "@jest/globals";
+import { createMockActionsCore, createMockOctokit } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const { createGitHubReleaseSource, satisfiesQuartoRequirement } = await import("../src/compatibility.js");
+
+describe("satisfiesQuartoRequirement", () => {
+	it("should compare the installed version with the required one, ignoring range operators", () => {
+		expect(satisfiesQuartoRequirement("1.6.2", ">=1.5.0")).toBe(true);
+		expect(satisfiesQuartoRequirement("1.6.2", "1.6.2")).toBe(true);
+		expect(satisfiesQuartoRequirement("1.4.550", ">=1.5.0")).toBe(false);
+	});
+
+	it("should not hold back an extension whose requirement cannot be read", () => {
+		expect(satisfiesQuartoRequirement("1.6.2", "latest")).toBe(true);
+	});
+});
+
+describe("createGitHubReleaseSource", () => {
+	let mockOctokit: ReturnType<typeof createMockOctokit>;
+	const mockListReleases = () => mockOctokit.rest.repos.listReleases as unknown as jest.Mock;
+	const mockGetContent = () => mockOctokit.rest.repos.getContent as unknown as jest.Mock;
+	const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockOctokit = createMockOctokit();
+	});
+
+	it("should list the published releases of a repository", async () => {
+		mockListReleases().mockResolvedValue({
+			data: [
+				{ tag_name: "v2.0.0", html_url: "https://github.com/owner/ext/releases/tag/v2.0.0", draft: true },
+				{ tag_name: "v1.5.0", html_url: "https://github.com/owner/ext/releases/tag/v1.5.0", draft: false },
+			],
+		} as never);
+
+		const releases = await createGitHubReleaseSource(mockOctokit).listReleases("owner/quarto-ext");
+
+		expect(mockListReleases()).toHaveBeenCalledWith({ owner: "owner", repo: "quarto-ext", per_page: 100 });
+		expect(releases).toEqual([{ tag: "v1.5.0", url: "https://github.com/owner/ext/releases/tag/v1.5.0" }]);
+	});
+
+	it("should read the releases page by page, down to the version they are listed since", async () => {
+		const release = (tag: string) => ({ tag_name: tag, html_url: `https://github.com/owner/ext/releases/tag/${tag}` });
+		const pages = [[release("v3.0.0"), release("v2.1.0")], [release("v2.0.0"), release("v1.4.2")], [release("v1.4.1")]];
+		const read: number[] = [];
+		(mockOctokit.paginate as unknown as jest.Mock).mockImplementation((async (
+			_method: unknown,
+			_params: unknown,
+			mapFn: (response: { data: unknown[] }, done: () => void) => unknown[],
+		) => {
+			const results: unknown[] = [];
+			let stopped = false;
+			for (const [index, data] of pages.entries()) {
+				read.push(index);
+				results.push(...mapFn({ data }, () => (stopped = true)));
+				if (stopped) {
+					break;
+				}
+			}
+			return results;
+		}) as never);
+
+		const releases = await createGitHubReleaseSource(mockOctokit).listReleases("owner/quarto-ext", "1.4.2");
+
+		expect(read).toEqual([0, 1]);
+		expect(releases.map(({ tag }) => tag)).toEqual(["v3.0.0", "v2.1.0", "v2.0.0", "v1.4.2"]);
+	});
+
+	it("should read the manifest of a release where quarto add finds it", async () => {
+		mockGetContent()
+			.mockRejectedValueOnce(notFound as never)
+			.mockRejectedValueOnce(notFound as never)
+			.mockResolvedValueOnce({
+				data: { content: Buffer.from('version: 1.5.0\nquarto-required: ">=1.5.0"\n').toString("base64") },
+			} as never);
+
+		const manifest = await createGitHubReleaseSource(mockOctokit).fetchManifest(
+			"owner/quarto-ext",
+			"v1.5.0",
+			"owner",
+			"ext",
+		);
+
+		expect(manifest).toMatchObject({ version: "1.5.0", quartoRequired: ">=1.5.0" });
+		expect(mockGetContent().mock.calls.map(([request]) => (request as { path: string }).path)).toEqual([
+			"_extensions/owner/ext/_extension.yml",
+			"_extensions/owner/ext/_extension.yaml",
+			"_extensions/ext/_extension.yml",
+		]);
+		expect(mockGetContent()).toHaveBeenLastCalledWith({
+			owner: "owner",
+			repo: "quarto-ext",
+			path: "_extensions/ext/_extension.yml",
+			ref: "v1.5.0",
+		});
+	});
+
+	it("should give no manifest for a release without one, and report other errors", async () => {
+		mockGetContent().mockRejectedValue(notFound as never);
+		const source = createGitHubReleaseSource(mockOctokit);
+
+		await expect(source.fetchManifest("owner/quarto-ext", "v1.5.0", "owner", "ext")).resolves.toBeNull();
+
+		mockGetContent().mockRejectedValue(Object.assign(new Error("Bad credentials"), { status: 401 }) as never);
+		await expect(source.fetchManifest("owner/quarto-ext", "v1.5.0", "owner", "ext")).rejects.toThrow("Bad credentials");
+	});
+});
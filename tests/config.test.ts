@@ -6,39 +6,65 @@ jest.unstable_mockModule("../src/validation.js", () => ({
 	validateMergeMethod: jest.fn(),
 	validateAutoMergeStrategy: jest.fn(),
 	validateUpdateStrategy: jest.fn(),
+	validateRebaseStrategy: jest.fn(),
+	validateCommitMode: jest.fn(),
+	validateInstaller: jest.fn(),
 	validateWorkspacePath: jest.fn(),
 	validateRegistryUrl: jest.fn(),
 	validateBranchPrefix: jest.fn(),
+	validateExtensionFilter: jest.fn(),
 	parseCommaSeparatedList: jest.fn(),
 	parseNewlineSeparatedList: jest.fn(),
+	parseCooldown: jest.fn(),
+	parseWholeNumber: jest.fn(),
 	validateScanDirectories: jest.fn(),
 }));
+jest.unstable_mockModule("../src/configFile.js", () => ({
+	loadConfigFile: jest.fn(() => ({})),
+	parseFileConfig: jest.fn(),
+}));
 
 const core = await import("@actions/core");
 const { parseInputs } = await import("../src/config.js");
+const { loadConfigFile } = await import("../src/configFile.js");
 const {
 	validateAutoMergeStrategy,
 	validateMergeMethod,
 	validateUpdateStrategy,
+	validateRebaseStrategy,
+	validateCommitMode,
+	validateInstaller,
 	validateRegistryUrl,
 	validateBranchPrefix,
+	validateExtensionFilter,
 	parseCommaSeparatedList,
 	parseNewlineSeparatedList,
+	parseCooldown,
+	parseWholeNumber,
 } = await import("../src/validation.js");
 
 const mockCore = jest.mocked(core);
 const mockValidateAutoMergeStrategy = jest.mocked(validateAutoMergeStrategy);
 const mockValidateMergeMethod = jest.mocked(validateMergeMethod);
 const mockValidateUpdateStrategy = jest.mocked(validateUpdateStrategy);
+const mockValidateRebaseStrategy = jest.mocked(validateRebaseStrategy);
+const mockValidateCommitMode = jest.mocked(validateCommitMode);
+const mockValidateInstaller = jest.mocked(validateInstaller);
 const mockValidateRegistryUrl = jest.mocked(validateRegistryUrl);
 const mockValidateBranchPrefix = jest.mocked(validateBranchPrefix);
+const mockValidateExtensionFilter = jest.mocked(validateExtensionFilter);
 const mockParseCommaSeparatedList = jest.mocked(parseCommaSeparatedList);
 const mockParseNewlineSeparatedList = jest.mocked(parseNewlineSeparatedList);
+const mockParseCooldown = jest.mocked(parseCooldown);
+const mockParseWholeNumber = jest.mocked(parseWholeNumber);
+const mockLoadConfigFile = jest.mocked(loadConfigFile);
 
 describe("parseInputs", () => {
 	beforeEach(() => {
 		jest.clearAllMocks();
 
+		mockLoadConfigFile.mockReturnValue({});
+
 		// Use real implementation for parseCommaSeparatedList
 		mockParseCommaSeparatedList.mockImplementation((input: string) => {
 			if (!input || input.trim().length === 0) {
@@ -121,8 +147,17 @@ describe("parseInputs", () => {
 				include: [],
 				exclude: [],
 			},
+			extensionRules: [],
 			groupUpdates: false,
+			groupRules: [],
 			updateStrategy: "all",
+			allowPrereleases: false,
+			cooldown: { major: 0, minor: 0, patch: 0 },
+			rebaseStrategy: "disabled",
+			commitMode: "api",
+			installer: "quarto",
+			installTimeout: 300,
+			installConcurrency: 4,
 			dryRun: false,
 			createIssue: false,
 			assignmentConfig: {
@@ -136,6 +171,9 @@ describe("parseInputs", () => {
 		expect(mockValidateAutoMergeStrategy).toHaveBeenCalledWith("patch");
 		expect(mockValidateMergeMethod).toHaveBeenCalledWith("squash");
 		expect(mockValidateUpdateStrategy).toHaveBeenCalledWith("all");
+		expect(mockValidateRebaseStrategy).toHaveBeenCalledWith("disabled");
+		expect(mockValidateCommitMode).toHaveBeenCalledWith("api");
+		expect(mockValidateInstaller).toHaveBeenCalledWith("quarto");
 	});
 
 	it("should parse all custom inputs", () => {
@@ -149,11 +187,18 @@ describe("parseInputs", () => {
 				"pr-title-prefix": "deps:",
 				"commit-message-prefix": "update:",
 				"pr-labels": "dependencies,automation,quarto",
+				"open-pull-requests-limit": "5",
 				"auto-merge-strategy": "minor",
 				"auto-merge-method": "merge",
 				"include-extensions": "owner/ext1, owner/ext2",
 				"exclude-extensions": "owner/ext3, owner/ext4",
 				"update-strategy": "patch",
+				cooldown: "major=14, minor=7",
+				"rebase-strategy": "auto",
+				"commit-mode": "git",
+				installer: "builtin",
+				"install-timeout": "600",
+				"install-concurrency": "2",
 				"pr-reviewers": "user1,user2",
 				"pr-team-reviewers": "team1,team2",
 				"pr-assignees": "assignee1,assignee2",
@@ -166,11 +211,14 @@ describe("parseInputs", () => {
 				"create-pr": true,
 				"auto-merge": true,
 				"group-updates": true,
+				"allow-prereleases": true,
 				"dry-run": true,
 				"create-issue": false,
 			};
 			return inputs[name] ?? false;
 		});
+		mockParseCooldown.mockReturnValue({ major: 14, minor: 7, patch: 0 });
+		mockParseWholeNumber.mockImplementation((value) => Number(value));
 
 		const config = parseInputs();
 
@@ -185,6 +233,7 @@ describe("parseInputs", () => {
 			prTitlePrefix: "deps:",
 			commitMessagePrefix: "update:",
 			prLabels: ["dependencies", "automation", "quarto"],
+			openPullRequestsLimit: 5,
 			autoMergeConfig: {
 				enabled: true,
 				strategy: "minor",
@@ -194,8 +243,17 @@ describe("parseInputs", () => {
 				include: ["owner/ext1", "owner/ext2"],
 				exclude: ["owner/ext3", "owner/ext4"],
 			},
+			extensionRules: [],
 			groupUpdates: true,
+			groupRules: [],
 			updateStrategy: "patch",
+			allowPrereleases: true,
+			cooldown: { major: 14, minor: 7, patch: 0 },
+			rebaseStrategy: "auto",
+			commitMode: "git",
+			installer: "builtin",
+			installTimeout: 600,
+			installConcurrency: 2,
 			dryRun: true,
 			createIssue: false,
 			assignmentConfig: {
@@ -205,6 +263,10 @@ describe("parseInputs", () => {
 			},
 		});
 
+		expect(mockParseCooldown).toHaveBeenCalledWith("major=14, minor=7", "cooldown");
+		expect(mockParseWholeNumber).toHaveBeenCalledWith("5", "open-pull-requests-limit", "pull request limit", 0);
+		expect(mockParseWholeNumber).toHaveBeenCalledWith("600", "install-timeout", "install timeout", 1);
+		expect(mockParseWholeNumber).toHaveBeenCalledWith("2", "install-concurrency", "install concurrency", 1);
 		expect(mockValidateRegistryUrl).toHaveBeenCalledWith("https://example.com/registry.json");
 		expect(mockValidateBranchPrefix).toHaveBeenCalledWith("deps/quarto");
 	});
@@ -291,6 +353,23 @@ describe("parseInputs", () => {
 		expect(config.filterConfig.exclude).toEqual(["owner/ext3", "owner/ext4"]);
 	});
 
+	it("should validate include and exclude patterns", () => {
+		mockCore.getInput.mockImplementation((name: string) => {
+			if (name === "github-token") return "test-token";
+			if (name === "include-extensions") return "quarto-ext/*, !quarto-ext/lightbox";
+			if (name === "exclude-extensions") return "*/fontawesome";
+			return "";
+		});
+
+		parseInputs();
+
+		expect(mockValidateExtensionFilter).toHaveBeenCalledWith(
+			["quarto-ext/*", "!quarto-ext/lightbox"],
+			"include-extensions",
+		);
+		expect(mockValidateExtensionFilter).toHaveBeenCalledWith(["*/fontawesome"], "exclude-extensions");
+	});
+
 	it("should parse PR reviewers", () => {
 		mockCore.getInput.mockImplementation((name: string) => {
 			if (name === "github-token") return "test-token";
@@ -497,4 +576,108 @@ describe("parseInputs", () => {
 
 		expect(config.scanDirectories).toEqual(["."]);
 	});
+
+	describe("configuration file", () => {
+		it("should load the default configuration file as optional", () => {
+			parseInputs();
+
+			expect(mockLoadConfigFile).toHaveBeenCalledWith(
+				expect.stringContaining(".github/quarto-extensions.yml"),
+				false,
+				expect.anything(),
+			);
+		});
+
+		it("should require the configuration file when config-file is set", () => {
+			mockCore.getInput.mockImplementation((name: string) => {
+				if (name === "github-token") return "test-token";
+				if (name === "workspace-path") return "/workspace";
+				if (name === "config-file") return "config/updater.yml";
+				return "";
+			});
+
+			parseInputs();
+
+			expect(mockLoadConfigFile).toHaveBeenCalledWith("/workspace/config/updater.yml", true, expect.anything());
+		});
+
+		it("should use configuration file values when inputs are not set", () => {
+			mockCore.getBooleanInput.mockImplementation(() => {
+				throw new TypeError('Input does not meet YAML 1.2 "Core Schema" specification');
+			});
+			mockLoadConfigFile.mockReturnValue({
+				scanDirectories: ["docs", "slides"],
+				baseBranch: "develop",
+				prLabels: ["deps"],
+				openPullRequestsLimit: 4,
+				autoMerge: true,
+				autoMergeStrategy: "minor",
+				includeExtensions: ["quarto-ext/lightbox"],
+				groupUpdates: true,
+				updateStrategy: "minor",
+				allowPrereleases: true,
+				cooldown: { major: 7, minor: 3, patch: 3 },
+				prReviewers: ["reviewer1"],
+				extensions: [{ match: "mcanouil/iconify", updateStrategy: "patch", ignoreVersions: ["2.0.0"] }],
+				groups: [{ name: "quarto-ext", patterns: ["quarto-ext/*"], updateTypes: [] }],
+			});
+
+			const config = parseInputs();
+
+			expect(config.scanDirectories).toEqual(["docs", "slides"]);
+			expect(config.baseBranch).toBe("develop");
+			expect(config.prLabels).toEqual(["deps"]);
+			expect(config.openPullRequestsLimit).toBe(4);
+			expect(config.autoMergeConfig).toEqual({ enabled: true, strategy: "minor", mergeMethod: "squash" });
+			expect(config.filterConfig.include).toEqual(["quarto-ext/lightbox"]);
+			expect(config.groupUpdates).toBe(true);
+			expect(config.updateStrategy).toBe("minor");
+			expect(config.allowPrereleases).toBe(true);
+			expect(config.cooldown).toEqual({ major: 7, minor: 3, patch: 3 });
+			expect(config.createPR).toBe(true);
+			expect(config.assignmentConfig.reviewers).toEqual(["reviewer1"]);
+			expect(config.extensionRules).toEqual([
+				{ match: "mcanouil/iconify", updateStrategy: "patch", ignoreVersions: ["2.0.0"] },
+			]);
+			expect(config.groupRules).toEqual([{ name: "quarto-ext", patterns: ["quarto-ext/*"], updateTypes: [] }]);
+		});
+
+		it("should let inputs override configuration file values", () => {
+			mockCore.getInput.mockImplementation((name: string) => {
+				if (name === "github-token") return "test-token";
+				if (name === "base-branch") return "main";
+				if (name === "update-strategy") return "patch";
+				if (name === "pr-labels") return "from-input";
+				return "";
+			});
+			mockCore.getBooleanInput.mockImplementation((name: string) => name === "create-pr");
+			mockLoadConfigFile.mockReturnValue({
+				baseBranch: "develop",
+				updateStrategy: "minor",
+				prLabels: ["from-file"],
+				groupUpdates: true,
+			});
+
+			const config = parseInputs();
+
+			expect(config.baseBranch).toBe("main");
+			expect(config.updateStrategy).toBe("patch");
+			expect(config.prLabels).toEqual(["from-input"]);
+			expect(config.groupUpdates).toBe(false);
+		});
+
+		it("should rethrow boolean input errors when the input is set", () => {
+			mockCore.getInput.mockImplementation((name: string) => {
+				if (name === "github-token") return "test-token";
+				if (name === "dry-run") return "maybe";
+				return "";
+			});
+			mockCore.getBooleanInput.mockImplementation((name: string) => {
+				if (name === "dry-run") throw new TypeError('Input does not meet YAML 1.2 "Core Schema" specification');
+				return false;
+			});
+
+			expect(() => parseInputs()).toThrow(TypeError);
+		});
+	});
 });
@@ -0,0 +1,271 @@
+import { jest } from "@jest/globals";
+import { createMockFs, createMockActionsCore } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("fs", createMockFs);
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const fs = await import("fs");
+const core = await import("@actions/core");
+const { ValidationError } = await import("../src/errors.js");
+const { loadConfigFile, parseFileConfig } = await import("../src/configFile.js");
+
+const mockFs = jest.mocked(fs);
+
+describe("parseFileConfig", () => {
+	it("should return an empty configuration for an empty document", () => {
+		expect(parseFileConfig(undefined)).toEqual({});
+		expect(parseFileConfig(null)).toEqual({});
+	});
+
+	it("should parse all supported settings", () => {
+		const config = parseFileConfig({
+			"registry-url": "https://example.com/registry.json",
+			"scan-directories": [".", "docs"],
+			"create-pr": false,
+			"base-branch": "develop",
+			"branch-prefix": "deps/quarto",
+			"pr-title-prefix": "build:",
+			"commit-message-prefix": "build:",
+			"pr-labels": ["dependencies", "quarto"],
+			"open-pull-requests-limit": 5,
+			"auto-merge": true,
+			"auto-merge-strategy": "minor",
+			"auto-merge-method": "rebase",
+			"include-extensions": "quarto-ext/lightbox, mcanouil/iconify",
+			"exclude-extensions": ["owner/unstable"],
+			"group-updates": true,
+			"update-strategy": "minor",
+			"allow-prereleases": true,
+			cooldown: { major: 14, default: 3 },
+			"rebase-strategy": "auto",
+			"commit-mode": "git",
+			installer: "builtin",
+			"install-timeout": 600,
+			"install-concurrency": 2,
+			"dry-run": false,
+			"create-issue": true,
+			"pr-reviewers": ["user1"],
+			"pr-team-reviewers": ["team1"],
+			"pr-assignees": ["user2"],
+		});
+
+		expect(config).toEqual({
+			registryUrl: "https://example.com/registry.json",
+			scanDirectories: [".", "docs"],
+			createPR: false,
+			baseBranch: "develop",
+			branchPrefix: "deps/quarto",
+			prTitlePrefix: "build:",
+			commitMessagePrefix: "build:",
+			prLabels: ["dependencies", "quarto"],
+			openPullRequestsLimit: 5,
+			autoMerge: true,
+			autoMergeStrategy: "minor",
+			autoMergeMethod: "rebase",
+			includeExtensions: ["quarto-ext/lightbox", "mcanouil/iconify"],
+			excludeExtensions: ["owner/unstable"],
+			groupUpdates: true,
+			updateStrategy: "minor",
+			allowPrereleases: true,
+			cooldown: { major: 14, minor: 3, patch: 3 },
+			rebaseStrategy: "auto",
+			commitMode: "git",
+			installer: "builtin",
+			installTimeout: 600,
+			installConcurrency: 2,
+			dryRun: false,
+			createIssue: true,
+			prReviewers: ["user1"],
+			prTeamReviewers: ["team1"],
+			prAssignees: ["user2"],
+			extensions: undefined,
+			groups: undefined,
+		});
+	});
+
+	it("should parse per-extension settings", () => {
+		const config = parseFileConfig({
+			extensions: {
+				"mcanouil/iconify": { "update-strategy": "patch", "ignore-versions": ["2.0.0", "v2.0.1"], branch: "dev" },
+				"quarto-ext/lightbox": { "ignore-versions": "1.0.0", "allow-prereleases": true },
+			},
+		});
+
+		expect(config.extensions).toEqual([
+			{ match: "mcanouil/iconify", updateStrategy: "patch", ignoreVersions: ["2.0.0", "v2.0.1"], branch: "dev" },
+			{ match: "quarto-ext/lightbox", updateStrategy: undefined, ignoreVersions: ["1.0.0"], allowPrereleases: true },
+		]);
+	});
+
+	it("should parse glob keys and pinned ranges", () => {
+		const config = parseFileConfig({
+			extensions: {
+				"quarto-ext/*": { pin: "^1", "update-strategy": "minor" },
+			},
+		});
+
+		expect(config.extensions).toEqual([
+			{ match: "quarto-ext/*", updateStrategy: "minor", pin: "^1", ignoreVersions: [] },
+		]);
+	});
+
+	it("should reject invalid rule keys and pinned ranges", () => {
+		expect(() => parseFileConfig({ extensions: { iconify: {} } })).toThrow("Invalid extension pattern: 'iconify'");
+		expect(() => parseFileConfig({ extensions: { "mcanouil/iconify": { pin: "not a range" } } })).toThrow(
+			"Invalid version range: 'not a range'",
+		);
+	});
+
+	it("should reject invalid include and exclude patterns", () => {
+		expect(() => parseFileConfig({ "include-extensions": ["quarto-ext/*", "!lightbox"] })).toThrow(
+			"Invalid extension pattern: 'lightbox'",
+		);
+		expect(parseFileConfig({ "exclude-extensions": "*/fontawesome, !quarto-ext/*" }).excludeExtensions).toEqual([
+			"*/fontawesome",
+			"!quarto-ext/*",
+		]);
+	});
+
+	it("should parse named groups in file order", () => {
+		const config = parseFileConfig({
+			groups: {
+				"quarto-ext": { patterns: ["quarto-ext/*", "!quarto-ext/fontawesome"], "auto-merge": true },
+				"non-major": { "update-types": "minor, patch", "auto-merge-strategy": "minor" },
+			},
+		});
+
+		expect(config.groups).toEqual([
+			{
+				name: "quarto-ext",
+				patterns: ["quarto-ext/*", "!quarto-ext/fontawesome"],
+				updateTypes: [],
+				autoMerge: true,
+				autoMergeStrategy: undefined,
+			},
+			{
+				name: "non-major",
+				patterns: [],
+				updateTypes: ["minor", "patch"],
+				autoMerge: undefined,
+				autoMergeStrategy: "minor",
+			},
+		]);
+	});
+
+	it("should reject invalid named groups", () => {
+		expect(() => parseFileConfig({ groups: ["docs"] })).toThrow("Configuration key 'groups' must be a mapping");
+		expect(() => parseFileConfig({ groups: { "docs/site": { patterns: ["*/*"] } } })).toThrow(
+			"Invalid group name: 'docs/site'",
+		);
+		expect(() => parseFileConfig({ groups: { docs: { "auto-merge": true } } })).toThrow(
+			"Group 'docs' must set 'patterns', 'update-types', or both",
+		);
+		expect(() => parseFileConfig({ groups: { docs: { "update-types": ["all"] } } })).toThrow(
+			"Invalid update type: 'all'",
+		);
+		expect(() => parseFileConfig({ groups: { docs: { patterns: ["lightbox"] } } })).toThrow(
+			"Invalid extension pattern: 'lightbox'",
+		);
+		expect(() => parseFileConfig({ groups: { docs: { patterns: ["*/*"], "auto-merge-strategy": "major" } } })).toThrow(
+			"groups.docs.auto-merge-strategy: Invalid auto-merge strategy: 'major'",
+		);
+		expect(() => parseFileConfig({ groups: { docs: { pattern: ["*/*"] } } })).toThrow(
+			"Unknown configuration key: 'groups.docs.pattern'",
+		);
+	});
+
+	it("should reject a document that is not a mapping", () => {
+		expect(() => parseFileConfig(["update-strategy"])).toThrow("Configuration file must contain a mapping");
+	});
+
+	it("should reject unknown keys and name them", () => {
+		try {
+			parseFileConfig({ "update-stratgy": "minor" });
+			throw new Error("Expected parseFileConfig to throw");
+		} catch (error) {
+			expect(error).toBeInstanceOf(ValidationError);
+			expect((error as InstanceType<typeof ValidationError>).field).toBe("update-stratgy");
+		}
+	});
+
+	it("should reject values of the wrong type", () => {
+		expect(() => parseFileConfig({ "group-updates": "yes" })).toThrow(
+			"Configuration key 'group-updates' must be true or false",
+		);
+		expect(() => parseFileConfig({ "base-branch": 1 })).toThrow("Configuration key 'base-branch' must be a string");
+		expect(() => parseFileConfig({ "pr-labels": { a: 1 } })).toThrow(
+			"Configuration key 'pr-labels' must be a list of strings",
+		);
+	});
+
+	it("should reject invalid strategies", () => {
+		expect(() => parseFileConfig({ "update-strategy": "major" })).toThrow("Invalid update strategy: 'major'");
+		expect(() => parseFileConfig({ "rebase-strategy": "always" })).toThrow("Invalid rebase strategy: 'always'");
+		expect(() => parseFileConfig({ "commit-mode": "ssh" })).toThrow("Invalid commit mode: 'ssh'");
+		expect(() => parseFileConfig({ installer: "npm" })).toThrow("Invalid installer: 'npm'");
+		expect(() => parseFileConfig({ "install-timeout": 0 })).toThrow("Invalid install timeout: '0'");
+		expect(() => parseFileConfig({ "install-concurrency": "all" })).toThrow("Invalid install concurrency: 'all'");
+		expect(() => parseFileConfig({ cooldown: { majr: 7 } })).toThrow("Invalid cooldown key: 'majr'");
+		expect(() => parseFileConfig({ "auto-merge-method": "fast-forward" })).toThrow(
+			"Invalid merge method: 'fast-forward'",
+		);
+	});
+
+	it("should name the nested field of an invalid per-extension setting", () => {
+		try {
+			parseFileConfig({ extensions: { "mcanouil/iconify": { "update-strategy": "major" } } });
+			throw new Error("Expected parseFileConfig to throw");
+		} catch (error) {
+			expect(error).toBeInstanceOf(ValidationError);
+			expect((error as InstanceType<typeof ValidationError>).field).toBe("extensions.mcanouil/iconify.update-strategy");
+		}
+
+		expect(() => parseFileConfig({ extensions: { "mcanouil/iconify": { versions: "^1" } } })).toThrow(
+			"Unknown configuration key: 'extensions.mcanouil/iconify.versions'",
+		);
+		expect(() => parseFileConfig({ extensions: ["mcanouil/iconify"] })).toThrow(
+			"Configuration key 'extensions' must be a mapping",
+		);
+	});
+});
+
+describe("loadConfigFile", () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it("should return an empty configuration when an optional file is missing", () => {
+		mockFs.existsSync.mockReturnValue(false);
+
+		expect(loadConfigFile("/workspace/.github/quarto-extensions.yml", false)).toEqual({});
+		expect(mockFs.readFileSync).not.toHaveBeenCalled();
+	});
+
+	it("should throw when a required file is missing", () => {
+		mockFs.existsSync.mockReturnValue(false);
+
+		expect(() => loadConfigFile("/workspace/updater.yml", true)).toThrow(
+			"Configuration file not found: /workspace/updater.yml",
+		);
+	});
+
+	it("should load and parse the file", () => {
+		mockFs.existsSync.mockReturnValue(true);
+		mockFs.readFileSync.mockReturnValue("update-strategy: patch\ngroup-updates: true\n");
+
+		const config = loadConfigFile("/workspace/.github/quarto-extensions.yml", false);
+
+		expect(config.updateStrategy).toBe("patch");
+		expect(config.groupUpdates).toBe(true);
+		expect(core.info).toHaveBeenCalledWith("Loaded configuration file: /workspace/.github/quarto-extensions.yml");
+	});
+
+	it("should report invalid YAML as a validation error", () => {
+		mockFs.existsSync.mockReturnValue(true);
+		mockFs.readFileSync.mockReturnValue("update-strategy: [patch\n");
+
+		expect(() => loadConfigFile("/workspace/.github/quarto-extensions.yml", false)).toThrow(
+			"Configuration file is not valid YAML",
+		);
+	});
+});
@@ -0,0 +1,125 @@
+import { jest } from "@jest/globals";
+import type { CooldownConfig } from "../src/types.js";
+import { createMockActionsCore, createMockOctokit, createMockUpdate } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const core = await import("@actions/core");
+const { deferUpdatesInCooldown, getCooldownDays } = await import("../src/cooldown.js");
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+const COOLDOWN: CooldownConfig = { major: 14, minor: 7, patch: 0 };
+
+describe("getCooldownDays", () => {
+	it("should pick the period of the update type", () => {
+		expect(getCooldownDays(createMockUpdate("owner/ext", "1.0.0", "2.0.0"), COOLDOWN)).toBe(14);
+		expect(getCooldownDays(createMockUpdate("owner/ext", "1.0.0", "1.1.0"), COOLDOWN)).toBe(7);
+		expect(getCooldownDays(createMockUpdate("owner/ext", "1.0.0", "1.0.1"), COOLDOWN)).toBe(0);
+	});
+
+	it("should not apply to updates without a version type", () => {
+		expect(getCooldownDays(createMockUpdate("owner/ext", "3f2a1b9", "9c8d7e6"), COOLDOWN)).toBe(0);
+	});
+});
+
+describe("deferUpdatesInCooldown", () => {
+	let mockOctokit: ReturnType<typeof createMockOctokit>;
+	const mockGetReleaseByTag = () => mockOctokit.rest.repos.getReleaseByTag as unknown as jest.Mock;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockOctokit = createMockOctokit();
+	});
+
+	it("should defer a release younger than its cooldown and give the eligible date", async () => {
+		mockGetReleaseByTag().mockResolvedValue({ data: { published_at: "2026-10-15T12:00:00Z" } } as never);
+		const update = createMockUpdate("owner/ext", "1.0.0", "v2.0.0");
+
+		const result = await deferUpdatesInCooldown(mockOctokit, [update], COOLDOWN, NOW);
+
+		expect(mockGetReleaseByTag()).toHaveBeenCalledWith({ owner: "owner", repo: "ext", tag: "v2.0.0" });
+		expect(result.updates).toEqual([]);
+		expect(result.deferredUpdates).toEqual([
+			{
+				update,
+				releaseDate: "2026-10-15T12:00:00.000Z",
+				eligibleDate: "2026-10-29T12:00:00.000Z",
+				cooldownDays: 14,
+			},
+		]);
+	});
+
+	it("should take the release date of the registry before looking up the GitHub release", async () => {
+		const update = { ...createMockUpdate("owner/ext", "1.0.0", "1.1.0"), releaseDate: "2026-10-16T12:00:00Z" };
+
+		const result = await deferUpdatesInCooldown(mockOctokit, [update], COOLDOWN, NOW);
+
+		expect(mockGetReleaseByTag()).not.toHaveBeenCalled();
+		expect(result.deferredUpdates).toEqual([
+			{
+				update,
+				releaseDate: "2026-10-16T12:00:00.000Z",
+				eligibleDate: "2026-10-23T12:00:00.000Z",
+				cooldownDays: 7,
+			},
+		]);
+	});
+
+	it("should propose a release once its cooldown has passed", async () => {
+		mockGetReleaseByTag().mockResolvedValue({ data: { published_at: "2026-10-11T12:00:00Z" } } as never);
+
+		const result = await deferUpdatesInCooldown(
+			mockOctokit,
+			[createMockUpdate("owner/ext", "1.0.0", "1.1.0")],
+			COOLDOWN,
+			NOW,
+		);
+
+		expect(result.updates).toHaveLength(1);
+		expect(result.deferredUpdates).toEqual([]);
+	});
+
+	it("should not look up releases for update types without a cooldown", async () => {
+		const result = await deferUpdatesInCooldown(
+			mockOctokit,
+			[createMockUpdate("owner/ext", "1.0.0", "1.0.1")],
+			COOLDOWN,
+			NOW,
+		);
+
+		expect(mockGetReleaseByTag()).not.toHaveBeenCalled();
+		expect(result.updates).toHaveLength(1);
+	});
+
+	it("should try the tag without its v prefix", async () => {
+		mockGetReleaseByTag()
+			.mockRejectedValueOnce(new Error("Not Found") as never)
+			.mockResolvedValueOnce({ data: { published_at: "2026-10-17T12:00:00Z" } } as never);
+
+		const result = await deferUpdatesInCooldown(
+			mockOctokit,
+			[createMockUpdate("owner/ext", "1.0.0", "v1.1.0")],
+			COOLDOWN,
+			NOW,
+		);
+
+		expect(mockGetReleaseByTag()).toHaveBeenLastCalledWith({ owner: "owner", repo: "ext", tag: "1.1.0" });
+		expect(result.deferredUpdates[0].eligibleDate).toBe("2026-10-24T12:00:00.000Z");
+	});
+
+	it("should propose an update whose release cannot be found, with a warning", async () => {
+		mockGetReleaseByTag().mockRejectedValue(new Error("Not Found") as never);
+
+		const result = await deferUpdatesInCooldown(
+			mockOctokit,
+			[createMockUpdate("owner/ext", "1.0.0", "2.0.0")],
+			COOLDOWN,
+			NOW,
+		);
+
+		expect(result.updates).toHaveLength(1);
+		expect(core.warning).toHaveBeenCalledWith(
+			"Could not find the release date of owner/ext 2.0.0, proposing it without a cooldown",
+		);
+	});
+});
@@ -4,6 +4,8 @@ import {
 	RegistryError,
 	GitOperationError,
 	GitHubAPIError,
+	GitHostAPIError,
+	ExtensionInstallError,
 	isQuartoError,
 	formatError,
 } from "../src/errors.js";
@@ -132,6 +134,33 @@ describe("GitHubAPIError", () => {
 	});
 });
 
+describe("GitHostAPIError", () => {
+	it("should create Git host API error", () => {
+		const error = new GitHostAPIError("Branch already exists", "GitLab", "createBranch", 400);
+
+		expect(error.message).toBe("Branch already exists");
+		expect(error.code).toBe("GIT_HOST_API_ERROR");
+		expect(error.host).toBe("GitLab");
+		expect(error.operation).toBe("createBranch");
+		expect(error.statusCode).toBe(400);
+		expect(error.name).toBe("GitHostAPIError");
+		expect(error instanceof GitHostAPIError).toBe(true);
+	});
+});
+
+describe("ExtensionInstallError", () => {
+	it("should create extension install error", () => {
+		const error = new ExtensionInstallError("Download failed", "owner/repo@v1.0.0", 404);
+
+		expect(error.message).toBe("Download failed");
+		expect(error.code).toBe("EXTENSION_INSTALL_ERROR");
+		expect(error.source).toBe("owner/repo@v1.0.0");
+		expect(error.statusCode).toBe(404);
+		expect(error.name).toBe("ExtensionInstallError");
+		expect(error instanceof ExtensionInstallError).toBe(true);
+	});
+});
+
 describe("isQuartoError", () => {
 	it("should return true for QuartoExtensionUpdaterError", () => {
 		const error = new QuartoExtensionUpdaterError("Test", "CODE");
@@ -6,8 +6,14 @@ jest.unstable_mockModule("@actions/core", createMockActionsCore);
 
 const fs = await import("fs");
 const core = await import("@actions/core");
-const { findExtensionManifests, readExtensionManifest, extractExtensionInfo, updateManifestSource } =
-	await import("../src/extensions.js");
+const {
+	findExtensionManifests,
+	readExtensionManifest,
+	extractExtensionInfo,
+	updateManifestSource,
+	parseSourceRef,
+	isCommitSha,
+} = await import("../src/extensions.js");
 
 const mockFs = jest.mocked(fs);
 
@@ -481,3 +487,34 @@ describe("updateManifestSource", () => {
 		expect(core.info).toHaveBeenCalledWith(expect.stringContaining("Source field already exists"));
 	});
 });
+
+describe("parseSourceRef", () => {
+	it("should split the repository and the ref", () => {
+		expect(parseSourceRef("mcanouil/quarto-iconify@v1.0.0")).toEqual({
+			repository: "mcanouil/quarto-iconify",
+			ref: "v1.0.0",
+		});
+		expect(parseSourceRef("quarto-ext/lightbox@feature/zoom")).toEqual({
+			repository: "quarto-ext/lightbox",
+			ref: "feature/zoom",
+		});
+	});
+
+	it("should return null for sources without a GitHub ref", () => {
+		expect(parseSourceRef("mcanouil/quarto-iconify")).toBeNull();
+		expect(parseSourceRef("https://example.com/extension.zip")).toBeNull();
+	});
+});
+
+describe("isCommitSha", () => {
+	it("should accept full and abbreviated SHAs", () => {
+		expect(isCommitSha("3f2a1b9")).toBe(true);
+		expect(isCommitSha("9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d")).toBe(true);
+	});
+
+	it("should reject versions, branches, and short hex strings", () => {
+		expect(isCommitSha("v1.0.0")).toBe(false);
+		expect(isCommitSha("main")).toBe(false);
+		expect(isCommitSha("abc12")).toBe(false);
+	});
+});
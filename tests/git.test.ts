@@ -1,8 +1,9 @@
 import { jest } from "@jest/globals";
 import type { ExtensionUpdate } from "../src/types.js";
-import { createMockFs, createMockActionsCore } from "./__test-utils__/mockFactories.js";
+import type { Stats } from "fs";
+import { createMockFs, createMockActionsCore, createMockUpdate } from "./__test-utils__/mockFactories.js";
 
-jest.unstable_mockModule("child_process", () => ({ execSync: jest.fn() }));
+jest.unstable_mockModule("child_process", () => ({ execFile: jest.fn(), execFileSync: jest.fn() }));
 jest.unstable_mockModule("fs", createMockFs);
 jest.unstable_mockModule("path", () => ({
 	join: jest.fn(),
@@ -15,35 +16,72 @@ jest.unstable_mockModule("@actions/core", createMockActionsCore);
 jest.unstable_mockModule("../src/extensions.js", () => ({
 	findExtensionManifests: jest.fn(),
 	readExtensionManifest: jest.fn(),
+	parseExtensionManifest: jest.fn(),
 	extractExtensionInfo: jest.fn(),
 	updateManifestSource: jest.fn(),
 }));
+jest.unstable_mockModule("../src/installer.js", () => ({
+	installExtension: jest.fn(),
+	downloadArchive: jest.fn(),
+}));
 
-const { execSync } = await import("child_process");
+const { execFile, execFileSync } = await import("child_process");
 const fs = await import("fs");
 const path = await import("path");
 const core = await import("@actions/core");
-const { updateManifestSource, readExtensionManifest } = await import("../src/extensions.js");
+const { updateManifestSource } = await import("../src/extensions.js");
+const { installExtension } = await import("../src/installer.js");
 const {
 	applyUpdates,
 	getQuartoVersion,
 	createBranchName,
+	getBranchSafeName,
+	parseExtensionBranchName,
 	createCommitMessage,
 	validateModifiedFiles,
 	deriveQuartoAddCwd,
+	getGitFileMode,
+	readGitFileContent,
 } = await import("../src/git.js");
 
-const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
+const mockExecFileSync = jest.mocked(execFileSync);
+const mockExecFile = jest.mocked(execFile);
 const mockUpdateManifestSource = updateManifestSource as jest.MockedFunction<typeof updateManifestSource>;
-const mockReadExtensionManifest = readExtensionManifest as jest.MockedFunction<typeof readExtensionManifest>;
+const mockInstallExtension = jest.mocked(installExtension);
 const mockPath = jest.mocked(path);
 const mockFs = jest.mocked(fs);
 
+const regularFile = { mode: 0o100644, isSymbolicLink: () => false } as Stats;
+const executableFile = { mode: 0o100755, isSymbolicLink: () => false } as Stats;
+const symbolicLink = { mode: 0o120777, isSymbolicLink: () => true } as Stats;
+
+/** What a mocked `quarto add` ends with */
+interface ExecOutcome {
+	error?: Error;
+	stdout?: string;
+	stderr?: string;
+}
+
+/**
+ * Answers each asynchronous program run with the outcome the handler gives
+ */
+const answerExec = (handler: (args: string[]) => ExecOutcome | void) =>
+	mockExecFile.mockImplementation(((
+		_file: string,
+		args: string[],
+		_options: unknown,
+		callback: (error: Error | null, stdout: string, stderr: string) => void,
+	) => {
+		const { error = null, stdout = "", stderr = "" } = handler(args) ?? {};
+		setImmediate(() => callback(error, stdout, stderr));
+	}) as never);
+
 // Type for directory entry
 interface DirEntry {
 	name: string;
 	isFile: () => boolean;
 	isDirectory: () => boolean;
+	isSymbolicLink: () => boolean;
 }
 
 describe("git.ts", () => {
@@ -51,24 +89,23 @@ describe("git.ts", () => {
 		jest.clearAllMocks();
 		mockPath.join.mockImplementation((...args: string[]) => args.join("/"));
 		mockPath.dirname.mockImplementation((p: string) => p.split("/").slice(0, -1).join("/"));
-		mockReadExtensionManifest.mockReturnValue(null);
 	});
 
 	describe("getQuartoVersion", () => {
 		it("should return version when Quarto CLI is available", () => {
-			mockExecSync.mockReturnValue("1.4.0\n" as unknown as Buffer);
+			mockExecFileSync.mockReturnValue("1.4.0\n" as unknown as Buffer);
 
 			const result = getQuartoVersion();
 
 			expect(result).toBe("1.4.0");
-			expect(mockExecSync).toHaveBeenCalledWith("quarto --version", {
+			expect(mockExecFileSync).toHaveBeenCalledWith("quarto", ["--version"], {
 				stdio: "pipe",
 				encoding: "utf-8",
 			});
 		});
 
 		it("should return null when Quarto CLI is not available", () => {
-			mockExecSync.mockImplementation(() => {
+			mockExecFileSync.mockImplementation(() => {
 				throw new Error("Command not found");
 			});
 
@@ -94,65 +131,89 @@ describe("git.ts", () => {
 		});
 
 		beforeEach(() => {
-			mockExecSync.mockReturnValue("1.4.0\n" as unknown as Buffer);
+			mockExecFileSync.mockReturnValue("1.4.0\n" as unknown as Buffer);
+			answerExec(() => ({}));
 			mockFs.existsSync.mockReturnValue(true);
 			mockFs.readdirSync.mockReturnValue([
-				{ name: "_extension.yml", isFile: () => true, isDirectory: () => false },
-				{ name: "extension.lua", isFile: () => true, isDirectory: () => false },
+				{ name: "_extension.yml", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+				{ name: "extension.lua", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
 			] as DirEntry[]);
-			mockFs.readFileSync.mockReturnValue(Buffer.from("content"));
+			// Every read returns new content, so every file counts as changed unless a test says otherwise
+			let reads = 0;
+			mockFs.readFileSync.mockImplementation(() => Buffer.from(`content ${reads++}`));
+			mockFs.lstatSync.mockReturnValue(regularFile);
 		});
 
-		it("should throw error when Quarto CLI is not available", () => {
-			mockExecSync.mockImplementation(() => {
+		it("should throw error when Quarto CLI is not available", async () => {
+			mockExecFileSync.mockImplementation(() => {
 				throw new Error("Command not found");
 			});
 
-			expect(() => applyUpdates([createUpdate()])).toThrow("Quarto CLI is not available");
+			await expect(applyUpdates([createUpdate()])).rejects.toThrow("Quarto CLI is not available");
 			expect(core.error).toHaveBeenCalledWith(expect.stringContaining("Quarto CLI is not available"));
 		});
 
-		it("should apply single update successfully", () => {
+		it("should apply single update successfully", async () => {
 			const update = createUpdate();
 
-			const result = applyUpdates([update]);
+			const result = await applyUpdates([update]);
 
-			expect(mockExecSync).toHaveBeenCalledWith("quarto add test-owner/test-test-ext@1.1.0 --no-prompt", {
-				cwd: process.cwd(),
-				stdio: "pipe",
-				encoding: "utf-8",
-			});
+			expect(mockExecFile).toHaveBeenCalledWith(
+				"quarto",
+				["add", "test-owner/test-test-ext@1.1.0", "--no-prompt"],
+				{ cwd: process.cwd(), encoding: "utf-8", timeout: 300000, signal: undefined },
+				expect.any(Function),
+			);
 			expect(mockUpdateManifestSource).toHaveBeenCalledWith(
 				"/path/to/test-ext/_extension.yml",
 				"test-owner/test-test-ext@1.1.0",
+				expect.anything(),
 			);
 			expect(result.modifiedFiles.length).toBeGreaterThan(0);
 			expect(result.skippedUpdates).toEqual([]);
 			expect(core.info).toHaveBeenCalledWith("Successfully updated test-owner/test-ext to 1.1.0");
 		});
 
-		it("should apply multiple updates", () => {
+		it("should install a commit update from its full SHA", async () => {
+			const latestSha = "9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d";
+			const update: ExtensionUpdate = {
+				...createUpdate("test-ext", "9c8d7e6"),
+				currentVersion: "3f2a1b9",
+				commit: { branch: "main", currentSha: "3f2a1b9", latestSha, commits: [], totalCommits: 1 },
+			};
+
+			await applyUpdates([update]);
+
+			expect(mockExecFile).toHaveBeenCalledWith(
+				"quarto",
+				["add", `test-owner/test-test-ext@${latestSha}`, "--no-prompt"],
+				expect.anything(),
+				expect.any(Function),
+			);
+			expect(mockUpdateManifestSource).toHaveBeenCalledWith(
+				"/path/to/test-ext/_extension.yml",
+				`test-owner/test-test-ext@${latestSha}`,
+				expect.anything(),
+			);
+		});
+
+		it("should apply multiple updates", async () => {
 			const updates = [createUpdate("ext1", "1.1.0"), createUpdate("ext2", "2.0.0")];
 
-			const result = applyUpdates(updates);
+			const result = await applyUpdates(updates);
 
-			expect(mockExecSync).toHaveBeenCalledTimes(3); // version check + 2 updates
+			expect(mockExecFile).toHaveBeenCalledTimes(2);
 			expect(mockUpdateManifestSource).toHaveBeenCalledTimes(2);
 			expect(result.modifiedFiles.length).toBeGreaterThan(0);
 			expect(result.skippedUpdates).toEqual([]);
 		});
 
-		it("should skip extension when quarto add fails instead of throwing", () => {
-			mockExecSync.mockImplementation((cmd) => {
-				if (cmd === "quarto --version") {
-					return "1.4.0\n" as unknown as Buffer;
-				}
-				throw new Error("Failed to add extension");
-			});
+		it("should skip extension when quarto add fails instead of throwing", async () => {
+			answerExec(() => ({ error: new Error("Failed to add extension") }));
 
 			const update = createUpdate();
 
-			const result = applyUpdates([update]);
+			const result = await applyUpdates([update]);
 
 			expect(result.modifiedFiles).toEqual([]);
 			expect(result.skippedUpdates).toHaveLength(1);
@@ -161,20 +222,15 @@ describe("git.ts", () => {
 			expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Skipping test-owner/test-ext"));
 		});
 
-		it("should use stderr from quarto add failure for a more informative reason", () => {
-			mockExecSync.mockImplementation((cmd) => {
-				if (cmd === "quarto --version") {
-					return "1.4.0\n" as unknown as Buffer;
-				}
-				const error = new Error("Command failed: quarto add test-owner/test-test-ext@1.1.0 --no-prompt");
-				(error as Error & { stderr: string }).stderr =
-					"ERROR: Extension requires Quarto version >=99.0.0 (you have 1.4.0)\n";
-				throw error;
-			});
+		it("should use stderr from quarto add failure for a more informative reason", async () => {
+			answerExec(() => ({
+				error: new Error("Command failed: quarto add test-owner/test-test-ext@1.1.0 --no-prompt"),
+				stderr: "ERROR: Extension requires Quarto version >=99.0.0 (you have 1.4.0)\n",
+			}));
 
 			const update = createUpdate();
 
-			const result = applyUpdates([update]);
+			const result = await applyUpdates([update]);
 
 			expect(result.skippedUpdates).toHaveLength(1);
 			expect(result.skippedUpdates[0].reason).toBe(
@@ -182,21 +238,15 @@ describe("git.ts", () => {
 			);
 		});
 
-		it("should fall back to stdout when stderr is empty", () => {
-			mockExecSync.mockImplementation((cmd) => {
-				if (cmd === "quarto --version") {
-					return "1.4.0\n" as unknown as Buffer;
-				}
-				const error = new Error("Command failed: quarto add test-owner/test-test-ext@1.1.0 --no-prompt");
-				(error as Error & { stderr: string; stdout: string }).stderr = "";
-				(error as Error & { stderr: string; stdout: string }).stdout =
-					"ERROR: Extension not found at test-owner/test-test-ext@1.1.0\n";
-				throw error;
-			});
+		it("should fall back to stdout when stderr is empty", async () => {
+			answerExec(() => ({
+				error: new Error("Command failed: quarto add test-owner/test-test-ext@1.1.0 --no-prompt"),
+				stdout: "ERROR: Extension not found at test-owner/test-test-ext@1.1.0\n",
+			}));
 
 			const update = createUpdate();
 
-			const result = applyUpdates([update]);
+			const result = await applyUpdates([update]);
 
 			expect(result.skippedUpdates).toHaveLength(1);
 			expect(result.skippedUpdates[0].reason).toBe(
@@ -204,50 +254,18 @@ describe("git.ts", () => {
 			);
 		});
 
-		it("should skip extension when quarto-required exceeds installed version", () => {
-			const update = createUpdate();
-			mockReadExtensionManifest.mockReturnValue({
-				version: "1.1.0",
-				quartoRequired: "99.0.0",
-			});
-
-			const result = applyUpdates([update]);
-
-			expect(result.modifiedFiles).toEqual([]);
-			expect(result.skippedUpdates).toHaveLength(1);
-			expect(result.skippedUpdates[0].reason).toContain("requires Quarto >= 99.0.0");
-			expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Skipping test-owner/test-ext"));
-		});
-
-		it("should include extension when quarto-required is satisfied", () => {
-			const update = createUpdate();
-			mockReadExtensionManifest.mockReturnValue({
-				version: "1.1.0",
-				quartoRequired: "1.0.0",
-			});
-
-			const result = applyUpdates([update]);
-
-			expect(result.modifiedFiles.length).toBeGreaterThan(0);
-			expect(result.skippedUpdates).toEqual([]);
-		});
-
-		it("should continue processing when one extension fails", () => {
+		it("should continue processing when one extension fails", async () => {
 			let callCount = 0;
-			mockExecSync.mockImplementation((cmd) => {
-				if (cmd === "quarto --version") {
-					return "1.4.0\n" as unknown as Buffer;
-				}
+			answerExec(() => {
 				callCount++;
 				if (callCount === 1) {
-					throw new Error("Failed to add extension");
+					return { error: new Error("Failed to add extension") };
 				}
-				return "" as unknown as Buffer;
 			});
 
 			const updates = [createUpdate("failing-ext", "1.1.0"), createUpdate("working-ext", "2.0.0")];
 
-			const result = applyUpdates(updates);
+			const result = await applyUpdates(updates);
 
 			expect(result.skippedUpdates).toHaveLength(1);
 			expect(result.skippedUpdates[0].update.name).toBe("failing-ext");
@@ -255,19 +273,22 @@ describe("git.ts", () => {
 			expect(mockUpdateManifestSource).toHaveBeenCalledTimes(1);
 		});
 
-		it("should track all files in extension directory", () => {
-			mockFs.readdirSync
-				.mockReturnValueOnce([
-					{ name: "_extension.yml", isFile: () => true, isDirectory: () => false },
-					{ name: "assets", isFile: () => false, isDirectory: () => true },
-				] as DirEntry[])
-				.mockReturnValueOnce([
-					{ name: "style.css", isFile: () => true, isDirectory: () => false },
-					{ name: "script.js", isFile: () => true, isDirectory: () => false },
-				] as DirEntry[]);
+		it("should track all files in extension directory", async () => {
+			// The directory is listed before and after `quarto add`
+			for (let listing = 0; listing < 2; listing++) {
+				mockFs.readdirSync
+					.mockReturnValueOnce([
+						{ name: "_extension.yml", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+						{ name: "assets", isFile: () => false, isDirectory: () => true, isSymbolicLink: () => false },
+					] as DirEntry[])
+					.mockReturnValueOnce([
+						{ name: "style.css", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+						{ name: "script.js", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+					] as DirEntry[]);
+			}
 
 			const update = createUpdate();
-			const result = applyUpdates([update]);
+			const result = await applyUpdates([update]);
 
 			expect(result.modifiedFiles).toContain("/path/to/test-ext/_extension.yml");
 			expect(result.modifiedFiles).toContain("/path/to/test-ext/assets/style.css");
@@ -275,22 +296,94 @@ describe("git.ts", () => {
 			expect(core.info).toHaveBeenCalledWith(expect.stringContaining("Tracked 3 file(s)"));
 		});
 
-		it("should return empty modified files for non-existent directory", () => {
+		it("should report files the new release no longer ships as deleted", async () => {
+			let installed = false;
+			answerExec(() => {
+				installed = true;
+			});
+			mockFs.readdirSync.mockImplementation(
+				() =>
+					(installed
+						? [
+								{ name: "_extension.yml", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+								{ name: "filter.lua", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+							]
+						: [
+								{ name: "_extension.yml", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+								{ name: "old-filter.lua", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+							]) as DirEntry[] as never,
+			);
+
+			const result = await applyUpdates([createUpdate()]);
+
+			expect(result.modifiedFiles).toEqual(["/path/to/test-ext/_extension.yml", "/path/to/test-ext/filter.lua"]);
+			expect(result.deletedFiles).toEqual(["/path/to/test-ext/old-filter.lua"]);
+		});
+
+		it("should leave unchanged files out and log how many", async () => {
+			let installed = false;
+			answerExec(() => {
+				installed = true;
+			});
+			mockFs.readFileSync.mockImplementation((filePath) =>
+				Buffer.from(installed && String(filePath).endsWith("_extension.yml") ? "version: 1.1.0" : "unchanged"),
+			);
+
+			const result = await applyUpdates([createUpdate()]);
+
+			expect(result.modifiedFiles).toEqual(["/path/to/test-ext/_extension.yml"]);
+			expect(core.info).toHaveBeenCalledWith("Tracked 1 file(s) in /path/to/test-ext");
+			expect(core.info).toHaveBeenCalledWith("Left 1 unchanged file(s) out of the commit");
+		});
+
+		it("should track a file whose mode alone changes, and a symbolic link by its target", async () => {
+			let installed = false;
+			answerExec(() => {
+				installed = true;
+			});
+			mockFs.readdirSync.mockReturnValue([
+				{ name: "run.sh", isFile: () => true, isDirectory: () => false, isSymbolicLink: () => false },
+				{ name: "latest.lua", isFile: () => false, isDirectory: () => false, isSymbolicLink: () => true },
+			] as DirEntry[]);
+			mockFs.readFileSync.mockReturnValue(Buffer.from("unchanged"));
+			mockFs.lstatSync.mockImplementation((filePath) => {
+				if (String(filePath).endsWith("latest.lua")) {
+					return symbolicLink;
+				}
+				return installed ? executableFile : regularFile;
+			});
+			mockFs.readlinkSync.mockReturnValue("filter.lua");
+
+			const result = await applyUpdates([createUpdate()]);
+
+			expect(result.modifiedFiles).toEqual(["/path/to/test-ext/run.sh"]);
+			expect(mockFs.readlinkSync).toHaveBeenCalledWith("/path/to/test-ext/latest.lua");
+		});
+
+		it("should not report deletions for skipped updates", async () => {
+			answerExec(() => ({ error: new Error("Command failed: quarto add") }));
+
+			const result = await applyUpdates([createUpdate()]);
+
+			expect(result.deletedFiles).toEqual([]);
+		});
+
+		it("should return empty modified files for non-existent directory", async () => {
 			mockFs.existsSync.mockReturnValue(false);
 
 			const update = createUpdate();
-			const result = applyUpdates([update]);
+			const result = await applyUpdates([update]);
 
 			expect(result.modifiedFiles).toEqual([]);
 		});
 
-		it("should log installed Quarto version", () => {
-			applyUpdates([createUpdate()]);
+		it("should log installed Quarto version", async () => {
+			await applyUpdates([createUpdate()]);
 
 			expect(core.info).toHaveBeenCalledWith("Installed Quarto version: 1.4.0");
 		});
 
-		it("should use correct cwd when manifest path contains _extensions", () => {
+		it("should use correct cwd when manifest path contains _extensions", async () => {
 			const update: ExtensionUpdate = {
 				name: "iconify",
 				owner: "mcanouil",
@@ -304,16 +397,205 @@ describe("git.ts", () => {
 				description: "Test extension",
 			};
 
-			applyUpdates([update]);
+			await applyUpdates([update]);
 
-			expect(mockExecSync).toHaveBeenCalledWith("quarto add mcanouil/quarto-iconify@1.1.0 --no-prompt", {
-				cwd: "/workspace",
-				stdio: "pipe",
-				encoding: "utf-8",
+			expect(mockExecFile).toHaveBeenCalledWith(
+				"quarto",
+				["add", "mcanouil/quarto-iconify@1.1.0", "--no-prompt"],
+				expect.objectContaining({ cwd: "/workspace" }),
+				expect.any(Function),
+			);
+		});
+
+		it("should reject a repository or a tag from the registry that could be taken for a command or an option", async () => {
+			const updates = [
+				{ ...createUpdate("ext1"), repositoryName: "test-owner/test-ext1; rm -rf ~" },
+				createUpdate("ext2", "--output=/tmp/ext"),
+				createUpdate("ext3", "1.1.0$(curl example.com)"),
+			];
+
+			const result = await applyUpdates(updates);
+
+			expect(mockExecFile).not.toHaveBeenCalled();
+			expect(result.modifiedFiles).toEqual([]);
+			expect(result.skippedUpdates.map((skipped) => skipped.reason)).toEqual([
+				"Rejected the source from the registry: Invalid GitHub repository: 'test-owner/test-ext1; rm -rf ~'. " +
+					"Expected 'owner/repo' with letters, digits, '.', '_', or '-'",
+				"Rejected the source from the registry: Invalid release ref: '--output=/tmp/ext'. " +
+					"Expected letters, digits, '.', '_', '+', '/', or '-', not starting with '-'",
+				expect.stringContaining("Invalid release ref: '1.1.0$(curl example.com)'"),
+			]);
+			expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Skipping test-owner/ext1: Rejected"));
+		});
+
+		it("should keep both the error output and the standard output in the reason", async () => {
+			answerExec(() => ({
+				error: new Error("Command failed"),
+				stdout: "Downloading test-owner/test-test-ext@1.1.0\n",
+				stderr: "ERROR: 404 Not Found\n",
+			}));
+
+			const result = await applyUpdates([createUpdate()]);
+
+			expect(result.skippedUpdates[0].reason).toBe(
+				"Failed to update: ERROR: 404 Not Found\nDownloading test-owner/test-test-ext@1.1.0",
+			);
+		});
+
+		it("should stop quarto add once it outlasts the timeout", async () => {
+			answerExec(() => ({
+				error: Object.assign(new Error("Command failed"), { killed: true }),
+				stdout: "Downloading test-owner/test-test-ext@1.1.0\n",
+			}));
+
+			const result = await applyUpdates([createUpdate()], { timeoutMs: 90000 });
+
+			expect(mockExecFile).toHaveBeenCalledWith(
+				"quarto",
+				expect.any(Array),
+				expect.objectContaining({ timeout: 90000 }),
+				expect.any(Function),
+			);
+			expect(result.skippedUpdates[0].reason).toBe(
+				"Failed to update: quarto add test-owner/test-test-ext@1.1.0 --no-prompt timed out after 90 s\n" +
+					"Downloading test-owner/test-test-ext@1.1.0",
+			);
+		});
+
+		it("should skip the remaining updates once cancelled", async () => {
+			const controller = new AbortController();
+			answerExec(() => {
+				controller.abort();
+				return { error: Object.assign(new Error("The operation was aborted"), { name: "AbortError" }) };
+			});
+
+			const result = await applyUpdates([createUpdate("ext1"), createUpdate("ext2")], { signal: controller.signal });
+
+			expect(mockExecFile).toHaveBeenCalledTimes(1);
+			expect(result.skippedUpdates.map((skipped) => skipped.reason)).toEqual([
+				"Failed to update: Cancelled",
+				"Failed to update: Cancelled before installing",
+			]);
+		});
+
+		it("should install into different projects in parallel, and into one project in turn", async () => {
+			const inProject = (project: string, name: string): ExtensionUpdate => ({
+				...createUpdate(name),
+				manifestPath: `/workspace/${project}/_extensions/test-owner/${name}/_extension.yml`,
+			});
+			const updates = [inProject("docs", "ext1"), inProject("docs", "ext2"), inProject("slides", "ext3")];
+
+			const result = await applyUpdates(updates, { concurrency: 2 });
+
+			expect(mockExecFile.mock.calls.map(([, args]) => (args as string[])[1])).toEqual([
+				"test-owner/test-ext1@1.1.0",
+				"test-owner/test-ext3@1.1.0",
+				"test-owner/test-ext2@1.1.0",
+			]);
+			expect(result.modifiedFiles[0]).toBe("/workspace/docs/_extensions/test-owner/ext1/_extension.yml");
+			expect(result.modifiedFiles.at(-1)).toBe("/workspace/slides/_extensions/test-owner/ext3/extension.lua");
+		});
+
+		describe("with the built-in installer", () => {
+			beforeEach(() => {
+				mockInstallExtension.mockResolvedValue(undefined);
+			});
+
+			it("should install from the release archive without running quarto add", async () => {
+				const update = createUpdate();
+
+				const result = await applyUpdates([update], { installer: "builtin" });
+
+				expect(mockInstallExtension).toHaveBeenCalledWith(
+					"test-owner/test-test-ext",
+					"1.1.0",
+					"/path/to/test-ext",
+					undefined,
+					expect.any(AbortSignal),
+					expect.anything(),
+				);
+				expect(mockExecFile).not.toHaveBeenCalled();
+				expect(result.modifiedFiles.length).toBeGreaterThan(0);
+				expect(result.skippedUpdates).toEqual([]);
+			});
+
+			it("should install without Quarto", async () => {
+				mockExecFileSync.mockImplementation(() => {
+					throw new Error("Command not found");
+				});
+
+				const result = await applyUpdates([createUpdate()], { installer: "builtin" });
+
+				expect(result.skippedUpdates).toEqual([]);
+				expect(mockExecFileSync).not.toHaveBeenCalled();
+				expect(core.error).not.toHaveBeenCalled();
+			});
+
+			it("should skip an update whose install outlasts the timeout", async () => {
+				mockInstallExtension.mockImplementation(
+					(_repository, _ref, _extensionDir, _fetchArchive, signal) =>
+						new Promise((_resolve, reject) => signal?.addEventListener("abort", () => reject(signal.reason))),
+				);
+
+				const result = await applyUpdates([createUpdate()], { installer: "builtin", timeoutMs: 10 });
+
+				expect(result.skippedUpdates[0].reason).toBe(
+					"Failed to update: Installing test-owner/test-test-ext@1.1.0 timed out after 0.01 s",
+				);
+			});
+
+			it("should stop the install when the signal aborts", async () => {
+				const controller = new AbortController();
+				mockInstallExtension.mockImplementation(async (_repository, _ref, _extensionDir, _fetchArchive, signal) => {
+					controller.abort();
+					signal?.throwIfAborted();
+				});
+
+				const result = await applyUpdates([createUpdate()], { installer: "builtin", signal: controller.signal });
+
+				expect(result.skippedUpdates[0].reason).toBe("Failed to update: Cancelled");
+			});
+
+			it("should skip an update whose archive cannot be installed", async () => {
+				mockInstallExtension.mockRejectedValue(
+					new Error("Failed to download test-owner/test-test-ext@1.1.0: HTTP 404"),
+				);
+
+				const result = await applyUpdates([createUpdate()], { installer: "builtin" });
+
+				expect(result.modifiedFiles).toEqual([]);
+				expect(result.skippedUpdates[0].reason).toBe(
+					"Failed to update: Failed to download test-owner/test-test-ext@1.1.0: HTTP 404",
+				);
 			});
 		});
 	});
 
+	describe("getGitFileMode", () => {
+		it("should read the mode git stores from the filesystem", () => {
+			mockFs.lstatSync.mockReturnValueOnce(regularFile);
+			mockFs.lstatSync.mockReturnValueOnce(executableFile);
+			mockFs.lstatSync.mockReturnValueOnce({ mode: 0o100744, isSymbolicLink: () => false } as Stats);
+			mockFs.lstatSync.mockReturnValueOnce(symbolicLink);
+
+			expect(getGitFileMode("style.css")).toBe("100644");
+			expect(getGitFileMode("run.sh")).toBe("100755");
+			expect(getGitFileMode("owner-only.sh")).toBe("100755");
+			expect(getGitFileMode("latest.lua")).toBe("120000");
+		});
+	});
+
+	describe("readGitFileContent", () => {
+		it("should read the target of a symbolic link and the content of a file", () => {
+			mockFs.readlinkSync.mockReturnValue("filter.lua");
+			mockFs.readFileSync.mockReturnValue(Buffer.from("return {}"));
+
+			expect(readGitFileContent("latest.lua", "120000")).toEqual(Buffer.from("filter.lua"));
+			expect(readGitFileContent("filter.lua", "100644")).toEqual(Buffer.from("return {}"));
+			expect(mockFs.readFileSync).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe("deriveQuartoAddCwd", () => {
 		it("should return parent directory of _extensions", () => {
 			const result = deriveQuartoAddCwd("/workspace/_extensions/owner/ext/_extension.yml");
@@ -370,6 +652,13 @@ describe("git.ts", () => {
 			expect(result).toBe("deps/quarto/update-mcanouil-iconify-1.2.3");
 		});
 
+		it("should create a stable branch name for a named group", () => {
+			const updates = [createUpdate("owner1", "ext1", "1.0.0"), createUpdate("owner2", "ext2", "2.0.0")];
+
+			expect(createBranchName(updates, "deps/quarto", "docs")).toBe("deps/quarto/update-group-docs");
+			expect(createBranchName([updates[0]], undefined, "docs")).toBe("chore/quarto-extensions/update-group-docs");
+		});
+
 		it("should create branch name for multiple extensions with timestamp", () => {
 			const updates = [createUpdate("owner1", "ext1", "1.0.0"), createUpdate("owner2", "ext2", "2.0.0")];
 
@@ -396,6 +685,44 @@ describe("git.ts", () => {
 		});
 	});
 
+	describe("getBranchSafeName", () => {
+		it("should join owner and name with a hyphen", () => {
+			expect(getBranchSafeName("mcanouil/iconify")).toBe("mcanouil-iconify");
+		});
+	});
+
+	describe("parseExtensionBranchName", () => {
+		it("should round-trip a single-extension branch name", () => {
+			const update = createMockUpdate("quarto-ext/fancy-text", "1.0.0", "1.2.3-beta.1");
+
+			expect(parseExtensionBranchName(createBranchName([update], "deps/quarto"), "deps/quarto")).toEqual({
+				extension: "quarto-ext-fancy-text",
+				version: "1.2.3-beta.1",
+			});
+		});
+
+		it("should read the abbreviated SHA of a branch for an extension tracked by commit", () => {
+			const update = createMockUpdate("quarto-ext/fancy-text", "0123abc", "def4567");
+
+			expect(parseExtensionBranchName(createBranchName([update]))).toEqual({
+				extension: "quarto-ext-fancy-text",
+				version: "def4567",
+			});
+		});
+
+		it("should return null for grouped and foreign branches", () => {
+			expect(parseExtensionBranchName("chore/quarto-extensions/update-extensions-20260101")).toBeNull();
+			expect(parseExtensionBranchName("feature/update-mcanouil-iconify-1.0.0")).toBeNull();
+		});
+
+		it("should fall back to the default prefix when empty", () => {
+			expect(parseExtensionBranchName("chore/quarto-extensions/update-mcanouil-iconify-v1.0.0", "")).toEqual({
+				extension: "mcanouil-iconify",
+				version: "v1.0.0",
+			});
+		});
+	});
+
 	describe("createCommitMessage", () => {
 		const createUpdate = (owner: string, name: string, current: string, latest: string): ExtensionUpdate => ({
 			name,
@@ -420,6 +747,25 @@ describe("git.ts", () => {
 			expect(result).toContain("Release notes: https://github.com/mcanouil/iconify/releases/tag/v1.2.3");
 		});
 
+		it("should link the compared commits for a commit update", () => {
+			const update: ExtensionUpdate = {
+				...createUpdate("mcanouil", "iconify", "3f2a1b9", "9c8d7e6"),
+				commit: {
+					branch: "main",
+					currentSha: "3f2a1b9",
+					latestSha: "9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d",
+					compareUrl: "https://github.com/mcanouil/iconify/compare/3f2a1b9...9c8d7e6",
+					commits: [],
+					totalCommits: 2,
+				},
+			};
+
+			const result = createCommitMessage([update]);
+
+			expect(result).toContain("Updates mcanouil/iconify from 3f2a1b9 to 9c8d7e6, the latest commit on main.");
+			expect(result).toContain("Changes: https://github.com/mcanouil/iconify/compare/3f2a1b9...9c8d7e6");
+		});
+
 		it("should use custom prefix", () => {
 			const updates = [createUpdate("mcanouil", "iconify", "1.0.0", "1.2.3")];
 
@@ -429,6 +775,16 @@ describe("git.ts", () => {
 			expect(result.startsWith("build(deps):")).toBe(true);
 		});
 
+		it("should name the group in the commit message of a named group", () => {
+			const updates = [createUpdate("quarto-ext", "lightbox", "1.0.0", "1.0.1")];
+
+			const result = createCommitMessage(updates, "chore(deps):", "quarto-ext");
+
+			expect(result).toBe(
+				"chore(deps): update quarto-ext group of Quarto extensions\n\n- quarto-ext/lightbox: 1.0.0 → 1.0.1",
+			);
+		});
+
 		it("should create commit message for multiple extensions", () => {
 			const updates = [
 				createUpdate("owner1", "ext1", "1.0.0", "1.1.0"),
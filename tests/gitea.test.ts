@@ -0,0 +1,333 @@
+import { jest } from "@jest/globals";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { createMockActionsCore, createMockUpdate } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const { createGiteaHost } = await import("../src/gitea.js");
+const { closeSupersededPRs, createOrUpdateBranch, createOrUpdatePR } = await import("../src/github.js");
+const { enableAutoMerge } = await import("../src/automerge.js");
+const { GitHostAPIError } = await import("../src/errors.js");
+const { createMemoryLogger } = await import("../src/logger.js");
+
+interface StubResponse {
+	status?: number;
+	body?: unknown;
+	headers?: Record<string, string>;
+}
+
+interface RecordedRequest {
+	method: string;
+	url: string;
+	authorization: string | undefined;
+	body: unknown;
+}
+
+const REPO = "/api/v1/repos/owner/repo";
+
+describe("createGiteaHost", () => {
+	let server: http.Server;
+	let apiUrl: string;
+	let routes: Record<string, StubResponse | StubResponse[]>;
+	let requests: RecordedRequest[];
+
+	const answer = (route: string): StubResponse => {
+		const response = routes[route];
+		if (Array.isArray(response)) {
+			return response.length > 1 ? response.shift()! : response[0];
+		}
+		return response ?? { status: 404, body: { message: "The target couldn't be found." } };
+	};
+
+	// A local Gitea API stub: answers each "METHOD /path" route with its canned response, or 404,
+	// and records every request
+	beforeAll(async () => {
+		server = http.createServer((req, res) => {
+			let data = "";
+			req.on("data", (chunk) => (data += chunk));
+			req.on("end", () => {
+				requests.push({
+					method: req.method ?? "",
+					url: req.url ?? "",
+					authorization: req.headers.authorization,
+					body: data ? JSON.parse(data) : undefined,
+				});
+				const { status = 200, body, headers } = answer(`${req.method} ${req.url}`);
+				res.writeHead(status, { "Content-Type": "application/json", ...headers });
+				res.end(body === undefined ? "" : JSON.stringify(body));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		routes = {};
+		requests = [];
+	});
+
+	const createHost = () => createGiteaHost({ repository: "owner/repo", token: "gitea-token", apiUrl });
+
+	const pullRequest = (number: number, branch: string, headRepoId = 1) => ({
+		number,
+		html_url: `https://gitea.example.com/owner/repo/pulls/${number}`,
+		title: `Update ${branch}`,
+		body: "PR body",
+		head: { ref: branch, sha: "head-sha", repo_id: headRepoId },
+		base: { repo_id: 1 },
+		labels: [{ name: "dependencies" }],
+		mergeable: true,
+		user: { login: "bot" },
+	});
+
+	it("should authenticate with the token and read branches", async () => {
+		routes[`GET ${REPO}/branches/main`] = { body: { commit: { id: "base-sha" } } };
+
+		const host = createHost();
+
+		expect(host.name).toBe("Gitea");
+		expect(host.pullRequestPrefix).toBe("#");
+		await expect(host.getBranchSha("main")).resolves.toBe("base-sha");
+		expect(requests[0].authorization).toBe("token gitea-token");
+	});
+
+	it("should create a branch, or force-update it in place when it exists", async () => {
+		routes[`POST ${REPO}/branches`] = { status: 409, body: { message: "The branch already exists." } };
+		routes[`PUT ${REPO}/branches/update/branch`] = { status: 204 };
+
+		await createOrUpdateBranch(createHost(), "update/branch", "base-sha", createMemoryLogger());
+
+		expect(requests[0].body).toEqual({ new_branch_name: "update/branch", old_ref_name: "base-sha" });
+		expect(requests[1]).toMatchObject({ method: "PUT", body: { new_commit_id: "base-sha", force: true } });
+	});
+
+	it("should commit created, updated, and deleted files with their blob SHAs", async () => {
+		routes[`GET ${REPO}/contents/_extensions/owner/ext/_extension.yml?ref=base-sha`] = { body: { sha: "yml-blob" } };
+		routes[`GET ${REPO}/contents/_extensions/owner/ext/old.lua?ref=base-sha`] = { body: { sha: "old-blob" } };
+		routes[`POST ${REPO}/contents`] = { status: 201, body: { commit: { sha: "commit-sha" } } };
+
+		const sha = await createHost().createCommit(
+			"update/branch",
+			"base-sha",
+			"Update ext",
+			[
+				{ path: "_extensions/owner/ext/_extension.yml", content: Buffer.from("version: 1.1.0") },
+				{ path: "_extensions/owner/ext/new.lua", content: Buffer.from("return {}") },
+			],
+			["_extensions/owner/ext/old.lua"],
+		);
+
+		expect(sha).toBe("commit-sha");
+		expect(requests.at(-1)?.body).toEqual({
+			branch: "update/branch",
+			message: "Update ext",
+			files: [
+				{
+					operation: "update",
+					path: "_extensions/owner/ext/_extension.yml",
+					content: Buffer.from("version: 1.1.0").toString("base64"),
+					sha: "yml-blob",
+				},
+				{
+					operation: "create",
+					path: "_extensions/owner/ext/new.lua",
+					content: Buffer.from("return {}").toString("base64"),
+				},
+				{ operation: "delete", path: "_extensions/owner/ext/old.lua", sha: "old-blob" },
+			],
+		});
+	});
+
+	it("should commit executable files and symbolic links as regular files, which is all the contents API writes", async () => {
+		routes[`POST ${REPO}/contents`] = { status: 201, body: { commit: { sha: "commit-sha" } } };
+		const logger = createMemoryLogger();
+		const host = createGiteaHost({ repository: "owner/repo", token: "gitea-token", apiUrl, logger });
+
+		const sha = await host.createCommit(
+			"update/branch",
+			"base-sha",
+			"Update ext",
+			[
+				{ path: "run.sh", content: Buffer.from("#!/bin/sh"), mode: "100755" },
+				{ path: "latest.lua", content: Buffer.from("filter.lua"), mode: "120000" },
+				{ path: "filter.lua", content: Buffer.from("return {}"), mode: "100644" },
+			],
+			[],
+		);
+
+		expect(sha).toBe("commit-sha");
+		expect((requests.at(-1)?.body as { files: { path: string }[] }).files.map((file) => file.path)).toEqual([
+			"run.sh",
+			"latest.lua",
+			"filter.lua",
+		]);
+		expect(logger.entries.filter((entry) => entry.level === "warning").map((entry) => entry.message)).toEqual([
+			"Gitea cannot commit executable files or symbolic links through its API: run.sh is committed as a regular file. " +
+				"Use commit-mode: git to keep its mode",
+			"Gitea cannot commit executable files or symbolic links through its API: latest.lua is committed as a regular file. " +
+				"Use commit-mode: git to keep its mode",
+		]);
+	});
+
+	it("should list the open pull requests of every page, past the page size the instance caps", async () => {
+		const list = `${REPO}/pulls?state=open&limit=100`;
+		routes[`GET ${list}&page=1`] = {
+			body: [pullRequest(5, "update/a")],
+			headers: { Link: `<https://gitea.example.com${list}&page=2>; rel="next"` },
+		};
+		routes[`GET ${list}&page=2`] = {
+			body: [pullRequest(6, "update/b")],
+			headers: {
+				Link: `<https://gitea.example.com${list}&page=1>; rel="prev", <https://gitea.example.com${list}&page=1>; rel="first"`,
+			},
+		};
+
+		const pullRequests = await createHost().listOpenPullRequests();
+
+		expect(pullRequests.map((pr) => pr.number)).toEqual([5, 6]);
+		expect(requests.map((request) => request.url)).toEqual([`${list}&page=1`, `${list}&page=2`]);
+	});
+
+	it("should find the open pull request from a branch of the repository, not from a fork", async () => {
+		routes[`GET ${REPO}/pulls?state=open&limit=100&page=1`] = {
+			body: [pullRequest(6, "update/branch", 2), pullRequest(5, "update/branch")],
+		};
+		const host = createHost();
+
+		await expect(host.findOpenPullRequest("update/branch")).resolves.toEqual({
+			number: 5,
+			url: "https://gitea.example.com/owner/repo/pulls/5",
+			title: "Update update/branch",
+			body: "PR body",
+			branchName: "update/branch",
+			fromSameRepository: true,
+			labels: ["dependencies"],
+		});
+		await expect(host.findOpenPullRequest("other")).resolves.toBeNull();
+	});
+
+	it("should compare the head of a pull request with the base commit", async () => {
+		routes[`GET ${REPO}/pulls/5`] = { body: { ...pullRequest(5, "update/branch"), mergeable: false } };
+		routes[`GET ${REPO}/compare/base-sha...head-sha`] = {
+			body: {
+				total_commits: 2,
+				commits: [
+					{ sha: "bot-sha", author: { login: "bot" } },
+					{ sha: "human-sha", author: { login: "someone" } },
+				],
+			},
+		};
+		routes[`GET ${REPO}/compare/head-sha...base-sha`] = { body: { total_commits: 3, commits: [] } };
+
+		const status = await createHost().getBranchStatus(5, "update/branch", "base-sha");
+
+		expect(status).toEqual({ behindBy: 3, conflicting: true, foreignCommits: ["human-sha"] });
+	});
+
+	it("should schedule auto-merge, treating an already scheduled merge as done", async () => {
+		routes[`POST ${REPO}/pulls/5/merge`] = [
+			{ status: 200 },
+			{ status: 409, body: { message: "pull request is already scheduled to auto merge" } },
+		];
+		const host = createHost();
+
+		await host.enableAutoMerge(5, "squash");
+		await host.enableAutoMerge(5, "squash");
+
+		expect(requests[0].body).toEqual({ Do: "squash", merge_when_checks_succeed: true });
+	});
+
+	it("should read whether a merge is scheduled from the last scheduling event of the timeline", async () => {
+		const timeline = `${REPO}/issues/5/timeline?limit=50`;
+		routes[`GET ${timeline}&page=1`] = {
+			body: [{ type: "comment" }, { type: "pull_scheduled_merge" }],
+			headers: { Link: `<https://gitea.example.com${timeline}&page=2>; rel="next"` },
+		};
+		routes[`GET ${timeline}&page=2`] = { body: [{ type: "pull_cancel_scheduled_merge" }, { type: "label" }] };
+		routes[`GET ${REPO}/issues/6/timeline?limit=50&page=1`] = {
+			body: [{ type: "pull_cancel_scheduled_merge" }, { type: "pull_scheduled_merge" }],
+		};
+		routes[`GET ${REPO}/issues/7/timeline?limit=50&page=1`] = { body: [{ type: "comment" }] };
+		const host = createHost();
+
+		await expect(host.isAutoMergeEnabled(5)).resolves.toBe(false);
+		await expect(host.isAutoMergeEnabled(6)).resolves.toBe(true);
+		await expect(host.isAutoMergeEnabled(7)).resolves.toBe(false);
+	});
+
+	it("should report an instance without auto-merge as a warning", async () => {
+		routes[`POST ${REPO}/pulls/5/merge`] = { status: 405, body: { message: "Method Not Allowed" } };
+		const logger = createMemoryLogger();
+
+		await enableAutoMerge(createHost(), 5, "merge", logger);
+
+		expect(logger.entries).toContainEqual(
+			expect.objectContaining({ level: "warning", message: expect.stringContaining("status 405") }),
+		);
+	});
+
+	it("should report API errors with the status", async () => {
+		routes[`POST ${REPO}/issues`] = { status: 403, body: { message: "token does not have required scope" } };
+
+		const error = await createHost()
+			.createIssue("Updates", "Body")
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(GitHostAPIError);
+		expect(error).toMatchObject({ host: "Gitea", operation: "createIssue", statusCode: 403 });
+	});
+
+	describe("through the PR pipeline", () => {
+		it("should open a pull request with labels, reviewers, and assignees", async () => {
+			routes[`POST ${REPO}/pulls`] = { status: 201, body: pullRequest(7, "update/branch") };
+			routes[`PUT ${REPO}/issues/7/labels`] = { body: [] };
+			routes[`POST ${REPO}/pulls/7/requested_reviewers`] = { status: 201, body: [] };
+			routes[`GET ${REPO}/issues/7`] = { body: { assignees: [{ login: "carol" }] } };
+			routes[`PATCH ${REPO}/issues/7`] = { status: 201, body: {} };
+
+			const pr = await createOrUpdatePR(
+				createHost(),
+				"update/branch",
+				"main",
+				"Update ext",
+				"PR body",
+				["dependencies", "quarto"],
+				{ reviewers: ["alice"], teamReviewers: ["docs"], assignees: ["bob"] },
+				undefined,
+				createMemoryLogger(),
+			);
+
+			expect(pr).toEqual({ number: 7, url: "https://gitea.example.com/owner/repo/pulls/7" });
+			expect(requests[0].body).toEqual({ head: "update/branch", base: "main", title: "Update ext", body: "PR body" });
+			expect(requests[1].body).toEqual({ labels: ["dependencies", "quarto"] });
+			expect(requests[2].body).toEqual({ reviewers: ["alice"], team_reviewers: ["docs"] });
+			expect(requests.at(-1)?.body).toEqual({ assignees: ["carol", "bob"] });
+		});
+
+		it("should close superseded pull requests with a comment", async () => {
+			routes[`GET ${REPO}/pulls?state=open&limit=100&page=1`] = {
+				body: [pullRequest(3, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0")],
+			};
+			routes[`POST ${REPO}/issues/3/comments`] = { status: 201, body: {} };
+			routes[`PATCH ${REPO}/pulls/3`] = { status: 201, body: {} };
+			routes[`DELETE ${REPO}/branches/chore/quarto-extensions/update-mcanouil-iconify-1.1.0`] = { status: 204 };
+
+			const closed = await closeSupersededPRs(
+				createHost(),
+				createMockUpdate("mcanouil/iconify", "1.0.0", "1.2.0"),
+				"chore/quarto-extensions",
+				8,
+				createMemoryLogger(),
+			);
+
+			expect(closed).toEqual([3]);
+			expect(requests[1].body).toEqual({ body: "Superseded by #8, which updates mcanouil/iconify to 1.2.0." });
+			expect(requests[2].body).toEqual({ state: "closed" });
+		});
+	});
+});
@@ -1,5 +1,6 @@
 import { jest } from "@jest/globals";
 import type { PRAssignmentConfig, ExtensionUpdate, AutoMergeConfig, ExtensionFilterConfig } from "../src/types.js";
+import type { OctokitClient } from "../src/github.js";
 import { createMockUpdate, createMockActionsCore } from "./__test-utils__/mockFactories.js";
 
 jest.unstable_mockModule("@actions/core", createMockActionsCore);
@@ -8,11 +9,14 @@ const core = await import("@actions/core");
 const { HTTP_UNPROCESSABLE_ENTITY } = await import("../src/constants.js");
 const {
 	checkExistingPR,
+	closeSupersededPRs,
+	closeObsoletePRs,
 	createOrUpdateBranch,
 	createOrUpdatePR,
-	createCommit,
 	requestReviewersAndAssignees,
 	createIssueForUpdates,
+	listOpenUpdaterPRs,
+	createGitHubHost,
 } = await import("../src/github.js");
 
 // Define mock Octokit type
@@ -25,23 +29,31 @@ interface MockOctokit {
 			createBlob: jest.Mock;
 			createTree: jest.Mock;
 			createCommit: jest.Mock;
+			deleteRef: jest.Mock;
 		};
 		pulls: {
 			list: jest.Mock;
 			create: jest.Mock;
 			update: jest.Mock;
+			get: jest.Mock;
 			requestReviewers: jest.Mock;
 		};
+		repos: {
+			compareCommits: jest.Mock;
+		};
 		issues: {
 			setLabels: jest.Mock;
 			addAssignees: jest.Mock;
 			create: jest.Mock;
+			createComment: jest.Mock;
 		};
 	};
+	paginate: jest.Mock;
 }
 
 describe("github.ts", () => {
 	let mockOctokit: MockOctokit;
+	let host: ReturnType<typeof createGitHubHost>;
 
 	beforeEach(() => {
 		jest.clearAllMocks();
@@ -56,20 +68,31 @@ describe("github.ts", () => {
 					createBlob: jest.fn(),
 					createTree: jest.fn(),
 					createCommit: jest.fn(),
+					deleteRef: jest.fn(),
 				},
 				pulls: {
 					list: jest.fn(),
 					create: jest.fn(),
 					update: jest.fn(),
+					get: jest.fn(),
 					requestReviewers: jest.fn(),
 				},
+				repos: {
+					compareCommits: jest.fn(),
+				},
 				issues: {
 					setLabels: jest.fn(),
 					addAssignees: jest.fn(),
 					create: jest.fn(),
+					createComment: jest.fn(),
 				},
 			},
+			// Every page at once, as the mocked list method answers
+			paginate: jest.fn(
+				async (method: jest.Mock, params: unknown) => ((await method(params)) as { data: unknown[] }).data,
+			),
 		};
+		host = createGitHubHost(mockOctokit as unknown as OctokitClient, "owner", "repo");
 	});
 
 	describe("checkExistingPR", () => {
@@ -80,14 +103,13 @@ describe("github.ts", () => {
 						number: 42,
 						title: "chore(deps): update quarto-revealjs-codefocus to 1.0.0",
 						html_url: "https://github.com/owner/repo/pull/42",
+						head: { ref: "chore/quarto-extensions/revealjs-codefocus", repo: { full_name: "owner/repo" } },
 					},
 				],
 			});
 
 			const result = await checkExistingPR(
-				mockOctokit as any,
-				"owner",
-				"repo",
+				host,
 				"chore/quarto-extensions/revealjs-codefocus",
 				"chore(deps): update quarto-revealjs-codefocus to 1.0.0",
 			);
@@ -106,14 +128,13 @@ describe("github.ts", () => {
 						number: 42,
 						title: "chore(deps): update quarto-revealjs-codefocus to 0.9.0",
 						html_url: "https://github.com/owner/repo/pull/42",
+						head: { ref: "chore/quarto-extensions/revealjs-codefocus", repo: { full_name: "owner/repo" } },
 					},
 				],
 			});
 
 			const result = await checkExistingPR(
-				mockOctokit as any,
-				"owner",
-				"repo",
+				host,
 				"chore/quarto-extensions/revealjs-codefocus",
 				"chore(deps): update quarto-revealjs-codefocus to 1.0.0",
 			);
@@ -129,9 +150,7 @@ describe("github.ts", () => {
 			});
 
 			const result = await checkExistingPR(
-				mockOctokit as any,
-				"owner",
-				"repo",
+				host,
 				"chore/quarto-extensions/revealjs-codefocus",
 				"chore(deps): update quarto-revealjs-codefocus to 1.0.0",
 			);
@@ -149,9 +168,7 @@ describe("github.ts", () => {
 			const mockCore = core as jest.Mocked<typeof core>;
 
 			const result = await checkExistingPR(
-				mockOctokit as any,
-				"owner",
-				"repo",
+				host,
 				"chore/quarto-extensions/revealjs-codefocus",
 				"chore(deps): update quarto-revealjs-codefocus to 1.0.0",
 			);
@@ -171,9 +188,7 @@ describe("github.ts", () => {
 
 			await expect(
 				checkExistingPR(
-					mockOctokit as any,
-					"owner",
-					"repo",
+					host,
 					"chore/quarto-extensions/revealjs-codefocus",
 					"chore(deps): update quarto-revealjs-codefocus to 1.0.0",
 				),
@@ -183,11 +198,367 @@ describe("github.ts", () => {
 		});
 	});
 
+	describe("closeSupersededPRs", () => {
+		const update = createMockUpdate("mcanouil/iconify", "1.0.0", "1.2.0");
+		const openPR = (number: number, ref: string, fullName = "owner/repo") => ({
+			number,
+			head: { ref, repo: { full_name: fullName } },
+		});
+
+		beforeEach(() => {
+			mockOctokit.rest.issues.createComment.mockResolvedValue({});
+			mockOctokit.rest.pulls.update.mockResolvedValue({});
+			mockOctokit.rest.git.deleteRef.mockResolvedValue({});
+		});
+
+		it("should comment on, close, and delete the branch of PRs for older versions", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(10, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0"),
+					openPR(11, "chore/quarto-extensions/update-mcanouil-iconify-1.2.0"),
+				],
+			});
+
+			const closed = await closeSupersededPRs(host, update, "chore/quarto-extensions", 11);
+
+			expect(closed).toEqual([10]);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith({
+				owner: "owner",
+				repo: "repo",
+				issue_number: 10,
+				body: "Superseded by #11, which updates mcanouil/iconify to 1.2.0.",
+			});
+			expect(mockOctokit.rest.pulls.update).toHaveBeenCalledWith({
+				owner: "owner",
+				repo: "repo",
+				pull_number: 10,
+				state: "closed",
+			});
+			expect(mockOctokit.rest.git.deleteRef).toHaveBeenCalledWith({
+				owner: "owner",
+				repo: "repo",
+				ref: "heads/chore/quarto-extensions/update-mcanouil-iconify-1.1.0",
+			});
+		});
+
+		it("should leave other extensions, newer versions, and forks alone", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(20, "chore/quarto-extensions/update-mcanouil-iconify-extra-1.0.0"),
+					openPR(21, "chore/quarto-extensions/update-mcanouil-iconify-1.3.0"),
+					openPR(22, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0", "someone/repo"),
+					openPR(23, "feature/update-mcanouil-iconify-1.1.0"),
+				],
+			});
+
+			const closed = await closeSupersededPRs(host, update, "chore/quarto-extensions", 11);
+
+			expect(closed).toEqual([]);
+			expect(mockOctokit.rest.pulls.update).not.toHaveBeenCalled();
+		});
+
+		it("should leave a PR for another extension sharing the branch name, as its body records", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					{
+						...openPR(20, "chore/quarto-extensions/update-a-b-c-1.1.0"),
+						body: "<!-- quarto-extensions-updater-group: a-b/c@1.1.0 -->",
+					},
+				],
+			});
+
+			const closed = await closeSupersededPRs(
+				host,
+				createMockUpdate("a/b-c", "1.0.0", "1.2.0"),
+				"chore/quarto-extensions",
+				11,
+			);
+
+			expect(closed).toEqual([]);
+		});
+
+		it("should close a PR for the same version once a group PR carries it", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(10, "chore/quarto-extensions/update-mcanouil-iconify-1.2.0"),
+					openPR(30, "chore/quarto-extensions/update-group-docs"),
+				],
+			});
+
+			const closed = await closeSupersededPRs(host, update, "chore/quarto-extensions", 30);
+
+			expect(closed).toEqual([10]);
+		});
+
+		it("should close PRs to other commits of an extension tracked by commit", async () => {
+			const commitUpdate = {
+				...createMockUpdate("mcanouil/iconify", "0123abc", "def4567"),
+				commit: { branch: "main", latestSha: "def4567".padEnd(40, "0"), commits: [], totalCommits: 2 },
+			};
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(10, "chore/quarto-extensions/update-mcanouil-iconify-4567abc"),
+					openPR(11, "chore/quarto-extensions/update-mcanouil-iconify-def4567"),
+					openPR(12, "chore/quarto-extensions/update-quarto-ext-lightbox-4567abc"),
+				],
+			});
+
+			const closed = await closeSupersededPRs(host, commitUpdate, "chore/quarto-extensions", 11);
+
+			expect(closed).toEqual([10]);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({ body: "Superseded by #11, which updates mcanouil/iconify to def4567." }),
+			);
+		});
+
+		it("should warn and carry on when closing a PR fails", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(10, "chore/quarto-extensions/update-mcanouil-iconify-1.0.1"),
+					openPR(12, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0"),
+				],
+			});
+			mockOctokit.rest.pulls.update.mockRejectedValueOnce(new Error("Forbidden"));
+
+			const closed = await closeSupersededPRs(host, update, "chore/quarto-extensions", 11);
+
+			expect(closed).toEqual([12]);
+			expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Failed to close PR #10"));
+		});
+
+		it("should warn when open PRs cannot be listed", async () => {
+			mockOctokit.rest.pulls.list.mockRejectedValue(new Error("API error"));
+
+			const closed = await closeSupersededPRs(host, update, "chore/quarto-extensions", 11);
+
+			expect(closed).toEqual([]);
+			expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Failed to list open PRs"));
+		});
+	});
+
+	describe("closeObsoletePRs", () => {
+		const openPR = (number: number, ref: string) => ({
+			number,
+			head: { ref, repo: { full_name: "owner/repo" } },
+		});
+
+		beforeEach(() => {
+			mockOctokit.rest.issues.createComment.mockResolvedValue({});
+			mockOctokit.rest.pulls.update.mockResolvedValue({});
+			mockOctokit.rest.git.deleteRef.mockResolvedValue({});
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(1, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0"),
+					openPR(2, "chore/quarto-extensions/update-quarto-ext-lightbox-0.2.0"),
+					openPR(3, "chore/quarto-extensions/update-quarto-ext-fancy-text-2.0.0"),
+					openPR(4, "chore/quarto-extensions/update-owner-still-needed-1.1.0"),
+					openPR(5, "chore/quarto-extensions/update-extensions-20260101"),
+				],
+			});
+		});
+
+		it("should close PRs that are installed already, removed, or filtered out, with a reason", async () => {
+			const closed = await closeObsoletePRs(host, "chore/quarto-extensions", "main", [
+				{ nameWithOwner: "mcanouil/iconify", version: "1.1.0", excluded: false },
+				{ nameWithOwner: "quarto-ext/fancy-text", version: "1.0.0", excluded: true },
+				{ nameWithOwner: "owner/still-needed", version: "1.0.0", excluded: false },
+			]);
+
+			expect(closed).toEqual([1, 2, 3]);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({
+					issue_number: 1,
+					body: "Closing this pull request as it is no longer needed: mcanouil/iconify is already at 1.1.0 on main.",
+				}),
+			);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({
+					issue_number: 2,
+					body: "Closing this pull request as it is no longer needed: the extension is no longer installed on main.",
+				}),
+			);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({
+					issue_number: 3,
+					body: expect.stringContaining("quarto-ext/fancy-text is now left out by the include-extensions"),
+				}),
+			);
+			expect(mockOctokit.rest.git.deleteRef).toHaveBeenCalledWith({
+				owner: "owner",
+				repo: "repo",
+				ref: "heads/chore/quarto-extensions/update-quarto-ext-lightbox-0.2.0",
+			});
+		});
+
+		it("should close a PR to a commit once the manifest source is pinned to it", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(8, "chore/quarto-extensions/update-mcanouil-iconify-def4567"),
+					openPR(9, "chore/quarto-extensions/update-quarto-ext-lightbox-4567abc"),
+				],
+			});
+
+			const closed = await closeObsoletePRs(host, "chore/quarto-extensions", "main", [
+				{ nameWithOwner: "mcanouil/iconify", version: "1.0.0", sourceRef: "def4567".padEnd(40, "1"), excluded: false },
+				{ nameWithOwner: "quarto-ext/lightbox", version: "1.0.0", sourceRef: "0123abc", excluded: false },
+			]);
+
+			expect(closed).toEqual([8]);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({
+					issue_number: 8,
+					body: "Closing this pull request as it is no longer needed: mcanouil/iconify is already at def4567 on main.",
+				}),
+			);
+		});
+
+		it("should keep PRs that are still needed", async () => {
+			const closed = await closeObsoletePRs(host, "chore/quarto-extensions", "main", [
+				{ nameWithOwner: "mcanouil/iconify", version: "1.0.0", excluded: false },
+				{ nameWithOwner: "quarto-ext/lightbox", version: "v0.1.0", excluded: false },
+				{ nameWithOwner: "quarto-ext/fancy-text", version: "1.0.0", excluded: false },
+				{ nameWithOwner: "owner/still-needed", version: "1.0.0", excluded: false },
+			]);
+
+			expect(closed).toEqual([]);
+			expect(mockOctokit.rest.pulls.update).not.toHaveBeenCalled();
+		});
+
+		it("should match a PR on the owner/name its body records, not on the branch name", async () => {
+			// a-b/c and a/b-c share the branch name update-a-b-c
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					{
+						...openPR(6, "chore/quarto-extensions/update-a-b-c-1.1.0"),
+						body: "Updates a-b/c\n\n<!-- quarto-extensions-updater-group: a-b/c@1.1.0 -->",
+					},
+				],
+			});
+
+			const kept = await closeObsoletePRs(host, "chore/quarto-extensions", "main", [
+				{ nameWithOwner: "a-b/c", version: "1.0.0", excluded: false },
+				{ nameWithOwner: "a/b-c", version: "2.0.0", excluded: false },
+			]);
+			const closed = await closeObsoletePRs(host, "chore/quarto-extensions", "main", [
+				{ nameWithOwner: "a/b-c", version: "1.0.0", excluded: false },
+			]);
+
+			expect(kept).toEqual([]);
+			expect(closed).toEqual([6]);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({
+					body: "Closing this pull request as it is no longer needed: the extension is no longer installed on main.",
+				}),
+			);
+		});
+
+		it("should keep PRs whose extension is unknown: an ambiguous branch name or an unreadable manifest", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					openPR(6, "chore/quarto-extensions/update-a-b-c-1.1.0"),
+					openPR(7, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0"),
+				],
+			});
+
+			const closed = await closeObsoletePRs(host, "chore/quarto-extensions", "main", [
+				{ nameWithOwner: "a-b/c", version: "2.0.0", excluded: false },
+				{ nameWithOwner: "a/b-c", version: "2.0.0", excluded: false },
+				{ nameWithOwner: "mcanouil/iconify", excluded: false, unreadable: true },
+			]);
+
+			expect(closed).toEqual([]);
+			expect(mockOctokit.rest.pulls.update).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("listOpenUpdaterPRs", () => {
+		it("should count PRs from update branches and PRs carrying every updater label", async () => {
+			mockOctokit.rest.pulls.list.mockResolvedValue({
+				data: [
+					{
+						number: 1,
+						head: { ref: "chore/quarto-extensions/update-group-docs", repo: { full_name: "owner/repo" } },
+						labels: [],
+					},
+					{
+						number: 2,
+						head: { ref: "renamed-branch", repo: { full_name: "owner/repo" } },
+						labels: [{ name: "dependencies" }, { name: "quarto-extensions" }],
+					},
+					{
+						number: 3,
+						head: { ref: "dependabot/npm_and_yarn/semver-7.8.6", repo: { full_name: "owner/repo" } },
+						labels: [{ name: "dependencies" }],
+					},
+					{
+						number: 4,
+						head: { ref: "chore/quarto-extensions/update-owner-ext-1.0.1", repo: { full_name: "fork/repo" } },
+						labels: [],
+					},
+				],
+			});
+
+			const prs = await listOpenUpdaterPRs(host, "chore/quarto-extensions", ["dependencies", "quarto-extensions"]);
+
+			expect(prs).toEqual([
+				{ number: 1, branchName: "chore/quarto-extensions/update-group-docs" },
+				{ number: 2, branchName: "renamed-branch" },
+			]);
+			expect(mockOctokit.paginate).toHaveBeenCalledWith(mockOctokit.rest.pulls.list, {
+				owner: "owner",
+				repo: "repo",
+				state: "open",
+				per_page: 100,
+			});
+		});
+	});
+
+	describe("getBranchStatus", () => {
+		it("should report how far behind the branch is and which commits were pushed by someone else", async () => {
+			mockOctokit.rest.pulls.get.mockResolvedValue({
+				data: { user: { login: "github-actions[bot]" }, mergeable: false },
+			});
+			mockOctokit.rest.repos.compareCommits.mockResolvedValue({
+				data: {
+					behind_by: 4,
+					commits: [
+						{ sha: "bot-sha", author: { login: "github-actions[bot]" } },
+						{ sha: "human-sha", author: { login: "octocat" } },
+						{ sha: "unknown-sha", author: null },
+					],
+				},
+			});
+
+			const status = await host.getBranchStatus(7, "update-branch", "base-sha");
+
+			expect(mockOctokit.rest.repos.compareCommits).toHaveBeenCalledWith({
+				owner: "owner",
+				repo: "repo",
+				base: "base-sha",
+				head: "update-branch",
+			});
+			expect(status).toEqual({ behindBy: 4, conflicting: true, foreignCommits: ["human-sha", "unknown-sha"] });
+		});
+
+		it("should not report conflicts while mergeability is still being computed", async () => {
+			mockOctokit.rest.pulls.get.mockResolvedValue({
+				data: { user: { login: "github-actions[bot]" }, mergeable: null },
+			});
+			mockOctokit.rest.repos.compareCommits.mockResolvedValue({
+				data: { behind_by: 0, commits: [{ sha: "bot-sha", author: { login: "github-actions[bot]" } }] },
+			});
+
+			const status = await host.getBranchStatus(7, "update-branch", "base-sha");
+
+			expect(status).toEqual({ behindBy: 0, conflicting: false, foreignCommits: [] });
+		});
+	});
+
 	describe("createOrUpdateBranch", () => {
 		it("should create a new branch when it does not exist", async () => {
 			mockOctokit.rest.git.createRef.mockResolvedValue({ data: {} });
 
-			await createOrUpdateBranch(mockOctokit as any, "owner", "repo", "test-branch", "abc123");
+			await createOrUpdateBranch(host, "test-branch", "abc123");
 
 			expect(mockOctokit.rest.git.createRef).toHaveBeenCalledWith({
 				owner: "owner",
@@ -203,7 +574,7 @@ describe("github.ts", () => {
 			mockOctokit.rest.git.createRef.mockRejectedValue(error);
 			mockOctokit.rest.git.updateRef.mockResolvedValue({ data: {} });
 
-			await createOrUpdateBranch(mockOctokit as any, "owner", "repo", "test-branch", "abc123");
+			await createOrUpdateBranch(host, "test-branch", "abc123");
 
 			expect(mockOctokit.rest.git.updateRef).toHaveBeenCalledWith({
 				owner: "owner",
@@ -219,9 +590,7 @@ describe("github.ts", () => {
 			error.status = 500;
 			mockOctokit.rest.git.createRef.mockRejectedValue(error);
 
-			await expect(createOrUpdateBranch(mockOctokit as any, "owner", "repo", "test-branch", "abc123")).rejects.toThrow(
-				"Server error",
-			);
+			await expect(createOrUpdateBranch(host, "test-branch", "abc123")).rejects.toThrow("Server error");
 		});
 	});
 
@@ -237,7 +606,7 @@ describe("github.ts", () => {
 				assignees: ["user3"],
 			};
 
-			await requestReviewersAndAssignees(mockOctokit as any, "owner", "repo", 42, assignmentConfig);
+			await requestReviewersAndAssignees(host, 42, assignmentConfig);
 
 			expect(mockOctokit.rest.pulls.requestReviewers).toHaveBeenCalledWith({
 				owner: "owner",
@@ -267,7 +636,7 @@ describe("github.ts", () => {
 				assignees: [],
 			};
 
-			await requestReviewersAndAssignees(mockOctokit as any, "owner", "repo", 42, assignmentConfig);
+			await requestReviewersAndAssignees(host, 42, assignmentConfig);
 
 			expect(mockOctokit.rest.pulls.requestReviewers).toHaveBeenCalled();
 			expect(mockOctokit.rest.issues.addAssignees).not.toHaveBeenCalled();
@@ -282,7 +651,7 @@ describe("github.ts", () => {
 				assignees: ["user1"],
 			};
 
-			await requestReviewersAndAssignees(mockOctokit as any, "owner", "repo", 42, assignmentConfig);
+			await requestReviewersAndAssignees(host, 42, assignmentConfig);
 
 			expect(mockOctokit.rest.pulls.requestReviewers).not.toHaveBeenCalled();
 			expect(mockOctokit.rest.issues.addAssignees).toHaveBeenCalled();
@@ -295,7 +664,7 @@ describe("github.ts", () => {
 				assignees: [],
 			};
 
-			await requestReviewersAndAssignees(mockOctokit as any, "owner", "repo", 42, assignmentConfig);
+			await requestReviewersAndAssignees(host, 42, assignmentConfig);
 
 			expect(mockOctokit.rest.pulls.requestReviewers).not.toHaveBeenCalled();
 			expect(mockOctokit.rest.issues.addAssignees).not.toHaveBeenCalled();
@@ -311,13 +680,27 @@ describe("github.ts", () => {
 				assignees: [],
 			};
 
-			await expect(
-				requestReviewersAndAssignees(mockOctokit as any, "owner", "repo", 42, assignmentConfig),
-			).resolves.not.toThrow();
+			await expect(requestReviewersAndAssignees(host, 42, assignmentConfig)).resolves.not.toThrow();
 
 			expect(mockCore.warning).toHaveBeenCalled();
 		});
 
+		it("should still add the assignees when the reviewers cannot be requested", async () => {
+			const mockCore = core as jest.Mocked<typeof core>;
+			mockOctokit.rest.pulls.requestReviewers.mockRejectedValue(
+				new Error("Reviews may only be requested from collaborators"),
+			);
+			mockOctokit.rest.issues.addAssignees.mockResolvedValue({ data: {} });
+
+			await requestReviewersAndAssignees(host, 42, { reviewers: ["user1"], teamReviewers: [], assignees: ["user3"] });
+
+			expect(mockCore.warning).toHaveBeenCalledWith(
+				"Failed to request reviewers: Reviews may only be requested from collaborators",
+			);
+			expect(mockOctokit.rest.issues.addAssignees).toHaveBeenCalled();
+			expect(mockCore.info).toHaveBeenCalledWith("✅ Added assignees: user3");
+		});
+
 		it("should format team reviewers with @owner prefix", async () => {
 			const mockCore = core as jest.Mocked<typeof core>;
 			mockOctokit.rest.pulls.requestReviewers.mockResolvedValue({ data: {} });
@@ -328,7 +711,7 @@ describe("github.ts", () => {
 				assignees: [],
 			};
 
-			await requestReviewersAndAssignees(mockOctokit as any, "owner", "repo", 42, assignmentConfig);
+			await requestReviewersAndAssignees(host, 42, assignmentConfig);
 
 			expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("@owner/frontend-team, @owner/backend-team"));
 		});
@@ -344,16 +727,7 @@ describe("github.ts", () => {
 			});
 			mockOctokit.rest.issues.setLabels.mockResolvedValue({ data: {} });
 
-			const result = await createOrUpdatePR(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				"test-branch",
-				"main",
-				"Test PR",
-				"PR body",
-				["dependencies"],
-			);
+			const result = await createOrUpdatePR(host, "test-branch", "main", "Test PR", "PR body", ["dependencies"]);
 
 			expect(mockOctokit.rest.pulls.create).toHaveBeenCalledWith({
 				owner: "owner",
@@ -387,9 +761,7 @@ describe("github.ts", () => {
 			mockOctokit.rest.issues.setLabels.mockResolvedValue({ data: {} });
 
 			const result = await createOrUpdatePR(
-				mockOctokit as any,
-				"owner",
-				"repo",
+				host,
 				"test-branch",
 				"main",
 				"New title",
@@ -436,17 +808,7 @@ describe("github.ts", () => {
 				assignees: [],
 			};
 
-			await createOrUpdatePR(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				"test-branch",
-				"main",
-				"Test PR",
-				"PR body",
-				["dependencies"],
-				assignmentConfig,
-			);
+			await createOrUpdatePR(host, "test-branch", "main", "Test PR", "PR body", ["dependencies"], assignmentConfig);
 
 			expect(mockOctokit.rest.pulls.requestReviewers).toHaveBeenCalled();
 		});
@@ -460,9 +822,7 @@ describe("github.ts", () => {
 			});
 			mockOctokit.rest.issues.setLabels.mockResolvedValue({ data: {} });
 
-			await createOrUpdatePR(mockOctokit as any, "owner", "repo", "test-branch", "main", "Test PR", "PR body", [
-				"dependencies",
-			]);
+			await createOrUpdatePR(host, "test-branch", "main", "Test PR", "PR body", ["dependencies"]);
 
 			expect(mockOctokit.rest.pulls.requestReviewers).not.toHaveBeenCalled();
 		});
@@ -491,15 +851,7 @@ describe("github.ts", () => {
 				{ path: "file2.txt", content: Buffer.from("content2") },
 			];
 
-			const commitSha = await createCommit(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				"test-branch",
-				"base-sha",
-				"Test commit",
-				files,
-			);
+			const commitSha = await host.createCommit("test-branch", "base-sha", "Test commit", files, []);
 
 			expect(commitSha).toBe("commit-sha");
 			expect(mockOctokit.rest.git.createBlob).toHaveBeenCalledTimes(2);
@@ -524,15 +876,7 @@ describe("github.ts", () => {
 
 			const files = [{ path: "file.txt", content: Buffer.from("content") }];
 
-			const commitSha = await createCommit(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				"test-branch",
-				"base-sha",
-				"Test commit",
-				files,
-			);
+			const commitSha = await host.createCommit("test-branch", "base-sha", "Test commit", files, []);
 
 			expect(commitSha).toBe("commit-sha");
 			expect(mockOctokit.rest.git.createBlob).toHaveBeenCalledTimes(1);
@@ -553,20 +897,81 @@ describe("github.ts", () => {
 
 			const files: { path: string; content: Buffer }[] = [];
 
-			const commitSha = await createCommit(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				"test-branch",
-				"base-sha",
-				"Test commit",
-				files,
-			);
+			const commitSha = await host.createCommit("test-branch", "base-sha", "Test commit", files, []);
 
 			expect(commitSha).toBe("commit-sha");
 			expect(mockOctokit.rest.git.createBlob).not.toHaveBeenCalled();
 		});
 
+		it("should send deletion entries for removed files", async () => {
+			mockOctokit.rest.git.createBlob.mockResolvedValue({
+				data: { sha: "blob-sha" },
+			});
+
+			mockOctokit.rest.git.createTree.mockResolvedValue({
+				data: { sha: "new-tree-sha" },
+			});
+
+			mockOctokit.rest.git.createCommit.mockResolvedValue({
+				data: { sha: "commit-sha" },
+			});
+
+			mockOctokit.rest.git.updateRef.mockResolvedValue({
+				data: {},
+			});
+
+			const files = [{ path: "_extensions/owner/ext/_extension.yml", content: Buffer.from("content") }];
+
+			await host.createCommit("test-branch", "base-sha", "Test commit", files, ["_extensions/owner/ext/old.lua"]);
+
+			expect(mockOctokit.rest.git.createTree).toHaveBeenCalledWith({
+				owner: "owner",
+				repo: "repo",
+				base_tree: "base-sha",
+				tree: [
+					{ path: "_extensions/owner/ext/_extension.yml", mode: "100644", type: "blob", sha: "blob-sha" },
+					{ path: "_extensions/owner/ext/old.lua", mode: "100644", type: "blob", sha: null },
+				],
+			});
+		});
+
+		it("should write executable files and symbolic links with their tree entry modes", async () => {
+			mockOctokit.rest.git.createBlob.mockResolvedValue({
+				data: { sha: "blob-sha" },
+			});
+
+			mockOctokit.rest.git.createTree.mockResolvedValue({
+				data: { sha: "new-tree-sha" },
+			});
+
+			mockOctokit.rest.git.createCommit.mockResolvedValue({
+				data: { sha: "commit-sha" },
+			});
+
+			mockOctokit.rest.git.updateRef.mockResolvedValue({
+				data: {},
+			});
+
+			const files = [
+				{ path: "_extensions/owner/ext/run.sh", content: Buffer.from("#!/bin/sh"), mode: "100755" as const },
+				{ path: "_extensions/owner/ext/latest.lua", content: Buffer.from("filter.lua"), mode: "120000" as const },
+			];
+
+			await host.createCommit("test-branch", "base-sha", "Test commit", files, []);
+
+			expect(mockOctokit.rest.git.createBlob).toHaveBeenCalledWith(
+				expect.objectContaining({ content: Buffer.from("filter.lua").toString("base64") }),
+			);
+			expect(mockOctokit.rest.git.createTree).toHaveBeenCalledWith(
+				expect.objectContaining({
+					tree: [
+						{ path: "_extensions/owner/ext/run.sh", mode: "100755", type: "blob", sha: "blob-sha" },
+						{ path: "_extensions/owner/ext/latest.lua", mode: "120000", type: "blob", sha: "blob-sha" },
+					],
+				}),
+			);
+		});
+
 		it("should encode file content as base64", async () => {
 			mockOctokit.rest.git.createBlob.mockResolvedValue({
 				data: { sha: "blob-sha" },
@@ -587,7 +992,7 @@ describe("github.ts", () => {
 			const binaryContent = Buffer.from([0x89, 0x50, 0x4e, 0x47]); // PNG header
 			const files = [{ path: "image.png", content: binaryContent }];
 
-			await createCommit(mockOctokit as any, "owner", "repo", "test-branch", "base-sha", "Add image", files);
+			await host.createCommit("test-branch", "base-sha", "Add image", files, []);
 
 			expect(mockOctokit.rest.git.createBlob).toHaveBeenCalledWith({
 				owner: "owner",
@@ -614,16 +1019,7 @@ describe("github.ts", () => {
 				},
 			});
 
-			const result = await createIssueForUpdates(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				updates,
-				false,
-				"all",
-				filterConfig,
-				autoMergeConfig,
-			);
+			const result = await createIssueForUpdates(host, updates, false, "all", filterConfig, autoMergeConfig);
 
 			expect(mockOctokit.rest.issues.create).toHaveBeenCalledWith({
 				owner: "owner",
@@ -650,16 +1046,7 @@ describe("github.ts", () => {
 				},
 			});
 
-			await createIssueForUpdates(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				updates,
-				true,
-				"patch",
-				filterConfig,
-				autoMergeConfig,
-			);
+			await createIssueForUpdates(host, updates, true, "patch", filterConfig, autoMergeConfig);
 
 			const createCall = mockOctokit.rest.issues.create.mock.calls[0][0];
 			const body = createCall.body;
@@ -690,16 +1077,7 @@ describe("github.ts", () => {
 				},
 			});
 
-			await createIssueForUpdates(
-				mockOctokit as any,
-				"owner",
-				"repo",
-				updates,
-				false,
-				"all",
-				filterConfig,
-				autoMergeConfig,
-			);
+			await createIssueForUpdates(host, updates, false, "all", filterConfig, autoMergeConfig);
 
 			const createCall = mockOctokit.rest.issues.create.mock.calls[0][0];
 			expect(createCall.title).toBe("Quarto Extensions Updates Available (1 update)");
@@ -0,0 +1,373 @@
+import { jest } from "@jest/globals";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { createMockActionsCore, createMockUpdate } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const { createGitLabHost } = await import("../src/gitlab.js");
+const { closeSupersededPRs, createOrUpdatePR, requestReviewersAndAssignees } = await import("../src/github.js");
+const { GitHostAPIError } = await import("../src/errors.js");
+const { createMemoryLogger } = await import("../src/logger.js");
+
+interface StubResponse {
+	status?: number;
+	body?: unknown;
+	headers?: Record<string, string>;
+}
+
+interface RecordedRequest {
+	method: string;
+	url: string;
+	token: string | undefined;
+	body: unknown;
+}
+
+const PROJECT = "/api/v4/projects/group%2Fproject";
+
+describe("createGitLabHost", () => {
+	let server: http.Server;
+	let apiUrl: string;
+	let routes: Record<string, StubResponse | StubResponse[]>;
+	let requests: RecordedRequest[];
+
+	const answer = (route: string): StubResponse => {
+		const response = routes[route];
+		if (Array.isArray(response)) {
+			return response.length > 1 ? response.shift()! : response[0];
+		}
+		return response ?? { status: 404, body: { message: "404 Not Found" } };
+	};
+
+	// A local GitLab API stub: answers each "METHOD /path" route with its canned response, or 404,
+	// and records every request
+	beforeAll(async () => {
+		server = http.createServer((req, res) => {
+			let data = "";
+			req.on("data", (chunk) => (data += chunk));
+			req.on("end", () => {
+				requests.push({
+					method: req.method ?? "",
+					url: req.url ?? "",
+					token: req.headers["private-token"] as string | undefined,
+					body: data ? JSON.parse(data) : undefined,
+				});
+				const { status = 200, body, headers } = answer(`${req.method} ${req.url}`);
+				res.writeHead(status, { "Content-Type": "application/json", ...headers });
+				res.end(body === undefined ? "" : JSON.stringify(body));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v4`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		routes = {};
+		requests = [];
+	});
+
+	const createHost = () => createGitLabHost({ project: "group/project", token: "glpat-token", apiUrl });
+
+	const mergeRequest = (iid: number, sourceBranch: string, sourceProjectId = 1) => ({
+		iid,
+		web_url: `https://gitlab.com/group/project/-/merge_requests/${iid}`,
+		title: `Update ${sourceBranch}`,
+		description: "MR body",
+		source_branch: sourceBranch,
+		source_project_id: sourceProjectId,
+		target_project_id: 1,
+		labels: ["dependencies"],
+	});
+
+	it("should authenticate with the token and read branches", async () => {
+		routes[`GET ${PROJECT}/repository/branches/main`] = { body: { commit: { id: "base-sha" } } };
+
+		const host = createHost();
+
+		expect(host.name).toBe("GitLab");
+		expect(host.pullRequestPrefix).toBe("!");
+		await expect(host.getBranchSha("main")).resolves.toBe("base-sha");
+		expect(requests[0].token).toBe("glpat-token");
+	});
+
+	it("should create a branch, and leave an existing one in place, as deleting it would close its merge request", async () => {
+		routes[`POST ${PROJECT}/repository/branches`] = [
+			{ status: 201, body: {} },
+			{ status: 400, body: { message: "Branch already exists" } },
+		];
+		routes[`GET ${PROJECT}/repository/branches/update%2Fbranch`] = { body: { commit: { id: "old-sha" } } };
+		const host = createHost();
+
+		await expect(host.createBranch("update/branch", "base-sha")).resolves.toBe(true);
+		await expect(host.createBranch("update/branch", "base-sha")).resolves.toBe(false);
+		await host.updateBranch("update/branch", "new-sha");
+
+		expect(requests.map((request) => request.method)).toEqual(["POST", "POST", "GET"]);
+		await expect(host.updateBranch("missing", "new-sha")).rejects.toThrow(GitHostAPIError);
+	});
+
+	it("should commit created, updated, and deleted files on top of the base commit", async () => {
+		routes[`HEAD ${PROJECT}/repository/files/_extensions%2Fowner%2Fext%2F_extension.yml?ref=base-sha`] = {};
+		routes[`POST ${PROJECT}/repository/commits`] = { status: 201, body: { id: "commit-sha" } };
+
+		const sha = await createHost().createCommit(
+			"update/branch",
+			"base-sha",
+			"Update ext",
+			[
+				{ path: "_extensions/owner/ext/_extension.yml", content: Buffer.from("version: 1.1.0") },
+				{ path: "_extensions/owner/ext/new.lua", content: Buffer.from("return {}") },
+			],
+			["_extensions/owner/ext/old.lua"],
+		);
+
+		expect(sha).toBe("commit-sha");
+		expect(requests.at(-1)?.body).toEqual({
+			branch: "update/branch",
+			commit_message: "Update ext",
+			start_sha: "base-sha",
+			force: true,
+			actions: [
+				{
+					action: "update",
+					file_path: "_extensions/owner/ext/_extension.yml",
+					content: Buffer.from("version: 1.1.0").toString("base64"),
+					encoding: "base64",
+				},
+				{
+					action: "create",
+					file_path: "_extensions/owner/ext/new.lua",
+					content: Buffer.from("return {}").toString("base64"),
+					encoding: "base64",
+				},
+				{ action: "delete", file_path: "_extensions/owner/ext/old.lua" },
+			],
+		});
+	});
+
+	it("should set the executable bit of each file, and commit symbolic links as regular files", async () => {
+		routes[`POST ${PROJECT}/repository/commits`] = { status: 201, body: { id: "commit-sha" } };
+		const host = createHost();
+
+		await host.createCommit(
+			"update/branch",
+			"base-sha",
+			"Update ext",
+			[
+				{ path: "run.sh", content: Buffer.from("#!/bin/sh"), mode: "100755" },
+				{ path: "filter.lua", content: Buffer.from("return {}"), mode: "100644" },
+			],
+			[],
+		);
+
+		expect((requests.at(-1)?.body as { actions: unknown[] }).actions).toEqual([
+			expect.objectContaining({ action: "create", file_path: "run.sh" }),
+			{ action: "chmod", file_path: "run.sh", execute_filemode: true },
+			expect.objectContaining({ action: "create", file_path: "filter.lua" }),
+			{ action: "chmod", file_path: "filter.lua", execute_filemode: false },
+		]);
+
+		const logger = createMemoryLogger();
+		await createGitLabHost({ project: "group/project", token: "glpat-token", apiUrl, logger }).createCommit(
+			"update/branch",
+			"base-sha",
+			"Update ext",
+			[{ path: "latest.lua", content: Buffer.from("filter.lua"), mode: "120000" }],
+			[],
+		);
+
+		expect((requests.at(-1)?.body as { actions: unknown[] }).actions).toEqual([
+			{
+				action: "create",
+				file_path: "latest.lua",
+				content: Buffer.from("filter.lua").toString("base64"),
+				encoding: "base64",
+			},
+		]);
+		expect(logger.entries).toContainEqual(
+			expect.objectContaining({
+				level: "warning",
+				message:
+					"GitLab cannot commit symbolic links through its API: latest.lua is committed as a regular file. " +
+					"Use commit-mode: git to keep it a link",
+			}),
+		);
+	});
+
+	it("should list the open merge requests of every page", async () => {
+		const list = `${PROJECT}/merge_requests?state=opened&per_page=100`;
+		routes[`GET ${list}&page=1`] = {
+			body: [mergeRequest(5, "update/a")],
+			headers: {
+				Link: `<https://gitlab.com/api/v4${list}&page=2>; rel="next", <https://gitlab.com/api/v4${list}&page=2>; rel="last"`,
+			},
+		};
+		routes[`GET ${list}&page=2`] = { body: [mergeRequest(6, "update/b")] };
+
+		const mergeRequests = await createHost().listOpenPullRequests();
+
+		expect(mergeRequests.map((mr) => mr.number)).toEqual([5, 6]);
+		expect(requests.map((request) => request.url)).toEqual([`${list}&page=1`, `${list}&page=2`]);
+	});
+
+	it("should map merge requests, telling forks apart", async () => {
+		routes[`GET ${PROJECT}/merge_requests?state=opened&source_branch=update%2Fbranch`] = {
+			body: [mergeRequest(5, "update/branch")],
+		};
+		routes[`GET ${PROJECT}/merge_requests?state=opened&per_page=100&page=1`] = {
+			body: [mergeRequest(5, "update/branch"), mergeRequest(6, "update/branch", 2)],
+		};
+		const host = createHost();
+
+		await expect(host.findOpenPullRequest("update/branch")).resolves.toEqual({
+			number: 5,
+			url: "https://gitlab.com/group/project/-/merge_requests/5",
+			title: "Update update/branch",
+			body: "MR body",
+			branchName: "update/branch",
+			fromSameRepository: true,
+			labels: ["dependencies"],
+		});
+		expect((await host.listOpenPullRequests()).map((pr) => pr.fromSameRepository)).toEqual([true, false]);
+		await expect(host.findOpenPullRequest("other")).rejects.toThrow(GitHostAPIError);
+	});
+
+	it("should compare an update branch with the base commit", async () => {
+		routes[`GET ${PROJECT}/merge_requests/5`] = {
+			body: { ...mergeRequest(5, "update/branch"), has_conflicts: true, author: { username: "bot", name: "Bot" } },
+		};
+		routes[`GET ${PROJECT}/repository/compare?from=base-sha&to=update%2Fbranch`] = {
+			body: {
+				commits: [
+					{ id: "bot-sha", author_name: "Bot" },
+					{ id: "human-sha", author_name: "Someone" },
+				],
+			},
+		};
+		routes[`GET ${PROJECT}/repository/compare?from=update%2Fbranch&to=base-sha`] = {
+			body: { commits: [{ id: "a" }, { id: "b" }] },
+		};
+
+		const status = await createHost().getBranchStatus(5, "update/branch", "base-sha");
+
+		expect(status).toEqual({ behindBy: 2, conflicting: true, foreignCommits: ["human-sha"] });
+	});
+
+	it("should set merge request reviewers by user ID and ignore team reviewers with a warning", async () => {
+		routes["GET /api/v4/users?username=alice"] = { body: [{ id: 11 }] };
+		routes[`PUT ${PROJECT}/merge_requests/5`] = { body: mergeRequest(5, "update/branch") };
+		const logger = createMemoryLogger();
+		const host = createGitLabHost({ project: "group/project", token: "glpat-token", apiUrl, logger });
+
+		await host.requestReviewers(5, ["alice"], ["frontend"]);
+
+		expect(requests.at(-1)?.body).toEqual({ reviewer_ids: [11] });
+		expect(logger.entries).toContainEqual({
+			level: "warning",
+			message: "GitLab has no team reviewers, ignoring: frontend",
+		});
+	});
+
+	it("should merge when the pipeline succeeds", async () => {
+		routes[`PUT ${PROJECT}/merge_requests/5/merge`] = { body: {} };
+		routes[`GET ${PROJECT}/merge_requests/5`] = {
+			body: { ...mergeRequest(5, "update/branch"), merge_when_pipeline_succeeds: true },
+		};
+		const host = createHost();
+
+		await host.enableAutoMerge(5, "squash");
+
+		expect(requests[0].body).toEqual({ merge_when_pipeline_succeeds: true, squash: true });
+		await expect(host.isAutoMergeEnabled(5)).resolves.toBe(true);
+	});
+
+	it("should report API errors with the status", async () => {
+		routes[`POST ${PROJECT}/issues`] = { status: 403, body: { message: "403 Forbidden" } };
+
+		const error = await createHost()
+			.createIssue("Updates", "Body")
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(GitHostAPIError);
+		expect(error).toMatchObject({ host: "GitLab", operation: "createIssue", statusCode: 403 });
+	});
+
+	describe("through the PR pipeline", () => {
+		it("should open a merge request with labels and reviewers", async () => {
+			routes[`POST ${PROJECT}/merge_requests`] = { status: 201, body: mergeRequest(7, "update/branch") };
+			routes[`PUT ${PROJECT}/merge_requests/7`] = { body: mergeRequest(7, "update/branch") };
+			routes["GET /api/v4/users?username=alice"] = { body: [{ id: 11 }] };
+			const logger = createMemoryLogger();
+
+			const pr = await createOrUpdatePR(
+				createHost(),
+				"update/branch",
+				"main",
+				"Update ext",
+				"MR body",
+				["dependencies", "quarto"],
+				{ reviewers: ["alice"], teamReviewers: [], assignees: [] },
+				undefined,
+				logger,
+			);
+
+			expect(pr).toEqual({ number: 7, url: "https://gitlab.com/group/project/-/merge_requests/7" });
+			expect(requests[0].body).toEqual({
+				source_branch: "update/branch",
+				target_branch: "main",
+				title: "Update ext",
+				description: "MR body",
+			});
+			expect(requests[1].body).toEqual({ labels: "dependencies,quarto" });
+			expect(requests.at(-1)?.body).toEqual({ reviewer_ids: [11] });
+		});
+
+		it("should still add the assignees when only team reviewers are requested", async () => {
+			routes[`GET ${PROJECT}/merge_requests/7`] = { body: { ...mergeRequest(7, "update/branch"), assignees: [] } };
+			routes[`PUT ${PROJECT}/merge_requests/7`] = { body: mergeRequest(7, "update/branch") };
+			routes["GET /api/v4/users?username=bob"] = { body: [{ id: 12 }] };
+			const logger = createMemoryLogger();
+
+			await requestReviewersAndAssignees(
+				createGitLabHost({ project: "group/project", token: "glpat-token", apiUrl, logger }),
+				7,
+				{ reviewers: [], teamReviewers: ["frontend"], assignees: ["bob"] },
+				logger,
+			);
+
+			expect(requests.at(-1)?.body).toEqual({ assignee_ids: [12] });
+			expect(logger.entries).toContainEqual({
+				level: "warning",
+				message: "GitLab has no team reviewers, ignoring: frontend",
+			});
+			expect(logger.entries).toContainEqual({ level: "info", message: "✅ Added assignees: bob" });
+		});
+
+		it("should close superseded merge requests with a note", async () => {
+			routes[`GET ${PROJECT}/merge_requests?state=opened&per_page=100&page=1`] = {
+				body: [mergeRequest(3, "chore/quarto-extensions/update-mcanouil-iconify-1.1.0")],
+			};
+			routes[`POST ${PROJECT}/merge_requests/3/notes`] = { status: 201, body: {} };
+			routes[`PUT ${PROJECT}/merge_requests/3`] = { body: {} };
+			routes[`DELETE ${PROJECT}/repository/branches/chore%2Fquarto-extensions%2Fupdate-mcanouil-iconify-1.1.0`] = {
+				status: 204,
+			};
+
+			const closed = await closeSupersededPRs(
+				createHost(),
+				createMockUpdate("mcanouil/iconify", "1.0.0", "1.2.0"),
+				"chore/quarto-extensions",
+				8,
+				createMemoryLogger(),
+			);
+
+			expect(closed).toEqual([3]);
+			expect(requests[1].body).toEqual({ body: "Superseded by !8, which updates mcanouil/iconify to 1.2.0." });
+			expect(requests[2].body).toEqual({ state_event: "close" });
+		});
+	});
+});
@@ -0,0 +1,35 @@
+import { jest } from "@jest/globals";
+import { getNextPage, requestAllPages, type HostRequestSender } from "../src/hostHttp.js";
+
+describe("getNextPage", () => {
+	it("should read the next page from the Link header", () => {
+		expect(
+			getNextPage(
+				'<https://example.com/list?limit=2&page=3>; rel="next", <https://example.com/list?page=9>; rel="last"',
+			),
+		).toBe(3);
+	});
+
+	it("should give null on the last page", () => {
+		expect(getNextPage('<https://example.com/list?page=1>; rel="first"')).toBeNull();
+		expect(getNextPage(null)).toBeNull();
+	});
+});
+
+describe("requestAllPages", () => {
+	it("should read every page the responses name, and stop at a page that does not move forward", async () => {
+		const pages: Record<string, { data: number[]; nextPage: number | null }> = {
+			"/list?limit=2&page=1": { data: [1, 2], nextPage: 2 },
+			"/list?limit=2&page=2": { data: [3, 4], nextPage: 1 },
+		};
+		const send = jest.fn(async (_operation: string, _method: string, path: string) => pages[path]);
+
+		const items = await requestAllPages<number>(send as unknown as HostRequestSender, "listItems", "/list?limit=2");
+
+		expect(items).toEqual([1, 2, 3, 4]);
+		expect(send.mock.calls).toEqual([
+			["listItems", "GET", "/list?limit=2&page=1"],
+			["listItems", "GET", "/list?limit=2&page=2"],
+		]);
+	});
+});
@@ -0,0 +1,255 @@
+import { jest } from "@jest/globals";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import { createMockActionsCore } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const { installExtension, downloadArchive } = await import("../src/installer.js");
+const { ExtensionInstallError } = await import("../src/errors.js");
+const { createMemoryLogger } = await import("../src/logger.js");
+
+describe("installExtension", () => {
+	let tempDir: string;
+	let repository: string;
+	let extensionDir: string;
+
+	const run = (command: string, cwd: string, ...args: string[]) =>
+		execFileSync(command, args, { cwd, stdio: "pipe", encoding: "utf-8" });
+
+	const write = (root: string, relativePath: string, content: string, mode = 0o644) => {
+		const filePath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+		fs.chmodSync(filePath, mode);
+	};
+
+	// The archive GitHub serves for a tag: `git archive` of the repository, under a top-level directory
+	const githubArchive = async () => {
+		run("git", repository, "init", "--quiet");
+		run("git", repository, "add", "--all");
+		run(
+			"git",
+			repository,
+			"-c",
+			"user.name=Someone",
+			"-c",
+			"user.email=someone@example.com",
+			"commit",
+			"-qm",
+			"v1.1.0",
+		);
+		return Buffer.from(
+			execFileSync("git", ["archive", "--format=tar.gz", "--prefix=quarto-ext-1.1.0/", "HEAD"], { cwd: repository }),
+		);
+	};
+
+	// A local archive fixture made with tar, as the fetcher of the tests
+	const tarArchive = (topLevel: string) => async () => {
+		run("tar", tempDir, "-czf", "archive.tar.gz", "--format=gnu", topLevel);
+		return fs.readFileSync(path.join(tempDir, "archive.tar.gz"));
+	};
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "installer-"));
+		repository = path.join(tempDir, "quarto-ext-1.1.0");
+		extensionDir = path.join(tempDir, "project", "_extensions", "owner", "ext");
+
+		write(extensionDir, "_extension.yml", "version: 1.0.0\nsource: owner/quarto-ext@v1.0.0\n");
+		write(extensionDir, "old.lua", "return {}\n");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("should replace the extension with the one of the archive, keeping modes and links, and record the source", async () => {
+		write(repository, "_extensions/owner/ext/_extension.yml", "title: Ext\nversion: 1.1.0\n");
+		write(repository, "_extensions/owner/ext/filter.lua", "return { Pandoc = function() end }\n");
+		write(repository, "_extensions/owner/ext/bin/run.sh", "#!/bin/sh\n", 0o755);
+		fs.symlinkSync("filter.lua", path.join(repository, "_extensions/owner/ext/latest.lua"));
+		write(repository, "example/_extensions/owner/ext/_extension.yml", "version: 0.0.1\n");
+		write(repository, "README.md", "# Ext\n");
+		const fetchArchive = jest.fn(githubArchive);
+		const logger = createMemoryLogger();
+
+		await installExtension("owner/quarto-ext", "v1.1.0", extensionDir, fetchArchive, undefined, logger);
+
+		expect(fetchArchive).toHaveBeenCalledWith("owner/quarto-ext", "v1.1.0", undefined);
+		expect(fs.readdirSync(extensionDir, { recursive: true }).sort()).toEqual([
+			"_extension.yml",
+			"bin",
+			"bin/run.sh",
+			"filter.lua",
+			"latest.lua",
+		]);
+		expect(fs.readFileSync(path.join(extensionDir, "_extension.yml"), "utf-8")).toBe(
+			"title: Ext\nversion: 1.1.0\nsource: owner/quarto-ext@v1.1.0\n",
+		);
+		expect(fs.statSync(path.join(extensionDir, "bin/run.sh")).mode & 0o100).toBe(0o100);
+		expect(fs.readlinkSync(path.join(extensionDir, "latest.lua"))).toBe("filter.lua");
+		expect(logger.entries).toContainEqual(
+			expect.objectContaining({ message: "Installed 4 file(s) from _extensions/owner/ext of owner/quarto-ext@v1.1.0" }),
+		);
+	});
+
+	it("should install an extension shipped without an owner directory, with paths longer than a tar header holds", async () => {
+		const topLevel = `quarto-ext-${"0".repeat(40)}`;
+		const longPath = `_extensions/ext/${"nested/".repeat(12)}filter.lua`;
+		write(path.join(tempDir, topLevel), "_extensions/ext/_extension.yaml", "version: 1.1.0\nsource: elsewhere\n");
+		write(path.join(tempDir, topLevel), longPath, "return {}\n");
+
+		await installExtension(
+			"owner/quarto-ext",
+			"main",
+			extensionDir,
+			tarArchive(topLevel),
+			undefined,
+			createMemoryLogger(),
+		);
+
+		expect(fs.readFileSync(path.join(extensionDir, longPath.slice("_extensions/ext/".length)), "utf-8")).toBe(
+			"return {}\n",
+		);
+		expect(fs.readFileSync(path.join(extensionDir, "_extension.yaml"), "utf-8")).toBe(
+			"version: 1.1.0\nsource: owner/quarto-ext@main\n",
+		);
+		expect(fs.existsSync(path.join(extensionDir, "old.lua"))).toBe(false);
+	});
+
+	it("should leave the extension untouched when the signal aborts during the download", async () => {
+		write(repository, "_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+		const controller = new AbortController();
+		const fetchArchive = async (repositoryName: string, ref: string, signal?: AbortSignal) => {
+			expect(signal).toBe(controller.signal);
+			controller.abort(new Error("Stopped"));
+			return githubArchive(repositoryName, ref);
+		};
+
+		await expect(
+			installExtension("owner/quarto-ext", "v1.1.0", extensionDir, fetchArchive, controller.signal),
+		).rejects.toThrow("Stopped");
+		expect(fs.readFileSync(path.join(extensionDir, "_extension.yml"), "utf-8")).toContain("version: 1.0.0");
+	});
+
+	it("should leave the extension untouched when the archive holds no extension of its name", async () => {
+		write(repository, "_extensions/owner/other/_extension.yml", "version: 1.1.0\n");
+
+		const error = await installExtension("owner/quarto-ext", "v1.1.0", extensionDir, githubArchive).catch(
+			(e: unknown) => e,
+		);
+
+		expect(error).toBeInstanceOf(ExtensionInstallError);
+		expect(error).toMatchObject({
+			message: "The archive of owner/quarto-ext@v1.1.0 holds no extension named ext",
+			source: "owner/quarto-ext@v1.1.0",
+		});
+		expect(fs.readdirSync(extensionDir).sort()).toEqual(["_extension.yml", "old.lua"]);
+	});
+
+	it("should reject a symbolic link pointing outside the extension, before writing anything", async () => {
+		for (const target of ["/", "../.."]) {
+			const topLevel = `quarto-ext-${target === "/" ? "root" : "parent"}`;
+			write(path.join(tempDir, topLevel), "_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+			fs.symlinkSync(target, path.join(tempDir, topLevel, "_extensions/owner/ext/escape"));
+
+			await expect(
+				installExtension(
+					"owner/quarto-ext",
+					"v1.1.0",
+					extensionDir,
+					tarArchive(topLevel),
+					undefined,
+					createMemoryLogger(),
+				),
+			).rejects.toThrow(
+				`The archive of owner/quarto-ext@v1.1.0 has a symbolic link outside the extension: escape -> ${target}`,
+			);
+			expect(fs.readdirSync(extensionDir).sort()).toEqual(["_extension.yml", "old.lua"]);
+		}
+	});
+
+	it("should reject a file written through a symbolic link of the archive", async () => {
+		// Two trees under the same top-level directory: the second one ships a file below the link of the first one
+		const linked = path.join(tempDir, "linked");
+		const nested = path.join(tempDir, "nested");
+		write(path.join(linked, "quarto-ext"), "_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+		fs.mkdirSync(path.join(linked, "quarto-ext/_extensions/owner/ext/lib"));
+		fs.symlinkSync("lib", path.join(linked, "quarto-ext/_extensions/owner/ext/out"));
+		write(path.join(nested, "quarto-ext"), "_extensions/owner/ext/out/filter.lua", "return {}\n");
+		run("tar", tempDir, "-cf", "archive.tar", "--format=gnu", "-C", linked, "quarto-ext");
+		run("tar", tempDir, "-rf", "archive.tar", "--format=gnu", "-C", nested, "quarto-ext");
+		const fetchArchive = async () => zlib.gzipSync(fs.readFileSync(path.join(tempDir, "archive.tar")));
+
+		await expect(installExtension("owner/quarto-ext", "v1.1.0", extensionDir, fetchArchive)).rejects.toThrow(
+			"The archive of owner/quarto-ext@v1.1.0 has a path outside the extension: out/filter.lua",
+		);
+		expect(fs.existsSync(path.join(extensionDir, "lib"))).toBe(false);
+	});
+
+	it("should keep the installed extension when writing the release fails halfway", async () => {
+		// A link appended over a file of the same path cannot be written, after the file was
+		const files = path.join(tempDir, "files");
+		const links = path.join(tempDir, "links");
+		write(path.join(files, "quarto-ext"), "_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+		write(path.join(files, "quarto-ext"), "_extensions/owner/ext/filter.lua", "return {}\n");
+		fs.mkdirSync(path.join(links, "quarto-ext/_extensions/owner/ext"), { recursive: true });
+		fs.symlinkSync("_extension.yml", path.join(links, "quarto-ext/_extensions/owner/ext/filter.lua"));
+		run("tar", tempDir, "-cf", "archive.tar", "--format=gnu", "-C", files, "quarto-ext");
+		run("tar", tempDir, "-rf", "archive.tar", "--format=gnu", "-C", links, "quarto-ext");
+		const fetchArchive = async () => zlib.gzipSync(fs.readFileSync(path.join(tempDir, "archive.tar")));
+
+		await expect(installExtension("owner/quarto-ext", "v1.1.0", extensionDir, fetchArchive)).rejects.toThrow("EEXIST");
+
+		expect(fs.readdirSync(extensionDir).sort()).toEqual(["_extension.yml", "old.lua"]);
+		expect(fs.readFileSync(path.join(extensionDir, "_extension.yml"), "utf-8")).toContain("version: 1.0.0");
+		expect(fs.readdirSync(path.dirname(extensionDir))).toEqual(["ext"]);
+	});
+
+	it("should reject an archive that is not a gzipped tarball", async () => {
+		const fetchArchive = async () => Buffer.from("<html>Not Found</html>");
+
+		await expect(installExtension("owner/quarto-ext", "v1.1.0", extensionDir, fetchArchive)).rejects.toThrow(
+			"The archive of owner/quarto-ext@v1.1.0 is not a gzipped tarball",
+		);
+	});
+});
+
+describe("downloadArchive", () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("should download the tarball of the ref from GitHub", async () => {
+		const fetchMock = jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response(Buffer.from("archive")));
+
+		const archive = await downloadArchive("owner/quarto-ext", "feature/new-filter");
+
+		expect(archive.toString()).toBe("archive");
+		expect(fetchMock).toHaveBeenCalledWith(
+			"https://codeload.github.com/owner/quarto-ext/tar.gz/feature/new-filter",
+			expect.anything(),
+		);
+	});
+
+	it("should stop the download with the signal given", async () => {
+		const fetchMock = jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response(Buffer.from("archive")));
+		const controller = new AbortController();
+
+		await downloadArchive("owner/quarto-ext", "v1.1.0", controller.signal);
+
+		expect(fetchMock).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ signal: controller.signal }));
+	});
+
+	it("should report a failed download with its status", async () => {
+		jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response("Not Found", { status: 404 }));
+
+		await expect(downloadArchive("owner/quarto-ext", "v9.9.9")).rejects.toMatchObject({
+			message: "Failed to download owner/quarto-ext@v9.9.9: HTTP 404",
+			statusCode: 404,
+		});
+	});
+});
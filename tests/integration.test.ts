@@ -36,25 +36,25 @@ contributes:
 		}
 	});
 
-	it("should NOT check extension without source field", () => {
+	it("should NOT check extension without source field", async () => {
 		expect(fs.existsSync(extensionPath)).toBe(true);
 
 		const manifest = fs.readFileSync(extensionPath, "utf-8");
 		expect(manifest).not.toContain("source:");
 
-		const updates = checkForUpdates(testDir, registry);
+		const { updates } = await checkForUpdates(testDir, registry);
 
 		expect(updates).toHaveLength(0);
 	});
 
-	it("should check extension WITH source field and find updates", () => {
+	it("should check extension WITH source field and find updates", async () => {
 		const sourceField = "\nsource: mcanouil/quarto-iconify@1.0.0\n";
 		fs.appendFileSync(extensionPath, sourceField);
 
 		const manifest = fs.readFileSync(extensionPath, "utf-8");
 		expect(manifest).toContain("source: mcanouil/quarto-iconify@1.0.0");
 
-		const updates = checkForUpdates(testDir, registry);
+		const { updates } = await checkForUpdates(testDir, registry);
 
 		expect(updates.length).toBeGreaterThan(0);
 
@@ -0,0 +1,126 @@
+import { jest } from "@jest/globals";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createMockActionsCore } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const { commitWithLocalGit } = await import("../src/localGit.js");
+const { createMemoryLogger } = await import("../src/logger.js");
+
+describe("commitWithLocalGit", () => {
+	let tempDir: string;
+	let remote: string;
+	let workspace: string;
+	let baseSha: string;
+
+	const git = (cwd: string, ...args: string[]) =>
+		execFileSync("git", args, { cwd, stdio: "pipe", encoding: "utf-8" }).trim();
+
+	const write = (relativePath: string, content: string, mode = 0o644) => {
+		const filePath = path.join(workspace, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content, { mode });
+		fs.chmodSync(filePath, mode);
+		return filePath;
+	};
+
+	// A bare repository as origin and a clone of it as the workspace, with one commit on main
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-git-"));
+		remote = path.join(tempDir, "remote.git");
+		workspace = path.join(tempDir, "workspace");
+		git(tempDir, "init", "--quiet", "--bare", "--initial-branch=main", remote);
+		git(tempDir, "clone", "--quiet", remote, workspace);
+		git(workspace, "checkout", "--quiet", "-b", "main");
+
+		write("_extensions/owner/ext/_extension.yml", "version: 1.0.0\n");
+		write("_extensions/owner/ext/old.lua", "return {}\n");
+		git(workspace, "add", "--all");
+		git(workspace, "-c", "user.name=Someone", "-c", "user.email=someone@example.com", "commit", "-qm", "Initial");
+		git(workspace, "push", "--quiet", "origin", "main");
+		baseSha = git(workspace, "rev-parse", "HEAD");
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("should commit the updated files on the base commit and push them as the update branch", () => {
+		const files = [
+			write("_extensions/owner/ext/_extension.yml", "version: 1.1.0\n"),
+			write("_extensions/owner/ext/run.sh", "#!/bin/sh\n", 0o755),
+		];
+		const deleted = path.join(workspace, "_extensions/owner/ext/old.lua");
+		fs.rmSync(deleted);
+		const logger = createMemoryLogger();
+
+		const sha = commitWithLocalGit(workspace, "update/ext", baseSha, "Update ext", [...files, deleted], logger);
+
+		expect(git(remote, "rev-parse", "refs/heads/update/ext")).toBe(sha);
+		expect(git(remote, "rev-parse", `${sha}^`)).toBe(baseSha);
+		expect(git(remote, "log", "-1", "--format=%s", sha)).toBe("Update ext");
+		expect(git(remote, "ls-tree", "-r", "--format=%(objectmode) %(path)", sha)).toBe(
+			"100644 _extensions/owner/ext/_extension.yml\n100755 _extensions/owner/ext/run.sh",
+		);
+		expect(git(workspace, "symbolic-ref", "--short", "HEAD")).toBe("main");
+		expect(logger.entries).toContainEqual(expect.objectContaining({ message: expect.stringContaining("update/ext") }));
+	});
+
+	it("should force-push over an existing update branch, as the configured committer", () => {
+		git(workspace, "push", "--quiet", "origin", `${baseSha}:refs/heads/update/ext`);
+		git(workspace, "config", "user.name", "Docs Bot");
+		git(workspace, "config", "user.email", "docs-bot@example.com");
+		const file = write("_extensions/owner/ext/_extension.yml", "version: 1.2.0\n");
+
+		const sha = commitWithLocalGit(workspace, "update/ext", baseSha, "Update ext", [file], createMemoryLogger());
+
+		expect(git(remote, "rev-parse", "refs/heads/update/ext")).toBe(sha);
+		expect(git(remote, "log", "-1", "--format=%ae", sha)).toBe("docs-bot@example.com");
+	});
+
+	it("should leave the branch, index, and working tree of the workspace as they were", () => {
+		const file = write("_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+		write("notes.md", "Work in progress\n");
+		git(workspace, "add", "notes.md");
+
+		const sha = commitWithLocalGit(workspace, "update/ext", baseSha, "Update ext", [file], createMemoryLogger());
+
+		expect(git(remote, "ls-tree", "-r", "--name-only", sha)).not.toContain("notes.md");
+		expect(git(workspace, "symbolic-ref", "--short", "HEAD")).toBe("main");
+		expect(git(workspace, "rev-parse", "HEAD")).toBe(baseSha);
+		expect(git(workspace, "diff", "--cached", "--name-only")).toBe("notes.md");
+		expect(git(workspace, "diff", "--name-only")).toBe("_extensions/owner/ext/_extension.yml");
+		expect(fs.readFileSync(file, "utf-8")).toBe("version: 1.1.0\n");
+		expect(git(workspace, "worktree", "list", "--porcelain")).not.toContain("quarto-extensions-updater-");
+	});
+
+	it("should fetch a base commit the clone does not have", () => {
+		const other = path.join(tempDir, "other");
+		git(tempDir, "clone", "--quiet", remote, other);
+		fs.writeFileSync(path.join(other, "README.md"), "Moved on\n");
+		git(other, "add", "--all");
+		git(other, "-c", "user.name=Someone", "-c", "user.email=someone@example.com", "commit", "-qm", "Move on");
+		git(other, "push", "--quiet", "origin", "main");
+		const movedSha = git(other, "rev-parse", "HEAD");
+		const file = write("_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+
+		const sha = commitWithLocalGit(workspace, "update/ext", movedSha, "Update ext", [file], createMemoryLogger());
+
+		expect(git(remote, "rev-parse", `${sha}^`)).toBe(movedSha);
+		expect(git(remote, "ls-tree", "-r", "--name-only", sha)).toContain("README.md");
+		expect(git(workspace, "rev-parse", "HEAD")).toBe(baseSha);
+	});
+
+	it("should leave the workspace as it was when the push fails", () => {
+		git(workspace, "remote", "set-url", "origin", path.join(tempDir, "missing.git"));
+		const file = write("_extensions/owner/ext/_extension.yml", "version: 1.1.0\n");
+
+		expect(() => commitWithLocalGit(workspace, "update/ext", baseSha, "Update ext", [file])).toThrow("git push");
+		expect(git(workspace, "symbolic-ref", "--short", "HEAD")).toBe("main");
+		expect(fs.readFileSync(file, "utf-8")).toBe("version: 1.1.0\n");
+		expect(() => git(remote, "rev-parse", "--verify", "--quiet", "refs/heads/update/ext")).toThrow();
+	});
+});
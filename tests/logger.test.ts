@@ -0,0 +1,109 @@
+import { jest } from "@jest/globals";
+import { Writable } from "stream";
+import { createMockActionsCore } from "./__test-utils__/mockFactories.js";
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+
+const core = await import("@actions/core");
+const { actionsLogger, createConsoleLogger, createMemoryLogger } = await import("../src/logger.js");
+
+function createCapturingStream(): { stream: Writable; output: () => string } {
+	const chunks: string[] = [];
+	const stream = new Writable({
+		write(chunk, _encoding, callback) {
+			chunks.push(chunk.toString());
+			callback();
+		},
+	});
+
+	return { stream, output: () => chunks.join("") };
+}
+
+describe("actionsLogger", () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it("should log through @actions/core", () => {
+		actionsLogger.info("Checking for updates");
+		actionsLogger.warning("Registry entry missing");
+		actionsLogger.startGroup("📥 Fetching extensions registry");
+		actionsLogger.endGroup();
+
+		expect(core.info).toHaveBeenCalledWith("Checking for updates");
+		expect(core.warning).toHaveBeenCalledWith("Registry entry missing");
+		expect(core.startGroup).toHaveBeenCalledWith("📥 Fetching extensions registry");
+		expect(core.endGroup).toHaveBeenCalled();
+		expect(actionsLogger.summary).toBe(core.summary);
+	});
+});
+
+describe("createConsoleLogger", () => {
+	it("should write plain lines, prefixing warnings and errors", () => {
+		const { stream, output } = createCapturingStream();
+		const logger = createConsoleLogger({ stream });
+
+		logger.startGroup("🔍 Checking for updates");
+		logger.info("Found 2 extensions");
+		logger.warning("No release found");
+		logger.error("Failed to apply update");
+		logger.debug("Not shown");
+		logger.endGroup();
+
+		expect(output()).toBe(
+			"🔍 Checking for updates\nFound 2 extensions\nwarning: No release found\nerror: Failed to apply update\n",
+		);
+	});
+
+	it("should print debug messages when verbose", () => {
+		const { stream, output } = createCapturingStream();
+
+		createConsoleLogger({ stream, verbose: true }).debug("Tag v1.0.0");
+
+		expect(output()).toBe("debug: Tag v1.0.0\n");
+	});
+
+	it("should write the summary as Markdown", async () => {
+		const { stream, output } = createCapturingStream();
+		const logger = createConsoleLogger({ stream });
+
+		await logger.summary.addHeading("Summary", 2).addRaw("Two updates.", true).write();
+
+		expect(output()).toBe("## Summary\n\nTwo updates.\n");
+	});
+});
+
+describe("createMemoryLogger", () => {
+	it("should record messages in order", () => {
+		const logger = createMemoryLogger();
+
+		logger.startGroup("Group");
+		logger.info("Message");
+		logger.debug("Detail");
+
+		expect(logger.entries).toEqual([
+			{ level: "group", message: "Group" },
+			{ level: "info", message: "Message" },
+			{ level: "debug", message: "Detail" },
+		]);
+	});
+
+	it("should record each summary written, rendering tables as Markdown", async () => {
+		const logger = createMemoryLogger();
+
+		logger.summary.addTable([
+			[
+				{ data: "Extension", header: true },
+				{ data: "Version", header: true },
+			],
+			[{ data: "mcanouil/iconify" }, { data: "1.1.0" }],
+		]);
+		await logger.summary.write();
+		await logger.summary.addRaw("Second").write();
+
+		expect(logger.summaries).toEqual([
+			"| Extension | Version |\n|---|---|\n| mcanouil/iconify | 1.1.0 |\n\n",
+			"Second",
+		]);
+	});
+});
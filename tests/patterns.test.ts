@@ -0,0 +1,73 @@
+import {
+	isGlobPattern,
+	isNegatedPattern,
+	matchesPattern,
+	matchesPatternList,
+	patternToRegExp,
+} from "../src/patterns.js";
+
+describe("isGlobPattern", () => {
+	it("should detect wildcards", () => {
+		expect(isGlobPattern("quarto-ext/*")).toBe(true);
+		expect(isGlobPattern("owner/ext?")).toBe(true);
+		expect(isGlobPattern("mcanouil/iconify")).toBe(false);
+	});
+});
+
+describe("patternToRegExp", () => {
+	it("should escape regular expression characters", () => {
+		expect(patternToRegExp("owner/name.js").test("owner/name.js")).toBe(true);
+		expect(patternToRegExp("owner/name.js").test("owner/namexjs")).toBe(false);
+	});
+});
+
+describe("matchesPattern", () => {
+	it("should match exact names only when the pattern has no wildcard", () => {
+		expect(matchesPattern("mcanouil/iconify", "mcanouil/iconify")).toBe(true);
+		expect(matchesPattern("mcanouil/iconify", "mcanouil/iconify-extra")).toBe(false);
+	});
+
+	it("should match owner wildcards", () => {
+		expect(matchesPattern("quarto-ext/*", "quarto-ext/lightbox")).toBe(true);
+		expect(matchesPattern("quarto-ext/*", "mcanouil/lightbox")).toBe(false);
+	});
+
+	it("should match name wildcards", () => {
+		expect(matchesPattern("*/fontawesome", "quarto-ext/fontawesome")).toBe(true);
+		expect(matchesPattern("*/fontawesome", "quarto-ext/fontawesome-pro")).toBe(false);
+	});
+
+	it("should not let a wildcard cross the owner/name separator", () => {
+		expect(matchesPattern("quarto-*", "quarto-ext/lightbox")).toBe(false);
+	});
+
+	it("should match single characters with ?", () => {
+		expect(matchesPattern("owner/ext?", "owner/ext1")).toBe(true);
+		expect(matchesPattern("owner/ext?", "owner/ext12")).toBe(false);
+	});
+});
+
+describe("isNegatedPattern", () => {
+	it("should detect a leading !", () => {
+		expect(isNegatedPattern("!quarto-ext/lightbox")).toBe(true);
+		expect(isNegatedPattern("quarto-ext/lightbox")).toBe(false);
+	});
+});
+
+describe("matchesPatternList", () => {
+	it("should select an extension matched by any plain pattern", () => {
+		expect(matchesPatternList(["mcanouil/iconify", "quarto-ext/*"], "quarto-ext/lightbox")).toBe(true);
+		expect(matchesPatternList(["mcanouil/iconify", "quarto-ext/*"], "owner/other")).toBe(false);
+	});
+
+	it("should let the last matching pattern decide", () => {
+		expect(matchesPatternList(["quarto-ext/*", "!quarto-ext/lightbox"], "quarto-ext/lightbox")).toBe(false);
+		expect(matchesPatternList(["quarto-ext/*", "!quarto-ext/lightbox"], "quarto-ext/fancy-text")).toBe(true);
+		expect(matchesPatternList(["!quarto-ext/lightbox", "quarto-ext/*"], "quarto-ext/lightbox")).toBe(true);
+	});
+
+	it("should start from every extension when the list has only negations", () => {
+		expect(matchesPatternList(["!quarto-ext/*"], "mcanouil/iconify")).toBe(true);
+		expect(matchesPatternList(["!quarto-ext/*"], "quarto-ext/lightbox")).toBe(false);
+	});
+});
@@ -1,12 +1,13 @@
 import { jest } from "@jest/globals";
 import type { ExtensionUpdate } from "../src/types.js";
 import type * as github from "@actions/github";
-import { createMockActionsCore } from "./__test-utils__/mockFactories.js";
+import { createMockActionsCore, createMockUpdate } from "./__test-utils__/mockFactories.js";
 
 jest.unstable_mockModule("@actions/core", createMockActionsCore);
 
 const core = await import("@actions/core");
-const { generatePRTitle, generatePRBody, generatePRLabels, logUpdateSummary } = await import("../src/pr.js");
+const { generatePRTitle, generatePRBody, generatePRLabels, logUpdateSummary, createUpdatesMarker } =
+	await import("../src/pr.js");
 
 // Mock GitHub Octokit
 const mockOctokit = {
@@ -89,6 +90,14 @@ describe("generatePRTitle", () => {
 
 		expect(title).toBe("build: update owner/test extension to 1.1.0");
 	});
+
+	it("should keep the same title for a named group whatever it contains", () => {
+		const updates = [createMockUpdate("quarto-ext/lightbox", "1.0.0", "1.0.1")];
+
+		expect(generatePRTitle(updates, "chore(deps):", "quarto-ext")).toBe(
+			"chore(deps): update quarto-ext group of Quarto extensions",
+		);
+	});
 });
 
 describe("generatePRBody", () => {
@@ -220,6 +229,110 @@ describe("generatePRBody", () => {
 		expect(body).toContain("owner/test");
 		expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Invalid repository name format"));
 	});
+
+	it("should flag prerelease updates", async () => {
+		const updates = [
+			createMockUpdate("quarto-ext/lightbox", "1.0.0", "1.0.1"),
+			createMockUpdate("mcanouil/iconify", "1.0.0", "v2.0.0-beta.1"),
+		];
+		(mockOctokit.rest.repos.getReleaseByTag as jest.Mock).mockRejectedValue(new Error("Not Found"));
+
+		const body = await generatePRBody(updates, mockOctokit);
+
+		expect(body).toContain("`1.0.0` → `v2.0.0-beta.1` 🧪 prerelease");
+		expect(body).toContain("`1.0.0` → `1.0.1`\n");
+		expect(body).toContain("> [!WARNING]\n> mcanouil/iconify v2.0.0-beta.1 is a prerelease");
+	});
+
+	it("should explain why an older release is proposed than the latest", async () => {
+		const updates: ExtensionUpdate[] = [
+			{
+				...createMockUpdate("quarto-ext/lightbox", "1.4.2", "1.4.3"),
+				fallback: {
+					heldBackVersion: "2.0.0",
+					reason: "version 2.0.0 requires Quarto >=1.7.0 but 1.6.2 is installed",
+				},
+			},
+			createMockUpdate("mcanouil/iconify", "1.0.0", "1.0.1"),
+		];
+		(mockOctokit.rest.repos.getReleaseByTag as jest.Mock).mockRejectedValue(new Error("Not Found"));
+
+		const body = await generatePRBody(updates, mockOctokit);
+
+		expect(body).toContain(
+			"> [!NOTE]\n> The latest release was held back, so the newest release that satisfies every constraint is proposed:\n" +
+				"> - **quarto-ext/lightbox** `1.4.3` instead of `2.0.0`: version 2.0.0 requires Quarto >=1.7.0 but 1.6.2 is installed\n",
+		);
+		expect(body).not.toContain("mcanouil/iconify** `1.0.1` instead of");
+	});
+
+	it("should list the new commits of a commit update instead of release notes", async () => {
+		const update: ExtensionUpdate = {
+			...createMockUpdate("mcanouil/iconify", "3f2a1b9", "9c8d7e6"),
+			commit: {
+				branch: "main",
+				currentSha: "3f2a1b9",
+				latestSha: "9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d",
+				compareUrl: "https://github.com/mcanouil/iconify/compare/3f2a1b9...9c8d7e6",
+				commits: [
+					{
+						sha: "9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d",
+						message: "Add new icon sets",
+						author: "jdoe",
+						url: "https://github.com/mcanouil/iconify/commit/9c8d7e6",
+					},
+				],
+				totalCommits: 3,
+			},
+		};
+
+		const body = await generatePRBody([update], mockOctokit);
+
+		expect(mockOctokit.rest.repos.getReleaseByTag).not.toHaveBeenCalled();
+		expect(body).toContain("## 🔀 Commit Updates");
+		expect(body).toContain("`3f2a1b9` → `9c8d7e6` on `main`");
+		expect(body).toContain("<summary>3 new commit(s) on main</summary>");
+		expect(body).toContain(
+			"- [`9c8d7e6`](https://github.com/mcanouil/iconify/commit/9c8d7e6) Add new icon sets (jdoe)",
+		);
+		expect(body).toContain("- … and 2 more");
+		expect(body).toContain("[Compare](https://github.com/mcanouil/iconify/compare/3f2a1b9...9c8d7e6)");
+	});
+
+	it("should explain the pin of an extension installed from a branch", async () => {
+		const update: ExtensionUpdate = {
+			...createMockUpdate("mcanouil/iconify", "main", "9c8d7e6"),
+			releaseUrl: "https://github.com/mcanouil/iconify/commit/9c8d7e6",
+			commit: { branch: "main", latestSha: "9c8d7e6", commits: [], totalCommits: 0 },
+		};
+
+		const body = await generatePRBody([update], mockOctokit);
+
+		expect(body).toContain("this pins it to the current head of `main`");
+		expect(body).toContain("[Commit](https://github.com/mcanouil/iconify/commit/9c8d7e6)");
+	});
+
+	it("should name the group and record its versions for a named group", async () => {
+		const updates = [
+			createMockUpdate("quarto-ext/lightbox", "1.0.0", "1.0.1"),
+			createMockUpdate("mcanouil/iconify", "1.0.0", "1.1.0"),
+		];
+		(mockOctokit.rest.repos.getReleaseByTag as jest.Mock).mockRejectedValue(new Error("Not Found"));
+
+		const body = await generatePRBody(updates, mockOctokit, [], "docs");
+
+		expect(body).toContain("Updates the following Quarto extension(s) in the **docs** group:");
+		expect(body).toContain(createUpdatesMarker(updates));
+		expect(createUpdatesMarker(updates)).toBe(
+			"<!-- quarto-extensions-updater-group: mcanouil/iconify@1.1.0, quarto-ext/lightbox@1.0.1 -->",
+		);
+	});
+
+	it("should record the extension of a single-extension PR, which its branch name cannot tell apart", async () => {
+		const body = await generatePRBody([createMockUpdate("a-b/c", "1.0.0", "1.1.0")], mockOctokit);
+
+		expect(body.endsWith("<!-- quarto-extensions-updater-group: a-b/c@1.1.0 -->")).toBe(true);
+	});
 });
 
 describe("generatePRLabels", () => {
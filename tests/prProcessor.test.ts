@@ -1,37 +1,41 @@
 import { jest } from "@jest/globals";
-import type { ExtensionUpdate } from "../src/types.js";
+import type { ExtensionUpdate, UpdateGroupRule } from "../src/types.js";
 import type { PRProcessingConfig } from "../src/prProcessor.js";
-import {
-	createMockUpdate,
-	createMockOctokit,
-	createMockFs,
-	createMockActionsCore,
-} from "./__test-utils__/mockFactories.js";
+import type { GitHost } from "../src/gitHost.js";
+import { createMockUpdate, createMockOctokit, createMockActionsCore } from "./__test-utils__/mockFactories.js";
 
 jest.unstable_mockModule("@actions/core", createMockActionsCore);
-jest.unstable_mockModule("fs", createMockFs);
 jest.unstable_mockModule("../src/git.js", () => ({
 	getQuartoVersion: jest.fn(),
 	deriveQuartoAddCwd: jest.fn(),
 	applyUpdates: jest.fn(),
 	createBranchName: jest.fn(),
 	createCommitMessage: jest.fn(),
+	getBranchSafeName: jest.fn((nameWithOwner: string) => nameWithOwner.replace("/", "-")),
+	getGitFileMode: jest.fn(),
+	parseExtensionBranchName: jest.fn(),
+	readGitFileContent: jest.fn(),
 	validateModifiedFiles: jest.fn(),
 }));
 jest.unstable_mockModule("../src/pr.js", () => ({
 	generatePRTitle: jest.fn(),
 	generatePRBody: jest.fn(),
+	createUpdatesMarker: jest.fn(),
 	generatePRLabels: jest.fn(),
 	logUpdateSummary: jest.fn(),
 }));
 jest.unstable_mockModule("../src/github.js", () => ({
 	checkExistingPR: jest.fn(),
+	closeSupersededPRs: jest.fn(),
 	createOrUpdateBranch: jest.fn(),
 	requestReviewersAndAssignees: jest.fn(),
 	createOrUpdatePR: jest.fn(),
-	createCommit: jest.fn(),
+	listOpenUpdaterPRs: jest.fn(),
 	createIssueForUpdates: jest.fn(),
 }));
+jest.unstable_mockModule("../src/localGit.js", () => ({
+	commitWithLocalGit: jest.fn(),
+}));
 jest.unstable_mockModule("../src/automerge.js", () => ({
 	getUpdateType: jest.fn(),
 	shouldAutoMerge: jest.fn(),
@@ -40,30 +44,55 @@ jest.unstable_mockModule("../src/automerge.js", () => ({
 }));
 
 const core = await import("@actions/core");
-const fs = await import("fs");
-const { applyUpdates, createBranchName, createCommitMessage, validateModifiedFiles } = await import("../src/git.js");
-const { generatePRTitle, generatePRBody } = await import("../src/pr.js");
-const { checkExistingPR, createOrUpdateBranch, createOrUpdatePR, createCommit } = await import("../src/github.js");
-const { shouldAutoMerge, enableAutoMerge, isAutoMergeEnabled } = await import("../src/automerge.js");
+const {
+	applyUpdates,
+	createBranchName,
+	createCommitMessage,
+	getGitFileMode,
+	parseExtensionBranchName,
+	readGitFileContent,
+	validateModifiedFiles,
+} = await import("../src/git.js");
+const { generatePRTitle, generatePRBody, createUpdatesMarker } = await import("../src/pr.js");
+const { checkExistingPR, closeSupersededPRs, createOrUpdateBranch, createOrUpdatePR, listOpenUpdaterPRs } =
+	await import("../src/github.js");
+const { commitWithLocalGit } = await import("../src/localGit.js");
+const { getUpdateType, shouldAutoMerge, enableAutoMerge, isAutoMergeEnabled } = await import("../src/automerge.js");
 const { processPRForUpdateGroup, processAllPRs } = await import("../src/prProcessor.js");
+const { actionsLogger } = await import("../src/logger.js");
 
 const mockCore = jest.mocked(core);
-const mockFs = jest.mocked(fs);
 const mockApplyUpdates = jest.mocked(applyUpdates);
 const mockCreateBranchName = jest.mocked(createBranchName);
 const mockCreateCommitMessage = jest.mocked(createCommitMessage);
 const mockValidateModifiedFiles = jest.mocked(validateModifiedFiles);
+const mockGetGitFileMode = jest.mocked(getGitFileMode);
+const mockReadGitFileContent = jest.mocked(readGitFileContent);
 const mockGeneratePRTitle = jest.mocked(generatePRTitle);
 const mockGeneratePRBody = jest.mocked(generatePRBody);
+const mockCreateUpdatesMarker = jest.mocked(createUpdatesMarker);
 const mockCheckExistingPR = jest.mocked(checkExistingPR);
+const mockCloseSupersededPRs = jest.mocked(closeSupersededPRs);
 const mockCreateOrUpdateBranch = jest.mocked(createOrUpdateBranch);
 const mockCreateOrUpdatePR = jest.mocked(createOrUpdatePR);
-const mockCreateCommit = jest.mocked(createCommit);
+const mockListOpenUpdaterPRs = jest.mocked(listOpenUpdaterPRs);
+const mockParseExtensionBranchName = jest.mocked(parseExtensionBranchName);
+const mockCommitWithLocalGit = jest.mocked(commitWithLocalGit);
+const mockGetUpdateType = jest.mocked(getUpdateType);
 const mockShouldAutoMerge = jest.mocked(shouldAutoMerge);
 const mockEnableAutoMerge = jest.mocked(enableAutoMerge);
 const mockIsAutoMergeEnabled = jest.mocked(isAutoMergeEnabled);
 
 const mockOctokit = createMockOctokit();
+const mockCreateCommit = jest.fn<GitHost["createCommit"]>();
+const mockGetBranchStatus = jest.fn<GitHost["getBranchStatus"]>();
+const host = {
+	name: "GitHub",
+	repository: "owner/repo",
+	pullRequestPrefix: "#",
+	createCommit: mockCreateCommit,
+	getBranchStatus: mockGetBranchStatus,
+} as unknown as GitHost;
 
 describe("processPRForUpdateGroup", () => {
 	const createUpdate = createMockUpdate;
@@ -78,6 +107,12 @@ describe("processPRForUpdateGroup", () => {
 		prLabels: ["dependencies"],
 		autoMergeConfig: { enabled: false, strategy: "patch", mergeMethod: "squash" },
 		assignmentConfig: { reviewers: [], teamReviewers: [], assignees: [] },
+		rebaseStrategy: "disabled",
+		commitMode: "api",
+		installer: "quarto",
+		installTimeout: 300,
+		installConcurrency: 4,
+		groupRules: [],
 	};
 
 	beforeEach(() => {
@@ -87,14 +122,16 @@ describe("processPRForUpdateGroup", () => {
 		mockCreateBranchName.mockReturnValue("chore/quarto-extensions/update");
 		mockGeneratePRTitle.mockReturnValue("chore(deps): update extension");
 		mockCheckExistingPR.mockResolvedValue({ exists: false });
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: ["/workspace/_extensions/owner/ext/_extension.yml"],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 		mockValidateModifiedFiles.mockReturnValue(true);
 		mockCreateCommitMessage.mockReturnValue("chore(deps): update extension\n\nUpdate details");
 		mockCreateOrUpdateBranch.mockResolvedValue(undefined);
-		mockFs.readFileSync.mockReturnValue(Buffer.from("file content"));
+		mockGetGitFileMode.mockReturnValue("100644");
+		mockReadGitFileContent.mockReturnValue(Buffer.from("file content"));
 		mockCreateCommit.mockResolvedValue("commit123");
 		mockGeneratePRBody.mockResolvedValue("PR body");
 		mockCreateOrUpdatePR.mockResolvedValue({ number: 123, url: "https://github.com/owner/repo/pull/123" });
@@ -104,16 +141,45 @@ describe("processPRForUpdateGroup", () => {
 	it("should successfully process a single update", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
 
-		const result = await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig);
+		const result = await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
 
 		expect(result.number).toBe(123);
 		expect(result.url).toBe("https://github.com/owner/repo/pull/123");
 
-		expect(mockApplyUpdates).toHaveBeenCalledWith(updates);
+		expect(mockApplyUpdates).toHaveBeenCalledWith(
+			updates,
+			{ installer: "quarto", timeoutMs: 300000, concurrency: 4 },
+			actionsLogger,
+		);
 		expect(mockCreateCommit).toHaveBeenCalled();
 		expect(mockCreateOrUpdatePR).toHaveBeenCalled();
 	});
 
+	it("should commit and push with the local git binary in the git commit mode", async () => {
+		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+		mockApplyUpdates.mockResolvedValue({
+			modifiedFiles: ["/workspace/_extensions/owner/ext/_extension.yml"],
+			deletedFiles: ["/workspace/_extensions/owner/ext/old.lua"],
+			skippedUpdates: [],
+		});
+		mockCommitWithLocalGit.mockReturnValue("local123");
+
+		const result = await processPRForUpdateGroup(host, mockOctokit, updates, { ...baseConfig, commitMode: "git" });
+
+		expect(mockCommitWithLocalGit).toHaveBeenCalledWith(
+			"/workspace",
+			"chore/quarto-extensions/update",
+			"abc123",
+			"chore(deps): update extension\n\nUpdate details",
+			["/workspace/_extensions/owner/ext/_extension.yml", "/workspace/_extensions/owner/ext/old.lua"],
+			actionsLogger,
+		);
+		expect(mockCreateOrUpdateBranch).not.toHaveBeenCalled();
+		expect(mockCreateCommit).not.toHaveBeenCalled();
+		expect(mockCore.info).toHaveBeenCalledWith("✅ Created commit: local123");
+		expect(result.number).toBe(123);
+	});
+
 	it("should skip if PR already exists", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
 
@@ -123,7 +189,7 @@ describe("processPRForUpdateGroup", () => {
 			prUrl: "https://github.com/owner/repo/pull/456",
 		});
 
-		const result = await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig);
+		const result = await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
 
 		expect(result.number).toBe(456);
 		expect(result.url).toBe("https://github.com/owner/repo/pull/456");
@@ -132,30 +198,306 @@ describe("processPRForUpdateGroup", () => {
 		expect(mockApplyUpdates).not.toHaveBeenCalled();
 	});
 
+	it("should close PRs superseded by the new single-extension PR", async () => {
+		const updates = [createUpdate("owner/ext1", "1.0.0", "1.2.0")];
+
+		await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
+
+		expect(mockCloseSupersededPRs).toHaveBeenCalledWith(host, updates[0], baseConfig.branchPrefix, 123, actionsLogger);
+	});
+
+	it("should close superseded PRs when the PR for the latest version already exists", async () => {
+		const updates = [createUpdate("owner/ext1", "1.0.0", "1.2.0")];
+
+		mockCheckExistingPR.mockResolvedValue({
+			exists: true,
+			prNumber: 456,
+			prUrl: "https://github.com/owner/repo/pull/456",
+		});
+
+		await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
+
+		expect(mockCloseSupersededPRs).toHaveBeenCalledWith(host, updates[0], baseConfig.branchPrefix, 456, actionsLogger);
+	});
+
+	it("should not look for superseded PRs for grouped updates", async () => {
+		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0"), createUpdate("owner/ext2", "2.0.0", "2.1.0")];
+
+		await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
+
+		expect(mockCloseSupersededPRs).not.toHaveBeenCalled();
+	});
+
+	describe("rebase strategy", () => {
+		const rebaseConfig: PRProcessingConfig = { ...baseConfig, rebaseStrategy: "auto" };
+
+		beforeEach(() => {
+			mockCheckExistingPR.mockResolvedValue({
+				exists: true,
+				prNumber: 456,
+				prUrl: "https://github.com/owner/repo/pull/456",
+			});
+		});
+
+		it("should leave existing PRs alone when disabled", async () => {
+			const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+
+			await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
+
+			expect(mockGetBranchStatus).not.toHaveBeenCalled();
+			expect(mockApplyUpdates).not.toHaveBeenCalled();
+		});
+
+		it("should regenerate a branch that is behind the base", async () => {
+			const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+			mockGetBranchStatus.mockResolvedValue({ behindBy: 3, conflicting: false, foreignCommits: [] });
+			mockCreateOrUpdatePR.mockResolvedValue({ number: 456, url: "https://github.com/owner/repo/pull/456" });
+
+			const result = await processPRForUpdateGroup(host, mockOctokit, updates, rebaseConfig);
+
+			expect(mockGetBranchStatus).toHaveBeenCalledWith(456, "chore/quarto-extensions/update", "abc123");
+			expect(mockApplyUpdates).toHaveBeenCalledWith(
+				updates,
+				{ installer: "quarto", timeoutMs: 300000, concurrency: 4 },
+				actionsLogger,
+			);
+			expect(mockCreateOrUpdateBranch).toHaveBeenCalledWith(
+				host,
+				"chore/quarto-extensions/update",
+				"abc123",
+				actionsLogger,
+			);
+			expect(mockCreateCommit).toHaveBeenCalled();
+			expect(mockCreateOrUpdatePR).toHaveBeenCalledWith(
+				host,
+				"chore/quarto-extensions/update",
+				"main",
+				expect.any(String),
+				"PR body",
+				baseConfig.prLabels,
+				baseConfig.assignmentConfig,
+				456,
+				actionsLogger,
+			);
+			expect(result.number).toBe(456);
+			expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("PR #456 is 3 commit(s) behind"));
+		});
+
+		it("should regenerate a conflicting branch", async () => {
+			const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+			mockGetBranchStatus.mockResolvedValue({ behindBy: 1, conflicting: true, foreignCommits: [] });
+
+			await processPRForUpdateGroup(host, mockOctokit, updates, rebaseConfig);
+
+			expect(mockCreateCommit).toHaveBeenCalled();
+			expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("PR #456 has conflicts"));
+		});
+
+		it("should skip a branch that is up to date", async () => {
+			const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+			mockGetBranchStatus.mockResolvedValue({ behindBy: 0, conflicting: false, foreignCommits: [] });
+
+			const result = await processPRForUpdateGroup(host, mockOctokit, updates, rebaseConfig);
+
+			expect(result.number).toBe(456);
+			expect(mockApplyUpdates).not.toHaveBeenCalled();
+		});
+
+		it("should not overwrite a branch with commits from someone else", async () => {
+			const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+			mockGetBranchStatus.mockResolvedValue({ behindBy: 2, conflicting: false, foreignCommits: ["abc"] });
+
+			const result = await processPRForUpdateGroup(host, mockOctokit, updates, rebaseConfig);
+
+			expect(result.number).toBe(456);
+			expect(mockCreateOrUpdateBranch).not.toHaveBeenCalled();
+			expect(mockCore.warning).toHaveBeenCalledWith(expect.stringContaining("1 commit(s) from someone else"));
+		});
+
+		it("should leave the PR as is when the comparison fails", async () => {
+			const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+			mockGetBranchStatus.mockRejectedValue(new Error("Not Found"));
+
+			const result = await processPRForUpdateGroup(host, mockOctokit, updates, rebaseConfig);
+
+			expect(result.number).toBe(456);
+			expect(mockApplyUpdates).not.toHaveBeenCalled();
+			expect(mockCore.warning).toHaveBeenCalledWith(expect.stringContaining("Could not compare PR #456"));
+		});
+	});
+
+	describe("named groups", () => {
+		const docsGroup: UpdateGroupRule = { name: "docs", patterns: ["owner/*"], updateTypes: [] };
+		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0"), createUpdate("owner/ext2", "2.0.0", "2.1.0")];
+
+		beforeEach(() => {
+			mockCreateUpdatesMarker.mockReturnValue("<!-- marker -->");
+		});
+
+		it("should use the group's branch, title, commit message and body", async () => {
+			await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig, docsGroup);
+
+			expect(mockCreateBranchName).toHaveBeenCalledWith(updates, "chore/quarto-extensions", "docs");
+			expect(mockGeneratePRTitle).toHaveBeenCalledWith(updates, "chore(deps):", "docs");
+			expect(mockCreateCommitMessage).toHaveBeenCalledWith(updates, "chore(deps):", "docs");
+			expect(mockGeneratePRBody).toHaveBeenCalledWith(updates, mockOctokit, [], "docs", actionsLogger);
+		});
+
+		it("should close single-extension PRs for every extension in the group", async () => {
+			await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig, docsGroup);
+
+			expect(mockCloseSupersededPRs).toHaveBeenCalledTimes(2);
+			expect(mockCloseSupersededPRs).toHaveBeenCalledWith(
+				host,
+				updates[1],
+				"chore/quarto-extensions",
+				123,
+				actionsLogger,
+			);
+		});
+
+		it("should skip an existing PR that already carries the group's updates", async () => {
+			mockCheckExistingPR.mockResolvedValue({
+				exists: true,
+				prNumber: 456,
+				prUrl: "https://github.com/owner/repo/pull/456",
+				prBody: "PR body\n\n<!-- marker -->",
+			});
+
+			const result = await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig, docsGroup);
+
+			expect(result.number).toBe(456);
+			expect(mockGetBranchStatus).not.toHaveBeenCalled();
+			expect(mockApplyUpdates).not.toHaveBeenCalled();
+			expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("already exists for the docs group"));
+		});
+
+		it("should regenerate an existing PR whose updates changed", async () => {
+			mockCheckExistingPR.mockResolvedValue({
+				exists: true,
+				prNumber: 456,
+				prUrl: "https://github.com/owner/repo/pull/456",
+				prBody: "PR body\n\n<!-- older marker -->",
+			});
+			mockGetBranchStatus.mockResolvedValue({ behindBy: 0, conflicting: false, foreignCommits: [] });
+
+			await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig, docsGroup);
+
+			expect(mockApplyUpdates).toHaveBeenCalledWith(
+				updates,
+				{ installer: "quarto", timeoutMs: 300000, concurrency: 4 },
+				actionsLogger,
+			);
+			expect(mockCreateOrUpdatePR).toHaveBeenCalledWith(
+				host,
+				"chore/quarto-extensions/update",
+				"main",
+				"chore(deps): update extension",
+				"PR body",
+				baseConfig.prLabels,
+				baseConfig.assignmentConfig,
+				456,
+				actionsLogger,
+			);
+			expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("no longer matches the group's updates"));
+		});
+
+		it("should not overwrite a changed group branch with commits from someone else", async () => {
+			mockCheckExistingPR.mockResolvedValue({
+				exists: true,
+				prNumber: 456,
+				prUrl: "https://github.com/owner/repo/pull/456",
+				prBody: "PR body",
+			});
+			mockGetBranchStatus.mockResolvedValue({ behindBy: 0, conflicting: false, foreignCommits: ["abc"] });
+
+			await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig, docsGroup);
+
+			expect(mockApplyUpdates).not.toHaveBeenCalled();
+			expect(mockCore.warning).toHaveBeenCalledWith(expect.stringContaining("1 commit(s) from someone else"));
+		});
+
+		it("should apply the group's auto-merge settings", async () => {
+			mockShouldAutoMerge.mockReturnValue(true);
+			mockIsAutoMergeEnabled.mockResolvedValue(false);
+			const autoMergeGroup: UpdateGroupRule = { ...docsGroup, autoMerge: true, autoMergeStrategy: "minor" };
+
+			await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig, autoMergeGroup);
+
+			expect(mockShouldAutoMerge).toHaveBeenCalledWith(updates[0], {
+				enabled: true,
+				strategy: "minor",
+				mergeMethod: "squash",
+			});
+			expect(mockEnableAutoMerge).toHaveBeenCalledWith(host, 123, "squash", actionsLogger);
+		});
+
+		it("should let a group turn auto-merge off", async () => {
+			const autoMergeConfig = { enabled: true, strategy: "all" as const, mergeMethod: "squash" as const };
+
+			await processPRForUpdateGroup(
+				host,
+				mockOctokit,
+				updates,
+				{ ...baseConfig, autoMergeConfig },
+				{ ...docsGroup, autoMerge: false },
+			);
+
+			expect(mockShouldAutoMerge).not.toHaveBeenCalled();
+			expect(mockEnableAutoMerge).not.toHaveBeenCalled();
+		});
+	});
+
 	it("should handle grouped updates", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0"), createUpdate("owner/ext2", "2.0.0", "2.1.0")];
 
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: [
 				"/workspace/_extensions/owner/ext1/_extension.yml",
 				"/workspace/_extensions/owner/ext2/_extension.yml",
 			],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 
-		const result = await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig);
+		const result = await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
 
 		expect(result.number).toBe(123);
-		expect(mockApplyUpdates).toHaveBeenCalledWith(updates);
+		expect(mockApplyUpdates).toHaveBeenCalledWith(
+			updates,
+			{ installer: "quarto", timeoutMs: 300000, concurrency: 4 },
+			actionsLogger,
+		);
 		expect(mockCore.info).toHaveBeenCalledWith("Modified 2 file(s)");
 	});
 
+	it("should pass files removed by the update to the commit as repository paths", async () => {
+		const updates = [createUpdate("owner/ext1", "1.0.0", "2.0.0")];
+
+		mockApplyUpdates.mockResolvedValue({
+			modifiedFiles: ["/workspace/_extensions/owner/ext1/_extension.yml"],
+			deletedFiles: ["/workspace/_extensions/owner/ext1/old-filter.lua"],
+			skippedUpdates: [],
+		});
+
+		await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
+
+		expect(mockCreateCommit).toHaveBeenCalledWith(
+			"chore/quarto-extensions/update",
+			baseConfig.baseSha,
+			expect.any(String),
+			[{ path: "_extensions/owner/ext1/_extension.yml", content: Buffer.from("file content"), mode: "100644" }],
+			["_extensions/owner/ext1/old-filter.lua"],
+		);
+		expect(mockCore.info).toHaveBeenCalledWith("Deleted 1 file(s)");
+	});
+
 	it("should throw error if file validation fails", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
 
 		mockValidateModifiedFiles.mockReturnValue(false);
 
-		await expect(processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig)).rejects.toThrow(
+		await expect(processPRForUpdateGroup(host, mockOctokit, updates, baseConfig)).rejects.toThrow(
 			"Failed to validate modified files for owner/ext1",
 		);
 	});
@@ -171,10 +513,10 @@ describe("processPRForUpdateGroup", () => {
 		mockShouldAutoMerge.mockReturnValue(true);
 		mockIsAutoMergeEnabled.mockResolvedValue(false);
 
-		await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, config);
+		await processPRForUpdateGroup(host, mockOctokit, updates, config);
 
 		expect(mockShouldAutoMerge).toHaveBeenCalledWith(updates[0], config.autoMergeConfig);
-		expect(mockEnableAutoMerge).toHaveBeenCalledWith(mockOctokit, "owner", "repo", 123, "squash");
+		expect(mockEnableAutoMerge).toHaveBeenCalledWith(host, 123, "squash", actionsLogger);
 		expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("Auto-merge enabled for owner/ext1"));
 	});
 
@@ -189,7 +531,7 @@ describe("processPRForUpdateGroup", () => {
 		mockShouldAutoMerge.mockReturnValue(true);
 		mockIsAutoMergeEnabled.mockResolvedValue(true);
 
-		await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, config);
+		await processPRForUpdateGroup(host, mockOctokit, updates, config);
 
 		expect(mockEnableAutoMerge).not.toHaveBeenCalled();
 		expect(mockCore.info).toHaveBeenCalledWith(expect.stringContaining("Auto-merge already enabled for PR #123"));
@@ -205,7 +547,7 @@ describe("processPRForUpdateGroup", () => {
 
 		mockShouldAutoMerge.mockReturnValue(false);
 
-		await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, config);
+		await processPRForUpdateGroup(host, mockOctokit, updates, config);
 
 		expect(mockEnableAutoMerge).not.toHaveBeenCalled();
 		expect(mockCore.info).toHaveBeenCalledWith(
@@ -216,11 +558,12 @@ describe("processPRForUpdateGroup", () => {
 	it("should enable auto-merge for grouped updates when all qualify", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.0.1"), createUpdate("owner/ext2", "2.0.0", "2.0.1")];
 
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: [
 				"/workspace/_extensions/owner/ext1/_extension.yml",
 				"/workspace/_extensions/owner/ext2/_extension.yml",
 			],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 
@@ -232,9 +575,9 @@ describe("processPRForUpdateGroup", () => {
 		mockShouldAutoMerge.mockReturnValue(true);
 		mockIsAutoMergeEnabled.mockResolvedValue(false);
 
-		await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, config);
+		await processPRForUpdateGroup(host, mockOctokit, updates, config);
 
-		expect(mockEnableAutoMerge).toHaveBeenCalledWith(mockOctokit, "owner", "repo", 123, "squash");
+		expect(mockEnableAutoMerge).toHaveBeenCalledWith(host, 123, "squash", actionsLogger);
 		expect(mockCore.info).toHaveBeenCalledWith(
 			expect.stringContaining("Auto-merge enabled for grouped updates (all 2 updates qualify)"),
 		);
@@ -246,11 +589,12 @@ describe("processPRForUpdateGroup", () => {
 			createUpdate("owner/ext2", "2.0.0", "3.0.0"), // Major
 		];
 
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: [
 				"/workspace/_extensions/owner/ext1/_extension.yml",
 				"/workspace/_extensions/owner/ext2/_extension.yml",
 			],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 
@@ -261,7 +605,7 @@ describe("processPRForUpdateGroup", () => {
 
 		mockShouldAutoMerge.mockReturnValueOnce(true).mockReturnValueOnce(false);
 
-		await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, config);
+		await processPRForUpdateGroup(host, mockOctokit, updates, config);
 
 		expect(mockEnableAutoMerge).not.toHaveBeenCalled();
 		expect(mockCore.info).toHaveBeenCalledWith(
@@ -272,26 +616,26 @@ describe("processPRForUpdateGroup", () => {
 	it("should strip workspace path from file paths", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
 
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: ["/workspace/_extensions/owner/ext1/_extension.yml"],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 
-		await processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig);
+		await processPRForUpdateGroup(host, mockOctokit, updates, baseConfig);
 
 		expect(mockCreateCommit).toHaveBeenCalledWith(
-			mockOctokit,
-			"owner",
-			"repo",
 			"chore/quarto-extensions/update",
 			"abc123",
 			expect.any(String),
 			[
 				{
 					path: "_extensions/owner/ext1/_extension.yml",
-					content: expect.any(Buffer),
+					content: Buffer.from("file content"),
+					mode: "100644",
 				},
 			],
+			[],
 		);
 	});
 
@@ -300,9 +644,7 @@ describe("processPRForUpdateGroup", () => {
 
 		mockCreateOrUpdatePR.mockRejectedValue(new Error("API error"));
 
-		await expect(processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig)).rejects.toThrow(
-			"API error",
-		);
+		await expect(processPRForUpdateGroup(host, mockOctokit, updates, baseConfig)).rejects.toThrow("API error");
 
 		expect(mockCore.error).toHaveBeenCalledWith(expect.stringContaining("Failed to create/update PR for owner/ext1"));
 	});
@@ -310,18 +652,17 @@ describe("processPRForUpdateGroup", () => {
 	it("should handle grouped updates error with proper description", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0"), createUpdate("owner/ext2", "2.0.0", "2.1.0")];
 
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: [
 				"/workspace/_extensions/owner/ext1/_extension.yml",
 				"/workspace/_extensions/owner/ext2/_extension.yml",
 			],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 		mockCreateOrUpdatePR.mockRejectedValue(new Error("API error"));
 
-		await expect(processPRForUpdateGroup(mockOctokit, "owner", "repo", updates, baseConfig)).rejects.toThrow(
-			"API error",
-		);
+		await expect(processPRForUpdateGroup(host, mockOctokit, updates, baseConfig)).rejects.toThrow("API error");
 
 		expect(mockCore.error).toHaveBeenCalledWith(
 			expect.stringContaining("Failed to create/update PR for grouped updates"),
@@ -342,6 +683,12 @@ describe("processAllPRs", () => {
 		prLabels: ["dependencies"],
 		autoMergeConfig: { enabled: false, strategy: "patch", mergeMethod: "squash" },
 		assignmentConfig: { reviewers: [], teamReviewers: [], assignees: [] },
+		rebaseStrategy: "disabled",
+		commitMode: "api",
+		installer: "quarto",
+		installTimeout: 300,
+		installConcurrency: 4,
+		groupRules: [],
 	};
 
 	beforeEach(() => {
@@ -351,14 +698,16 @@ describe("processAllPRs", () => {
 		mockCreateBranchName.mockReturnValue("chore/quarto-extensions/update");
 		mockGeneratePRTitle.mockReturnValue("chore(deps): update extension");
 		mockCheckExistingPR.mockResolvedValue({ exists: false });
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: ["/workspace/_extensions/owner/ext/_extension.yml"],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 		mockValidateModifiedFiles.mockReturnValue(true);
 		mockCreateCommitMessage.mockReturnValue("chore(deps): update extension");
 		mockCreateOrUpdateBranch.mockResolvedValue(undefined);
-		mockFs.readFileSync.mockReturnValue(Buffer.from("file content"));
+		mockGetGitFileMode.mockReturnValue("100644");
+		mockReadGitFileContent.mockReturnValue(Buffer.from("file content"));
 		mockCreateCommit.mockResolvedValue("commit123");
 		mockGeneratePRBody.mockResolvedValue("PR body");
 		mockCreateOrUpdatePR.mockResolvedValue({ number: 123, url: "https://github.com/owner/repo/pull/123" });
@@ -378,7 +727,7 @@ describe("processAllPRs", () => {
 			.mockResolvedValueOnce({ number: 123, url: "https://github.com/owner/repo/pull/123" })
 			.mockResolvedValueOnce({ number: 124, url: "https://github.com/owner/repo/pull/124" });
 
-		const { createdPRs } = await processAllPRs(mockOctokit, "owner", "repo", updates, false, baseConfig);
+		const { createdPRs } = await processAllPRs(host, mockOctokit, updates, false, baseConfig);
 
 		expect(createdPRs).toHaveLength(2);
 		expect(createdPRs[0].number).toBe(123);
@@ -391,15 +740,16 @@ describe("processAllPRs", () => {
 	it("should process all updates together when grouped", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0"), createUpdate("owner/ext2", "2.0.0", "2.1.0")];
 
-		mockApplyUpdates.mockReturnValue({
+		mockApplyUpdates.mockResolvedValue({
 			modifiedFiles: [
 				"/workspace/_extensions/owner/ext1/_extension.yml",
 				"/workspace/_extensions/owner/ext2/_extension.yml",
 			],
+			deletedFiles: [],
 			skippedUpdates: [],
 		});
 
-		const { createdPRs } = await processAllPRs(mockOctokit, "owner", "repo", updates, true, baseConfig);
+		const { createdPRs } = await processAllPRs(host, mockOctokit, updates, true, baseConfig);
 
 		expect(createdPRs).toHaveLength(1);
 		expect(createdPRs[0].number).toBe(123);
@@ -408,10 +758,39 @@ describe("processAllPRs", () => {
 		expect(mockCore.startGroup).toHaveBeenCalledWith(expect.stringContaining("2 extensions"));
 	});
 
+	it("should open one PR per named group and follow group-updates for the rest", async () => {
+		const updates = [
+			createUpdate("quarto-ext/lightbox", "1.0.0", "1.0.1"),
+			createUpdate("quarto-ext/fontawesome", "1.0.0", "1.1.0"),
+			createUpdate("owner/ext1", "1.0.0", "1.1.0"),
+		];
+		const quartoExt: UpdateGroupRule = { name: "quarto-ext", patterns: ["quarto-ext/*"], updateTypes: [] };
+
+		mockCreateOrUpdatePR
+			.mockResolvedValueOnce({ number: 123, url: "https://github.com/owner/repo/pull/123" })
+			.mockResolvedValueOnce({ number: 124, url: "https://github.com/owner/repo/pull/124" });
+
+		const { createdPRs } = await processAllPRs(host, mockOctokit, updates, false, {
+			...baseConfig,
+			groupRules: [quartoExt],
+		});
+
+		expect(createdPRs.map((pr) => pr.extensions)).toEqual([
+			["quarto-ext/fontawesome", "quarto-ext/lightbox"],
+			["owner/ext1"],
+		]);
+		expect(mockCore.startGroup).toHaveBeenCalledWith(expect.stringContaining("quarto-ext group (2 extensions)"));
+		expect(mockCreateBranchName).toHaveBeenCalledWith(
+			[updates[1], updates[0]],
+			"chore/quarto-extensions",
+			"quarto-ext",
+		);
+	});
+
 	it("should use correct group description for single extension", async () => {
 		const updates = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
 
-		await processAllPRs(mockOctokit, "owner", "repo", updates, false, baseConfig);
+		await processAllPRs(host, mockOctokit, updates, false, baseConfig);
 
 		expect(mockCore.startGroup).toHaveBeenCalledWith(expect.stringContaining("owner/ext1"));
 	});
@@ -421,23 +800,92 @@ describe("processAllPRs", () => {
 
 		mockCreateOrUpdatePR.mockRejectedValue(new Error("API error"));
 
-		await expect(processAllPRs(mockOctokit, "owner", "repo", updates, false, baseConfig)).rejects.toThrow("API error");
+		await expect(processAllPRs(host, mockOctokit, updates, false, baseConfig)).rejects.toThrow("API error");
 
 		expect(mockCore.endGroup).toHaveBeenCalled();
 		expect(mockCore.error).toHaveBeenCalledWith(expect.stringContaining("Failed to process owner/ext1"));
 	});
 
+	describe("open pull requests limit", () => {
+		const branchFor = (update: ExtensionUpdate) =>
+			`chore/quarto-extensions/update-${update.nameWithOwner.replace("/", "-")}-${update.latestVersion}`;
+
+		beforeEach(() => {
+			mockCreateBranchName.mockImplementation((group) => branchFor(group[0]));
+			mockParseExtensionBranchName.mockImplementation((branch) => {
+				const match = /^chore\/quarto-extensions\/update-(.+)-(\d+\.\d+\.\d+)$/.exec(branch);
+				return match ? { extension: match[1], version: match[2] } : null;
+			});
+			mockGetUpdateType.mockImplementation((current, latest) =>
+				current.split(".")[0] !== latest.split(".")[0]
+					? "major"
+					: current.split(".")[1] !== latest.split(".")[1]
+						? "minor"
+						: "patch",
+			);
+			mockCreateOrUpdatePR.mockImplementation(async (_octokit, _owner, _repo, branch) => ({
+				number: 200,
+				url: `https://github.com/owner/repo/pull/${branch}`,
+			}));
+		});
+
+		it("should not count open PRs without a limit", async () => {
+			await processAllPRs(host, mockOctokit, [createUpdate("owner/ext1", "1.0.0", "1.1.0")], false, {
+				...baseConfig,
+			});
+
+			expect(mockListOpenUpdaterPRs).not.toHaveBeenCalled();
+		});
+
+		it("should stop opening PRs at the limit, in priority order, and report the rest", async () => {
+			const updates = [
+				createUpdate("owner/major", "1.0.0", "2.0.0"),
+				createUpdate("owner/minor", "1.0.0", "1.1.0"),
+				createUpdate("owner/patch-b", "1.0.0", "1.0.1"),
+				createUpdate("owner/patch-a", "1.0.0", "1.0.1"),
+			];
+			mockListOpenUpdaterPRs.mockResolvedValue([
+				{ number: 1, branchName: "chore/quarto-extensions/update-group-docs" },
+			]);
+
+			const { createdPRs, limitedUpdates } = await processAllPRs(host, mockOctokit, updates, false, {
+				...baseConfig,
+				openPullRequestsLimit: 3,
+			});
+
+			expect(mockListOpenUpdaterPRs).toHaveBeenCalledWith(host, "chore/quarto-extensions", ["dependencies"]);
+			expect(createdPRs.map((pr) => pr.extensions)).toEqual([["owner/patch-a"], ["owner/patch-b"]]);
+			expect(limitedUpdates).toEqual([
+				{ update: updates[1], reason: "open-pull-requests-limit of 3 reached" },
+				{ update: updates[0], reason: "open-pull-requests-limit of 3 reached" },
+			]);
+		});
+
+		it("should still update existing PRs and replace superseded ones once the limit is reached", async () => {
+			const updates = [
+				createUpdate("owner/existing", "1.0.0", "1.0.1"),
+				createUpdate("owner/superseded", "1.0.0", "1.0.2"),
+				createUpdate("owner/new", "1.0.0", "1.0.1"),
+			];
+			mockListOpenUpdaterPRs.mockResolvedValue([
+				{ number: 1, branchName: branchFor(updates[0]) },
+				{ number: 2, branchName: "chore/quarto-extensions/update-owner-superseded-1.0.1" },
+			]);
+
+			const { createdPRs, limitedUpdates } = await processAllPRs(host, mockOctokit, updates, false, {
+				...baseConfig,
+				openPullRequestsLimit: 2,
+			});
+
+			expect(createdPRs.map((pr) => pr.extensions)).toEqual([["owner/existing"], ["owner/superseded"]]);
+			expect(limitedUpdates.map((limited) => limited.update.nameWithOwner)).toEqual(["owner/new"]);
+		});
+	});
+
 	it("should process empty updates array", async () => {
 		const updates: ExtensionUpdate[] = [];
 
-		const { createdPRs, skippedUpdates } = await processAllPRs(
-			mockOctokit,
-			"owner",
-			"repo",
-			updates,
-			false,
-			baseConfig,
-		);
+		const { createdPRs, skippedUpdates } = await processAllPRs(host, mockOctokit, updates, false, baseConfig);
 
 		expect(createdPRs).toEqual([]);
 		expect(skippedUpdates).toEqual([]);
@@ -100,6 +100,56 @@ describe("generateDryRunMarkdown", () => {
 		expect(markdown).toContain("| owner/ext2 | 2.0.0 | 2.1.0 | ✗ No |");
 	});
 
+	it("should list rule decisions for rule-governed and held-back updates", () => {
+		const updates: ExtensionUpdate[] = [{ ...createUpdate("quarto-ext/ext1", "1.0.0", "1.1.0"), rule: "quarto-ext/*" }];
+		const blockedUpdates = [
+			{
+				update: createUpdate("owner/ext2", "1.0.0", "2.0.0"),
+				reason: "version 2.0.0 is outside the pinned range ^1 of rule 'owner/ext2'",
+				rule: "owner/ext2",
+			},
+		];
+		const filterConfig: ExtensionFilterConfig = { include: [], exclude: [] };
+		const autoMergeConfig: AutoMergeConfig = { enabled: false, strategy: "patch", mergeMethod: "squash" };
+
+		const markdown = generateDryRunMarkdown(updates, false, "all", filterConfig, autoMergeConfig, blockedUpdates);
+
+		expect(markdown).toContain("### Rule Decisions");
+		expect(markdown).toContain("| quarto-ext/ext1 | 1.0.0 | 1.1.0 | quarto-ext/* | ✓ Allowed |");
+		expect(markdown).toContain(
+			"| owner/ext2 | 1.0.0 | 2.0.0 | owner/ext2 | ✗ Held back: version 2.0.0 is outside the pinned range ^1 of rule 'owner/ext2' |",
+		);
+	});
+
+	it("should omit rule decisions when no rule applies", () => {
+		const updates: ExtensionUpdate[] = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+		const filterConfig: ExtensionFilterConfig = { include: [], exclude: [] };
+		const autoMergeConfig: AutoMergeConfig = { enabled: false, strategy: "patch", mergeMethod: "squash" };
+
+		const markdown = generateDryRunMarkdown(updates, false, "all", filterConfig, autoMergeConfig);
+
+		expect(markdown).not.toContain("### Rule Decisions");
+	});
+
+	it("should list deferred updates with the date each becomes eligible", () => {
+		const updates: ExtensionUpdate[] = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+		const deferredUpdates = [
+			{
+				update: createUpdate("owner/ext2", "1.0.0", "2.0.0"),
+				releaseDate: "2026-10-16T09:30:00.000Z",
+				eligibleDate: "2026-10-30T09:30:00.000Z",
+				cooldownDays: 14,
+			},
+		];
+		const filterConfig: ExtensionFilterConfig = { include: [], exclude: [] };
+		const autoMergeConfig: AutoMergeConfig = { enabled: false, strategy: "patch", mergeMethod: "squash" };
+
+		const markdown = generateDryRunMarkdown(updates, false, "all", filterConfig, autoMergeConfig, [], deferredUpdates);
+
+		expect(markdown).toContain("### Deferred Updates");
+		expect(markdown).toContain("| owner/ext2 | 1.0.0 | 2.0.0 | 2026-10-16 | 2026-10-30 |");
+	});
+
 	it("should show auto-merge status for each update", () => {
 		const updates: ExtensionUpdate[] = [
 			createUpdate("owner/ext1", "1.0.0", "1.0.1"),
@@ -233,6 +283,112 @@ describe("generateCompletedSummary", () => {
 		expect(mockSummary.write).toHaveBeenCalled();
 	});
 
+	it("should list the deferred updates alone when every update is deferred", async () => {
+		const deferredUpdates = [
+			{
+				update: createUpdate("owner/ext1", "1.0.0", "2.0.0"),
+				releaseDate: "2026-10-15T12:00:00.000Z",
+				eligibleDate: "2026-10-29T12:00:00.000Z",
+				cooldownDays: 14,
+			},
+		];
+
+		await generateCompletedSummary(
+			[],
+			[],
+			false,
+			"all",
+			{ include: [], exclude: [] },
+			{ enabled: false, strategy: "patch", mergeMethod: "squash" },
+			[],
+			[],
+			deferredUpdates,
+		);
+
+		expect(mockSummary.addHeading).not.toHaveBeenCalledWith("Applied Updates", 3);
+		expect(mockSummary.addHeading).toHaveBeenCalledWith("Deferred Updates", 3);
+		expect(mockSummary.write).toHaveBeenCalled();
+	});
+
+	it("should add a rule decisions table for held-back updates", async () => {
+		const updates: ExtensionUpdate[] = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+		const createdPRs = [{ number: 123, url: "https://github.com/owner/repo/pull/123", extensions: ["owner/ext1"] }];
+		const blockedUpdates = [
+			{
+				update: createUpdate("owner/ext2", "1.0.0", "2.0.0"),
+				reason: "version 2.0.0 is ignored by rule 'owner/ext2'",
+				rule: "owner/ext2",
+			},
+		];
+
+		const filterConfig: ExtensionFilterConfig = { include: [], exclude: [] };
+		const autoMergeConfig: AutoMergeConfig = { enabled: false, strategy: "patch", mergeMethod: "squash" };
+
+		await generateCompletedSummary(
+			updates,
+			createdPRs,
+			false,
+			"all",
+			filterConfig,
+			autoMergeConfig,
+			[],
+			blockedUpdates,
+		);
+
+		expect(mockSummary.addHeading).toHaveBeenCalledWith("Rule Decisions", 3);
+		expect(mockSummary.addTable).toHaveBeenCalledWith(
+			expect.arrayContaining([
+				[
+					{ data: "owner/ext2", header: false },
+					{ data: "1.0.0", header: false },
+					{ data: "2.0.0", header: false },
+					{ data: "owner/ext2", header: false },
+					{ data: "✗ Held back: version 2.0.0 is ignored by rule 'owner/ext2'", header: false },
+				],
+			]),
+		);
+	});
+
+	it("should add a deferred updates table", async () => {
+		const updates: ExtensionUpdate[] = [createUpdate("owner/ext1", "1.0.0", "1.1.0")];
+		const createdPRs = [{ number: 123, url: "https://github.com/owner/repo/pull/123", extensions: ["owner/ext1"] }];
+		const deferredUpdates = [
+			{
+				update: createUpdate("owner/ext2", "1.0.0", "1.0.1"),
+				releaseDate: "2026-10-17T12:00:00.000Z",
+				eligibleDate: "2026-10-20T12:00:00.000Z",
+				cooldownDays: 3,
+			},
+		];
+		const filterConfig: ExtensionFilterConfig = { include: [], exclude: [] };
+		const autoMergeConfig: AutoMergeConfig = { enabled: false, strategy: "patch", mergeMethod: "squash" };
+
+		await generateCompletedSummary(
+			updates,
+			createdPRs,
+			false,
+			"all",
+			filterConfig,
+			autoMergeConfig,
+			[],
+			[],
+			deferredUpdates,
+		);
+
+		expect(mockSummary.addHeading).toHaveBeenCalledWith("Deferred Updates", 3);
+		expect(mockSummary.addTable).toHaveBeenCalledWith(
+			expect.arrayContaining([
+				[
+					{ data: "owner/ext2", header: false },
+					{ data: "1.0.0", header: false },
+					{ data: "1.0.1", header: false },
+					{ data: "2026-10-17", header: false },
+					{ data: "2026-10-20", header: false },
+				],
+			]),
+		);
+	});
+
 	it("should generate summary for multiple PRs", async () => {
 		const updates: ExtensionUpdate[] = [
 			createUpdate("owner/ext1", "1.0.0", "1.1.0"),
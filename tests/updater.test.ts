@@ -0,0 +1,232 @@
+import { jest } from "@jest/globals";
+import * as os from "os";
+import type { GitHost } from "../src/gitHost.js";
+import type { ReleaseSource } from "../src/compatibility.js";
+import type { UpdaterOptions } from "../src/updater.js";
+import { createMockActionsCore, createMockOctokit, createMockUpdate } from "./__test-utils__/mockFactories.js";
+
+const mockOctokit = createMockOctokit();
+
+jest.unstable_mockModule("@actions/core", createMockActionsCore);
+jest.unstable_mockModule("@actions/github", () => ({
+	getOctokit: jest.fn(() => mockOctokit),
+	context: { repo: { owner: "", repo: "" } },
+}));
+jest.unstable_mockModule("../src/run.js", () => ({
+	findUpdates: jest.fn(),
+	openUpdatePRs: jest.fn(),
+}));
+jest.unstable_mockModule("../src/git.js", () => ({
+	applyUpdates: jest.fn(),
+}));
+jest.unstable_mockModule("../src/github.js", () => ({
+	closeObsoletePRs: jest.fn(),
+	createIssueForUpdates: jest.fn(),
+	createGitHubHost: jest.fn((_octokit, owner, repo) => ({ name: "GitHub", repository: `${owner}/${repo}` })),
+}));
+
+const github = await import("@actions/github");
+const { findUpdates, openUpdatePRs } = await import("../src/run.js");
+const { applyUpdates } = await import("../src/git.js");
+const { closeObsoletePRs, createGitHubHost, createIssueForUpdates } = await import("../src/github.js");
+const { QuartoExtensionsUpdater } = await import("../src/updater.js");
+const { createMemoryLogger } = await import("../src/logger.js");
+const { remoteRegistry } = await import("../src/registry.js");
+
+const mockFindUpdates = jest.mocked(findUpdates);
+const mockOpenUpdatePRs = jest.mocked(openUpdatePRs);
+const mockApplyUpdates = jest.mocked(applyUpdates);
+const mockCloseObsoletePRs = jest.mocked(closeObsoletePRs);
+const mockCreateIssueForUpdates = jest.mocked(createIssueForUpdates);
+
+const workspace = os.tmpdir();
+
+describe("QuartoExtensionsUpdater", () => {
+	const update = createMockUpdate("mcanouil/iconify", "1.0.0", "1.1.0");
+	const client = createMockOctokit() as unknown as ReturnType<typeof github.getOctokit>;
+	const registry = { fetchRegistry: jest.fn(async () => ({})) };
+	let logger: ReturnType<typeof createMemoryLogger>;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		logger = createMemoryLogger();
+		mockFindUpdates.mockResolvedValue({ updates: [update], blockedUpdates: [], deferredUpdates: [], installed: [] });
+		mockCloseObsoletePRs.mockResolvedValue([]);
+	});
+
+	it("should merge the options over the defaults", () => {
+		const updater = new QuartoExtensionsUpdater(
+			{
+				githubToken: "token",
+				workspacePath: workspace,
+				updateStrategy: "minor",
+				cooldown: { major: 7, minor: 0, patch: 0 },
+			},
+			{ logger },
+		);
+
+		expect(updater.config).toMatchObject({
+			workspacePath: workspace,
+			updateStrategy: "minor",
+			cooldown: { major: 7, minor: 0, patch: 0 },
+			baseBranch: "main",
+			branchPrefix: "chore/quarto-extensions",
+		});
+		expect(github.getOctokit).toHaveBeenCalledWith("token");
+	});
+
+	it("should reject invalid options and a missing token", () => {
+		expect(
+			() =>
+				new QuartoExtensionsUpdater(
+					{ githubToken: "token", workspacePath: workspace, branchPrefix: "a..b" },
+					{ logger },
+				),
+		).toThrow("Branch prefix cannot contain '..'");
+		expect(() => new QuartoExtensionsUpdater({ workspacePath: workspace }, { logger })).toThrow("Missing GitHub token");
+		expect(
+			() =>
+				new QuartoExtensionsUpdater(
+					{ githubToken: "token", workspacePath: workspace, repository: "owner" },
+					{ logger },
+				),
+		).toThrow("Invalid repository: 'owner'");
+	});
+
+	it("should check the options the inputs would check", () => {
+		const create = (options: Record<string, unknown>) => () =>
+			new QuartoExtensionsUpdater({ githubToken: "token", workspacePath: workspace, ...options } as UpdaterOptions, {
+				logger,
+			});
+
+		expect(create({ updateStrategy: "bogus" })).toThrow("Invalid update strategy: 'bogus'");
+		expect(create({ rebaseStrategy: "always" })).toThrow("Invalid rebase strategy: 'always'");
+		expect(create({ commitMode: "ssh" })).toThrow("Invalid commit mode: 'ssh'");
+		expect(create({ installer: "npm" })).toThrow("Invalid installer: 'npm'");
+		expect(create({ autoMergeConfig: { enabled: true, strategy: "any", mergeMethod: "squash" } })).toThrow(
+			"Invalid auto-merge strategy: 'any'",
+		);
+		expect(create({ openPullRequestsLimit: -1 })).toThrow("Invalid pull request limit: '-1'");
+		expect(create({ installTimeout: 0 })).toThrow("Invalid install timeout: '0'");
+		expect(create({ installConcurrency: 1.5 })).toThrow("Invalid install concurrency: '1.5'");
+		expect(create({ cooldown: { major: -7 } })).toThrow("Invalid cooldown: '-7'");
+	});
+
+	it("should complete a partial cooldown", () => {
+		const updater = new QuartoExtensionsUpdater(
+			{ githubToken: "token", workspacePath: workspace, cooldown: { major: 14 } } as UpdaterOptions,
+			{ logger },
+		);
+
+		expect(updater.config.cooldown).toEqual({ major: 14, minor: 0, patch: 0 });
+	});
+
+	it("should check for updates through the injected registry, client, release source, and logger", async () => {
+		const releases = { listReleases: jest.fn(), fetchManifest: jest.fn() } as unknown as ReleaseSource;
+		const updater = new QuartoExtensionsUpdater(
+			{ workspacePath: workspace },
+			{ github: client, registry, releases, logger },
+		);
+
+		const found = await updater.checkForUpdates();
+
+		expect(github.getOctokit).not.toHaveBeenCalled();
+		expect(mockFindUpdates).toHaveBeenCalledWith(client, updater.config, logger, registry, releases);
+		expect(found.updates).toEqual([update]);
+	});
+
+	it("should fetch the registry over HTTP by default", async () => {
+		const updater = new QuartoExtensionsUpdater({ workspacePath: workspace }, { github: client, logger });
+
+		await updater.checkForUpdates();
+
+		expect(mockFindUpdates.mock.calls[0][3]).toBe(remoteRegistry);
+	});
+
+	it("should apply updates and return the files changed", async () => {
+		mockApplyUpdates.mockResolvedValue({ modifiedFiles: ["a.lua"], deletedFiles: [], skippedUpdates: [] });
+		const updater = new QuartoExtensionsUpdater({ workspacePath: workspace }, { github: client, logger });
+
+		const result = await updater.applyUpdates([update]);
+
+		expect(mockApplyUpdates).toHaveBeenCalledWith(
+			[update],
+			{ installer: "quarto", timeoutMs: 300000, concurrency: 4 },
+			logger,
+		);
+		expect(result.modifiedFiles).toEqual(["a.lua"]);
+	});
+
+	it("should pass the install settings and the abort signal on to the installs", async () => {
+		mockApplyUpdates.mockResolvedValue({ modifiedFiles: [], deletedFiles: [], skippedUpdates: [] });
+		const updater = new QuartoExtensionsUpdater(
+			{ workspacePath: workspace, installTimeout: 60, installConcurrency: 1 },
+			{ github: client, logger },
+		);
+		const controller = new AbortController();
+
+		await updater.applyUpdates([update], controller.signal);
+
+		expect(mockApplyUpdates).toHaveBeenCalledWith(
+			[update],
+			{ installer: "quarto", timeoutMs: 60000, concurrency: 1, signal: controller.signal },
+			logger,
+		);
+	});
+
+	it("should require a repository for the pull request methods", async () => {
+		const updater = new QuartoExtensionsUpdater({ workspacePath: workspace }, { github: client, logger });
+
+		await expect(updater.run()).rejects.toThrow("Missing repository");
+		await expect(updater.openPullRequests([update])).rejects.toThrow("Missing repository");
+	});
+
+	it("should close obsolete PRs and open PRs for the updates", async () => {
+		mockCloseObsoletePRs.mockResolvedValue([7]);
+		mockOpenUpdatePRs.mockResolvedValue({
+			createdPRs: [{ number: 12, url: "https://github.com/owner/repo/pull/12", extensions: ["mcanouil/iconify"] }],
+			skippedUpdates: [],
+			limitedUpdates: [],
+		});
+		const updater = new QuartoExtensionsUpdater(
+			{ workspacePath: workspace, repository: "owner/repo" },
+			{ github: client, registry, logger },
+		);
+
+		const result = await updater.run();
+
+		const host = jest.mocked(createGitHubHost).mock.results[0].value;
+		expect(createGitHubHost).toHaveBeenCalledWith(client, "owner", "repo");
+		expect(mockCloseObsoletePRs).toHaveBeenCalledWith(host, "chore/quarto-extensions", "main", [], logger);
+		expect(mockOpenUpdatePRs).toHaveBeenCalledWith(host, client, updater.config, [update], logger);
+		expect(result.closedPRs).toEqual([7]);
+		expect(result.pullRequests).toHaveLength(1);
+		expect(result.appliedUpdates).toEqual([update]);
+	});
+
+	it("should open pull requests on the given Git host", async () => {
+		mockOpenUpdatePRs.mockResolvedValue({ createdPRs: [], skippedUpdates: [], limitedUpdates: [] });
+		const gitHost = { name: "GitLab", repository: "group/project" } as unknown as GitHost;
+		const updater = new QuartoExtensionsUpdater({ workspacePath: workspace }, { github: client, gitHost, logger });
+
+		await updater.openPullRequests([update]);
+
+		expect(createGitHubHost).not.toHaveBeenCalled();
+		expect(mockOpenUpdatePRs).toHaveBeenCalledWith(gitHost, client, updater.config, [update], logger);
+	});
+
+	it("should only report the updates in a dry run, with an issue when asked", async () => {
+		mockCreateIssueForUpdates.mockResolvedValue({ number: 3, url: "https://github.com/owner/repo/issues/3" });
+		const updater = new QuartoExtensionsUpdater(
+			{ workspacePath: workspace, repository: "owner/repo", dryRun: true, createIssue: true },
+			{ github: client, logger },
+		);
+
+		const result = await updater.run();
+
+		expect(mockCloseObsoletePRs).not.toHaveBeenCalled();
+		expect(mockOpenUpdatePRs).not.toHaveBeenCalled();
+		expect(result.issue).toEqual({ number: 3, url: "https://github.com/owner/repo/issues/3" });
+		expect(result.pullRequests).toEqual([]);
+	});
+});
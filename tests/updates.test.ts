@@ -1,18 +1,29 @@
 import { jest } from "@jest/globals";
 import type { Registry } from "@quarto-wizard/core";
-import type { ExtensionUpdate, ExtensionFilterConfig } from "../src/types.js";
-import { createMockActionsCore } from "./__test-utils__/mockFactories.js";
+import type {
+	ExtensionUpdate,
+	ExtensionFilterConfig,
+	ExtensionRule,
+	UpdateGroupRule,
+	UpdateStrategy,
+} from "../src/types.js";
+import { createMockActionsCore, createMockUpdate } from "./__test-utils__/mockFactories.js";
 
 jest.unstable_mockModule("@actions/core", createMockActionsCore);
 jest.unstable_mockModule("../src/extensions.js", () => ({
 	findExtensionManifests: jest.fn(),
 	readExtensionManifest: jest.fn(),
+	parseExtensionManifest: jest.fn(),
 	extractExtensionInfo: jest.fn(),
 	updateManifestSource: jest.fn(),
+	parseSourceRef: jest.fn(),
+	isCommitSha: jest.fn(),
 }));
 
+const core = await import("@actions/core");
 const extensions = await import("../src/extensions.js");
-const { checkForUpdates, groupUpdatesByType } = await import("../src/updates.js");
+const { checkForUpdates, groupUpdatesByType, assignUpdateGroups, sortUpdatesByPriority } =
+	await import("../src/updates.js");
 
 describe("checkForUpdates", () => {
 	const mockRegistry: Registry = {
@@ -40,7 +51,7 @@ describe("checkForUpdates", () => {
 		jest.clearAllMocks();
 	});
 
-	it("should skip extension without source field", () => {
+	it("should skip extension without source field", async () => {
 		const mockManifests = ["/workspace/_extensions/mcanouil/iconify/_extension.yml"];
 
 		(extensions.findExtensionManifests as jest.Mock).mockReturnValue(mockManifests);
@@ -53,12 +64,12 @@ describe("checkForUpdates", () => {
 			name: "iconify",
 		});
 
-		const updates = checkForUpdates("/workspace", mockRegistry);
+		const { updates } = await checkForUpdates("/workspace", mockRegistry);
 
 		expect(updates).toHaveLength(0);
 	});
 
-	it("should detect updates for extension with source field", () => {
+	it("should detect updates for extension with source field", async () => {
 		const mockManifests = ["/workspace/_extensions/mcanouil/iconify/_extension.yml"];
 
 		(extensions.findExtensionManifests as jest.Mock).mockReturnValue(mockManifests);
@@ -72,7 +83,7 @@ describe("checkForUpdates", () => {
 			name: "iconify",
 		});
 
-		const updates = checkForUpdates("/workspace", mockRegistry);
+		const { updates } = await checkForUpdates("/workspace", mockRegistry);
 
 		expect(updates).toHaveLength(1);
 		expect(updates[0].nameWithOwner).toBe("mcanouil/iconify");
@@ -80,7 +91,7 @@ describe("checkForUpdates", () => {
 		expect(updates[0].latestVersion).toBe("v1.1.1");
 	});
 
-	it("should skip extension without version", () => {
+	it("should skip extension without version", async () => {
 		const mockManifests = ["/workspace/_extensions/mcanouil/iconify/_extension.yml"];
 
 		(extensions.findExtensionManifests as jest.Mock).mockReturnValue(mockManifests);
@@ -93,12 +104,12 @@ describe("checkForUpdates", () => {
 			name: "iconify",
 		});
 
-		const updates = checkForUpdates("/workspace", mockRegistry);
+		const { updates } = await checkForUpdates("/workspace", mockRegistry);
 
 		expect(updates).toHaveLength(0);
 	});
 
-	it("should skip extension not in registry", () => {
+	it("should skip extension not in registry", async () => {
 		const mockManifests = ["/workspace/_extensions/unknown/extension/_extension.yml"];
 
 		(extensions.findExtensionManifests as jest.Mock).mockReturnValue(mockManifests);
@@ -111,12 +122,12 @@ describe("checkForUpdates", () => {
 			name: "extension",
 		});
 
-		const updates = checkForUpdates("/workspace", mockRegistry);
+		const { updates } = await checkForUpdates("/workspace", mockRegistry);
 
 		expect(updates).toHaveLength(0);
 	});
 
-	it("should handle version with v prefix", () => {
+	it("should handle version with v prefix", async () => {
 		const mockManifests = ["/workspace/_extensions/mcanouil/iconify/_extension.yml"];
 
 		(extensions.findExtensionManifests as jest.Mock).mockReturnValue(mockManifests);
@@ -130,7 +141,7 @@ describe("checkForUpdates", () => {
 			name: "iconify",
 		});
 
-		const updates = checkForUpdates("/workspace", mockRegistry);
+		const { updates } = await checkForUpdates("/workspace", mockRegistry);
 
 		expect(updates).toHaveLength(1);
 		expect(updates[0].currentVersion).toBe("v1.0.0");
@@ -236,13 +247,13 @@ describe("checkForUpdates", () => {
 			});
 		});
 
-		it("should include only specified extensions when include filter is used", () => {
+		it("should include only specified extensions when include filter is used", async () => {
 			const filterConfig: ExtensionFilterConfig = {
 				include: ["mcanouil/iconify", "quarto-ext/lightbox"],
 				exclude: [],
 			};
 
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
 
 			expect(updates).toHaveLength(2);
 			expect(updates.map((u) => u.nameWithOwner)).toContain("mcanouil/iconify");
@@ -250,13 +261,13 @@ describe("checkForUpdates", () => {
 			expect(updates.map((u) => u.nameWithOwner)).not.toContain("quarto-ext/fancy-text");
 		});
 
-		it("should exclude specified extensions when exclude filter is used", () => {
+		it("should exclude specified extensions when exclude filter is used", async () => {
 			const filterConfig: ExtensionFilterConfig = {
 				include: [],
 				exclude: ["quarto-ext/fancy-text"],
 			};
 
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
 
 			expect(updates).toHaveLength(2);
 			expect(updates.map((u) => u.nameWithOwner)).toContain("mcanouil/iconify");
@@ -264,56 +275,127 @@ describe("checkForUpdates", () => {
 			expect(updates.map((u) => u.nameWithOwner)).not.toContain("quarto-ext/fancy-text");
 		});
 
-		it("should handle both include and exclude filters (exclude takes precedence)", () => {
+		it("should handle both include and exclude filters (exclude takes precedence)", async () => {
 			const filterConfig: ExtensionFilterConfig = {
 				include: ["mcanouil/iconify", "quarto-ext/lightbox"],
 				exclude: ["quarto-ext/lightbox"],
 			};
 
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
 
 			expect(updates).toHaveLength(1);
 			expect(updates[0].nameWithOwner).toBe("mcanouil/iconify");
 		});
 
-		it("should return all updates when filter config is not provided", () => {
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple);
+		it("should return all updates when filter config is not provided", async () => {
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple);
 
 			expect(updates).toHaveLength(3);
 		});
 
-		it("should return all updates when filter config has empty arrays", () => {
+		it("should return all updates when filter config has empty arrays", async () => {
 			const filterConfig: ExtensionFilterConfig = {
 				include: [],
 				exclude: [],
 			};
 
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
 
 			expect(updates).toHaveLength(3);
 		});
 
-		it("should return no updates when include filter matches no extensions", () => {
+		it("should return no updates when include filter matches no extensions", async () => {
 			const filterConfig: ExtensionFilterConfig = {
 				include: ["nonexistent/extension"],
 				exclude: [],
 			};
 
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
 
 			expect(updates).toHaveLength(0);
 		});
 
-		it("should exclude all extensions when all are in exclude list", () => {
+		it("should exclude all extensions when all are in exclude list", async () => {
 			const filterConfig: ExtensionFilterConfig = {
 				include: [],
 				exclude: ["mcanouil/iconify", "quarto-ext/lightbox", "quarto-ext/fancy-text"],
 			};
 
-			const updates = checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
 
 			expect(updates).toHaveLength(0);
 		});
+
+		it("should include extensions matching an owner wildcard", async () => {
+			const filterConfig: ExtensionFilterConfig = {
+				include: ["quarto-ext/*"],
+				exclude: [],
+			};
+
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+
+			expect(updates.map((u) => u.nameWithOwner)).toEqual(["quarto-ext/lightbox", "quarto-ext/fancy-text"]);
+		});
+
+		it("should exclude extensions matching a name wildcard", async () => {
+			const filterConfig: ExtensionFilterConfig = {
+				include: [],
+				exclude: ["*/fancy-*"],
+			};
+
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+
+			expect(updates.map((u) => u.nameWithOwner)).toEqual(["mcanouil/iconify", "quarto-ext/lightbox"]);
+		});
+
+		it("should let a negated pattern carve an extension out of a wildcard", async () => {
+			const filterConfig: ExtensionFilterConfig = {
+				include: ["quarto-ext/*", "!quarto-ext/lightbox"],
+				exclude: [],
+			};
+
+			const { updates } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+
+			expect(updates.map((u) => u.nameWithOwner)).toEqual(["quarto-ext/fancy-text"]);
+		});
+
+		it("should list every installed extension and whether the filters leave it out", async () => {
+			const filterConfig: ExtensionFilterConfig = {
+				include: ["quarto-ext/*"],
+				exclude: ["quarto-ext/fancy-text"],
+			};
+
+			const { installed } = await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+
+			expect(installed).toEqual([
+				{ nameWithOwner: "mcanouil/iconify", version: "1.0.0", excluded: true },
+				{ nameWithOwner: "quarto-ext/lightbox", version: "1.0.0", excluded: false },
+				{ nameWithOwner: "quarto-ext/fancy-text", version: "1.0.0", excluded: true },
+			]);
+		});
+
+		it("should list an extension whose manifest cannot be read as installed but unreadable", async () => {
+			(extensions.readExtensionManifest as jest.Mock).mockReturnValue(null);
+
+			const { updates, installed } = await checkForUpdates("/workspace", mockRegistryMultiple);
+
+			expect(updates).toEqual([]);
+			expect(installed).toContainEqual({ nameWithOwner: "mcanouil/iconify", excluded: false, unreadable: true });
+		});
+
+		it("should warn about patterns that match no installed extension", async () => {
+			const filterConfig: ExtensionFilterConfig = {
+				include: ["quarto-ext/*", "quarto-ext/lightbx"],
+				exclude: ["mcanouil/*"],
+			};
+
+			await checkForUpdates("/workspace", mockRegistryMultiple, filterConfig);
+
+			expect(core.warning).toHaveBeenCalledTimes(1);
+			expect(core.warning).toHaveBeenCalledWith(
+				"Pattern 'quarto-ext/lightbx' in include-extensions does not match any installed extension",
+			);
+		});
 	});
 
 	describe("update strategy", () => {
@@ -416,8 +498,8 @@ describe("checkForUpdates", () => {
 			});
 		});
 
-		it("should return all updates when strategy is 'all'", () => {
-			const updates = checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "all");
+		it("should return all updates when strategy is 'all'", async () => {
+			const { updates } = await checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "all");
 
 			expect(updates).toHaveLength(3);
 			expect(updates.map((u) => u.nameWithOwner)).toContain("owner/patch-update");
@@ -425,8 +507,8 @@ describe("checkForUpdates", () => {
 			expect(updates.map((u) => u.nameWithOwner)).toContain("owner/major-update");
 		});
 
-		it("should return only patch and minor updates when strategy is 'minor'", () => {
-			const updates = checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "minor");
+		it("should return only patch and minor updates when strategy is 'minor'", async () => {
+			const { updates } = await checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "minor");
 
 			expect(updates).toHaveLength(2);
 			expect(updates.map((u) => u.nameWithOwner)).toContain("owner/patch-update");
@@ -434,18 +516,505 @@ describe("checkForUpdates", () => {
 			expect(updates.map((u) => u.nameWithOwner)).not.toContain("owner/major-update");
 		});
 
-		it("should return only patch updates when strategy is 'patch'", () => {
-			const updates = checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "patch");
+		it("should return only patch updates when strategy is 'patch'", async () => {
+			const { updates } = await checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "patch");
 
 			expect(updates).toHaveLength(1);
 			expect(updates[0].nameWithOwner).toBe("owner/patch-update");
 		});
 
-		it("should default to 'all' strategy when not specified", () => {
-			const updates = checkForUpdates("/workspace", mockRegistryForStrategy);
+		it("should default to 'all' strategy when not specified", async () => {
+			const { updates } = await checkForUpdates("/workspace", mockRegistryForStrategy);
 
 			expect(updates).toHaveLength(3);
 		});
+
+		it("should apply a per-extension strategy over the global one", async () => {
+			const { updates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryForStrategy,
+				undefined,
+				"patch",
+				["."],
+				[
+					{ match: "owner/major-update", updateStrategy: "all", ignoreVersions: [] },
+					{ match: "owner/patch-update", updateStrategy: "minor", ignoreVersions: [] },
+				],
+			);
+
+			expect(updates.map((u) => u.nameWithOwner).sort()).toEqual(["owner/major-update", "owner/patch-update"]);
+		});
+
+		it("should skip versions ignored by a per-extension rule", async () => {
+			const { updates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryForStrategy,
+				undefined,
+				"all",
+				["."],
+				[{ match: "owner/major-update", ignoreVersions: ["2.0.0"] }],
+			);
+
+			expect(updates.map((u) => u.nameWithOwner)).not.toContain("owner/major-update");
+			expect(updates).toHaveLength(2);
+		});
+
+		it("should apply glob rules and prefer exact rules over globs", async () => {
+			const { updates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryForStrategy,
+				undefined,
+				"all",
+				["."],
+				[
+					{ match: "owner/*", updateStrategy: "patch", ignoreVersions: [] },
+					{ match: "owner/minor-update", updateStrategy: "minor", ignoreVersions: [] },
+				],
+			);
+
+			expect(updates.map((u) => u.nameWithOwner).sort()).toEqual(["owner/minor-update", "owner/patch-update"]);
+			expect(updates.find((u) => u.nameWithOwner === "owner/minor-update")?.rule).toBe("owner/minor-update");
+			expect(updates.find((u) => u.nameWithOwner === "owner/patch-update")?.rule).toBe("owner/*");
+		});
+
+		it("should hold back versions outside a pinned range", async () => {
+			const { updates, blockedUpdates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryForStrategy,
+				undefined,
+				"all",
+				["."],
+				[{ match: "owner/*", pin: "^1", ignoreVersions: [] }],
+			);
+
+			expect(updates).toHaveLength(2);
+			expect(blockedUpdates).toHaveLength(1);
+			expect(blockedUpdates[0].update.nameWithOwner).toBe("owner/major-update");
+			expect(blockedUpdates[0].rule).toBe("owner/*");
+			expect(blockedUpdates[0].reason).toContain("outside the pinned range ^1 of rule 'owner/*'");
+		});
+
+		it("should report updates held back by the global strategy without a rule", async () => {
+			const { blockedUpdates } = await checkForUpdates("/workspace", mockRegistryForStrategy, undefined, "patch");
+
+			expect(blockedUpdates.map((b) => b.update.nameWithOwner).sort()).toEqual([
+				"owner/major-update",
+				"owner/minor-update",
+			]);
+			expect(blockedUpdates.every((b) => b.rule === undefined)).toBe(true);
+			expect(blockedUpdates[0].reason).toContain("not allowed by update strategy (patch, global setting)");
+		});
+	});
+
+	describe("prereleases", () => {
+		const registryEntry = (fullName: string, latestVersion: string) => ({
+			id: fullName,
+			owner: "owner",
+			name: fullName.split("/")[1],
+			fullName,
+			description: "Test extension",
+			topics: ["quarto"],
+			contributes: ["filters"],
+			latestVersion,
+			latestTag: `v${latestVersion}`,
+			latestReleaseUrl: `https://github.com/${fullName}/releases/tag/v${latestVersion}`,
+			stars: 10,
+			licence: "MIT License",
+			htmlUrl: `https://github.com/${fullName}`,
+			template: false,
+			defaultBranchRef: "main",
+			latestCommit: "abc123",
+		});
+		const mockRegistryWithPrereleases: Registry = {
+			"owner/beta": registryEntry("owner/beta", "2.0.0-beta.2"),
+			"owner/graduate": registryEntry("owner/graduate", "3.0.0"),
+		};
+		const installedVersions: Record<string, string> = { beta: "1.4.0", graduate: "3.0.0-rc.1" };
+
+		beforeEach(() => {
+			(extensions.findExtensionManifests as jest.Mock).mockReturnValue([
+				"/workspace/_extensions/owner/beta/_extension.yml",
+				"/workspace/_extensions/owner/graduate/_extension.yml",
+			]);
+			(extensions.readExtensionManifest as jest.Mock).mockImplementation((path: string) => {
+				const name = path.includes("beta") ? "beta" : "graduate";
+				return { version: installedVersions[name], source: `owner/${name}@${installedVersions[name]}` };
+			});
+			(extensions.extractExtensionInfo as jest.Mock).mockImplementation((path: string) => ({
+				owner: "owner",
+				name: path.includes("beta") ? "beta" : "graduate",
+			}));
+		});
+
+		it("should hold back prereleases by default but move a prerelease to its stable release", async () => {
+			const { updates, blockedUpdates } = await checkForUpdates("/workspace", mockRegistryWithPrereleases);
+
+			expect(updates.map((u) => u.nameWithOwner)).toEqual(["owner/graduate"]);
+			expect(blockedUpdates).toHaveLength(1);
+			expect(blockedUpdates[0].update.nameWithOwner).toBe("owner/beta");
+			expect(blockedUpdates[0].reason).toBe(
+				"version v2.0.0-beta.2 is a prerelease, not allowed by allow-prereleases (global setting)",
+			);
+		});
+
+		it("should propose prereleases when allowed globally", async () => {
+			const { updates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryWithPrereleases,
+				undefined,
+				"all",
+				["."],
+				[],
+				true,
+			);
+
+			expect(updates.map((u) => u.nameWithOwner)).toEqual(["owner/beta", "owner/graduate"]);
+		});
+
+		it("should let a per-extension rule override the global setting", async () => {
+			const allowed = await checkForUpdates(
+				"/workspace",
+				mockRegistryWithPrereleases,
+				undefined,
+				"all",
+				["."],
+				[{ match: "owner/beta", ignoreVersions: [], allowPrereleases: true }],
+			);
+			expect(allowed.updates.find((u) => u.nameWithOwner === "owner/beta")?.rule).toBe("owner/beta");
+
+			const blocked = await checkForUpdates(
+				"/workspace",
+				mockRegistryWithPrereleases,
+				undefined,
+				"all",
+				["."],
+				[{ match: "owner/*", ignoreVersions: [], allowPrereleases: false }],
+				true,
+			);
+			expect(blocked.updates.map((u) => u.nameWithOwner)).toEqual(["owner/graduate"]);
+			expect(blocked.blockedUpdates[0].rule).toBe("owner/*");
+			expect(blocked.blockedUpdates[0].reason).toContain("allow-prereleases (rule 'owner/*')");
+		});
+
+		it("should match allowed prereleases against a pinned range", async () => {
+			const { updates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryWithPrereleases,
+				undefined,
+				"all",
+				["."],
+				[{ match: "owner/beta", pin: "^2", ignoreVersions: [], allowPrereleases: true }],
+			);
+
+			expect(updates.map((u) => u.nameWithOwner)).toContain("owner/beta");
+		});
+
+		it("should treat a prerelease to its stable release as the update from the last stable release", async () => {
+			const { updates, blockedUpdates } = await checkForUpdates(
+				"/workspace",
+				mockRegistryWithPrereleases,
+				undefined,
+				"minor",
+			);
+
+			expect(updates).toEqual([]);
+			expect(blockedUpdates.map(({ reason }) => reason)).toContain(
+				"major update (3.0.0-rc.1 → v3.0.0) not allowed by update strategy (minor, global setting)",
+			);
+		});
+	});
+
+	describe("quarto-required and fallback releases", () => {
+		const mockRegistryWithRequirements: Registry = {
+			"owner/ext": {
+				id: "owner/ext",
+				owner: "owner",
+				name: "ext",
+				fullName: "owner/ext",
+				description: "Test extension",
+				topics: ["quarto"],
+				contributes: ["filters"],
+				latestVersion: "2.0.0",
+				latestTag: "v2.0.0",
+				latestReleaseUrl: "https://github.com/owner/ext/releases/tag/v2.0.0",
+				stars: 10,
+				licence: "MIT License",
+				htmlUrl: "https://github.com/owner/ext",
+				template: false,
+				defaultBranchRef: "main",
+				latestCommit: "abc123",
+			},
+		};
+		let requirements: Record<string, string | undefined>;
+		const releases = {
+			listReleases: jest.fn(async () =>
+				["v2.0.0", "v1.9.0-beta.1", "v1.8.0", "v1.5.0", "v1.0.0", "v0.9.0"].map((tag) => ({
+					tag,
+					url: `https://github.com/owner/ext/releases/tag/${tag}`,
+				})),
+			),
+			fetchManifest: jest.fn(async (_repository: string, tag: string) => ({
+				version: tag,
+				quartoRequired: requirements[tag],
+			})),
+		};
+		const check = (
+			updateStrategy: UpdateStrategy = "all",
+			extensionRules: ExtensionRule[] = [],
+			quartoVersion: string | null = "1.6.2",
+		) =>
+			checkForUpdates(
+				"/workspace",
+				mockRegistryWithRequirements,
+				undefined,
+				updateStrategy,
+				["."],
+				extensionRules,
+				false,
+				{ quartoVersion, releases },
+			);
+
+		beforeEach(() => {
+			requirements = { "v2.0.0": ">=1.7.0", "v1.9.0-beta.1": ">=1.6.0", "v1.8.0": ">=1.7.0", "v1.5.0": ">=1.5.0" };
+			(extensions.findExtensionManifests as jest.Mock).mockReturnValue([
+				"/workspace/_extensions/owner/ext/_extension.yml",
+			]);
+			(extensions.readExtensionManifest as jest.Mock).mockReturnValue({ version: "1.0.0", source: "owner/ext@v1.0.0" });
+			(extensions.extractExtensionInfo as jest.Mock).mockReturnValue({ owner: "owner", name: "ext" });
+		});
+
+		it("should propose the latest release when the installed Quarto supports it", async () => {
+			requirements["v2.0.0"] = ">=1.6.0";
+
+			const { updates } = await check();
+
+			expect(updates[0].latestVersion).toBe("v2.0.0");
+			expect(releases.fetchManifest).toHaveBeenCalledWith("owner/ext", "v2.0.0", "owner", "ext");
+			expect(releases.listReleases).not.toHaveBeenCalled();
+		});
+
+		it("should propose the newest compatible release the rules allow when the latest needs a newer Quarto", async () => {
+			const { updates, blockedUpdates } = await check();
+
+			expect(blockedUpdates).toEqual([]);
+			expect(updates).toHaveLength(1);
+			expect(updates[0]).toMatchObject({
+				latestVersion: "v1.5.0",
+				releaseUrl: "https://github.com/owner/ext/releases/tag/v1.5.0",
+				fallback: {
+					heldBackVersion: "v2.0.0",
+					reason: "version v2.0.0 requires Quarto >=1.7.0 but 1.6.2 is installed",
+				},
+			});
+			expect(releases.listReleases).toHaveBeenCalledWith("owner/ext", "1.0.0");
+			// The prerelease is not allowed, so its manifest is not read
+			expect(releases.fetchManifest.mock.calls.map(([, tag]) => tag)).toEqual(["v2.0.0", "v1.8.0", "v1.5.0"]);
+			expect(core.info).toHaveBeenCalledWith(
+				"Holding back owner/ext v2.0.0: version v2.0.0 requires Quarto >=1.7.0 but 1.6.2 is installed. " +
+					"Proposing v1.5.0, the newest release that satisfies every constraint",
+			);
+		});
+
+		it("should carry the release date of the registry, which does not apply to a fallback release", async () => {
+			const registry = {
+				"owner/ext": { ...mockRegistryWithRequirements["owner/ext"], latestReleaseDate: "2026-10-16T12:00:00Z" },
+			} as Registry;
+			const checkWithDate = (quartoVersion: string) =>
+				checkForUpdates("/workspace", registry, undefined, "all", ["."], [], false, { quartoVersion, releases });
+
+			expect((await checkWithDate("1.7.0")).updates[0]).toMatchObject({
+				latestVersion: "v2.0.0",
+				releaseDate: "2026-10-16T12:00:00Z",
+			});
+			const { updates } = await checkWithDate("1.6.2");
+			expect(updates[0].latestVersion).toBe("v1.5.0");
+			expect(updates[0].releaseDate).toBeUndefined();
+		});
+
+		it("should fall back from a latest release the update strategy does not allow", async () => {
+			const { updates } = await check("minor", [], null);
+
+			expect(updates[0]).toMatchObject({
+				latestVersion: "v1.8.0",
+				fallback: {
+					heldBackVersion: "v2.0.0",
+					reason: "major update (1.0.0 → v2.0.0) not allowed by update strategy (minor, global setting)",
+				},
+			});
+			expect(releases.fetchManifest).not.toHaveBeenCalled();
+		});
+
+		it("should fall back past ignored versions, keeping the rule that allowed the release", async () => {
+			const { updates } = await check("all", [{ match: "owner/*", ignoreVersions: ["2.0.0", "1.8.0"] }]);
+
+			expect(updates[0]).toMatchObject({
+				latestVersion: "v1.5.0",
+				rule: "owner/*",
+				fallback: { heldBackVersion: "v2.0.0", reason: "version v2.0.0 is ignored by rule 'owner/*'" },
+			});
+		});
+
+		it("should hold back the update when no newer release satisfies every constraint", async () => {
+			requirements["v1.5.0"] = ">=1.7.0";
+
+			const { updates, blockedUpdates } = await check();
+
+			expect(updates).toEqual([]);
+			expect(blockedUpdates).toEqual([
+				expect.objectContaining({ reason: "version v2.0.0 requires Quarto >=1.7.0 but 1.6.2 is installed" }),
+			]);
+		});
+
+		it("should hold back the update when the releases cannot be listed", async () => {
+			releases.listReleases.mockRejectedValueOnce(new Error("HTTP 403"));
+
+			const { updates, blockedUpdates } = await check("patch");
+
+			expect(updates).toEqual([]);
+			expect(blockedUpdates).toHaveLength(1);
+			expect(core.warning).toHaveBeenCalledWith("Could not list the releases of owner/ext: Error: HTTP 403");
+		});
+
+		it("should fall back from a latest release whose manifest cannot be read", async () => {
+			requirements["v2.0.0"] = ">=1.6.0";
+			releases.fetchManifest.mockRejectedValueOnce(new Error("HTTP 502"));
+
+			const { updates } = await check();
+
+			expect(updates[0]).toMatchObject({
+				latestVersion: "v1.5.0",
+				fallback: {
+					heldBackVersion: "v2.0.0",
+					reason: "the manifest of version v2.0.0 could not be read to check quarto-required",
+				},
+			});
+			expect(core.warning).toHaveBeenCalledWith(
+				"Could not check quarto-required of owner/ext v2.0.0 before installing: Error: HTTP 502",
+			);
+		});
+
+		it("should hold back the update when no manifest can be read", async () => {
+			releases.fetchManifest.mockResolvedValueOnce(null as never);
+			requirements["v1.5.0"] = ">=1.7.0";
+
+			const { updates, blockedUpdates } = await check();
+
+			expect(updates).toEqual([]);
+			expect(blockedUpdates).toEqual([
+				expect.objectContaining({
+					reason: "the manifest of version v2.0.0 could not be read to check quarto-required",
+				}),
+			]);
+		});
+
+		it("should install without checking quarto-required when Quarto is not installed", async () => {
+			const { updates } = await check("all", [], null);
+
+			expect(updates[0].latestVersion).toBe("v2.0.0");
+			expect(releases.fetchManifest).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("commit tracking", () => {
+		beforeEach(() => {
+			(extensions.findExtensionManifests as jest.Mock).mockReturnValue([
+				"/workspace/_extensions/mcanouil/iconify/_extension.yml",
+			]);
+			(extensions.extractExtensionInfo as jest.Mock).mockReturnValue({ owner: "mcanouil", name: "iconify" });
+			(extensions.parseSourceRef as jest.Mock).mockImplementation((source: string) => {
+				const [repository, ref] = source.split("@");
+				return { repository, ref };
+			});
+			(extensions.isCommitSha as jest.Mock).mockImplementation((ref: string) => /^[0-9a-f]{7,40}$/.test(ref));
+		});
+
+		it("should set aside extensions installed from a commit SHA", async () => {
+			(extensions.readExtensionManifest as jest.Mock).mockReturnValue({
+				version: "1.0.0",
+				source: "mcanouil/quarto-iconify@3f2a1b9",
+			});
+
+			const { updates, commitTracked } = await checkForUpdates(
+				"/workspace",
+				mockRegistry,
+				undefined,
+				"all",
+				["."],
+				[{ match: "mcanouil/iconify", ignoreVersions: [], branch: "dev" }],
+			);
+
+			expect(updates).toHaveLength(0);
+			expect(commitTracked).toEqual([
+				{
+					name: "iconify",
+					owner: "mcanouil",
+					nameWithOwner: "mcanouil/iconify",
+					repositoryName: "mcanouil/quarto-iconify",
+					ref: "3f2a1b9",
+					branch: "dev",
+					manifestPath: "/workspace/_extensions/mcanouil/iconify/_extension.yml",
+					url: "https://github.com/mcanouil/quarto-iconify",
+					description: "Use Iconify icons in Quarto HTML documents",
+					rule: "mcanouil/iconify",
+				},
+			]);
+		});
+
+		it("should set aside extensions installed from a branch, even when they are not in the registry", async () => {
+			(extensions.readExtensionManifest as jest.Mock).mockReturnValue({
+				version: "none",
+				source: "someone/quarto-draft@main",
+			});
+			(extensions.extractExtensionInfo as jest.Mock).mockReturnValue({ owner: "someone", name: "draft" });
+
+			const { commitTracked } = await checkForUpdates("/workspace", mockRegistry);
+
+			expect(commitTracked).toHaveLength(1);
+			expect(commitTracked[0]).toMatchObject({
+				ref: "main",
+				branch: undefined,
+				url: "https://github.com/someone/quarto-draft",
+				description: "",
+				rule: undefined,
+			});
+		});
+
+		it("should set aside extensions installed from a branch whose name holds a number", async () => {
+			for (const branch of ["release-1.2", "v2-dev"]) {
+				(extensions.readExtensionManifest as jest.Mock).mockReturnValue({
+					version: "1.0.0",
+					source: `mcanouil/quarto-iconify@${branch}`,
+				});
+
+				const { updates, commitTracked } = await checkForUpdates("/workspace", mockRegistry);
+
+				expect(updates).toHaveLength(0);
+				expect(commitTracked).toEqual([expect.objectContaining({ ref: branch })]);
+			}
+		});
+
+		it("should read a tag naming the manifest version as a release", async () => {
+			(extensions.readExtensionManifest as jest.Mock).mockReturnValue({
+				version: "1.2.0.1",
+				source: "mcanouil/quarto-iconify@v1.2.0.1",
+			});
+
+			const { commitTracked } = await checkForUpdates("/workspace", mockRegistry);
+
+			expect(commitTracked).toHaveLength(0);
+		});
+
+		it("should keep checking extensions installed from a tag against the registry", async () => {
+			(extensions.readExtensionManifest as jest.Mock).mockReturnValue({
+				version: "1.0.0",
+				source: "mcanouil/quarto-iconify@v1.0",
+			});
+
+			const { updates, commitTracked } = await checkForUpdates("/workspace", mockRegistry);
+
+			expect(commitTracked).toHaveLength(0);
+			expect(updates).toHaveLength(1);
+		});
 	});
 
 	describe("multi-directory scanning", () => {
@@ -453,7 +1022,7 @@ describe("checkForUpdates", () => {
 			jest.clearAllMocks();
 		});
 
-		it("should scan multiple directories and combine results", () => {
+		it("should scan multiple directories and combine results", async () => {
 			(extensions.findExtensionManifests as jest.Mock)
 				.mockReturnValueOnce(["/workspace/_extensions/mcanouil/iconify/_extension.yml"])
 				.mockReturnValueOnce(["/workspace/slides/_extensions/quarto-ext/lightbox/_extension.yml"]);
@@ -507,7 +1076,7 @@ describe("checkForUpdates", () => {
 				},
 			};
 
-			const updates = checkForUpdates("/workspace", multiRegistry, undefined, "all", [".", "slides"]);
+			const { updates } = await checkForUpdates("/workspace", multiRegistry, undefined, "all", [".", "slides"]);
 
 			expect(updates).toHaveLength(2);
 			expect(updates.map((u) => u.nameWithOwner)).toContain("mcanouil/iconify");
@@ -515,7 +1084,7 @@ describe("checkForUpdates", () => {
 			expect(extensions.findExtensionManifests).toHaveBeenCalledTimes(2);
 		});
 
-		it("should deduplicate manifests when directories overlap", () => {
+		it("should deduplicate manifests when directories overlap", async () => {
 			const sharedManifest = "/workspace/_extensions/mcanouil/iconify/_extension.yml";
 			(extensions.findExtensionManifests as jest.Mock)
 				.mockReturnValueOnce([sharedManifest])
@@ -531,7 +1100,7 @@ describe("checkForUpdates", () => {
 				name: "iconify",
 			});
 
-			const updates = checkForUpdates("/workspace", mockRegistry, undefined, "all", [".", "."]);
+			const { updates } = await checkForUpdates("/workspace", mockRegistry, undefined, "all", [".", "."]);
 
 			expect(updates).toHaveLength(1);
 		});
@@ -585,3 +1154,71 @@ describe("groupUpdatesByType", () => {
 		expect(grouped.major).toHaveLength(1);
 	});
 });
+
+describe("sortUpdatesByPriority", () => {
+	it("should order patch, minor, major, then other updates, each by name", () => {
+		const updates = [
+			createMockUpdate("owner/major", "1.0.0", "2.0.0"),
+			createMockUpdate("owner/commit", "3f2a1b9", "9c8d7e6"),
+			createMockUpdate("owner/patch-b", "1.0.0", "1.0.1"),
+			createMockUpdate("owner/minor", "1.0.0", "1.1.0"),
+			createMockUpdate("owner/patch-a", "v1.0.0", "v1.0.2"),
+		];
+
+		expect(sortUpdatesByPriority(updates).map((u) => u.nameWithOwner)).toEqual([
+			"owner/patch-a",
+			"owner/patch-b",
+			"owner/minor",
+			"owner/major",
+			"owner/commit",
+		]);
+		expect(updates[0].nameWithOwner).toBe("owner/major");
+	});
+});
+
+describe("assignUpdateGroups", () => {
+	const lightbox = createMockUpdate("quarto-ext/lightbox", "1.0.0", "1.0.1");
+	const fontawesome = createMockUpdate("quarto-ext/fontawesome", "1.0.0", "2.0.0");
+	const iconify = createMockUpdate("mcanouil/iconify", "1.0.0", "1.1.0");
+	const nameSort = createMockUpdate("mcanouil/namesort", "1.0.0", "2.0.0");
+	const updates = [lightbox, fontawesome, iconify, nameSort];
+
+	const quartoExt: UpdateGroupRule = { name: "quarto-ext", patterns: ["quarto-ext/*"], updateTypes: [] };
+	const nonMajor: UpdateGroupRule = { name: "non-major", patterns: [], updateTypes: ["minor", "patch"] };
+
+	it("should keep the existing behaviour without named groups", () => {
+		expect(assignUpdateGroups(updates, [], true)).toEqual([{ updates }]);
+		expect(assignUpdateGroups(updates, [], false)).toEqual(updates.map((update) => ({ updates: [update] })));
+	});
+
+	it("should put each update in the first matching group", () => {
+		const groups = assignUpdateGroups(updates, [quartoExt, nonMajor], false);
+
+		expect(groups).toEqual([
+			{ rule: quartoExt, updates: [lightbox, fontawesome] },
+			{ rule: nonMajor, updates: [iconify] },
+			{ updates: [nameSort] },
+		]);
+	});
+
+	it("should combine patterns and update types", () => {
+		const quartoExtPatches: UpdateGroupRule = {
+			name: "quarto-ext-patches",
+			patterns: ["quarto-ext/*", "!quarto-ext/fontawesome"],
+			updateTypes: ["patch"],
+		};
+
+		const groups = assignUpdateGroups(updates, [quartoExtPatches], true);
+
+		expect(groups).toEqual([
+			{ rule: quartoExtPatches, updates: [lightbox] },
+			{ updates: [fontawesome, iconify, nameSort] },
+		]);
+	});
+
+	it("should leave out groups that no update matches", () => {
+		const empty: UpdateGroupRule = { name: "empty", patterns: ["someone/*"], updateTypes: [] };
+
+		expect(assignUpdateGroups([iconify], [empty, nonMajor], true)).toEqual([{ rule: nonMajor, updates: [iconify] }]);
+	});
+});
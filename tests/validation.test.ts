@@ -4,16 +4,33 @@ import { createMockFs } from "./__test-utils__/mockFactories.js";
 jest.unstable_mockModule("fs", createMockFs);
 
 const fs = await import("fs");
+const { ValidationError } = await import("../src/errors.js");
 const {
 	validateMergeMethod,
 	validateAutoMergeStrategy,
 	validateUpdateStrategy,
+	validateRebaseStrategy,
+	validateCommitMode,
+	validateInstaller,
 	validateWorkspacePath,
 	validateRegistryUrl,
 	validateBranchPrefix,
+	validateRepository,
+	validateGitHubRepositoryName,
+	validateReleaseRef,
+	validateProjectPath,
+	validateGitHost,
 	parseCommaSeparatedList,
 	parseNewlineSeparatedList,
 	validateScanDirectories,
+	validateExtensionPattern,
+	validateVersionRange,
+	validateExtensionFilter,
+	findUnmatchedPatterns,
+	validateGroupName,
+	validateGroupUpdateTypes,
+	parseCooldown,
+	parseWholeNumber,
 } = await import("../src/validation.js");
 
 describe("validateMergeMethod", () => {
@@ -58,6 +75,39 @@ describe("validateUpdateStrategy", () => {
 	});
 });
 
+describe("validateRebaseStrategy", () => {
+	it("should accept valid rebase strategies", () => {
+		expect(() => validateRebaseStrategy("auto")).not.toThrow();
+		expect(() => validateRebaseStrategy("disabled")).not.toThrow();
+	});
+
+	it("should reject invalid rebase strategies", () => {
+		expect(() => validateRebaseStrategy("always")).toThrow("Invalid rebase strategy: 'always'");
+	});
+});
+
+describe("validateCommitMode", () => {
+	it("should accept valid commit modes", () => {
+		expect(() => validateCommitMode("api")).not.toThrow();
+		expect(() => validateCommitMode("git")).not.toThrow();
+	});
+
+	it("should reject invalid commit modes", () => {
+		expect(() => validateCommitMode("ssh")).toThrow("Invalid commit mode: 'ssh'");
+	});
+});
+
+describe("validateInstaller", () => {
+	it("should accept valid installers", () => {
+		expect(() => validateInstaller("quarto")).not.toThrow();
+		expect(() => validateInstaller("builtin")).not.toThrow();
+	});
+
+	it("should reject invalid installers", () => {
+		expect(() => validateInstaller("npm")).toThrow("Invalid installer: 'npm'");
+	});
+});
+
 describe("validateWorkspacePath", () => {
 	it("should accept valid workspace paths", () => {
 		expect(() => validateWorkspacePath("/valid/path")).not.toThrow();
@@ -88,6 +138,74 @@ describe("validateRegistryUrl", () => {
 	});
 });
 
+describe("validateRepository", () => {
+	it("should accept owner/repo names", () => {
+		expect(() => validateRepository("mcanouil/quarto-iconify", "repository")).not.toThrow();
+		expect(() => validateRepository("quarto-ext/lightbox.lua", "repository")).not.toThrow();
+	});
+
+	it("should reject names that are not owner/repo", () => {
+		expect(() => validateRepository("quarto-iconify", "repository")).toThrow("Invalid repository: 'quarto-iconify'");
+		expect(() => validateRepository("owner/repo/extra", "repository")).toThrow("Invalid repository");
+		expect(() => validateRepository("owner/repo name", "repository")).toThrow("Invalid repository");
+	});
+});
+
+describe("validateGitHubRepositoryName", () => {
+	it("should accept GitHub owner/repo names", () => {
+		expect(() => validateGitHubRepositoryName("mcanouil/quarto-iconify", "repository")).not.toThrow();
+		expect(() => validateGitHubRepositoryName("quarto-ext/lightbox.lua_2", "repository")).not.toThrow();
+	});
+
+	it("should reject names GitHub does not allow or a shell would interpret", () => {
+		expect(() => validateGitHubRepositoryName("owner/repo; rm -rf ~", "repository")).toThrow(
+			"Invalid GitHub repository: 'owner/repo; rm -rf ~'",
+		);
+		expect(() => validateGitHubRepositoryName("-owner/repo", "repository")).toThrow(ValidationError);
+		expect(() => validateGitHubRepositoryName("owner/..", "repository")).toThrow(ValidationError);
+		expect(() => validateGitHubRepositoryName("owner/$(id)", "repository")).toThrow(ValidationError);
+	});
+});
+
+describe("validateReleaseRef", () => {
+	it("should accept tags, branches, and commit SHAs", () => {
+		expect(() => validateReleaseRef("v1.2.3-rc.1+build.5", "version")).not.toThrow();
+		expect(() => validateReleaseRef("feature/new-filter", "version")).not.toThrow();
+		expect(() => validateReleaseRef("9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d", "version")).not.toThrow();
+	});
+
+	it("should reject refs that look like options or hold shell or path syntax", () => {
+		expect(() => validateReleaseRef("--help", "version")).toThrow("Invalid release ref: '--help'");
+		expect(() => validateReleaseRef("1.0.0 && id", "version")).toThrow(ValidationError);
+		expect(() => validateReleaseRef("v1/../../main", "version")).toThrow(ValidationError);
+		expect(() => validateReleaseRef("", "version")).toThrow(ValidationError);
+	});
+});
+
+describe("validateProjectPath", () => {
+	it("should accept group/project paths with any number of subgroups", () => {
+		expect(() => validateProjectPath("mcanouil/quarto-iconify", "repository")).not.toThrow();
+		expect(() => validateProjectPath("group/subgroup/project", "repository")).not.toThrow();
+	});
+
+	it("should reject paths without a group", () => {
+		expect(() => validateProjectPath("project", "repository")).toThrow("Invalid project path: 'project'");
+		expect(() => validateProjectPath("group//project", "repository")).toThrow("Invalid project path");
+	});
+});
+
+describe("validateGitHost", () => {
+	it("should accept the supported hosts", () => {
+		expect(() => validateGitHost("github")).not.toThrow();
+		expect(() => validateGitHost("gitlab")).not.toThrow();
+		expect(() => validateGitHost("gitea")).not.toThrow();
+	});
+
+	it("should reject other hosts", () => {
+		expect(() => validateGitHost("bitbucket")).toThrow("Invalid Git host: 'bitbucket'");
+	});
+});
+
 describe("validateBranchPrefix", () => {
 	it("should accept valid branch prefixes", () => {
 		expect(() => validateBranchPrefix("feature/branch")).not.toThrow();
@@ -116,6 +234,49 @@ describe("validateBranchPrefix", () => {
 	});
 });
 
+describe("parseWholeNumber", () => {
+	it("should accept whole numbers from inputs and the configuration file", () => {
+		expect(parseWholeNumber("5", "open-pull-requests-limit", "pull request limit", 0)).toBe(5);
+		expect(parseWholeNumber(0, "open-pull-requests-limit", "pull request limit", 0)).toBe(0);
+		expect(parseWholeNumber(" 600 ", "install-timeout", "install timeout", 1)).toBe(600);
+	});
+
+	it("should reject anything else, naming the setting", () => {
+		expect(() => parseWholeNumber("five", "open-pull-requests-limit", "pull request limit", 0)).toThrow(
+			"Invalid pull request limit: 'five'. Must be a whole number, 0 or more",
+		);
+		expect(() => parseWholeNumber(-1, "open-pull-requests-limit", "pull request limit", 0)).toThrow(ValidationError);
+		expect(() => parseWholeNumber(2.5, "open-pull-requests-limit", "pull request limit", 0)).toThrow(ValidationError);
+		expect(() => parseWholeNumber("5m", "install-timeout", "install timeout", 1)).toThrow(ValidationError);
+	});
+
+	it("should reject numbers below the minimum", () => {
+		expect(() => parseWholeNumber("0", "install-timeout", "install timeout", 1)).toThrow(
+			"Invalid install timeout: '0'. Must be a whole number, 1 or more",
+		);
+		expect(() => parseWholeNumber(0, "install-concurrency", "install concurrency", 1)).toThrow(ValidationError);
+	});
+});
+
+describe("parseCooldown", () => {
+	it("should apply a single number of days to every update type", () => {
+		expect(parseCooldown(7, "cooldown")).toEqual({ major: 7, minor: 7, patch: 7 });
+		expect(parseCooldown("3", "cooldown")).toEqual({ major: 3, minor: 3, patch: 3 });
+	});
+
+	it("should read per-type periods, with default for the types not listed", () => {
+		expect(parseCooldown("major=14, minor=7", "cooldown")).toEqual({ major: 14, minor: 7, patch: 0 });
+		expect(parseCooldown({ default: 2, major: 10 }, "cooldown")).toEqual({ major: 10, minor: 2, patch: 2 });
+	});
+
+	it("should reject unknown keys and invalid periods", () => {
+		expect(() => parseCooldown("prerelease=3", "cooldown")).toThrow("Invalid cooldown key: 'prerelease'");
+		expect(() => parseCooldown({ major: -1 }, "cooldown")).toThrow("Invalid cooldown: '-1'");
+		expect(() => parseCooldown("major=1.5", "cooldown")).toThrow("Invalid cooldown: '1.5'");
+		expect(() => parseCooldown(["7"], "cooldown")).toThrow(ValidationError);
+	});
+});
+
 describe("parseCommaSeparatedList", () => {
 	it("should parse valid comma-separated lists", () => {
 		expect(parseCommaSeparatedList("item1,item2,item3")).toEqual(["item1", "item2", "item3"]);
@@ -201,3 +362,90 @@ describe("validateScanDirectories", () => {
 		expect(mockFs.existsSync).toHaveBeenCalledTimes(3);
 	});
 });
+
+describe("validateExtensionPattern", () => {
+	it("should accept exact names and glob patterns", () => {
+		expect(() => validateExtensionPattern("mcanouil/iconify", "extensions")).not.toThrow();
+		expect(() => validateExtensionPattern("quarto-ext/*", "extensions")).not.toThrow();
+		expect(() => validateExtensionPattern("*/font?awesome", "extensions")).not.toThrow();
+	});
+
+	it("should reject patterns that are not of the form owner/name", () => {
+		expect(() => validateExtensionPattern("iconify", "extensions")).toThrow("Invalid extension pattern: 'iconify'");
+		expect(() => validateExtensionPattern("a/b/c", "extensions")).toThrow("Invalid extension pattern: 'a/b/c'");
+		expect(() => validateExtensionPattern("owner/ name", "extensions")).toThrow("Invalid extension pattern");
+	});
+});
+
+describe("validateVersionRange", () => {
+	it("should accept semver ranges", () => {
+		expect(() => validateVersionRange("^2", "pin")).not.toThrow();
+		expect(() => validateVersionRange(">=1.2.0 <2.0.0", "pin")).not.toThrow();
+		expect(() => validateVersionRange("1.x", "pin")).not.toThrow();
+	});
+
+	it("should reject invalid ranges", () => {
+		expect(() => validateVersionRange("latest", "pin")).toThrow("Invalid version range: 'latest'");
+	});
+});
+
+describe("validateExtensionFilter", () => {
+	it("should accept exact names, wildcards, and negations", () => {
+		expect(() =>
+			validateExtensionFilter(
+				["mcanouil/iconify", "quarto-ext/*", "*/fontawesome", "!quarto-ext/lightbox"],
+				"include-extensions",
+			),
+		).not.toThrow();
+	});
+
+	it("should name the input of an invalid pattern", () => {
+		try {
+			validateExtensionFilter(["quarto-ext/*", "!lightbox"], "exclude-extensions");
+			throw new Error("Expected validateExtensionFilter to throw");
+		} catch (error) {
+			expect(error).toBeInstanceOf(ValidationError);
+			expect((error as InstanceType<typeof ValidationError>).field).toBe("exclude-extensions");
+		}
+	});
+});
+
+describe("findUnmatchedPatterns", () => {
+	it("should return the patterns, as written, that match no installed extension", () => {
+		const installed = ["quarto-ext/lightbox", "mcanouil/iconify"];
+
+		expect(findUnmatchedPatterns(["quarto-ext/*", "!quarto-ext/lightbx", "*/fontawesome"], installed)).toEqual([
+			"!quarto-ext/lightbx",
+			"*/fontawesome",
+		]);
+	});
+});
+
+describe("validateGroupName", () => {
+	it("should accept names usable in a branch name", () => {
+		expect(() => validateGroupName("quarto-ext", "groups.quarto-ext")).not.toThrow();
+		expect(() => validateGroupName("non_major.v2", "groups.non_major.v2")).not.toThrow();
+	});
+
+	it("should reject names with other characters", () => {
+		expect(() => validateGroupName("docs/site", "groups.docs/site")).toThrow("Invalid group name: 'docs/site'");
+		expect(() => validateGroupName("two words", "groups.two words")).toThrow("Invalid group name: 'two words'");
+	});
+});
+
+describe("validateGroupUpdateTypes", () => {
+	it("should accept major, minor and patch", () => {
+		expect(() => validateGroupUpdateTypes(["major", "minor", "patch"], "groups.all.update-types")).not.toThrow();
+	});
+
+	it("should reject other types and name the field", () => {
+		try {
+			validateGroupUpdateTypes(["minor", "all"], "groups.all.update-types");
+			throw new Error("Expected validateGroupUpdateTypes to throw");
+		} catch (error) {
+			expect(error).toBeInstanceOf(ValidationError);
+			expect((error as Error).message).toContain("Invalid update type: 'all'");
+			expect((error as InstanceType<typeof ValidationError>).field).toBe("groups.all.update-types");
+		}
+	});
+});